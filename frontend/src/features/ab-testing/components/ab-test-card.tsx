@@ -0,0 +1,117 @@
+import { AbTestMetric } from "@shared/constants/status.constants";
+import {
+	AB_TEST_DEFAULTS,
+	type Campaign,
+	type CampaignVariant,
+} from "@shared/types/campaign.types";
+import type { VariantStats } from "@shared/types/variant-stats.types";
+import { FlaskConical, Trophy } from "lucide-react";
+import { useAbTest } from "../hooks/use-ab-test";
+import { VariantsDialog } from "./variants-dialog";
+
+const METRIC_LABELS: Record<string, string> = {
+	[AbTestMetric.OPEN_RATE]: "open rate",
+	[AbTestMetric.CLICK_RATE]: "click rate",
+	[AbTestMetric.REPLY_RATE]: "reply rate",
+};
+
+interface AbTestCardProps {
+	campaign: Campaign | null;
+}
+
+export function AbTestCard({ campaign }: AbTestCardProps) {
+	const { stats, isLoading, saveConfig, isSaving } = useAbTest(campaign);
+
+	if (!campaign) return null;
+
+	const { variants } = campaign;
+
+	return (
+		<div className="bg-card border rounded-xl p-6 shadow-sm">
+			<div className="flex items-center justify-between mb-4">
+				<h3 className="font-semibold flex items-center gap-2">
+					<FlaskConical className="h-4 w-4" /> A/B Test
+				</h3>
+				<VariantsDialog campaign={campaign} onSave={saveConfig} isSaving={isSaving} />
+			</div>
+
+			{variants.length === 0 ? (
+				<div className="text-muted-foreground text-sm italic">
+					No variants. Every lead gets the campaign template.
+				</div>
+			) : isLoading ? (
+				<div className="text-muted-foreground text-sm italic">Loading...</div>
+			) : (
+				<div className="space-y-3 text-sm">
+					{variants.map((variant) => (
+						<VariantRow
+							key={variant.id}
+							variant={variant}
+							stats={stats.find((s) => s.variantId === variant.id)}
+							isWinner={variant.id === campaign.winningVariantId}
+						/>
+					))}
+					<p className="text-xs text-muted-foreground pt-1">{describeTest(campaign)}</p>
+				</div>
+			)}
+		</div>
+	);
+}
+
+function describeTest(campaign: Campaign): string {
+	if (!campaign.abTestSampleSize) return "No sample size set; variants keep their split.";
+	if (campaign.abTestDecidedAt && !campaign.winningVariantId) {
+		return "No clear winner; variants keep their split.";
+	}
+	if (campaign.abTestSampleSentAt && !campaign.abTestDecidedAt) {
+		const sentAt = new Date(campaign.abTestSampleSentAt).getTime();
+		const hours = campaign.abTestEvaluateAfterHours ?? AB_TEST_DEFAULTS.evaluateAfterHours;
+		const maxHours = Math.max(hours, campaign.abTestMaxWaitHours ?? AB_TEST_DEFAULTS.maxWaitHours);
+		const evaluateAt = new Date(sentAt + hours * 3600000);
+		const decideBy = new Date(sentAt + maxHours * 3600000);
+		return `Sample sent; waiting for results from ${evaluateAt.toLocaleString()}, decided by ${decideBy.toLocaleString()} at the latest.`;
+	}
+
+	const metric = METRIC_LABELS[campaign.abTestWinnerMetric] ?? "open rate";
+	const then = campaign.abTestAutoWinner ? ", then sent to all remaining leads" : "";
+	return `Winner by ${metric} after ${campaign.abTestSampleSize} sends${then}.`;
+}
+
+function VariantRow({
+	variant,
+	stats,
+	isWinner,
+}: {
+	variant: CampaignVariant;
+	stats?: VariantStats;
+	isWinner: boolean;
+}) {
+	const sent = stats?.sent ?? 0;
+	const rate = (count = 0) => (sent > 0 ? `${((count / sent) * 100).toFixed(1)}%` : "-");
+
+	return (
+		<div className="space-y-1 border-b pb-2 last:border-b-0">
+			<div className="flex items-center justify-between gap-2">
+				<span className="font-medium truncate">
+					{variant.id} · {variant.name}
+				</span>
+				<span className="flex items-center gap-2 shrink-0 text-xs text-muted-foreground">
+					{isWinner && (
+						<span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-medium border bg-green-100 text-green-800 border-green-200">
+							<Trophy className="h-3 w-3" /> Winner
+						</span>
+					)}
+					{variant.splitPercent}% split
+				</span>
+			</div>
+			<div className="grid grid-cols-3 gap-x-4 gap-y-0.5 text-xs text-muted-foreground">
+				<span>Sent {sent}</span>
+				<span>Delivered {rate(stats?.delivered)}</span>
+				<span>Opens {rate(stats?.opens)}</span>
+				<span>Clicks {rate(stats?.clicks)}</span>
+				<span>Replies {rate(stats?.replies)}</span>
+				<span>Bounces {rate(stats?.bounces)}</span>
+			</div>
+		</div>
+	);
+}
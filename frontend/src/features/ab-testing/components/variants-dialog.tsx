@@ -0,0 +1,355 @@
+import { AbTestMetric, type AbTestMetricType } from "@shared/constants/status.constants";
+import {
+	AB_TEST_DEFAULTS,
+	type Campaign,
+	type CampaignVariant,
+} from "@shared/types/campaign.types";
+import { FlaskConical, Loader2, Plus, Settings2, Trash2 } from "lucide-react";
+import { useId, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import type { AbTestConfig } from "../hooks/use-ab-test";
+
+interface VariantsDialogProps {
+	campaign: Campaign;
+	onSave: (config: AbTestConfig) => Promise<void>;
+	isSaving: boolean;
+}
+
+interface VariantForm {
+	id: string;
+	name: string;
+	subjectTemplate: string;
+	bodyTemplate: string;
+	splitPercent: string;
+}
+
+/**
+ * First unused letter, so IDs stay short and stable in SES tags.
+ */
+function nextVariantId(variants: VariantForm[]): string {
+	const used = new Set(variants.map((v) => v.id));
+	for (let code = 65; code <= 90; code++) {
+		const id = String.fromCharCode(code);
+		if (!used.has(id)) return id;
+	}
+	return `V${variants.length + 1}`;
+}
+
+const optional = (value: number | null | undefined) => (value == null ? "" : String(value));
+
+/**
+ * Whole number of at least 0, or null for blank (use the default)
+ */
+const toCount = (value: string) => {
+	if (!value.trim()) return null;
+	const parsed = Number(value);
+	return Number.isInteger(parsed) && parsed >= 0 ? parsed : undefined;
+};
+
+function toForm(campaign: Campaign) {
+	return {
+		variants: campaign.variants.map((v) => ({ ...v, splitPercent: String(v.splitPercent) })),
+		sampleSize: campaign.abTestSampleSize ? String(campaign.abTestSampleSize) : "",
+		metric: campaign.abTestWinnerMetric ?? AbTestMetric.OPEN_RATE,
+		autoWinner: campaign.abTestAutoWinner ?? false,
+		evaluateAfterHours: optional(campaign.abTestEvaluateAfterHours),
+		minEvents: optional(campaign.abTestMinEvents),
+		maxWaitHours: optional(campaign.abTestMaxWaitHours),
+	};
+}
+
+export function VariantsDialog({ campaign, onSave, isSaving }: VariantsDialogProps) {
+	const [open, setOpen] = useState(false);
+	const [formData, setFormData] = useState(() => toForm(campaign));
+	const [error, setError] = useState<string | null>(null);
+	const id = useId();
+
+	const handleOpenChange = (next: boolean) => {
+		if (next) {
+			setFormData(toForm(campaign));
+			setError(null);
+		}
+		setOpen(next);
+	};
+
+	const updateVariant = (index: number, patch: Partial<VariantForm>) => {
+		setFormData({
+			...formData,
+			variants: formData.variants.map((v, i) => (i === index ? { ...v, ...patch } : v)),
+		});
+	};
+
+	const addVariant = () => {
+		const variantId = nextVariantId(formData.variants);
+		setFormData({
+			...formData,
+			variants: [
+				...formData.variants,
+				{
+					id: variantId,
+					name: `Variant ${variantId}`,
+					// Start from the campaign's own template
+					subjectTemplate: campaign.subjectTemplate,
+					bodyTemplate: campaign.bodyTemplate,
+					splitPercent: "50",
+				},
+			],
+		});
+	};
+
+	const removeVariant = (index: number) => {
+		setFormData({ ...formData, variants: formData.variants.filter((_, i) => i !== index) });
+	};
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+
+		const variants: CampaignVariant[] = formData.variants.map((v) => ({
+			id: v.id,
+			name: v.name.trim(),
+			subjectTemplate: v.subjectTemplate,
+			bodyTemplate: v.bodyTemplate,
+			splitPercent: Number(v.splitPercent) || 0,
+		}));
+
+		if (variants.length === 1) {
+			setError("Add at least two variants, or remove the last one to turn the test off");
+			return;
+		}
+		if (variants.some((v) => !v.name || !v.subjectTemplate.trim() || !v.bodyTemplate.trim())) {
+			setError("Every variant needs a name, subject and body");
+			return;
+		}
+		if (variants.length > 0 && variants.every((v) => v.splitPercent <= 0)) {
+			setError("At least one variant needs a split above 0%");
+			return;
+		}
+
+		const sampleSize = Number(formData.sampleSize);
+		const evaluateAfterHours = toCount(formData.evaluateAfterHours);
+		const minEvents = toCount(formData.minEvents);
+		const maxWaitHours = toCount(formData.maxWaitHours);
+		if (evaluateAfterHours === undefined || minEvents === undefined || maxWaitHours === undefined) {
+			setError(
+				"Evaluation wait, minimum events and maximum wait must be whole numbers of 0 or more"
+			);
+			return;
+		}
+
+		try {
+			await onSave({
+				variants,
+				abTestSampleSize: sampleSize >= 1 ? Math.floor(sampleSize) : null,
+				abTestWinnerMetric: formData.metric,
+				abTestAutoWinner: formData.autoWinner,
+				abTestEvaluateAfterHours: evaluateAfterHours,
+				abTestMinEvents: minEvents,
+				abTestMaxWaitHours: maxWaitHours,
+			});
+			setError(null);
+			setOpen(false);
+		} catch {
+			// Error is handled by the mutation
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={handleOpenChange}>
+			<DialogTrigger asChild>
+				<Button variant="outline" size="sm" className="gap-2">
+					<Settings2 className="h-4 w-4" />
+					Configure
+				</Button>
+			</DialogTrigger>
+
+			<DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+				<DialogHeader>
+					<DialogTitle className="flex items-center gap-2 text-xl">
+						<FlaskConical className="h-5 w-5 text-primary" />
+						A/B Variants
+					</DialogTitle>
+					<DialogDescription>
+						Initial emails are split across variants by percentage. Follow-up steps are the same for
+						every variant.
+					</DialogDescription>
+				</DialogHeader>
+
+				<form onSubmit={handleSubmit} className="space-y-4 py-4">
+					{formData.variants.map((variant, index) => (
+						<div key={variant.id} className="space-y-3 rounded-lg border p-4">
+							<div className="flex items-end gap-3">
+								<div className="space-y-2 flex-1">
+									<Label htmlFor={`${id}-${variant.id}-name`}>Variant {variant.id} name</Label>
+									<Input
+										id={`${id}-${variant.id}-name`}
+										value={variant.name}
+										onChange={(e) => updateVariant(index, { name: e.target.value })}
+									/>
+								</div>
+								<div className="space-y-2 w-24">
+									<Label htmlFor={`${id}-${variant.id}-split`}>Split %</Label>
+									<Input
+										id={`${id}-${variant.id}-split`}
+										type="number"
+										min="0"
+										value={variant.splitPercent}
+										onChange={(e) => updateVariant(index, { splitPercent: e.target.value })}
+									/>
+								</div>
+								<Button
+									type="button"
+									variant="ghost"
+									size="icon"
+									onClick={() => removeVariant(index)}
+									title="Remove variant"
+								>
+									<Trash2 className="h-4 w-4" />
+								</Button>
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor={`${id}-${variant.id}-subject`}>Subject</Label>
+								<Input
+									id={`${id}-${variant.id}-subject`}
+									value={variant.subjectTemplate}
+									onChange={(e) => updateVariant(index, { subjectTemplate: e.target.value })}
+									className="font-mono"
+								/>
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor={`${id}-${variant.id}-body`}>Body</Label>
+								<Textarea
+									id={`${id}-${variant.id}-body`}
+									value={variant.bodyTemplate}
+									onChange={(e) => updateVariant(index, { bodyTemplate: e.target.value })}
+									className="font-mono min-h-[120px]"
+								/>
+							</div>
+						</div>
+					))}
+
+					<Button type="button" variant="outline" size="sm" className="gap-2" onClick={addVariant}>
+						<Plus className="h-4 w-4" />
+						Add Variant
+					</Button>
+
+					<div className="grid grid-cols-2 gap-4">
+						<div className="space-y-2">
+							<Label htmlFor={`${id}-sample`}>Sample size (sends)</Label>
+							<Input
+								id={`${id}-sample`}
+								type="number"
+								min="1"
+								placeholder="No winner"
+								value={formData.sampleSize}
+								onChange={(e) => setFormData({ ...formData, sampleSize: e.target.value })}
+							/>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor={`${id}-metric`}>Winner metric</Label>
+							<Select
+								value={formData.metric}
+								onValueChange={(value) =>
+									setFormData({ ...formData, metric: value as AbTestMetricType })
+								}
+							>
+								<SelectTrigger id={`${id}-metric`} className="w-full">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value={AbTestMetric.OPEN_RATE}>Open rate</SelectItem>
+									<SelectItem value={AbTestMetric.CLICK_RATE}>Click rate</SelectItem>
+									<SelectItem value={AbTestMetric.REPLY_RATE}>Reply rate</SelectItem>
+								</SelectContent>
+							</Select>
+						</div>
+					</div>
+
+					<div className="grid grid-cols-3 gap-4">
+						<div className="space-y-2">
+							<Label htmlFor={`${id}-wait`}>Evaluate after (hours)</Label>
+							<Input
+								id={`${id}-wait`}
+								type="number"
+								min="0"
+								placeholder={String(AB_TEST_DEFAULTS.evaluateAfterHours)}
+								value={formData.evaluateAfterHours}
+								onChange={(e) => setFormData({ ...formData, evaluateAfterHours: e.target.value })}
+							/>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor={`${id}-events`}>Min events per variant</Label>
+							<Input
+								id={`${id}-events`}
+								type="number"
+								min="0"
+								placeholder={String(AB_TEST_DEFAULTS.minEvents)}
+								value={formData.minEvents}
+								onChange={(e) => setFormData({ ...formData, minEvents: e.target.value })}
+							/>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor={`${id}-max-wait`}>Decide by (hours)</Label>
+							<Input
+								id={`${id}-max-wait`}
+								type="number"
+								min="0"
+								placeholder={String(AB_TEST_DEFAULTS.maxWaitHours)}
+								value={formData.maxWaitHours}
+								onChange={(e) => setFormData({ ...formData, maxWaitHours: e.target.value })}
+							/>
+						</div>
+					</div>
+					<p className="text-xs text-muted-foreground">
+						After the sample is sent, the test waits this long and until every variant has this many
+						opens, clicks or replies (per the metric), but no longer than the decide-by time, when
+						the results so far are used. Leads keep their split until then, and if variants tie no
+						winner is picked.
+					</p>
+
+					<div className="flex items-center justify-between gap-4">
+						<Label htmlFor={`${id}-auto`} className="font-normal">
+							Send the winner to all remaining leads once it is picked
+						</Label>
+						<Switch
+							id={`${id}-auto`}
+							checked={formData.autoWinner}
+							onCheckedChange={(checked) => setFormData({ ...formData, autoWinner: checked })}
+						/>
+					</div>
+
+					{error && <p className="text-xs text-destructive">{error}</p>}
+
+					<DialogFooter className="pt-4">
+						<Button type="button" variant="outline" onClick={() => setOpen(false)}>
+							Cancel
+						</Button>
+						<Button type="submit" disabled={isSaving} className="gap-2">
+							{isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+							{isSaving ? "Saving..." : "Save"}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
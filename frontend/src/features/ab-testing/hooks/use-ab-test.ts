@@ -0,0 +1,80 @@
+import { CollectionId, DATABASE_ID } from "@shared/constants/collection.constants";
+import type { AbTestMetricType } from "@shared/constants/status.constants";
+import type { Campaign, CampaignVariant } from "@shared/types/campaign.types";
+import type { VariantStats } from "@shared/types/variant-stats.types";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Query } from "appwrite";
+import { toast } from "sonner";
+import { useRealtimeSubscription } from "@/features/shared/hooks/use-realtime";
+import { databases } from "@/lib/appwrite";
+import { campaignKeys, variantStatsKeys } from "@/lib/query-keys";
+
+export interface AbTestConfig {
+	variants: CampaignVariant[];
+	abTestSampleSize: number | null;
+	abTestWinnerMetric: AbTestMetricType;
+	abTestAutoWinner: boolean;
+	abTestEvaluateAfterHours: number | null;
+	abTestMinEvents: number | null;
+	abTestMaxWaitHours: number | null;
+}
+
+export function useAbTest(campaign: Campaign | null) {
+	const queryClient = useQueryClient();
+	const campaignId = campaign?.$id;
+
+	const { data: stats = [], isLoading } = useQuery({
+		queryKey: variantStatsKeys.list(campaignId),
+		queryFn: async () => {
+			const response = await databases.listDocuments(DATABASE_ID, CollectionId.VARIANT_STATS, [
+				Query.equal("campaignId", campaignId ?? ""),
+				Query.limit(100),
+			]);
+			return response.documents as unknown as VariantStats[];
+		},
+		enabled: !!campaignId && (campaign?.variants.length ?? 0) > 0,
+		staleTime: 1000 * 60,
+	});
+
+	const { mutateAsync: saveConfig, isPending: isSaving } = useMutation({
+		mutationFn: async (config: AbTestConfig) => {
+			if (!campaign) throw new Error("No active campaign");
+
+			// A removed winner can't keep receiving leads; let the test decide again
+			const winnerKept = config.variants.some((v) => v.id === campaign.winningVariantId);
+
+			await databases.updateDocument(DATABASE_ID, CollectionId.CAMPAIGNS, campaign.$id, {
+				...config,
+				variants: JSON.stringify(config.variants),
+				winningVariantId: winnerKept ? campaign.winningVariantId : null,
+				abTestDecidedAt: winnerKept ? campaign.abTestDecidedAt : null,
+			});
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: campaignKeys.list() });
+			toast.success("A/B test saved");
+		},
+		onError: (error) => {
+			console.error(error);
+			toast.error("Failed to save A/B test");
+		},
+	});
+
+	useRealtimeSubscription(
+		`databases.${DATABASE_ID}.collections.${CollectionId.VARIANT_STATS}.documents`,
+		(response) => {
+			const updated = response.payload as unknown as VariantStats;
+			if (updated.campaignId === campaignId) {
+				queryClient.invalidateQueries({ queryKey: variantStatsKeys.list(campaignId) });
+			}
+		},
+		!!campaignId
+	);
+
+	return {
+		stats,
+		isLoading,
+		saveConfig,
+		isSaving,
+	};
+}
@@ -0,0 +1,244 @@
+import { CampaignStatus } from "@shared/constants/status.constants";
+import type { Campaign } from "@shared/types/campaign.types";
+import { Link } from "@tanstack/react-router";
+import { format } from "date-fns";
+import {
+	Archive,
+	ArchiveRestore,
+	Copy,
+	FileText,
+	LayoutDashboard,
+	Loader2,
+	MoreHorizontal,
+	Trash2,
+} from "lucide-react";
+import { useState } from "react";
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuSeparator,
+	DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { isActiveCampaign } from "@/features/shared/hooks/use-campaigns";
+import { useManageCampaigns } from "../hooks/use-manage-campaigns";
+
+interface CampaignsTableProps {
+	campaigns: Campaign[];
+	isLoading: boolean;
+}
+
+export function CampaignsTable({ campaigns, isLoading }: CampaignsTableProps) {
+	const { cloneCampaign, setArchived, deleteCampaign, isDeleting } = useManageCampaigns();
+	const [campaignToDelete, setCampaignToDelete] = useState<Campaign | null>(null);
+
+	const confirmDelete = async () => {
+		if (!campaignToDelete) return;
+		try {
+			await deleteCampaign(campaignToDelete.$id);
+			setCampaignToDelete(null);
+		} catch {
+			// Error is handled by the mutation
+		}
+	};
+
+	return (
+		<div className="rounded-md border bg-card">
+			<Table>
+				<TableHeader>
+					<TableRow>
+						<TableHead>Campaign</TableHead>
+						<TableHead>Status</TableHead>
+						<TableHead className="text-right">Sent</TableHead>
+						<TableHead className="text-right">Skipped</TableHead>
+						<TableHead className="text-right">Errors</TableHead>
+						<TableHead>Created</TableHead>
+						<TableHead className="w-[50px]" />
+					</TableRow>
+				</TableHeader>
+				<TableBody>
+					{isLoading ? (
+						<TableRow>
+							<TableCell colSpan={7} className="h-24 text-center text-muted-foreground">
+								Loading...
+							</TableCell>
+						</TableRow>
+					) : campaigns.length === 0 ? (
+						<TableRow>
+							<TableCell colSpan={7} className="h-24 text-center text-muted-foreground">
+								No campaigns yet.
+							</TableCell>
+						</TableRow>
+					) : (
+						campaigns.map((campaign) => (
+							<TableRow key={campaign.$id} className={campaign.archivedAt ? "opacity-60" : ""}>
+								<TableCell>
+									<div className="font-medium">{campaign.name}</div>
+									<div className="text-xs text-muted-foreground">
+										{campaign.senderName} &lt;{campaign.senderEmail}&gt;
+									</div>
+								</TableCell>
+								<TableCell>
+									<div className="flex items-center gap-1.5">
+										<CampaignStatusBadge status={campaign.status} />
+										{campaign.archivedAt && <Badge variant="outline">Archived</Badge>}
+									</div>
+								</TableCell>
+								<TableCell className="text-right tabular-nums">
+									{campaign.processedCount}/{campaign.totalLeads}
+								</TableCell>
+								<TableCell className="text-right tabular-nums">{campaign.skippedCount}</TableCell>
+								<TableCell className="text-right tabular-nums">{campaign.errorCount}</TableCell>
+								<TableCell className="text-muted-foreground">
+									{format(new Date(campaign.$createdAt), "PP")}
+								</TableCell>
+								<TableCell>
+									<CampaignActions
+										campaign={campaign}
+										onClone={() => cloneCampaign(campaign.$id)}
+										onArchive={(archived) => setArchived({ campaignId: campaign.$id, archived })}
+										onDelete={() => setCampaignToDelete(campaign)}
+									/>
+								</TableCell>
+							</TableRow>
+						))
+					)}
+				</TableBody>
+			</Table>
+
+			<AlertDialog
+				open={campaignToDelete !== null}
+				onOpenChange={(open) => !open && setCampaignToDelete(null)}
+			>
+				<AlertDialogContent>
+					<AlertDialogHeader>
+						<AlertDialogTitle>Delete campaign?</AlertDialogTitle>
+						<AlertDialogDescription>
+							This will permanently delete{" "}
+							<span className="font-medium text-foreground">{campaignToDelete?.name}</span>. Its
+							leads are released so they can be assigned to another campaign.
+						</AlertDialogDescription>
+					</AlertDialogHeader>
+					<AlertDialogFooter>
+						<AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+						<AlertDialogAction
+							onClick={(e) => {
+								e.preventDefault();
+								confirmDelete();
+							}}
+							disabled={isDeleting}
+							className="bg-destructive text-destructive-foreground hover:bg-destructive/90 gap-2"
+						>
+							{isDeleting && <Loader2 className="h-4 w-4 animate-spin" />}
+							{isDeleting ? "Deleting..." : "Delete"}
+						</AlertDialogAction>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
+		</div>
+	);
+}
+
+interface CampaignActionsProps {
+	campaign: Campaign;
+	onClone: () => void;
+	onArchive: (archived: boolean) => void;
+	onDelete: () => void;
+}
+
+function CampaignActions({ campaign, onClone, onArchive, onDelete }: CampaignActionsProps) {
+	// The server enforces these too; in-flight campaigns must be aborted or finish first
+	const inFlight = isActiveCampaign(campaign) || campaign.status === CampaignStatus.ABORTING;
+	const hasSent = campaign.processedCount > 0;
+
+	return (
+		<DropdownMenu>
+			<DropdownMenuTrigger asChild>
+				<Button variant="ghost" size="icon" className="h-8 w-8" title="Campaign actions">
+					<MoreHorizontal className="h-4 w-4" />
+				</Button>
+			</DropdownMenuTrigger>
+			<DropdownMenuContent align="end">
+				<DropdownMenuItem asChild disabled={!!campaign.archivedAt}>
+					<Link to="/" search={{ campaign: campaign.$id }}>
+						<LayoutDashboard className="h-4 w-4" />
+						Open in Dashboard
+					</Link>
+				</DropdownMenuItem>
+				<DropdownMenuItem asChild>
+					<Link to="/templates" search={{ campaign: campaign.$id }}>
+						<FileText className="h-4 w-4" />
+						Edit Templates
+					</Link>
+				</DropdownMenuItem>
+				<DropdownMenuItem onClick={onClone}>
+					<Copy className="h-4 w-4" />
+					Clone
+				</DropdownMenuItem>
+				<DropdownMenuSeparator />
+				{campaign.archivedAt ? (
+					<DropdownMenuItem onClick={() => onArchive(false)}>
+						<ArchiveRestore className="h-4 w-4" />
+						Restore
+					</DropdownMenuItem>
+				) : (
+					<DropdownMenuItem disabled={inFlight} onClick={() => onArchive(true)}>
+						<Archive className="h-4 w-4" />
+						Archive
+					</DropdownMenuItem>
+				)}
+				<DropdownMenuItem
+					disabled={inFlight || hasSent}
+					onClick={onDelete}
+					className="text-destructive focus:text-destructive"
+					title={hasSent ? "Campaigns that have sent can only be archived" : undefined}
+				>
+					<Trash2 className="h-4 w-4" />
+					Delete
+				</DropdownMenuItem>
+			</DropdownMenuContent>
+		</DropdownMenu>
+	);
+}
+
+function CampaignStatusBadge({ status }: { status: string }) {
+	let variant: "default" | "secondary" | "destructive" | "outline" = "outline";
+
+	switch (status) {
+		case CampaignStatus.RUNNING:
+		case CampaignStatus.COMPLETED:
+			variant = "default";
+			break;
+		case CampaignStatus.ABORTED:
+		case CampaignStatus.ERROR:
+			variant = "destructive";
+			break;
+		case CampaignStatus.QUEUED:
+		case CampaignStatus.WAITING:
+		case CampaignStatus.PAUSED:
+			variant = "secondary";
+			break;
+	}
+
+	return <Badge variant={variant}>{status}</Badge>;
+}
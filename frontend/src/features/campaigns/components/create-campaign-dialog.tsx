@@ -0,0 +1,244 @@
+import { useQuery } from "@tanstack/react-query";
+import { Loader2, Megaphone, Plus } from "lucide-react";
+import { useId, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { fetchSettings } from "@/features/settings/hooks/use-settings";
+import { settingsKeys } from "@/lib/query-keys";
+import type { CampaignDraft } from "../hooks/use-manage-campaigns";
+
+interface CreateCampaignDialogProps {
+	onCreate: (draft: CampaignDraft) => Promise<unknown>;
+	isCreating: boolean;
+}
+
+const STEPS = ["Details", "Sending", "Templates"] as const;
+
+const DEFAULT_FORM = {
+	name: "",
+	senderName: "",
+	senderEmail: "",
+	minDelayMs: "",
+	maxDelayMs: "",
+	subjectTemplate: "",
+	bodyTemplate: "",
+};
+
+/**
+ * Field checks for each wizard step; the manage-campaign function
+ * validates the whole draft again on submit.
+ */
+const STEP_CHECKS: ((form: typeof DEFAULT_FORM) => string | null)[] = [
+	(form) => {
+		if (!form.name.trim()) return "Enter a campaign name";
+		if (!form.senderName.trim()) return "Enter the sender's display name";
+		if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(form.senderEmail.trim())) {
+			return "Enter the verified SES sender address";
+		}
+		return null;
+	},
+	(form) => {
+		if (form.minDelayMs && form.maxDelayMs && Number(form.maxDelayMs) < Number(form.minDelayMs)) {
+			return "Max delay must be at least the min delay";
+		}
+		return null;
+	},
+	(form) => {
+		if (!form.subjectTemplate.trim()) return "Enter a subject template";
+		if (!form.bodyTemplate.trim()) return "Enter a body template";
+		return null;
+	},
+];
+
+export function CreateCampaignDialog({ onCreate, isCreating }: CreateCampaignDialogProps) {
+	const [open, setOpen] = useState(false);
+	const [step, setStep] = useState(0);
+	const [formData, setFormData] = useState(DEFAULT_FORM);
+	const [allowCatchAll, setAllowCatchAll] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const id = useId();
+
+	const { data: settings } = useQuery({
+		queryKey: settingsKeys.all,
+		queryFn: fetchSettings,
+		enabled: open,
+	});
+
+	const reset = () => {
+		setStep(0);
+		setFormData(DEFAULT_FORM);
+		setAllowCatchAll(false);
+		setError(null);
+	};
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+
+		const stepError = STEP_CHECKS[step](formData);
+		if (stepError) {
+			setError(stepError);
+			return;
+		}
+		setError(null);
+
+		if (step < STEPS.length - 1) {
+			setStep(step + 1);
+			return;
+		}
+
+		try {
+			await onCreate({
+				name: formData.name.trim(),
+				senderName: formData.senderName.trim(),
+				senderEmail: formData.senderEmail.trim(),
+				minDelayMs: formData.minDelayMs ? Number(formData.minDelayMs) : null,
+				maxDelayMs: formData.maxDelayMs ? Number(formData.maxDelayMs) : null,
+				allowCatchAll,
+				subjectTemplate: formData.subjectTemplate,
+				bodyTemplate: formData.bodyTemplate,
+			});
+			reset();
+			setOpen(false);
+		} catch {
+			// Error is handled by the mutation
+		}
+	};
+
+	const field = (key: keyof typeof DEFAULT_FORM, label: string, placeholder?: string) => (
+		<div className="space-y-2">
+			<Label htmlFor={`${id}-${key}`}>{label}</Label>
+			<Input
+				id={`${id}-${key}`}
+				type={key.endsWith("DelayMs") ? "number" : key === "senderEmail" ? "email" : "text"}
+				placeholder={placeholder}
+				value={formData[key]}
+				onChange={(e) => setFormData({ ...formData, [key]: e.target.value })}
+			/>
+		</div>
+	);
+
+	return (
+		<Dialog
+			open={open}
+			onOpenChange={(next) => {
+				setOpen(next);
+				if (!next) reset();
+			}}
+		>
+			<DialogTrigger asChild>
+				<Button className="gap-2">
+					<Plus className="h-4 w-4" />
+					New Campaign
+				</Button>
+			</DialogTrigger>
+
+			<DialogContent className="max-w-xl">
+				<DialogHeader>
+					<DialogTitle className="flex items-center gap-2 text-xl">
+						<Megaphone className="h-5 w-5 text-primary" />
+						New Campaign
+					</DialogTitle>
+					<DialogDescription>
+						Step {step + 1} of {STEPS.length}: {STEPS[step]}. The campaign is saved as a draft.
+					</DialogDescription>
+				</DialogHeader>
+
+				<form onSubmit={handleSubmit} className="space-y-4 py-4">
+					{step === 0 && (
+						<>
+							{field("name", "Campaign Name", "Q3 outreach")}
+							<div className="grid grid-cols-2 gap-4">
+								{field("senderName", "Sender Name", "Jane Doe")}
+								{field("senderEmail", "Sender Email", "jane@mail.example.com")}
+							</div>
+						</>
+					)}
+
+					{step === 1 && (
+						<>
+							<div className="grid grid-cols-2 gap-4">
+								{field(
+									"minDelayMs",
+									"Min Delay (ms)",
+									settings ? `Default: ${settings.defaultMinDelayMs}` : "Settings default"
+								)}
+								{field(
+									"maxDelayMs",
+									"Max Delay (ms)",
+									settings ? `Default: ${settings.defaultMaxDelayMs}` : "Settings default"
+								)}
+							</div>
+							<div className="flex items-center justify-between rounded-lg border p-3">
+								<div className="space-y-0.5">
+									<Label htmlFor={`${id}-allowCatchAll`}>Send to catch-all domains</Label>
+									<p className="text-xs text-muted-foreground">
+										Catch-all addresses can't be verified and bounce more often.
+									</p>
+								</div>
+								<Switch
+									id={`${id}-allowCatchAll`}
+									checked={allowCatchAll}
+									onCheckedChange={setAllowCatchAll}
+								/>
+							</div>
+						</>
+					)}
+
+					{step === 2 && (
+						<>
+							{field("subjectTemplate", "Subject", "{Hi|Hello} {{FirstName}}")}
+							<div className="space-y-2">
+								<Label htmlFor={`${id}-bodyTemplate`}>Body</Label>
+								<Textarea
+									id={`${id}-bodyTemplate`}
+									rows={10}
+									className="font-mono text-sm"
+									value={formData.bodyTemplate}
+									onChange={(e) => setFormData({ ...formData, bodyTemplate: e.target.value })}
+								/>
+								<p className="text-xs text-muted-foreground">
+									Spintax and variables are supported. Refine the templates later in the Template
+									Editor.
+								</p>
+							</div>
+						</>
+					)}
+
+					{error && <p className="text-xs text-destructive">{error}</p>}
+
+					<DialogFooter className="pt-4">
+						{step > 0 ? (
+							<Button type="button" variant="outline" onClick={() => setStep(step - 1)}>
+								Back
+							</Button>
+						) : (
+							<Button type="button" variant="outline" onClick={() => setOpen(false)}>
+								Cancel
+							</Button>
+						)}
+						{step < STEPS.length - 1 ? (
+							<Button type="submit">Next</Button>
+						) : (
+							<Button type="submit" disabled={isCreating} className="gap-2">
+								{isCreating && <Loader2 className="h-4 w-4 animate-spin" />}
+								{isCreating ? "Creating..." : "Create Campaign"}
+							</Button>
+						)}
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
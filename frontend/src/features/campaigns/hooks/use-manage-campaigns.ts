@@ -0,0 +1,157 @@
+import { CollectionId, DATABASE_ID } from "@shared/constants/collection.constants";
+import type { Campaign } from "@shared/types/campaign.types";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Query } from "appwrite";
+import { toast } from "sonner";
+import { parseCampaign } from "@/features/shared/hooks/use-campaigns";
+import { databases, functions } from "@/lib/appwrite";
+import { campaignKeys } from "@/lib/query-keys";
+
+/**
+ * Fields the creation wizard sends; delays fall back to the settings defaults
+ */
+export interface CampaignDraft {
+	name: string;
+	senderEmail: string;
+	senderName: string;
+	subjectTemplate: string;
+	bodyTemplate: string;
+	minDelayMs: number | null;
+	maxDelayMs: number | null;
+	allowCatchAll: boolean;
+}
+
+type CampaignAction =
+	| { action: "create"; campaign: CampaignDraft }
+	| { action: "clone"; campaignId: string; name?: string }
+	| { action: "archive" | "restore" | "delete"; campaignId: string };
+
+/**
+ * Run an action through the manage-campaign function, which validates it
+ */
+async function manageCampaign(
+	body: CampaignAction,
+	fallbackMessage: string
+): Promise<Record<string, unknown>> {
+	const execution = await functions.createExecution({
+		functionId: "manage-campaign",
+		body: JSON.stringify(body),
+		async: false,
+	});
+
+	// Check for execution errors
+	if (execution.responseStatusCode >= 400) {
+		let errorMessage = fallbackMessage;
+		try {
+			const errorData = JSON.parse(execution.responseBody || "{}");
+			errorMessage = errorData.message || errorMessage;
+		} catch {
+			// Use default error message
+		}
+		throw new Error(errorMessage);
+	}
+
+	const response = JSON.parse(execution.responseBody || "{}");
+	if (!response.success) {
+		throw new Error(response.message || fallbackMessage);
+	}
+
+	return response;
+}
+
+export function useCampaignCatalog(includeArchived: boolean) {
+	return useQuery({
+		queryKey: campaignKeys.catalog(includeArchived),
+		queryFn: async () => {
+			const queries = [Query.orderDesc("$createdAt"), Query.limit(100)];
+			if (!includeArchived) queries.push(Query.isNull("archivedAt"));
+
+			const response = await databases.listDocuments(DATABASE_ID, CollectionId.CAMPAIGNS, queries);
+			return response.documents.map(parseCampaign);
+		},
+		staleTime: 1000 * 60,
+	});
+}
+
+export function useManageCampaigns() {
+	const queryClient = useQueryClient();
+
+	const onError = (title: string) => (error: Error) => {
+		toast.error(title, { description: error.message });
+	};
+
+	const { mutateAsync: createCampaign, isPending: isCreating } = useMutation({
+		mutationFn: async (campaign: CampaignDraft) => {
+			const response = await manageCampaign(
+				{ action: "create", campaign },
+				"Failed to create campaign"
+			);
+			return response.campaign as Campaign;
+		},
+		onSuccess: (campaign) => {
+			queryClient.invalidateQueries({ queryKey: campaignKeys.all });
+			toast.success(`Campaign "${campaign.name}" created as a draft`);
+		},
+		onError: onError("Failed to create campaign"),
+	});
+
+	const { mutate: cloneCampaign } = useMutation({
+		mutationFn: async (campaignId: string) => {
+			const response = await manageCampaign(
+				{ action: "clone", campaignId },
+				"Failed to clone campaign"
+			);
+			return response.campaign as Campaign;
+		},
+		onSuccess: (campaign) => {
+			queryClient.invalidateQueries({ queryKey: campaignKeys.all });
+			toast.success(`Created "${campaign.name}"`);
+		},
+		onError: onError("Failed to clone campaign"),
+	});
+
+	const { mutate: setArchived } = useMutation({
+		mutationFn: async ({ campaignId, archived }: { campaignId: string; archived: boolean }) => {
+			await manageCampaign(
+				{ action: archived ? "archive" : "restore", campaignId },
+				"Failed to update campaign"
+			);
+			return archived;
+		},
+		onSuccess: (archived) => {
+			queryClient.invalidateQueries({ queryKey: campaignKeys.all });
+			toast.success(archived ? "Campaign archived" : "Campaign restored");
+		},
+		onError: onError("Failed to update campaign"),
+	});
+
+	const { mutateAsync: deleteCampaign, isPending: isDeleting } = useMutation({
+		mutationFn: async (campaignId: string) => {
+			const response = await manageCampaign(
+				{ action: "delete", campaignId },
+				"Failed to delete campaign"
+			);
+			return response.releasedLeads as number;
+		},
+		onSuccess: (releasedLeads) => {
+			queryClient.invalidateQueries({ queryKey: campaignKeys.all });
+			queryClient.invalidateQueries({ queryKey: ["leads"] });
+			toast.success("Campaign deleted", {
+				description:
+					releasedLeads > 0
+						? `${releasedLeads} leads were released for other campaigns`
+						: undefined,
+			});
+		},
+		onError: onError("Failed to delete campaign"),
+	});
+
+	return {
+		createCampaign,
+		isCreating,
+		cloneCampaign,
+		setArchived,
+		deleteCampaign,
+		isDeleting,
+	};
+}
@@ -6,22 +6,30 @@ interface CampaignControlsProps {
 	status: CampaignStatusType;
 	onAction: (action: "start" | "pause" | "abort") => void;
 	isPending?: boolean;
+	/** Paused by the circuit breaker and not yet acknowledged */
+	isBreakerTripped?: boolean;
 }
 
-export function CampaignControls({ status, onAction, isPending }: CampaignControlsProps) {
+export function CampaignControls({
+	status,
+	onAction,
+	isPending,
+	isBreakerTripped,
+}: CampaignControlsProps) {
 	const isRunning = status === CampaignStatus.RUNNING;
+	const isWaiting = status === CampaignStatus.WAITING;
 	const isPaused = status === CampaignStatus.PAUSED;
 	const isQueued = status === CampaignStatus.QUEUED;
 	const isDraft = status === CampaignStatus.DRAFT;
 
-	// Can start if Draft, Queued, or Paused
-	const canStart = isDraft || isQueued || isPaused;
+	// Can start if Draft, Queued, or Paused (a circuit breaker trip must be acknowledged first)
+	const canStart = (isDraft || isQueued || isPaused) && !isBreakerTripped;
 
-	// Can pause if Running
-	const canPause = isRunning;
+	// Can pause if Running or Waiting on follow-ups
+	const canPause = isRunning || isWaiting;
 
-	// Can abort if Running, Paused, or Queued
-	const canAbort = isRunning || isPaused || isQueued;
+	// Can abort if Running, Waiting, Paused, or Queued
+	const canAbort = isRunning || isWaiting || isPaused || isQueued;
 
 	return (
 		<div className="flex items-center gap-2">
@@ -0,0 +1,52 @@
+import type { Campaign } from "@shared/types/campaign.types";
+import { format } from "date-fns";
+import { Loader2, ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAcknowledgeCircuitBreaker } from "../hooks/use-circuit-breaker";
+
+interface CircuitBreakerBannerProps {
+	campaigns: Campaign[];
+}
+
+/**
+ * Lists campaigns paused by the bounce/complaint circuit breaker.
+ * Each must be acknowledged before it can be resumed.
+ */
+export function CircuitBreakerBanner({ campaigns }: CircuitBreakerBannerProps) {
+	const { mutate: acknowledge, isPending, variables } = useAcknowledgeCircuitBreaker();
+
+	const tripped = campaigns.filter((c) => c.circuitBreakerTrippedAt);
+	if (tripped.length === 0) return null;
+
+	return (
+		<div className="rounded-xl border border-destructive/50 bg-destructive/10 p-4 space-y-3">
+			{tripped.map((campaign) => (
+				<div key={campaign.$id} className="flex items-start justify-between gap-4">
+					<div className="flex items-start gap-3">
+						<ShieldAlert className="h-5 w-5 text-destructive shrink-0 mt-0.5" />
+						<div className="text-sm">
+							<p className="font-medium">
+								{campaign.name} was paused by the circuit breaker
+								{campaign.circuitBreakerTrippedAt &&
+									` at ${format(new Date(campaign.circuitBreakerTrippedAt), "PP p")}`}
+							</p>
+							<p className="text-muted-foreground">{campaign.circuitBreakerReason}</p>
+						</div>
+					</div>
+					<Button
+						variant="outline"
+						size="sm"
+						className="shrink-0"
+						onClick={() => acknowledge(campaign.$id)}
+						disabled={isPending}
+					>
+						{isPending && variables === campaign.$id && (
+							<Loader2 className="h-4 w-4 animate-spin mr-2" />
+						)}
+						Acknowledge
+					</Button>
+				</div>
+			))}
+		</div>
+	);
+}
@@ -0,0 +1,45 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { ExecutionMethod } from "appwrite";
+import { toast } from "sonner";
+import { functions } from "@/lib/appwrite";
+import { campaignKeys } from "@/lib/query-keys";
+
+/**
+ * Acknowledge a circuit breaker trip so the campaign can be resumed.
+ * The orchestrator records the current metrics as the new baseline.
+ */
+export function useAcknowledgeCircuitBreaker() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async (campaignId: string) => {
+			const execution = await functions.createExecution({
+				functionId: "orchestrator",
+				body: JSON.stringify({ action: "acknowledge", campaignId }),
+				async: false,
+				method: ExecutionMethod.POST,
+			});
+
+			let response: { success?: boolean; message?: string } = {};
+			try {
+				response = JSON.parse(execution.responseBody || "{}");
+			} catch {
+				// Fall through to the generic error
+			}
+			if (!response.success) {
+				throw new Error(response.message || "Failed to acknowledge circuit breaker");
+			}
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: campaignKeys.list() });
+			toast.success("Circuit breaker acknowledged", {
+				description: "The campaign stays paused until you resume it.",
+			});
+		},
+		onError: (error) => {
+			toast.error("Failed to acknowledge circuit breaker", {
+				description: error instanceof Error ? error.message : "Unknown error",
+			});
+		},
+	});
+}
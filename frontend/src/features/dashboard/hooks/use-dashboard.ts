@@ -4,26 +4,29 @@ import type { Log } from "@shared/types/log.types";
 import { useMutation, useQueryClient, useSuspenseQuery } from "@tanstack/react-query";
 import { Query } from "appwrite";
 import { toast } from "sonner";
+import {
+	fetchCampaigns,
+	isActiveCampaign,
+	parseCampaign,
+	selectCampaign,
+} from "@/features/shared/hooks/use-campaigns";
 import { useRealtimeSubscription } from "@/features/shared/hooks/use-realtime";
 import { databases } from "@/lib/appwrite";
 import { campaignKeys, logsKeys } from "@/lib/query-keys";
 
-export function useDashboard() {
+export function useDashboard(campaignId?: string) {
 	const queryClient = useQueryClient();
 
 	// 1. Queries
-	const { data: activeCampaign } = useSuspenseQuery({
-		queryKey: campaignKeys.active(),
-		queryFn: async () => {
-			const response = await databases.listDocuments(DATABASE_ID, CollectionId.CAMPAIGNS, [
-				Query.orderDesc("$createdAt"),
-				Query.limit(1),
-			]);
-			return response.documents.length > 0 ? (response.documents[0] as unknown as Campaign) : null;
-		},
+	const { data: campaigns } = useSuspenseQuery({
+		queryKey: campaignKeys.list(),
+		queryFn: fetchCampaigns,
 		staleTime: 1000 * 60, // 1 minute
 	});
 
+	const activeCampaign = selectCampaign(campaigns, campaignId);
+	const runningCampaigns = campaigns.filter(isActiveCampaign);
+
 	const { data: recentLogs } = useSuspenseQuery({
 		queryKey: logsKeys.recent(),
 		queryFn: async () => {
@@ -46,7 +49,7 @@ export function useDashboard() {
 			});
 		},
 		onSuccess: (_, status) => {
-			queryClient.invalidateQueries({ queryKey: campaignKeys.active() });
+			queryClient.invalidateQueries({ queryKey: campaignKeys.list() });
 			toast.success(`Campaign ${status}`);
 		},
 		onError: (error, status) => {
@@ -59,14 +62,20 @@ export function useDashboard() {
 	useRealtimeSubscription(
 		`databases.${DATABASE_ID}.collections.${CollectionId.CAMPAIGNS}.documents`,
 		(response) => {
-			if (activeCampaign && (response.payload as Campaign).$id === activeCampaign.$id) {
-				const updatedCampaign = response.payload as unknown as Campaign;
-				queryClient.setQueryData(campaignKeys.active(), updatedCampaign);
-			} else if (
-				!activeCampaign &&
-				response.events.includes("databases.*.collections.*.documents.*.create")
+			const updatedCampaign = parseCampaign(response.payload);
+			if (
+				response.events.includes("databases.*.collections.*.documents.*.delete") ||
+				updatedCampaign.archivedAt
 			) {
-				queryClient.invalidateQueries({ queryKey: campaignKeys.active() });
+				queryClient.setQueryData(campaignKeys.list(), (oldCampaigns: Campaign[] | undefined) =>
+					(oldCampaigns || []).filter((c) => c.$id !== updatedCampaign.$id)
+				);
+			} else if (campaigns.some((c) => c.$id === updatedCampaign.$id)) {
+				queryClient.setQueryData(campaignKeys.list(), (oldCampaigns: Campaign[] | undefined) =>
+					(oldCampaigns || []).map((c) => (c.$id === updatedCampaign.$id ? updatedCampaign : c))
+				);
+			} else if (response.events.includes("databases.*.collections.*.documents.*.create")) {
+				queryClient.invalidateQueries({ queryKey: campaignKeys.list() });
 			}
 		}
 	);
@@ -87,7 +96,9 @@ export function useDashboard() {
 	);
 
 	return {
+		campaigns,
 		activeCampaign,
+		runningCampaigns,
 		recentLogs,
 		updateCampaignStatus,
 	};
@@ -0,0 +1,43 @@
+import { DelayStrategy } from "@shared/constants/status.constants";
+import { getDelayConfig } from "@shared/delay/strategies";
+import type { Campaign } from "@shared/types/campaign.types";
+import { Timer } from "lucide-react";
+import { useDelayStrategy } from "../hooks/use-delay-strategy";
+import { DelayHistogram, formatDelay } from "./delay-histogram";
+import { DELAY_STRATEGY_LABELS, DelayStrategyDialog } from "./delay-strategy-dialog";
+
+interface DelayCardProps {
+	campaign: Campaign | null;
+}
+
+export function DelayCard({ campaign }: DelayCardProps) {
+	const { saveConfig, isSaving } = useDelayStrategy(campaign);
+
+	if (!campaign) return null;
+
+	const config = getDelayConfig(campaign);
+
+	return (
+		<div className="bg-card border rounded-xl p-6 shadow-sm">
+			<div className="flex items-center justify-between mb-4">
+				<h3 className="font-semibold flex items-center gap-2">
+					<Timer className="h-4 w-4" /> Send Timing
+				</h3>
+				<DelayStrategyDialog campaign={campaign} onSave={saveConfig} isSaving={isSaving} />
+			</div>
+
+			<div className="space-y-4 text-sm">
+				<div className="flex items-center justify-between gap-2">
+					<span className="font-medium">
+						{DELAY_STRATEGY_LABELS[config.delayStrategy ?? DelayStrategy.GAUSSIAN]}
+					</span>
+					<span className="text-xs text-muted-foreground">
+						{formatDelay(campaign.minDelayMs)}–{formatDelay(campaign.maxDelayMs)}
+						{config.delayParams?.seed && ` · seed "${config.delayParams.seed}"`}
+					</span>
+				</div>
+				<DelayHistogram config={config} />
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,50 @@
+import { buildDelayHistogram, type DelayConfig } from "@shared/delay/strategies";
+import { useMemo } from "react";
+
+/**
+ * Short human-readable duration (e.g. 850ms, 42.5s, 12.0m)
+ */
+export function formatDelay(ms: number): string {
+	if (ms < 1000) return `${Math.round(ms)}ms`;
+	if (ms < 60 * 1000) return `${(ms / 1000).toFixed(1)}s`;
+	return `${(ms / 60 / 1000).toFixed(1)}m`;
+}
+
+interface DelayHistogramProps {
+	config: DelayConfig;
+}
+
+/**
+ * Histogram of delays sampled from the config, redrawn when it changes
+ */
+export function DelayHistogram({ config }: DelayHistogramProps) {
+	const configKey = JSON.stringify(config);
+	const histogram = useMemo(() => buildDelayHistogram(JSON.parse(configKey)), [configKey]);
+
+	const { buckets } = histogram;
+	const maxCount = Math.max(1, ...buckets.map((bucket) => bucket.count));
+
+	return (
+		<div className="space-y-2">
+			<div className="flex items-end gap-px h-24 border-b">
+				{buckets.map((bucket) => (
+					<div
+						key={bucket.fromMs}
+						className="flex-1 rounded-t-sm bg-primary/70"
+						style={{ height: `${(bucket.count / maxCount) * 100}%` }}
+						title={`${formatDelay(bucket.fromMs)}–${formatDelay(bucket.toMs)}: ${bucket.count}`}
+					/>
+				))}
+			</div>
+			<div className="flex justify-between text-[10px] text-muted-foreground">
+				<span>{formatDelay(buckets[0]?.fromMs ?? 0)}</span>
+				<span>{formatDelay(buckets[buckets.length - 1]?.toMs ?? 0)}</span>
+			</div>
+			<div className="grid grid-cols-3 gap-2 text-xs text-muted-foreground">
+				<span>Mean {formatDelay(histogram.meanMs)}</span>
+				<span>Median {formatDelay(histogram.medianMs)}</span>
+				<span>95th pct {formatDelay(histogram.p95Ms)}</span>
+			</div>
+		</div>
+	);
+}
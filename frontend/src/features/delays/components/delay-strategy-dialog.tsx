@@ -0,0 +1,326 @@
+import { DelayStrategy, type DelayStrategyType } from "@shared/constants/status.constants";
+import { DELAY_DEFAULTS, type DelayConfig } from "@shared/delay/strategies";
+import type { Campaign, DelayParams } from "@shared/types/campaign.types";
+import { Loader2, Settings2, Timer } from "lucide-react";
+import { useId, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import type { DelayStrategyConfig } from "../hooks/use-delay-strategy";
+import { DelayHistogram } from "./delay-histogram";
+
+export const DELAY_STRATEGY_LABELS: Record<DelayStrategyType, string> = {
+	[DelayStrategy.GAUSSIAN]: "Gaussian",
+	[DelayStrategy.LOG_NORMAL]: "Log-normal",
+	[DelayStrategy.POISSON_BURST]: "Poisson bursts",
+	[DelayStrategy.TIME_OF_DAY]: "Time-of-day ramp",
+};
+
+const STRATEGY_DESCRIPTIONS: Record<DelayStrategyType, string> = {
+	[DelayStrategy.GAUSSIAN]: "Normally distributed around the midpoint of the delay range.",
+	[DelayStrategy.LOG_NORMAL]:
+		"Mostly short gaps with a long tail, closest to how people actually send.",
+	[DelayStrategy.POISSON_BURST]:
+		"Quick bursts of sends with an occasional coffee break. Breaks over 5 minutes park the campaign.",
+	[DelayStrategy.TIME_OF_DAY]:
+		"Full speed during peak hours, ramping down to slower gaps early and late in the day.",
+};
+
+const MINUTE_MS = 60 * 1000;
+
+type DelayForm = ReturnType<typeof toForm>;
+
+const optional = (value: number | undefined) => (value === undefined ? "" : String(value));
+const toNumber = (value: string) => (value.trim() ? Number(value) : undefined);
+
+function toForm(campaign: Campaign) {
+	const params = campaign.delayParams ?? {};
+	return {
+		strategy: campaign.delayStrategy ?? DelayStrategy.GAUSSIAN,
+		minDelayMs: String(campaign.minDelayMs),
+		maxDelayMs: String(campaign.maxDelayMs),
+		median: optional(params.median),
+		sigma: optional(params.sigma),
+		meanBurstSize: optional(params.meanBurstSize),
+		breakMinMinutes: optional(params.breakMinMs && params.breakMinMs / MINUTE_MS),
+		breakMaxMinutes: optional(params.breakMaxMs && params.breakMaxMs / MINUTE_MS),
+		peakStartHour: optional(params.peakStartHour),
+		peakEndHour: optional(params.peakEndHour),
+		rampHours: optional(params.rampHours),
+		offPeakFactor: optional(params.offPeakFactor),
+		timezone: params.timezone ?? "",
+		seed: params.seed ?? "",
+	};
+}
+
+/**
+ * Parameters of the selected strategy; fields left blank use the defaults
+ */
+function toParams(form: DelayForm): DelayParams | null {
+	const minutes = (value: string) => {
+		const parsed = toNumber(value);
+		return parsed === undefined ? undefined : parsed * MINUTE_MS;
+	};
+
+	const byStrategy: Record<DelayStrategyType, DelayParams> = {
+		[DelayStrategy.GAUSSIAN]: {},
+		[DelayStrategy.LOG_NORMAL]: { median: toNumber(form.median), sigma: toNumber(form.sigma) },
+		[DelayStrategy.POISSON_BURST]: {
+			meanBurstSize: toNumber(form.meanBurstSize),
+			breakMinMs: minutes(form.breakMinMinutes),
+			breakMaxMs: minutes(form.breakMaxMinutes),
+		},
+		[DelayStrategy.TIME_OF_DAY]: {
+			peakStartHour: toNumber(form.peakStartHour),
+			peakEndHour: toNumber(form.peakEndHour),
+			rampHours: toNumber(form.rampHours),
+			offPeakFactor: toNumber(form.offPeakFactor),
+			timezone: form.timezone.trim() || undefined,
+		},
+	};
+
+	const params = Object.fromEntries(
+		Object.entries({ ...byStrategy[form.strategy], seed: form.seed.trim() || undefined }).filter(
+			([, value]) => value !== undefined
+		)
+	);
+	return Object.keys(params).length > 0 ? params : null;
+}
+
+function validate(form: DelayForm): string | null {
+	const minDelayMs = Number(form.minDelayMs);
+	const maxDelayMs = Number(form.maxDelayMs);
+	if (!Number.isInteger(minDelayMs) || !Number.isInteger(maxDelayMs) || minDelayMs < 0) {
+		return "Delays must be whole, non-negative milliseconds";
+	}
+	if (maxDelayMs < minDelayMs) return "Max delay must be at least the min delay";
+
+	const params = toParams(form) ?? {};
+	const numbers = Object.values(params).filter((value) => typeof value === "number");
+	if (numbers.some((value) => !Number.isFinite(value) || value < 0)) {
+		return "Parameters must be non-negative numbers";
+	}
+	if (params.sigma === 0) return "Spread must be above 0";
+	if ((params.breakMaxMs ?? Infinity) < (params.breakMinMs ?? 0)) {
+		return "Longest break must be at least the shortest break";
+	}
+	if (
+		(params.peakEndHour ?? 24) > 24 ||
+		(params.peakStartHour ?? 0) >= (params.peakEndHour ?? 24)
+	) {
+		return "Peak hours must run forward within one day (0-24)";
+	}
+	return null;
+}
+
+interface DelayStrategyDialogProps {
+	campaign: Campaign;
+	onSave: (config: DelayStrategyConfig) => Promise<void>;
+	isSaving: boolean;
+}
+
+export function DelayStrategyDialog({ campaign, onSave, isSaving }: DelayStrategyDialogProps) {
+	const [open, setOpen] = useState(false);
+	const [formData, setFormData] = useState(() => toForm(campaign));
+	const [submitError, setSubmitError] = useState<string | null>(null);
+	const id = useId();
+
+	const handleOpenChange = (next: boolean) => {
+		if (next) {
+			setFormData(toForm(campaign));
+			setSubmitError(null);
+		}
+		setOpen(next);
+	};
+
+	const error = validate(formData);
+	const preview: DelayConfig = {
+		minDelayMs: Number(formData.minDelayMs),
+		maxDelayMs: Number(formData.maxDelayMs),
+		gaussianMean: campaign.gaussianMean,
+		gaussianStdDev: campaign.gaussianStdDev,
+		delayStrategy: formData.strategy,
+		delayParams: toParams(formData),
+		fallbackTimezone: campaign.sendingWindow?.timezone ?? null,
+	};
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		if (error) {
+			setSubmitError(error);
+			return;
+		}
+
+		try {
+			await onSave({
+				delayStrategy: preview.delayStrategy,
+				delayParams: preview.delayParams,
+				minDelayMs: preview.minDelayMs,
+				maxDelayMs: preview.maxDelayMs,
+			});
+			setSubmitError(null);
+			setOpen(false);
+		} catch {
+			// Error is handled by the mutation
+		}
+	};
+
+	const field = (
+		key: Exclude<keyof DelayForm, "strategy">,
+		label: string,
+		placeholder?: string
+	) => (
+		<div className="space-y-2">
+			<Label htmlFor={`${id}-${key}`}>{label}</Label>
+			<Input
+				id={`${id}-${key}`}
+				type={key === "timezone" || key === "seed" ? "text" : "number"}
+				step="any"
+				placeholder={placeholder}
+				value={formData[key]}
+				onChange={(e) => setFormData({ ...formData, [key]: e.target.value })}
+			/>
+		</div>
+	);
+
+	return (
+		<Dialog open={open} onOpenChange={handleOpenChange}>
+			<DialogTrigger asChild>
+				<Button variant="outline" size="sm" className="gap-2">
+					<Settings2 className="h-4 w-4" />
+					Configure
+				</Button>
+			</DialogTrigger>
+
+			<DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+				<DialogHeader>
+					<DialogTitle className="flex items-center gap-2 text-xl">
+						<Timer className="h-5 w-5 text-primary" />
+						Send Timing
+					</DialogTitle>
+					<DialogDescription>
+						How long the campaign waits between sends. Changes apply from the next send.
+					</DialogDescription>
+				</DialogHeader>
+
+				<form onSubmit={handleSubmit} className="space-y-4 py-4">
+					<div className="space-y-2">
+						<Label>Strategy</Label>
+						<Select
+							value={formData.strategy}
+							onValueChange={(value) =>
+								setFormData({ ...formData, strategy: value as DelayStrategyType })
+							}
+						>
+							<SelectTrigger>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{Object.entries(DELAY_STRATEGY_LABELS).map(([strategy, label]) => (
+									<SelectItem key={strategy} value={strategy}>
+										{label}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+						<p className="text-xs text-muted-foreground">
+							{STRATEGY_DESCRIPTIONS[formData.strategy]}
+						</p>
+					</div>
+
+					<div className="grid grid-cols-2 gap-4">
+						{field("minDelayMs", "Min Delay (ms)")}
+						{field("maxDelayMs", "Max Delay (ms)")}
+					</div>
+
+					{formData.strategy === DelayStrategy.LOG_NORMAL && (
+						<div className="grid grid-cols-2 gap-4">
+							{field("median", "Median (ms)", "Geometric mean of the range")}
+							{field("sigma", "Spread (σ)", String(DELAY_DEFAULTS.sigma))}
+						</div>
+					)}
+
+					{formData.strategy === DelayStrategy.POISSON_BURST && (
+						<div className="grid grid-cols-3 gap-4">
+							{field("meanBurstSize", "Sends per burst", String(DELAY_DEFAULTS.meanBurstSize))}
+							{field(
+								"breakMinMinutes",
+								"Break from (min)",
+								String(DELAY_DEFAULTS.breakMinMs / MINUTE_MS)
+							)}
+							{field(
+								"breakMaxMinutes",
+								"Break to (min)",
+								String(DELAY_DEFAULTS.breakMaxMs / MINUTE_MS)
+							)}
+						</div>
+					)}
+
+					{formData.strategy === DelayStrategy.TIME_OF_DAY && (
+						<>
+							<div className="grid grid-cols-2 gap-4">
+								{field("peakStartHour", "Peak starts (hour)", String(DELAY_DEFAULTS.peakStartHour))}
+								{field("peakEndHour", "Peak ends (hour)", String(DELAY_DEFAULTS.peakEndHour))}
+								{field("rampHours", "Ramp (hours)", String(DELAY_DEFAULTS.rampHours))}
+								{field(
+									"offPeakFactor",
+									"Off-peak slowdown (×)",
+									String(DELAY_DEFAULTS.offPeakFactor)
+								)}
+							</div>
+							{field(
+								"timezone",
+								"Timezone",
+								campaign.sendingWindow?.timezone ?? "UTC (or the sending window's)"
+							)}
+						</>
+					)}
+
+					<div className="space-y-2">
+						{field("seed", "Replay seed", "Leave blank for fresh randomness")}
+						<p className="text-xs text-muted-foreground">
+							With a seed, the nth send always gets the same delay, so runs can be replayed.
+						</p>
+					</div>
+
+					<div className="rounded-lg border p-4 space-y-2">
+						<div className="text-sm font-medium">Preview</div>
+						{error ? (
+							<p className="text-xs text-muted-foreground italic">{error}</p>
+						) : (
+							<DelayHistogram config={preview} />
+						)}
+					</div>
+
+					{submitError && <p className="text-xs text-destructive">{submitError}</p>}
+
+					<DialogFooter className="pt-4">
+						<Button type="button" variant="outline" onClick={() => setOpen(false)}>
+							Cancel
+						</Button>
+						<Button type="submit" disabled={isSaving} className="gap-2">
+							{isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+							{isSaving ? "Saving..." : "Save"}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,43 @@
+import { CollectionId, DATABASE_ID } from "@shared/constants/collection.constants";
+import type { DelayStrategyType } from "@shared/constants/status.constants";
+import type { Campaign, DelayParams } from "@shared/types/campaign.types";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { databases } from "@/lib/appwrite";
+import { campaignKeys } from "@/lib/query-keys";
+
+export interface DelayStrategyConfig {
+	delayStrategy: DelayStrategyType;
+	delayParams: DelayParams | null;
+	minDelayMs: number;
+	maxDelayMs: number;
+}
+
+export function useDelayStrategy(campaign: Campaign | null) {
+	const queryClient = useQueryClient();
+
+	const { mutateAsync: saveConfig, isPending: isSaving } = useMutation({
+		mutationFn: async (config: DelayStrategyConfig) => {
+			if (!campaign) throw new Error("No active campaign");
+
+			// Picked up by the orchestrator before the next send
+			await databases.updateDocument(DATABASE_ID, CollectionId.CAMPAIGNS, campaign.$id, {
+				...config,
+				delayParams: config.delayParams ? JSON.stringify(config.delayParams) : null,
+			});
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: campaignKeys.list() });
+			toast.success("Send timing saved");
+		},
+		onError: (error) => {
+			console.error(error);
+			toast.error("Failed to save send timing");
+		},
+	});
+
+	return {
+		saveConfig,
+		isSaving,
+	};
+}
@@ -37,6 +37,7 @@ export function AddLeadDialog({ trigger, onSuccess }: AddLeadDialogProps) {
 		companyName: "",
 		phoneNumber: "",
 		leadType: "" as "" | "HARDWARE" | "SOFTWARE" | "BOTH",
+		tags: "",
 	});
 
 	const [errors, setErrors] = useState<Record<string, string>>({});
@@ -74,6 +75,7 @@ export function AddLeadDialog({ trigger, onSuccess }: AddLeadDialogProps) {
 				companyName: formData.companyName.trim(),
 				phoneNumber: formData.phoneNumber.trim() || null,
 				leadType: formData.leadType || null,
+				tags: formData.tags.split(","),
 			});
 
 			// Reset form and close dialog
@@ -83,6 +85,7 @@ export function AddLeadDialog({ trigger, onSuccess }: AddLeadDialogProps) {
 				companyName: "",
 				phoneNumber: "",
 				leadType: "",
+				tags: "",
 			});
 			setErrors({});
 			setOpen(false);
@@ -100,6 +103,7 @@ export function AddLeadDialog({ trigger, onSuccess }: AddLeadDialogProps) {
 			companyName: "",
 			phoneNumber: "",
 			leadType: "",
+			tags: "",
 		});
 		setErrors({});
 	};
@@ -204,6 +208,17 @@ export function AddLeadDialog({ trigger, onSuccess }: AddLeadDialogProps) {
 						</Select>
 					</div>
 
+					<div className="space-y-2">
+						<Label htmlFor="tags">Tags</Label>
+						<Input
+							id="tags"
+							placeholder="expo-2024, tier-1"
+							value={formData.tags}
+							onChange={(e) => setFormData({ ...formData, tags: e.target.value })}
+						/>
+						<p className="text-xs text-muted-foreground">Comma-separated, used by segments.</p>
+					</div>
+
 					<DialogFooter className="pt-4">
 						<Button type="button" variant="outline" onClick={handleClose}>
 							Cancel
@@ -1,6 +1,7 @@
-import { LeadStatus, type LeadStatusType } from "@shared/constants/status.constants";
+import { LeadStatus, type LeadStatusType, SkipReason } from "@shared/constants/status.constants";
 import type { Lead } from "@shared/types/lead.types";
 import { createColumnHelper } from "@tanstack/react-table";
+import { format } from "date-fns";
 import { FilePenLine } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -34,7 +35,7 @@ export const columns = (onReview: (lead: Lead) => void, onDelete: (lead: Lead) =
 	}),
 	columnHelper.accessor("status", {
 		header: "Status",
-		cell: (info) => <LeadStatusBadge status={info.getValue()} />,
+		cell: (info) => <LeadStatusCell lead={info.row.original} />,
 	}),
 	columnHelper.accessor("verificationResult", {
 		header: "Verification",
@@ -69,6 +70,28 @@ export const columns = (onReview: (lead: Lead) => void, onDelete: (lead: Lead) =
 	}),
 ];
 
+function LeadStatusCell({ lead }: { lead: Lead }) {
+	if (lead.status === LeadStatus.SKIPPED && lead.skipReason === SkipReason.CONTACT_FREQUENCY_CAP) {
+		return (
+			<div className="flex flex-col gap-0.5" title={lead.errorMessage ?? undefined}>
+				<LeadStatusBadge status={lead.status} />
+				<span className="text-xs text-muted-foreground">Contacted recently</span>
+			</div>
+		);
+	}
+	if (lead.status !== LeadStatus.RETRYING) return <LeadStatusBadge status={lead.status} />;
+
+	return (
+		<div className="flex flex-col gap-0.5" title={lead.errorMessage ?? undefined}>
+			<Badge variant="secondary">Retrying</Badge>
+			<span className="text-xs text-muted-foreground">
+				Attempt {(lead.attemptCount ?? 0) + 1}
+				{lead.nextAttemptAt && ` · ${format(new Date(lead.nextAttemptAt), "PP p")}`}
+			</span>
+		</div>
+	);
+}
+
 function LeadStatusBadge({ status }: { status: LeadStatusType }) {
 	let variant: "default" | "secondary" | "destructive" | "outline" = "outline";
 
@@ -43,6 +43,7 @@ export function useCreateLead() {
 					companyName: input.companyName,
 					phoneNumber: input.phoneNumber || null,
 					leadType: input.leadType || null,
+					tags: input.tags ?? [],
 				}),
 				async: false,
 			});
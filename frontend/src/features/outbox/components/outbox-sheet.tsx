@@ -0,0 +1,95 @@
+import type { OutboxEmail } from "@shared/types/outbox.types";
+import { FlaskConical, Inbox, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+	Sheet,
+	SheetContent,
+	SheetDescription,
+	SheetHeader,
+	SheetTitle,
+	SheetTrigger,
+} from "@/components/ui/sheet";
+import { useOutbox } from "../hooks/use-outbox";
+
+interface OutboxSheetProps {
+	campaignId: string;
+}
+
+/**
+ * Dry-run review: renders the queue into the outbox and lists exactly what
+ * each lead would receive. Nothing is sent or verified.
+ */
+export function OutboxSheet({ campaignId }: OutboxSheetProps) {
+	const { emails, isLoading, startDryRun, isStarting } = useOutbox(campaignId);
+
+	return (
+		<Sheet>
+			<SheetTrigger asChild>
+				<Button variant="outline" size="sm">
+					<Inbox className="h-4 w-4 mr-2" />
+					Dry Run
+				</Button>
+			</SheetTrigger>
+
+			<SheetContent className="sm:max-w-2xl w-full">
+				<SheetHeader>
+					<SheetTitle className="flex items-center gap-2">
+						<Inbox className="h-5 w-5" /> Dry-run Outbox
+					</SheetTitle>
+					<SheetDescription>
+						Renders queued leads with the real pipeline (names, variants, senders, Spintax) without
+						sending or spending verifier credits.
+					</SheetDescription>
+					<div className="flex items-center justify-between pt-2">
+						<span className="text-sm text-muted-foreground">
+							{emails.length > 0 ? `${emails.length} emails in the latest run` : "No dry run yet"}
+						</span>
+						<Button size="sm" onClick={() => startDryRun()} disabled={isStarting}>
+							{isStarting ? (
+								<Loader2 className="h-4 w-4 animate-spin mr-2" />
+							) : (
+								<FlaskConical className="h-4 w-4 mr-2" />
+							)}
+							Run Dry Run
+						</Button>
+					</div>
+				</SheetHeader>
+
+				<ScrollArea className="flex-1 min-h-0 px-4 pb-4">
+					{isLoading ? (
+						<div className="text-muted-foreground text-sm italic">Loading...</div>
+					) : (
+						<div className="space-y-3">
+							{emails.map((email) => (
+								<OutboxEmailCard key={email.$id} email={email} />
+							))}
+						</div>
+					)}
+				</ScrollArea>
+			</SheetContent>
+		</Sheet>
+	);
+}
+
+function OutboxEmailCard({ email }: { email: OutboxEmail }) {
+	return (
+		<details className="rounded-lg border bg-card p-3 text-sm">
+			<summary className="cursor-pointer space-y-1">
+				<span className="font-medium">{email.subject}</span>
+				<div className="flex flex-wrap gap-x-3 text-xs text-muted-foreground">
+					<span>To {email.toEmail}</span>
+					<span>
+						From {email.fromName} &lt;{email.fromEmail}&gt;
+					</span>
+					<span>Step {email.sequenceStep + 1}</span>
+					{email.variantId && <span>Variant {email.variantId}</span>}
+					<span>+{(email.simulatedDelayMs / 1000).toFixed(0)}s delay</span>
+				</div>
+			</summary>
+			<pre className="mt-3 whitespace-pre-wrap font-mono text-xs border-t pt-3">
+				{email.bodyText}
+			</pre>
+		</details>
+	);
+}
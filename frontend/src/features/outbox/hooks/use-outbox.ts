@@ -0,0 +1,91 @@
+import { CollectionId, DATABASE_ID } from "@shared/constants/collection.constants";
+import type { OutboxEmail } from "@shared/types/outbox.types";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ExecutionMethod, Query } from "appwrite";
+import { toast } from "sonner";
+import { useRealtimeSubscription } from "@/features/shared/hooks/use-realtime";
+import { databases, functions } from "@/lib/appwrite";
+import { outboxKeys } from "@/lib/query-keys";
+
+/** Matches the orchestrator's default dry-run limit */
+const MAX_OUTBOX_EMAILS = 500;
+
+/**
+ * Emails rendered by the campaign's most recent dry run.
+ */
+async function fetchLatestDryRun(campaignId: string): Promise<OutboxEmail[]> {
+	const latest = await databases.listDocuments(DATABASE_ID, CollectionId.OUTBOX, [
+		Query.equal("campaignId", campaignId),
+		Query.orderDesc("$createdAt"),
+		Query.limit(1),
+	]);
+	const dryRunId = (latest.documents[0] as unknown as OutboxEmail | undefined)?.dryRunId;
+	if (!dryRunId) return [];
+
+	const response = await databases.listDocuments(DATABASE_ID, CollectionId.OUTBOX, [
+		Query.equal("campaignId", campaignId),
+		Query.equal("dryRunId", dryRunId),
+		Query.orderAsc("$createdAt"),
+		Query.limit(MAX_OUTBOX_EMAILS),
+	]);
+	return response.documents as unknown as OutboxEmail[];
+}
+
+export function useOutbox(campaignId?: string) {
+	const queryClient = useQueryClient();
+
+	const { data: emails = [], isLoading } = useQuery({
+		queryKey: outboxKeys.latest(campaignId),
+		queryFn: () => fetchLatestDryRun(campaignId ?? ""),
+		enabled: !!campaignId,
+		staleTime: 1000 * 60,
+	});
+
+	const { mutate: startDryRun, isPending: isStarting } = useMutation({
+		mutationFn: async () => {
+			if (!campaignId) throw new Error("No active campaign");
+
+			// Runs in the background; emails stream in through realtime
+			await functions.createExecution({
+				functionId: "orchestrator",
+				body: JSON.stringify({ action: "start", campaignId, dryRun: true }),
+				async: true,
+				method: ExecutionMethod.POST,
+			});
+		},
+		onSuccess: () => {
+			toast.success("Dry run started");
+		},
+		onError: (error) => {
+			console.error(error);
+			toast.error("Failed to start dry run");
+		},
+	});
+
+	useRealtimeSubscription(
+		`databases.${DATABASE_ID}.collections.${CollectionId.OUTBOX}.documents`,
+		(response) => {
+			if (!response.events.includes("databases.*.collections.*.documents.*.create")) return;
+
+			const created = response.payload as unknown as OutboxEmail;
+			if (created.campaignId !== campaignId) return;
+
+			// A new dry run replaces the previous one in view
+			queryClient.setQueryData(
+				outboxKeys.latest(campaignId),
+				(oldEmails: OutboxEmail[] | undefined) =>
+					oldEmails?.length && oldEmails[0].dryRunId === created.dryRunId
+						? [...oldEmails, created]
+						: [created]
+			);
+		},
+		!!campaignId
+	);
+
+	return {
+		emails,
+		isLoading,
+		startDryRun,
+		isStarting,
+	};
+}
@@ -0,0 +1,85 @@
+import { SegmentMatch } from "@shared/constants/status.constants";
+import type { Segment } from "@shared/types/segment.types";
+import { Bookmark, RefreshCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useCampaignCatalog } from "@/features/campaigns/hooks/use-manage-campaigns";
+import { useSegments } from "../hooks/use-segments";
+
+export function SavedSegments() {
+	const { segments, isLoading, applySegment, isApplying, deleteSegment } = useSegments();
+	const { data: campaigns = [] } = useCampaignCatalog(true);
+
+	const campaignName = (campaignId: string) =>
+		campaigns.find((campaign) => campaign.$id === campaignId)?.name ?? "Unknown campaign";
+
+	return (
+		<div className="bg-card border rounded-xl p-6 shadow-sm">
+			<h3 className="font-semibold flex items-center gap-2 mb-4">
+				<Bookmark className="h-4 w-4" /> Saved Segments
+			</h3>
+
+			{isLoading ? (
+				<div className="text-muted-foreground text-sm italic">Loading...</div>
+			) : segments.length === 0 ? (
+				<div className="text-muted-foreground text-sm italic">No saved segments.</div>
+			) : (
+				<div className="divide-y text-sm">
+					{segments.map((segment) => (
+						<SegmentRow
+							key={segment.$id}
+							segment={segment}
+							campaignName={campaignName(segment.campaignId)}
+							isApplying={isApplying}
+							onApply={() => applySegment(segment.$id)}
+							onDelete={() => deleteSegment(segment.$id)}
+						/>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
+
+interface SegmentRowProps {
+	segment: Segment;
+	campaignName: string;
+	isApplying: boolean;
+	onApply: () => void;
+	onDelete: () => void;
+}
+
+function SegmentRow({ segment, campaignName, isApplying, onApply, onDelete }: SegmentRowProps) {
+	const conditionCount = segment.conditions.length;
+
+	return (
+		<div className="flex items-center justify-between gap-4 py-3">
+			<div className="min-w-0 space-y-0.5">
+				<div className="font-medium truncate">{segment.name}</div>
+				<div className="text-xs text-muted-foreground">
+					{segment.match === SegmentMatch.ANY ? "Any" : "All"} of {conditionCount} condition
+					{conditionCount === 1 ? "" : "s"} → {campaignName}
+				</div>
+				<div className="text-xs text-muted-foreground">
+					{segment.lastAppliedAt
+						? `Last applied ${new Date(segment.lastAppliedAt).toLocaleString()} · ${segment.lastAssignedCount ?? 0} assigned`
+						: "Never applied"}
+				</div>
+			</div>
+			<div className="flex items-center gap-2 shrink-0">
+				<Button
+					variant="outline"
+					size="sm"
+					className="gap-2"
+					onClick={onApply}
+					disabled={isApplying}
+				>
+					<RefreshCw className={`h-3.5 w-3.5 ${isApplying ? "animate-spin" : ""}`} />
+					Re-apply
+				</Button>
+				<Button variant="ghost" size="icon" onClick={onDelete} title="Delete segment">
+					<Trash2 className="h-4 w-4" />
+				</Button>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,322 @@
+import {
+	CampaignStatus,
+	LeadStatus,
+	LeadType,
+	SegmentMatch,
+	type SegmentMatchType,
+	VerificationResult,
+} from "@shared/constants/status.constants";
+import {
+	SEGMENT_FIELD_OPERATORS,
+	type SegmentCondition,
+	type SegmentField,
+	type SegmentOperator,
+} from "@shared/types/segment.types";
+import { Filter, Loader2, Plus, Save, Trash2, UserPlus } from "lucide-react";
+import { useId, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { useCampaignCatalog } from "@/features/campaigns/hooks/use-manage-campaigns";
+import { CampaignSelect } from "@/features/shared/components/campaign-select";
+import { useSegmentCount, useSegments } from "../hooks/use-segments";
+
+const FIELD_LABELS: Record<SegmentField, string> = {
+	leadType: "Lead type",
+	companyName: "Company",
+	emailDomain: "Email domain",
+	status: "Status",
+	importBatchId: "Import batch",
+	createdAt: "Created",
+	tags: "Tag",
+	verificationResult: "Verification result",
+};
+
+const OPERATOR_LABELS: Record<SegmentOperator, string> = {
+	equals: "is",
+	notEquals: "is not",
+	contains: "contains",
+	before: "before",
+	after: "on or after",
+};
+
+/**
+ * Fields compared against a fixed set of values
+ */
+const FIELD_OPTIONS: Partial<Record<SegmentField, string[]>> = {
+	leadType: Object.values(LeadType),
+	status: Object.values(LeadStatus),
+	verificationResult: Object.values(VerificationResult),
+};
+
+/** Only campaigns whose queue can still grow accept leads */
+const ASSIGNABLE_STATUSES: string[] = [
+	CampaignStatus.DRAFT,
+	CampaignStatus.QUEUED,
+	CampaignStatus.RUNNING,
+	CampaignStatus.WAITING,
+	CampaignStatus.PAUSED,
+];
+
+const newCondition = (): SegmentCondition => ({
+	field: "emailDomain",
+	operator: "equals",
+	value: "",
+});
+
+export function SegmentBuilder() {
+	const [match, setMatch] = useState<SegmentMatchType>(SegmentMatch.ALL);
+	const [conditions, setConditions] = useState<SegmentCondition[]>([newCondition()]);
+	const [campaignId, setCampaignId] = useState<string>();
+	const [name, setName] = useState("");
+	const id = useId();
+
+	const { data: campaigns = [] } = useCampaignCatalog(false);
+	const { assignSegment, isAssigning, saveSegment, isSaving } = useSegments();
+
+	// Only count complete conditions so the total tracks what the user has finished typing
+	const completeConditions = conditions.filter((condition) => condition.value.trim());
+	const segment = { match, conditions: completeConditions };
+	const { data: count, isFetching: isCounting, error: countError } = useSegmentCount(segment);
+
+	const updateCondition = (index: number, condition: SegmentCondition) => {
+		setConditions(conditions.map((existing, i) => (i === index ? condition : existing)));
+	};
+
+	const canAssign = Boolean(campaignId) && completeConditions.length > 0;
+
+	const handleAssign = async () => {
+		if (!campaignId) return;
+		try {
+			await assignSegment({ campaignId, segment });
+		} catch {
+			// Error is handled by the mutation
+		}
+	};
+
+	const handleSave = async () => {
+		if (!campaignId || !name.trim()) return;
+		try {
+			await saveSegment({ ...segment, name, campaignId });
+			setName("");
+		} catch {
+			// Error is handled by the mutation
+		}
+	};
+
+	return (
+		<div className="bg-card border rounded-xl p-6 shadow-sm space-y-6">
+			<div className="flex items-center justify-between gap-4">
+				<h3 className="font-semibold flex items-center gap-2">
+					<Filter className="h-4 w-4" /> Build Segment
+				</h3>
+				<div className="text-sm text-muted-foreground flex items-center gap-2">
+					{isCounting && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+					{countError ? (
+						<span className="text-destructive">{countError.message}</span>
+					) : (
+						<span>
+							<span className="font-semibold text-foreground">{count ?? "—"}</span> unassigned leads
+							match
+						</span>
+					)}
+				</div>
+			</div>
+
+			<div className="flex items-center gap-2 text-sm">
+				<span>Match</span>
+				<Select value={match} onValueChange={(value) => setMatch(value as SegmentMatchType)}>
+					<SelectTrigger className="w-[90px]">
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						<SelectItem value={SegmentMatch.ALL}>all</SelectItem>
+						<SelectItem value={SegmentMatch.ANY}>any</SelectItem>
+					</SelectContent>
+				</Select>
+				<span>of the following conditions</span>
+			</div>
+
+			<div className="space-y-2">
+				{conditions.map((condition, index) => (
+					<ConditionRow
+						key={index}
+						condition={condition}
+						onChange={(next) => updateCondition(index, next)}
+						onRemove={() => setConditions(conditions.filter((_, i) => i !== index))}
+					/>
+				))}
+				<Button
+					variant="outline"
+					size="sm"
+					className="gap-2"
+					onClick={() => setConditions([...conditions, newCondition()])}
+				>
+					<Plus className="h-3.5 w-3.5" />
+					Add condition
+				</Button>
+			</div>
+
+			<div className="border-t pt-4 space-y-4">
+				<div className="flex flex-wrap items-end gap-4">
+					<div className="space-y-2">
+						<Label>Campaign</Label>
+						<CampaignSelect
+							campaigns={campaigns.filter((c) => ASSIGNABLE_STATUSES.includes(c.status))}
+							value={campaignId}
+							onValueChange={setCampaignId}
+						/>
+					</div>
+					<Button
+						className="gap-2"
+						onClick={handleAssign}
+						disabled={!canAssign || isAssigning || count === 0}
+					>
+						{isAssigning ? (
+							<Loader2 className="h-4 w-4 animate-spin" />
+						) : (
+							<UserPlus className="h-4 w-4" />
+						)}
+						Assign {count ?? ""} leads
+					</Button>
+				</div>
+
+				<div className="flex flex-wrap items-end gap-4">
+					<div className="space-y-2">
+						<Label htmlFor={`${id}-name`}>Save as</Label>
+						<Input
+							id={`${id}-name`}
+							className="w-[260px]"
+							placeholder="TCS hardware leads"
+							value={name}
+							onChange={(e) => setName(e.target.value)}
+						/>
+					</div>
+					<Button
+						variant="outline"
+						className="gap-2"
+						onClick={handleSave}
+						disabled={!canAssign || !name.trim() || isSaving}
+					>
+						<Save className="h-4 w-4" />
+						Save Segment
+					</Button>
+				</div>
+				<p className="text-xs text-muted-foreground">
+					Saved segments can be re-applied later to add newly imported leads to the campaign.
+				</p>
+			</div>
+		</div>
+	);
+}
+
+interface ConditionRowProps {
+	condition: SegmentCondition;
+	onChange: (condition: SegmentCondition) => void;
+	onRemove: () => void;
+}
+
+function ConditionRow({ condition, onChange, onRemove }: ConditionRowProps) {
+	const operators = SEGMENT_FIELD_OPERATORS[condition.field];
+
+	const changeField = (field: SegmentField) => {
+		// Values rarely carry over between fields, so start the new one blank
+		onChange({ field, operator: SEGMENT_FIELD_OPERATORS[field][0], value: "" });
+	};
+
+	return (
+		<div className="flex items-center gap-2">
+			<Select value={condition.field} onValueChange={(value) => changeField(value as SegmentField)}>
+				<SelectTrigger className="w-[180px]">
+					<SelectValue />
+				</SelectTrigger>
+				<SelectContent>
+					{Object.entries(FIELD_LABELS).map(([field, label]) => (
+						<SelectItem key={field} value={field}>
+							{label}
+						</SelectItem>
+					))}
+				</SelectContent>
+			</Select>
+
+			<Select
+				value={condition.operator}
+				onValueChange={(value) => onChange({ ...condition, operator: value as SegmentOperator })}
+			>
+				<SelectTrigger className="w-[130px]">
+					<SelectValue />
+				</SelectTrigger>
+				<SelectContent>
+					{operators.map((operator) => (
+						<SelectItem key={operator} value={operator}>
+							{OPERATOR_LABELS[operator]}
+						</SelectItem>
+					))}
+				</SelectContent>
+			</Select>
+
+			<ConditionValue
+				condition={condition}
+				onChange={(value) => onChange({ ...condition, value })}
+			/>
+
+			<Button variant="ghost" size="icon" onClick={onRemove} title="Remove condition">
+				<Trash2 className="h-4 w-4" />
+			</Button>
+		</div>
+	);
+}
+
+function ConditionValue({
+	condition,
+	onChange,
+}: {
+	condition: SegmentCondition;
+	onChange: (value: string) => void;
+}) {
+	const options = FIELD_OPTIONS[condition.field];
+
+	if (options) {
+		return (
+			<Select value={condition.value || undefined} onValueChange={onChange}>
+				<SelectTrigger className="w-[220px]">
+					<SelectValue placeholder="Select value" />
+				</SelectTrigger>
+				<SelectContent>
+					{options.map((option) => (
+						<SelectItem key={option} value={option}>
+							{option}
+						</SelectItem>
+					))}
+				</SelectContent>
+			</Select>
+		);
+	}
+
+	if (condition.field === "createdAt") {
+		return (
+			<Input
+				type="date"
+				className="w-[220px]"
+				value={condition.value}
+				onChange={(e) => onChange(e.target.value)}
+			/>
+		);
+	}
+
+	return (
+		<Input
+			className="w-[220px]"
+			placeholder={condition.field === "emailDomain" ? "tcs.com" : "Value"}
+			value={condition.value}
+			onChange={(e) => onChange(e.target.value)}
+		/>
+	);
+}
@@ -0,0 +1,206 @@
+import { CollectionId, DATABASE_ID } from "@shared/constants/collection.constants";
+import type { Segment, SegmentCreateInput, SegmentDefinition } from "@shared/types/segment.types";
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ID, type Models, Query } from "appwrite";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { databases, functions } from "@/lib/appwrite";
+import { campaignKeys, leadsKeys, segmentKeys } from "@/lib/query-keys";
+
+/** Wait for the user to stop editing before counting */
+const COUNT_DEBOUNCE_MS = 400;
+
+type SegmentAction =
+	| { action: "count"; segment: SegmentDefinition }
+	| { action: "assign"; campaignId: string; segment: SegmentDefinition }
+	| { action: "assign"; segmentId: string };
+
+interface AssignResult {
+	assigned: number;
+	hasMore: boolean;
+}
+
+/**
+ * Run an action through the segment-leads function, which validates the segment
+ */
+async function runSegmentAction(
+	body: SegmentAction,
+	fallbackMessage: string
+): Promise<Record<string, unknown>> {
+	const execution = await functions.createExecution({
+		functionId: "segment-leads",
+		body: JSON.stringify(body),
+		async: false,
+	});
+
+	// Check for execution errors
+	if (execution.responseStatusCode >= 400) {
+		let errorMessage = fallbackMessage;
+		try {
+			const errorData = JSON.parse(execution.responseBody || "{}");
+			errorMessage = errorData.message || errorMessage;
+		} catch {
+			// Use default error message
+		}
+		throw new Error(errorMessage);
+	}
+
+	const response = JSON.parse(execution.responseBody || "{}");
+	if (!response.success) {
+		throw new Error(response.message || fallbackMessage);
+	}
+
+	return response;
+}
+
+/**
+ * Conditions are stored as a JSON string
+ */
+function parseSegment(doc: Models.Document): Segment {
+	const segment = doc as unknown as Segment & { conditions: unknown };
+	let conditions: Segment["conditions"] = [];
+	if (typeof segment.conditions === "string") {
+		try {
+			conditions = JSON.parse(segment.conditions);
+		} catch {
+			// Leave a corrupt segment empty rather than breaking the list
+		}
+	}
+	return { ...segment, conditions };
+}
+
+/**
+ * Number of leads the segment matches right now, recounted shortly
+ * after the definition stops changing.
+ */
+export function useSegmentCount(segment: SegmentDefinition) {
+	const definition = JSON.stringify(segment);
+	const [debounced, setDebounced] = useState(definition);
+
+	useEffect(() => {
+		const timer = setTimeout(() => setDebounced(definition), COUNT_DEBOUNCE_MS);
+		return () => clearTimeout(timer);
+	}, [definition]);
+
+	return useQuery({
+		queryKey: segmentKeys.count(debounced),
+		queryFn: async () => {
+			const response = await runSegmentAction(
+				{ action: "count", segment: JSON.parse(debounced) },
+				"Failed to count leads"
+			);
+			return response.count as number;
+		},
+		placeholderData: keepPreviousData,
+		retry: false,
+		staleTime: 1000 * 30,
+	});
+}
+
+export function useSegments() {
+	const queryClient = useQueryClient();
+
+	const { data: segments = [], isLoading } = useQuery({
+		queryKey: segmentKeys.list(),
+		queryFn: async () => {
+			const response = await databases.listDocuments(DATABASE_ID, CollectionId.SEGMENTS, [
+				Query.orderDesc("$createdAt"),
+				Query.limit(100),
+			]);
+			return response.documents.map(parseSegment);
+		},
+		staleTime: 1000 * 60,
+	});
+
+	const onAssigned = ({ assigned, hasMore }: AssignResult) => {
+		queryClient.invalidateQueries({ queryKey: segmentKeys.all });
+		queryClient.invalidateQueries({ queryKey: leadsKeys.all });
+		queryClient.invalidateQueries({ queryKey: campaignKeys.all });
+		toast.success(`Assigned ${assigned} leads`, {
+			description: hasMore
+				? "More leads match; apply the segment again to assign them."
+				: undefined,
+		});
+	};
+
+	const { mutateAsync: assignSegment, isPending: isAssigning } = useMutation({
+		mutationFn: async ({
+			campaignId,
+			segment,
+		}: {
+			campaignId: string;
+			segment: SegmentDefinition;
+		}) => {
+			const response = await runSegmentAction(
+				{ action: "assign", campaignId, segment },
+				"Failed to assign leads"
+			);
+			return response as unknown as AssignResult;
+		},
+		onSuccess: onAssigned,
+		onError: (error) => {
+			toast.error("Failed to assign leads", { description: error.message });
+		},
+	});
+
+	const { mutate: applySegment, isPending: isApplying } = useMutation({
+		mutationFn: async (segmentId: string) => {
+			const response = await runSegmentAction(
+				{ action: "assign", segmentId },
+				"Failed to apply segment"
+			);
+			return response as unknown as AssignResult;
+		},
+		onSuccess: onAssigned,
+		onError: (error) => {
+			toast.error("Failed to apply segment", { description: error.message });
+		},
+	});
+
+	const { mutateAsync: saveSegment, isPending: isSaving } = useMutation({
+		mutationFn: async (input: SegmentCreateInput) => {
+			await databases.createDocument(DATABASE_ID, CollectionId.SEGMENTS, ID.unique(), {
+				name: input.name.trim(),
+				match: input.match,
+				conditions: JSON.stringify(input.conditions),
+				campaignId: input.campaignId,
+				lastAppliedAt: null,
+				lastAssignedCount: null,
+			});
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: segmentKeys.list() });
+			toast.success("Segment saved");
+		},
+		onError: (error) => {
+			console.error(error);
+			toast.error("Failed to save segment");
+		},
+	});
+
+	const { mutate: deleteSegment } = useMutation({
+		mutationFn: async (segmentId: string) => {
+			await databases.deleteDocument(DATABASE_ID, CollectionId.SEGMENTS, segmentId);
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: segmentKeys.list() });
+			toast.success("Segment deleted");
+		},
+		onError: (error) => {
+			console.error(error);
+			toast.error("Failed to delete segment");
+		},
+	});
+
+	return {
+		segments,
+		isLoading,
+		assignSegment,
+		isAssigning,
+		applySegment,
+		isApplying,
+		saveSegment,
+		isSaving,
+		deleteSegment,
+	};
+}
@@ -0,0 +1,51 @@
+import type { Campaign } from "@shared/types/campaign.types";
+import { Mails } from "lucide-react";
+import { useSendOptions } from "../hooks/use-send-options";
+import { SendOptionsDialog } from "./send-options-dialog";
+
+interface SendOptionsCardProps {
+	campaign: Campaign | null;
+}
+
+export function SendOptionsCard({ campaign }: SendOptionsCardProps) {
+	const { saveOptions, isSaving } = useSendOptions(campaign);
+
+	if (!campaign) return null;
+
+	const headerCount = Object.keys(campaign.customHeaders ?? {}).length;
+	const tags = Object.entries(campaign.emailTags ?? {});
+
+	return (
+		<div className="bg-card border rounded-xl p-6 shadow-sm">
+			<div className="flex items-center justify-between mb-4">
+				<h3 className="font-semibold flex items-center gap-2">
+					<Mails className="h-4 w-4" /> Send Options
+				</h3>
+				<SendOptionsDialog campaign={campaign} onSave={saveOptions} isSaving={isSaving} />
+			</div>
+
+			<dl className="space-y-2 text-sm">
+				<div className="flex items-center justify-between gap-2">
+					<dt className="text-muted-foreground">Reply-To</dt>
+					<dd className="font-medium truncate">{campaign.replyTo || "Sender"}</dd>
+				</div>
+				<div className="flex items-center justify-between gap-2">
+					<dt className="text-muted-foreground">Configuration set</dt>
+					<dd className="font-medium truncate">
+						{campaign.sesConfigurationSet || "Account default"}
+					</dd>
+				</div>
+				<div className="flex items-center justify-between gap-2">
+					<dt className="text-muted-foreground">Custom headers</dt>
+					<dd className="font-medium">{headerCount || "None"}</dd>
+				</div>
+				<div className="flex items-start justify-between gap-2">
+					<dt className="text-muted-foreground">Tags</dt>
+					<dd className="font-medium text-right break-all">
+						{tags.length > 0 ? tags.map(([name, value]) => `${name}=${value}`).join(", ") : "None"}
+					</dd>
+				</div>
+			</dl>
+		</div>
+	);
+}
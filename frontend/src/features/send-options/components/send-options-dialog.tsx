@@ -0,0 +1,247 @@
+import type { Campaign } from "@shared/types/campaign.types";
+import {
+	MAX_CUSTOM_HEADERS,
+	MAX_EMAIL_TAGS,
+	type SendOptions,
+	validateSendOptions,
+} from "@shared/validation/send-options";
+import { Loader2, Mails, Plus, Settings2, Trash2 } from "lucide-react";
+import { useId, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface Entry {
+	name: string;
+	value: string;
+}
+
+type SendOptionsForm = ReturnType<typeof toForm>;
+
+const toEntries = (record: Record<string, string>): Entry[] =>
+	Object.entries(record).map(([name, value]) => ({ name, value }));
+
+/**
+ * Rows with a blank name are dropped
+ */
+const toRecord = (entries: Entry[]): Record<string, string> =>
+	Object.fromEntries(
+		entries.filter((entry) => entry.name.trim()).map((entry) => [entry.name.trim(), entry.value])
+	);
+
+function toForm(campaign: Campaign) {
+	return {
+		replyTo: campaign.replyTo ?? "",
+		sesConfigurationSet: campaign.sesConfigurationSet ?? "",
+		customHeaders: toEntries(campaign.customHeaders ?? {}),
+		emailTags: toEntries(campaign.emailTags ?? {}),
+	};
+}
+
+function toOptions(form: SendOptionsForm): SendOptions {
+	return {
+		replyTo: form.replyTo.trim() || null,
+		sesConfigurationSet: form.sesConfigurationSet.trim() || null,
+		customHeaders: toRecord(form.customHeaders),
+		emailTags: toRecord(form.emailTags),
+	};
+}
+
+interface EntryListProps {
+	label: string;
+	description: string;
+	entries: Entry[];
+	max: number;
+	namePlaceholder: string;
+	valuePlaceholder: string;
+	onChange: (entries: Entry[]) => void;
+}
+
+/**
+ * Editable name/value rows
+ */
+function EntryList({
+	label,
+	description,
+	entries,
+	max,
+	namePlaceholder,
+	valuePlaceholder,
+	onChange,
+}: EntryListProps) {
+	const update = (index: number, change: Partial<Entry>) =>
+		onChange(entries.map((entry, i) => (i === index ? { ...entry, ...change } : entry)));
+
+	return (
+		<div className="space-y-2">
+			<div className="flex items-center justify-between">
+				<Label>{label}</Label>
+				<Button
+					type="button"
+					variant="ghost"
+					size="sm"
+					className="gap-1 h-7"
+					disabled={entries.length >= max}
+					onClick={() => onChange([...entries, { name: "", value: "" }])}
+				>
+					<Plus className="h-3.5 w-3.5" />
+					Add
+				</Button>
+			</div>
+			{entries.map((entry, index) => (
+				<div key={index} className="flex items-center gap-2">
+					<Input
+						placeholder={namePlaceholder}
+						value={entry.name}
+						onChange={(e) => update(index, { name: e.target.value })}
+					/>
+					<Input
+						placeholder={valuePlaceholder}
+						value={entry.value}
+						onChange={(e) => update(index, { value: e.target.value })}
+					/>
+					<Button
+						type="button"
+						variant="ghost"
+						size="icon"
+						className="shrink-0"
+						onClick={() => onChange(entries.filter((_, i) => i !== index))}
+					>
+						<Trash2 className="h-3.5 w-3.5" />
+					</Button>
+				</div>
+			))}
+			<p className="text-xs text-muted-foreground">{description}</p>
+		</div>
+	);
+}
+
+interface SendOptionsDialogProps {
+	campaign: Campaign;
+	onSave: (options: SendOptions) => Promise<void>;
+	isSaving: boolean;
+}
+
+export function SendOptionsDialog({ campaign, onSave, isSaving }: SendOptionsDialogProps) {
+	const [open, setOpen] = useState(false);
+	const [formData, setFormData] = useState(() => toForm(campaign));
+	const [submitError, setSubmitError] = useState<string | null>(null);
+	const id = useId();
+
+	const handleOpenChange = (next: boolean) => {
+		if (next) {
+			setFormData(toForm(campaign));
+			setSubmitError(null);
+		}
+		setOpen(next);
+	};
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		const options = toOptions(formData);
+		const error = validateSendOptions(options);
+		if (error) {
+			setSubmitError(error);
+			return;
+		}
+
+		try {
+			await onSave(options);
+			setSubmitError(null);
+			setOpen(false);
+		} catch {
+			// Error is handled by the mutation
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={handleOpenChange}>
+			<DialogTrigger asChild>
+				<Button variant="outline" size="sm" className="gap-2">
+					<Settings2 className="h-4 w-4" />
+					Configure
+				</Button>
+			</DialogTrigger>
+
+			<DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+				<DialogHeader>
+					<DialogTitle className="flex items-center gap-2 text-xl">
+						<Mails className="h-5 w-5 text-primary" />
+						Send Options
+					</DialogTitle>
+					<DialogDescription>
+						Where replies go and what every email of this campaign carries. Changes apply from the
+						next send.
+					</DialogDescription>
+				</DialogHeader>
+
+				<form onSubmit={handleSubmit} className="space-y-4 py-4">
+					<div className="space-y-2">
+						<Label htmlFor={`${id}-replyTo`}>Reply-To</Label>
+						<Input
+							id={`${id}-replyTo`}
+							type="email"
+							placeholder="Leave blank to reply to the sender"
+							value={formData.replyTo}
+							onChange={(e) => setFormData({ ...formData, replyTo: e.target.value })}
+						/>
+					</div>
+
+					<div className="space-y-2">
+						<Label htmlFor={`${id}-configurationSet`}>SES configuration set</Label>
+						<Input
+							id={`${id}-configurationSet`}
+							placeholder="Leave blank for the account default"
+							value={formData.sesConfigurationSet}
+							onChange={(e) => setFormData({ ...formData, sesConfigurationSet: e.target.value })}
+						/>
+						<p className="text-xs text-muted-foreground">
+							Routes delivery, bounce and complaint events, e.g., to the SQS queue.
+						</p>
+					</div>
+
+					<EntryList
+						label="Custom headers"
+						description="Added to every email. From, Subject, Reply-To and other headers the sender writes cannot be set here."
+						entries={formData.customHeaders}
+						max={MAX_CUSTOM_HEADERS}
+						namePlaceholder="X-Campaign-Source"
+						valuePlaceholder="Value"
+						onChange={(customHeaders) => setFormData({ ...formData, customHeaders })}
+					/>
+
+					<EntryList
+						label="SES tags"
+						description="Sent with campaign_id and lead_id and echoed back in SES events. Values may use {{LeadType}} and other variables."
+						entries={formData.emailTags}
+						max={MAX_EMAIL_TAGS}
+						namePlaceholder="source"
+						valuePlaceholder="linkedin or {{LeadType}}"
+						onChange={(emailTags) => setFormData({ ...formData, emailTags })}
+					/>
+
+					{submitError && <p className="text-xs text-destructive">{submitError}</p>}
+
+					<DialogFooter className="pt-4">
+						<Button type="button" variant="outline" onClick={() => setOpen(false)}>
+							Cancel
+						</Button>
+						<Button type="submit" disabled={isSaving} className="gap-2">
+							{isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+							{isSaving ? "Saving..." : "Save"}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,38 @@
+import { CollectionId, DATABASE_ID } from "@shared/constants/collection.constants";
+import type { Campaign } from "@shared/types/campaign.types";
+import type { SendOptions } from "@shared/validation/send-options";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { databases } from "@/lib/appwrite";
+import { campaignKeys } from "@/lib/query-keys";
+
+export function useSendOptions(campaign: Campaign | null) {
+	const queryClient = useQueryClient();
+
+	const { mutateAsync: saveOptions, isPending: isSaving } = useMutation({
+		mutationFn: async (options: SendOptions) => {
+			if (!campaign) throw new Error("No active campaign");
+
+			// Picked up by the orchestrator before the next send
+			await databases.updateDocument(DATABASE_ID, CollectionId.CAMPAIGNS, campaign.$id, {
+				replyTo: options.replyTo,
+				sesConfigurationSet: options.sesConfigurationSet,
+				customHeaders: JSON.stringify(options.customHeaders),
+				emailTags: JSON.stringify(options.emailTags),
+			});
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: campaignKeys.list() });
+			toast.success("Send options saved");
+		},
+		onError: (error) => {
+			console.error(error);
+			toast.error("Failed to save send options");
+		},
+	});
+
+	return {
+		saveOptions,
+		isSaving,
+	};
+}
@@ -1,6 +1,8 @@
 import { zodResolver } from "@hookform/resolvers/zod";
+import { MailTransport, type MailTransportType } from "@shared/constants/status.constants";
+import { DEFAULT_SETTINGS, type Settings } from "@shared/types/settings.types";
 import { Loader2 } from "lucide-react";
-import { type Resolver, useForm } from "react-hook-form";
+import { type Resolver, type UseFormReturn, useForm } from "react-hook-form";
 import { z } from "zod";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -14,25 +16,115 @@ import {
 	FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
 import { useSettings } from "../hooks/use-settings";
 
-const settingsSchema = z.object({
-	awsSesRegion: z.string().min(1, "Required"),
-	awsSesAccessKeyId: z.string().optional(),
-	awsSesSecretAccessKey: z.string().optional(),
-	awsSqsQueueUrl: z.string().optional(),
-	awsSqsRegion: z.string().min(1, "Required"),
-	myEmailVerifierApiKey: z.string().optional(),
-	defaultMinDelayMs: z.coerce.number().min(0),
-	defaultMaxDelayMs: z.coerce.number().min(0),
-	sqsPollingIntervalMs: z.coerce.number().min(100),
-	maxRetries: z.coerce.number().min(0),
-	unsubscribeTokenSecret: z.string().min(10, "Must be at least 10 chars"),
-});
+const MAIL_TRANSPORT_LABELS: Record<MailTransportType, string> = {
+	[MailTransport.SES]: "AWS SES",
+	[MailTransport.SMTP]: "SMTP relay",
+	[MailTransport.LOCAL_SINK]: "Local sink (development)",
+};
+
+const MAIL_TRANSPORT_HINTS: Record<MailTransportType, string> = {
+	[MailTransport.SES]: "Sends through SES. Bounces and complaints come back through SQS.",
+	[MailTransport.SMTP]:
+		"Sends through an SMTP relay such as smtp-relay.gmail.com. Bounces and complaints are not tracked.",
+	[MailTransport.LOCAL_SINK]:
+		"Nothing leaves the machine: emails are written as .eml files or caught by a local server such as MailHog.",
+};
+
+const settingsSchema = z
+	.object({
+		mailTransport: z.enum([MailTransport.SES, MailTransport.SMTP, MailTransport.LOCAL_SINK]),
+		smtpHost: z.string().optional(),
+		smtpPort: z.coerce.number().int().min(1).max(65535),
+		smtpSecure: z.boolean(),
+		smtpUsername: z.string().optional(),
+		smtpPassword: z.string().optional(),
+		smtpTimeoutMs: z.coerce.number().int().min(1000).max(300000),
+		localSinkTarget: z.string().optional(),
+		awsSesRegion: z.string().min(1, "Required"),
+		awsSesAccessKeyId: z.string().optional(),
+		awsSesSecretAccessKey: z.string().optional(),
+		awsSqsQueueUrl: z.string().optional(),
+		awsSqsRegion: z.string().min(1, "Required"),
+		myEmailVerifierApiKey: z.string().optional(),
+		defaultMinDelayMs: z.coerce.number().min(0),
+		defaultMaxDelayMs: z.coerce.number().min(0),
+		sqsPollingIntervalMs: z.coerce.number().min(100),
+		maxRetries: z.coerce.number().min(0),
+		maxLeadAttempts: z.coerce.number().min(1),
+		leadRetryBackoffMinutes: z.coerce.number().min(1),
+		globalHourlySendCap: z.coerce.number().min(0),
+		globalDailySendCap: z.coerce.number().min(0),
+		breakerMaxHardBounceRate: z.coerce.number().min(0).max(100),
+		breakerMaxComplaintRate: z.coerce.number().min(0).max(100),
+		breakerMinSends: z.coerce.number().min(0),
+		breakerEarlyComplaintSends: z.coerce.number().min(0),
+		contactCapDays: z.coerce.number().min(0).max(365),
+		contactCapByDomain: z.boolean(),
+		unsubscribeTokenSecret: z.string().min(10, "Must be at least 10 chars"),
+	})
+	.refine((data) => data.mailTransport !== MailTransport.SMTP || data.smtpHost?.trim(), {
+		message: "Required for SMTP",
+		path: ["smtpHost"],
+	})
+	.refine(
+		(data) => data.mailTransport !== MailTransport.LOCAL_SINK || data.localSinkTarget?.trim(),
+		{
+			message: "Required for the local sink",
+			path: ["localSinkTarget"],
+		}
+	);
 
 type SettingsFormValues = z.infer<typeof settingsSchema>;
 
+/**
+ * Settings added after the first release, falling back to the defaults
+ * when the settings document predates them (0 is a valid "off" value).
+ */
+function newerSettings(settings: Settings | null) {
+	return {
+		...mailTransportSettings(settings),
+		maxLeadAttempts: settings?.maxLeadAttempts ?? DEFAULT_SETTINGS.maxLeadAttempts,
+		leadRetryBackoffMinutes:
+			settings?.leadRetryBackoffMinutes ?? DEFAULT_SETTINGS.leadRetryBackoffMinutes,
+		breakerMaxHardBounceRate:
+			settings?.breakerMaxHardBounceRate ?? DEFAULT_SETTINGS.breakerMaxHardBounceRate,
+		breakerMaxComplaintRate:
+			settings?.breakerMaxComplaintRate ?? DEFAULT_SETTINGS.breakerMaxComplaintRate,
+		breakerMinSends: settings?.breakerMinSends ?? DEFAULT_SETTINGS.breakerMinSends,
+		breakerEarlyComplaintSends:
+			settings?.breakerEarlyComplaintSends ?? DEFAULT_SETTINGS.breakerEarlyComplaintSends,
+		contactCapDays: settings?.contactCapDays ?? DEFAULT_SETTINGS.contactCapDays,
+		contactCapByDomain: settings?.contactCapByDomain ?? DEFAULT_SETTINGS.contactCapByDomain,
+	};
+}
+
+/**
+ * Mail transport settings, with the same fallback as newerSettings
+ */
+function mailTransportSettings(settings: Settings | null) {
+	return {
+		mailTransport: settings?.mailTransport ?? DEFAULT_SETTINGS.mailTransport,
+		smtpHost: settings?.smtpHost ?? DEFAULT_SETTINGS.smtpHost,
+		smtpPort: settings?.smtpPort ?? DEFAULT_SETTINGS.smtpPort,
+		smtpSecure: settings?.smtpSecure ?? DEFAULT_SETTINGS.smtpSecure,
+		smtpUsername: settings?.smtpUsername ?? DEFAULT_SETTINGS.smtpUsername,
+		smtpPassword: settings?.smtpPassword ?? DEFAULT_SETTINGS.smtpPassword,
+		smtpTimeoutMs: settings?.smtpTimeoutMs ?? DEFAULT_SETTINGS.smtpTimeoutMs,
+		localSinkTarget: settings?.localSinkTarget ?? DEFAULT_SETTINGS.localSinkTarget,
+	};
+}
+
 export function SettingsForm() {
 	const { settings, updateSettings, isSaving } = useSettings();
 
@@ -49,6 +141,9 @@ export function SettingsForm() {
 			defaultMaxDelayMs: (settings?.defaultMaxDelayMs as number) || 180000,
 			sqsPollingIntervalMs: (settings?.sqsPollingIntervalMs as number) || 60000,
 			maxRetries: (settings?.maxRetries as number) || 3,
+			globalHourlySendCap: (settings?.globalHourlySendCap as number) || 0,
+			globalDailySendCap: (settings?.globalDailySendCap as number) || 0,
+			...newerSettings(settings),
 			unsubscribeTokenSecret: settings?.unsubscribeTokenSecret || "",
 		} as SettingsFormValues,
 	});
@@ -60,6 +155,8 @@ export function SettingsForm() {
 	return (
 		<Form {...form}>
 			<form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+				<MailTransportCard form={form} settings={settings} />
+
 				{/* AWS Configuration */}
 				<Card>
 					<CardHeader>
@@ -231,6 +328,71 @@ export function SettingsForm() {
 								)}
 							/>
 						</div>
+						<div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+							<FormField
+								control={form.control}
+								name="maxLeadAttempts"
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Max Attempts per Lead</FormLabel>
+										<FormControl>
+											<Input {...field} type="number" />
+										</FormControl>
+										<FormDescription>
+											Greylisted and transient send failures are retried until this many attempts (1
+											= no retries)
+										</FormDescription>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+							<FormField
+								control={form.control}
+								name="leadRetryBackoffMinutes"
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Retry Backoff (minutes)</FormLabel>
+										<FormControl>
+											<Input {...field} type="number" />
+										</FormControl>
+										<FormDescription>
+											Delay before the first retry, doubled each attempt
+										</FormDescription>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+						</div>
+						<div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+							<FormField
+								control={form.control}
+								name="globalHourlySendCap"
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Global Hourly Send Cap</FormLabel>
+										<FormControl>
+											<Input {...field} type="number" />
+										</FormControl>
+										<FormDescription>0 = unlimited</FormDescription>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+							<FormField
+								control={form.control}
+								name="globalDailySendCap"
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Global Daily Send Cap</FormLabel>
+										<FormControl>
+											<Input {...field} type="number" />
+										</FormControl>
+										<FormDescription>0 = unlimited</FormDescription>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+						</div>
 						<FormField
 							control={form.control}
 							name="unsubscribeTokenSecret"
@@ -250,6 +412,128 @@ export function SettingsForm() {
 					</CardContent>
 				</Card>
 
+				{/* Circuit Breaker */}
+				<Card>
+					<CardHeader>
+						<CardTitle>Circuit Breaker</CardTitle>
+						<CardDescription>
+							Pause a campaign automatically when bounces or complaints spike. Paused campaigns must
+							be acknowledged on the dashboard before they can be resumed.
+						</CardDescription>
+					</CardHeader>
+					<CardContent className="space-y-4">
+						<div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+							<FormField
+								control={form.control}
+								name="breakerMaxHardBounceRate"
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Max Hard-Bounce Rate (%)</FormLabel>
+										<FormControl>
+											<Input {...field} type="number" step="0.1" />
+										</FormControl>
+										<FormDescription>0 = off</FormDescription>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+							<FormField
+								control={form.control}
+								name="breakerMaxComplaintRate"
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Max Complaint Rate (%)</FormLabel>
+										<FormControl>
+											<Input {...field} type="number" step="0.01" />
+										</FormControl>
+										<FormDescription>0 = off</FormDescription>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+						</div>
+						<div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+							<FormField
+								control={form.control}
+								name="breakerMinSends"
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Minimum Sends</FormLabel>
+										<FormControl>
+											<Input {...field} type="number" />
+										</FormControl>
+										<FormDescription>Rates are only judged after this many sends</FormDescription>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+							<FormField
+								control={form.control}
+								name="breakerEarlyComplaintSends"
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Early Complaint Window (sends)</FormLabel>
+										<FormControl>
+											<Input {...field} type="number" />
+										</FormControl>
+										<FormDescription>
+											Any complaint within this many sends pauses the campaign (0 = off)
+										</FormDescription>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+						</div>
+					</CardContent>
+				</Card>
+
+				{/* Contact Frequency Cap */}
+				<Card>
+					<CardHeader>
+						<CardTitle>Contact Frequency Cap</CardTitle>
+						<CardDescription>
+							Skip leads who were emailed recently by any campaign, before they are verified.
+							Follow-up steps of a sequence are not affected.
+						</CardDescription>
+					</CardHeader>
+					<CardContent className="space-y-4">
+						<div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+							<FormField
+								control={form.control}
+								name="contactCapDays"
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Minimum Days Between Contacts</FormLabel>
+										<FormControl>
+											<Input {...field} type="number" />
+										</FormControl>
+										<FormDescription>0 = off</FormDescription>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+							<FormField
+								control={form.control}
+								name="contactCapByDomain"
+								render={({ field }) => (
+									<FormItem className="flex items-center justify-between rounded-lg border p-3">
+										<div className="space-y-0.5">
+											<FormLabel>Include Company Domain</FormLabel>
+											<FormDescription>
+												An email to a colleague at the same domain counts as a contact. Free-mail
+												providers such as gmail.com are excluded.
+											</FormDescription>
+										</div>
+										<FormControl>
+											<Switch checked={field.value} onCheckedChange={field.onChange} />
+										</FormControl>
+									</FormItem>
+								)}
+							/>
+						</div>
+					</CardContent>
+				</Card>
+
 				<div className="flex justify-end">
 					<Button type="submit" disabled={isSaving} className="w-full md:w-auto">
 						{isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
@@ -261,6 +545,175 @@ export function SettingsForm() {
 	);
 }
 
+interface MailTransportCardProps {
+	form: UseFormReturn<SettingsFormValues>;
+	settings: Settings | null;
+}
+
+function MailTransportCard({ form, settings }: MailTransportCardProps) {
+	const mailTransport = form.watch("mailTransport");
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Mail Transport</CardTitle>
+				<CardDescription>How campaign emails are sent.</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				<FormField
+					control={form.control}
+					name="mailTransport"
+					render={({ field }) => (
+						<FormItem>
+							<FormLabel>Transport</FormLabel>
+							<Select value={field.value} onValueChange={field.onChange}>
+								<FormControl>
+									<SelectTrigger>
+										<SelectValue />
+									</SelectTrigger>
+								</FormControl>
+								<SelectContent>
+									{Object.entries(MAIL_TRANSPORT_LABELS).map(([transport, label]) => (
+										<SelectItem key={transport} value={transport}>
+											{label}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+							<FormDescription>{MAIL_TRANSPORT_HINTS[field.value]}</FormDescription>
+							<FormMessage />
+						</FormItem>
+					)}
+				/>
+
+				{mailTransport === MailTransport.SMTP && (
+					<>
+						<div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+							<FormField
+								control={form.control}
+								name="smtpHost"
+								render={({ field }) => (
+									<FormItem className="md:col-span-2">
+										<FormLabel>SMTP Host</FormLabel>
+										<FormControl>
+											<Input {...field} placeholder="smtp-relay.gmail.com" />
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+							<FormField
+								control={form.control}
+								name="smtpPort"
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Port</FormLabel>
+										<FormControl>
+											<Input {...field} type="number" />
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+						</div>
+
+						<div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+							<FormField
+								control={form.control}
+								name="smtpUsername"
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Username</FormLabel>
+										<FormControl>
+											<Input {...field} autoComplete="off" />
+										</FormControl>
+										<FormDescription>Leave empty for relays that allow by IP</FormDescription>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+							<FormField
+								control={form.control}
+								name="smtpPassword"
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Password</FormLabel>
+										<FormControl>
+											<Input {...field} type="password" autoComplete="new-password" />
+										</FormControl>
+										<FormDescription>
+											Currently provided: {settings?.smtpPassword ? "Yes" : "No"}
+										</FormDescription>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+						</div>
+
+						<FormField
+							control={form.control}
+							name="smtpSecure"
+							render={({ field }) => (
+								<FormItem className="flex items-center justify-between rounded-lg border p-3">
+									<div className="space-y-0.5">
+										<FormLabel>Implicit TLS</FormLabel>
+										<FormDescription>
+											Connect over TLS from the start (usually port 465). Off, the connection is
+											upgraded with STARTTLS when the server offers it (port 587).
+										</FormDescription>
+									</div>
+									<FormControl>
+										<Switch checked={field.value} onCheckedChange={field.onChange} />
+									</FormControl>
+								</FormItem>
+							)}
+						/>
+					</>
+				)}
+
+				{mailTransport === MailTransport.LOCAL_SINK && (
+					<FormField
+						control={form.control}
+						name="localSinkTarget"
+						render={({ field }) => (
+							<FormItem>
+								<FormLabel>Sink Target</FormLabel>
+								<FormControl>
+									<Input {...field} placeholder="smtp://localhost:1025" />
+								</FormControl>
+								<FormDescription>
+									A directory to write .eml files to, or smtp://host:port of a catch-all server such
+									as MailHog.
+								</FormDescription>
+								<FormMessage />
+							</FormItem>
+						)}
+					/>
+				)}
+
+				{mailTransport !== MailTransport.SES && (
+					<FormField
+						control={form.control}
+						name="smtpTimeoutMs"
+						render={({ field }) => (
+							<FormItem>
+								<FormLabel>Connection Timeout (ms)</FormLabel>
+								<FormControl>
+									<Input {...field} type="number" />
+								</FormControl>
+								<FormDescription>
+									How long to wait on the SMTP server or sink before the send counts as failed
+								</FormDescription>
+								<FormMessage />
+							</FormItem>
+						)}
+					/>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
+
 export function SettingsSkeleton() {
 	return (
 		<div className="space-y-6">
@@ -9,26 +9,31 @@ import { toast } from "sonner";
 import { databases } from "@/lib/appwrite";
 import { settingsKeys } from "@/lib/query-keys";
 
+/**
+ * The settings document, or null before it has been seeded.
+ */
+export async function fetchSettings(): Promise<Settings | null> {
+	try {
+		const response = await databases.getDocument(
+			DATABASE_ID,
+			CollectionId.SETTINGS,
+			SETTINGS_DOCUMENT_ID
+		);
+		return response as unknown as Settings;
+	} catch (error: unknown) {
+		if (error && typeof error === "object" && "code" in error && error.code === 404) {
+			return null;
+		}
+		throw error;
+	}
+}
+
 export function useSettings() {
 	const queryClient = useQueryClient();
 
 	const { data: settings } = useSuspenseQuery({
 		queryKey: settingsKeys.all,
-		queryFn: async () => {
-			try {
-				const response = await databases.getDocument(
-					DATABASE_ID,
-					CollectionId.SETTINGS,
-					SETTINGS_DOCUMENT_ID
-				);
-				return response as unknown as Settings;
-			} catch (error: unknown) {
-				if (error && typeof error === "object" && "code" in error && error.code === 404) {
-					return null;
-				}
-				throw error;
-			}
-		},
+		queryFn: fetchSettings,
 	});
 
 	const { mutate: updateSettings, isPending: isSaving } = useMutation({
@@ -0,0 +1,38 @@
+import type { Campaign } from "@shared/types/campaign.types";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+
+interface CampaignSelectProps {
+	campaigns: Campaign[];
+	value: string | undefined;
+	onValueChange: (campaignId: string) => void;
+	className?: string;
+}
+
+export function CampaignSelect({
+	campaigns,
+	value,
+	onValueChange,
+	className,
+}: CampaignSelectProps) {
+	return (
+		<Select value={value} onValueChange={onValueChange} disabled={campaigns.length === 0}>
+			<SelectTrigger className={className ?? "w-[260px]"}>
+				<SelectValue placeholder="Select campaign" />
+			</SelectTrigger>
+			<SelectContent>
+				{campaigns.map((campaign) => (
+					<SelectItem key={campaign.$id} value={campaign.$id}>
+						<span className="truncate">{campaign.name}</span>
+						<span className="ml-2 text-xs text-muted-foreground">{campaign.status}</span>
+					</SelectItem>
+				))}
+			</SelectContent>
+		</Select>
+	);
+}
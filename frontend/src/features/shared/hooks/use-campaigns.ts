@@ -0,0 +1,100 @@
+import { CollectionId, DATABASE_ID } from "@shared/constants/collection.constants";
+import { CampaignStatus } from "@shared/constants/status.constants";
+import type { Campaign } from "@shared/types/campaign.types";
+import { useQuery } from "@tanstack/react-query";
+import { Query } from "appwrite";
+import { databases } from "@/lib/appwrite";
+import { campaignKeys } from "@/lib/query-keys";
+
+/**
+ * Statuses that count as "in flight" on the dashboard, in display priority.
+ */
+const ACTIVE_STATUSES: string[] = [
+	CampaignStatus.RUNNING,
+	CampaignStatus.WAITING,
+	CampaignStatus.QUEUED,
+	CampaignStatus.PAUSED,
+];
+
+/**
+ * Campaign attributes stored as JSON strings (Appwrite has no object type).
+ */
+const JSON_FIELDS = [
+	"sequenceSteps",
+	"sendingWindow",
+	"senderPool",
+	"variants",
+	"runProgress",
+	"bufferedVerification",
+	"circuitBreakerBaseline",
+	"delayParams",
+	"attachments",
+	"customHeaders",
+	"emailTags",
+] as const;
+
+/**
+ * Decode a campaign document's JSON attributes.
+ * Also used for realtime payloads, which arrive undecoded.
+ */
+export function parseCampaign(doc: unknown): Campaign {
+	const campaign = { ...(doc as Record<string, unknown>) };
+	for (const field of JSON_FIELDS) {
+		const value = campaign[field];
+		if (typeof value === "string") {
+			campaign[field] = value ? JSON.parse(value) : null;
+		}
+	}
+	return {
+		...(campaign as unknown as Campaign),
+		sequenceSteps: (campaign.sequenceSteps as Campaign["sequenceSteps"] | null) ?? [],
+		senderPool: (campaign.senderPool as Campaign["senderPool"] | null) ?? [],
+		variants: (campaign.variants as Campaign["variants"] | null) ?? [],
+		attachments: (campaign.attachments as Campaign["attachments"] | null) ?? [],
+		customHeaders: (campaign.customHeaders as Campaign["customHeaders"] | null) ?? {},
+		emailTags: (campaign.emailTags as Campaign["emailTags"] | null) ?? {},
+	};
+}
+
+/**
+ * Most recent campaigns that are not archived.
+ * Archived campaigns are only listed on the campaigns page.
+ */
+export async function fetchCampaigns(): Promise<Campaign[]> {
+	const response = await databases.listDocuments(DATABASE_ID, CollectionId.CAMPAIGNS, [
+		Query.isNull("archivedAt"),
+		Query.orderDesc("$createdAt"),
+		Query.limit(100),
+	]);
+	return response.documents.map(parseCampaign);
+}
+
+export function isActiveCampaign(campaign: Campaign): boolean {
+	return ACTIVE_STATUSES.includes(campaign.status);
+}
+
+/**
+ * Resolve the campaign to show: the requested one if it exists, otherwise
+ * the highest-priority in-flight campaign, otherwise the most recent.
+ */
+export function selectCampaign(campaigns: Campaign[], campaignId?: string): Campaign | null {
+	if (campaignId) {
+		const requested = campaigns.find((c) => c.$id === campaignId);
+		if (requested) return requested;
+	}
+
+	for (const status of ACTIVE_STATUSES) {
+		const match = campaigns.find((c) => c.status === status);
+		if (match) return match;
+	}
+
+	return campaigns[0] ?? null;
+}
+
+export function useCampaigns() {
+	return useQuery({
+		queryKey: campaignKeys.list(),
+		queryFn: fetchCampaigns,
+		staleTime: 1000 * 60,
+	});
+}
@@ -5,8 +5,10 @@ import {
 	History,
 	LayoutDashboard,
 	LogOut,
+	Megaphone,
 	Settings,
 	Users,
+	Webhook,
 } from "lucide-react";
 import { ModeToggle } from "@/components/mode-toggle";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -36,9 +38,11 @@ import { cn } from "@/lib/utils";
 
 export const NAV_ITEMS = [
 	{ label: "Dashboard", href: "/", icon: LayoutDashboard },
+	{ label: "Campaigns", href: "/campaigns", icon: Megaphone },
 	{ label: "Leads", href: "/leads", icon: Users },
 	{ label: "Templates", href: "/templates", icon: FileText },
 	{ label: "Logs", href: "/logs", icon: History },
+	{ label: "Webhooks", href: "/webhooks", icon: Webhook },
 	{ label: "Settings", href: "/settings", icon: Settings },
 ];
 
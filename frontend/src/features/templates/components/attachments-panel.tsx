@@ -0,0 +1,95 @@
+import {
+	formatBytes,
+	MAX_ATTACHMENT_BYTES,
+	MAX_ATTACHMENTS,
+	SES_MAX_MESSAGE_BYTES,
+} from "@shared/attachments/limits";
+import type { Campaign } from "@shared/types/campaign.types";
+import { Loader2, Paperclip, X } from "lucide-react";
+import { useRef, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { getStepAttachments, useAttachments } from "../hooks/use-attachments";
+
+interface AttachmentsPanelProps {
+	campaign: Campaign;
+}
+
+/**
+ * Files attached to the campaign's initial email and to each follow-up step
+ */
+export function AttachmentsPanel({ campaign }: AttachmentsPanelProps) {
+	const { addAttachment, removeAttachment, isUploading } = useAttachments(campaign);
+	const fileInputRef = useRef<HTMLInputElement>(null);
+	const [targetStep, setTargetStep] = useState(0);
+
+	const steps = [
+		{ index: 0, label: "Initial email" },
+		...campaign.sequenceSteps.map((step, i) => ({
+			index: i + 1,
+			label: `Follow-up ${i + 1} (after ${step.waitDays}d)`,
+		})),
+	];
+
+	const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		if (file) addAttachment({ stepIndex: targetStep, file });
+		e.target.value = "";
+	};
+
+	return (
+		<div className="rounded-lg border p-3 space-y-2">
+			<div className="flex items-center justify-between">
+				<span className="text-sm font-medium flex items-center gap-2">
+					<Paperclip className="h-4 w-4" />
+					Attachments
+				</span>
+				<span className="text-xs text-muted-foreground">
+					Up to {MAX_ATTACHMENTS} files of {formatBytes(MAX_ATTACHMENT_BYTES)},{" "}
+					{formatBytes(SES_MAX_MESSAGE_BYTES)} per email
+				</span>
+			</div>
+
+			<input ref={fileInputRef} type="file" className="hidden" onChange={handleFileChange} />
+
+			{steps.map(({ index, label }) => {
+				const attachments = getStepAttachments(campaign, index);
+				return (
+					<div key={index} className="flex items-center gap-2 flex-wrap">
+						<span className="text-xs text-muted-foreground w-40 shrink-0">{label}</span>
+						{attachments.map((attachment) => (
+							<Badge key={attachment.fileId} variant="secondary" className="gap-1">
+								{attachment.name}
+								<span className="text-muted-foreground">({formatBytes(attachment.sizeBytes)})</span>
+								<button
+									type="button"
+									className="ml-1 hover:text-destructive"
+									onClick={() => removeAttachment({ stepIndex: index, fileId: attachment.fileId })}
+									title="Remove attachment"
+								>
+									<X className="h-3 w-3" />
+								</button>
+							</Badge>
+						))}
+						<Button
+							variant="ghost"
+							size="sm"
+							className="h-6 px-2 text-xs"
+							disabled={isUploading || attachments.length >= MAX_ATTACHMENTS}
+							onClick={() => {
+								setTargetStep(index);
+								fileInputRef.current?.click();
+							}}
+						>
+							{isUploading && targetStep === index ? (
+								<Loader2 className="h-3 w-3 animate-spin" />
+							) : (
+								"+ Attach"
+							)}
+						</Button>
+					</div>
+				);
+			})}
+		</div>
+	);
+}
@@ -1,3 +1,5 @@
+import type { BodyFormatType } from "@shared/constants/status.constants";
+import { renderEmailBody } from "@shared/email-body/renderer";
 import { resolveSpintax, validateSpintax } from "@shared/spintax/resolver";
 import {
 	buildTemplateVariables,
@@ -13,6 +15,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 interface LivePreviewProps {
 	subjectTemplate: string;
 	bodyTemplate: string;
+	bodyFormat: BodyFormatType;
 	lead: Lead | null;
 	isLoadingLead?: boolean;
 }
@@ -20,6 +23,7 @@ interface LivePreviewProps {
 export function LivePreview({
 	subjectTemplate,
 	bodyTemplate,
+	bodyFormat,
 	lead,
 	isLoadingLead,
 }: LivePreviewProps) {
@@ -51,17 +55,21 @@ export function LivePreview({
 		const subjectFinal = injectVariables(subjectResolved, varMap);
 		const bodyFinal = injectVariables(bodyResolved, varMap);
 
+		// 3. Render the HTML and plain-text parts, as sent
+		const rendered = renderEmailBody(bodyFinal, bodyFormat);
+
 		// Spintax Validation Errors
 		const subjectErrors = validateSpintax(subjectTemplate);
 		const bodyErrors = validateSpintax(bodyTemplate);
 
 		return {
 			subject: subjectFinal,
-			body: bodyFinal,
+			html: rendered.html,
+			text: rendered.text,
 			errors: [...subjectErrors, ...bodyErrors],
 			isMock: !lead,
 		};
-	}, [subjectTemplate, bodyTemplate, lead]);
+	}, [subjectTemplate, bodyTemplate, bodyFormat, lead]);
 
 	if (isLoadingLead) {
 		return <Skeleton className="h-[400px] w-full" />;
@@ -102,12 +110,27 @@ export function LivePreview({
 					</div>
 				</div>
 
-				{/* Email Body */}
-				<div
-					className="p-6 prose prose-sm dark:prose-invert max-w-none"
-					// biome-ignore lint/security/noDangerouslySetInnerHtml: Trusted content from internal template engine
-					dangerouslySetInnerHTML={{ __html: preview.body.replace(/\n/g, "<br/>") }}
-				/>
+				{/* Email Body: both parts of the multipart/alternative message */}
+				<div className="grid grid-cols-1 md:grid-cols-2 md:divide-x">
+					<div className="min-w-0">
+						<div className="px-6 pt-4 text-xs font-medium uppercase tracking-wider text-muted-foreground">
+							HTML
+						</div>
+						<div
+							className="p-6 prose prose-sm dark:prose-invert max-w-none"
+							// biome-ignore lint/security/noDangerouslySetInnerHtml: Sanitized by renderEmailBody
+							dangerouslySetInnerHTML={{ __html: preview.html }}
+						/>
+					</div>
+					<div className="min-w-0 border-t md:border-t-0">
+						<div className="px-6 pt-4 text-xs font-medium uppercase tracking-wider text-muted-foreground">
+							Plain Text
+						</div>
+						<pre className="p-6 text-sm font-mono whitespace-pre-wrap break-words">
+							{preview.text}
+						</pre>
+					</div>
+				</div>
 			</CardContent>
 		</Card>
 	);
@@ -1,3 +1,4 @@
+import { BodyFormat, type BodyFormatType } from "@shared/constants/status.constants";
 import { AVAILABLE_VARIABLES } from "@shared/spintax/variable-injector";
 import { Loader2, Save } from "lucide-react";
 import { useCallback, useEffect, useId, useState } from "react";
@@ -5,18 +6,51 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Textarea } from "@/components/ui/textarea";
 import { useRandomLead } from "@/features/leads/hooks/use-random-lead";
+import { CampaignSelect } from "@/features/shared/components/campaign-select";
 import { useTemplate } from "../hooks/use-template";
+import { AttachmentsPanel } from "./attachments-panel";
 import { LivePreview } from "./live-preview";
 
-export function TemplateEditor() {
-	const { campaign, isLoading: isLoadingCampaign, saveTemplate, isSaving } = useTemplate();
+const BODY_FORMAT_LABELS: Record<BodyFormatType, string> = {
+	[BodyFormat.MARKDOWN]: "Markdown",
+	[BodyFormat.RICH_TEXT]: "Rich text (HTML)",
+};
+
+const BODY_FORMAT_HINTS: Record<BodyFormatType, string> = {
+	[BodyFormat.MARKDOWN]:
+		"**bold**, *italic*, [links](https://...), # headings, - lists and > quotes.",
+	[BodyFormat.RICH_TEXT]:
+		"Plain text, or HTML limited to basic formatting (p, b, i, a, lists, headings). Other tags are removed.",
+};
+
+interface TemplateEditorProps {
+	campaignId?: string;
+	onCampaignChange: (campaignId: string) => void;
+}
+
+export function TemplateEditor({ campaignId, onCampaignChange }: TemplateEditorProps) {
+	const {
+		campaigns,
+		campaign,
+		isLoading: isLoadingCampaign,
+		saveTemplate,
+		isSaving,
+	} = useTemplate(campaignId);
 	const { data: lead, isLoading: isLoadingLead } = useRandomLead();
 
 	const [subject, setSubject] = useState("");
 	const [body, setBody] = useState("");
+	const [bodyFormat, setBodyFormat] = useState<BodyFormatType>(BodyFormat.RICH_TEXT);
 	const [isDirty, setIsDirty] = useState(false);
 	const subjectId = useId();
 	const bodyId = useId();
@@ -26,6 +60,7 @@ export function TemplateEditor() {
 		if (campaign) {
 			setSubject(campaign.subjectTemplate || "");
 			setBody(campaign.bodyTemplate || "");
+			setBodyFormat(campaign.bodyFormat ?? BodyFormat.RICH_TEXT);
 		}
 	}, [campaign]);
 
@@ -37,10 +72,10 @@ export function TemplateEditor() {
 
 	const handleSave = useCallback(() => {
 		if (campaign && isDirty) {
-			saveTemplate({ subjectTemplate: subject, bodyTemplate: body });
+			saveTemplate({ subjectTemplate: subject, bodyTemplate: body, bodyFormat });
 			setIsDirty(false);
 		}
-	}, [campaign, isDirty, subject, body, saveTemplate]);
+	}, [campaign, isDirty, subject, body, bodyFormat, saveTemplate]);
 
 	// Keyboard shortcut Ctrl+S
 	useEffect(() => {
@@ -88,14 +123,21 @@ export function TemplateEditor() {
 							<span className="text-xs text-amber-500 font-normal italic">(Unsaved changes)</span>
 						)}
 					</h2>
-					<Button onClick={handleSave} disabled={!isDirty || isSaving} size="sm">
-						{isSaving ? (
-							<Loader2 className="h-4 w-4 animate-spin mr-2" />
-						) : (
-							<Save className="h-4 w-4 mr-2" />
-						)}
-						Save
-					</Button>
+					<div className="flex items-center gap-2">
+						<CampaignSelect
+							campaigns={campaigns}
+							value={campaign.$id}
+							onValueChange={onCampaignChange}
+						/>
+						<Button onClick={handleSave} disabled={!isDirty || isSaving} size="sm">
+							{isSaving ? (
+								<Loader2 className="h-4 w-4 animate-spin mr-2" />
+							) : (
+								<Save className="h-4 w-4 mr-2" />
+							)}
+							Save
+						</Button>
+					</div>
 				</div>
 
 				<div className="space-y-1">
@@ -114,7 +156,27 @@ export function TemplateEditor() {
 
 				<div className="space-y-1 flex-1 flex flex-col">
 					<div className="flex justify-between items-center mb-1">
-						<Label htmlFor={bodyId}>Email Body (HTML/Text)</Label>
+						<div className="flex items-center gap-2">
+							<Label htmlFor={bodyId}>Email Body</Label>
+							<Select
+								value={bodyFormat}
+								onValueChange={(value) => {
+									setBodyFormat(value as BodyFormatType);
+									setIsDirty(true);
+								}}
+							>
+								<SelectTrigger className="h-7 w-[150px] text-xs">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{Object.entries(BODY_FORMAT_LABELS).map(([format, label]) => (
+										<SelectItem key={format} value={format}>
+											{label}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
 						<div className="flex gap-1">
 							{AVAILABLE_VARIABLES.map((v) => (
 								<Badge
@@ -141,9 +203,11 @@ export function TemplateEditor() {
 					/>
 					<p className="text-xs text-muted-foreground mt-1">
 						Supports standard Spintax <code>{`{opt1|opt2}`}</code> and Variables{" "}
-						<code>{`{{Variable}}`}</code>.
+						<code>{`{{Variable}}`}</code>. {BODY_FORMAT_HINTS[bodyFormat]}
 					</p>
 				</div>
+
+				<AttachmentsPanel campaign={campaign} />
 			</div>
 
 			{/* Preview Column */}
@@ -151,6 +215,7 @@ export function TemplateEditor() {
 				<LivePreview
 					subjectTemplate={subject}
 					bodyTemplate={body}
+					bodyFormat={bodyFormat}
 					lead={lead || null}
 					isLoadingLead={isLoadingLead}
 				/>
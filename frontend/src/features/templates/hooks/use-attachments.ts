@@ -0,0 +1,95 @@
+import { validateAttachments } from "@shared/attachments/limits";
+import { BucketId, CollectionId, DATABASE_ID } from "@shared/constants/collection.constants";
+import type { Campaign, EmailAttachment } from "@shared/types/campaign.types";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { ID } from "appwrite";
+import { toast } from "sonner";
+import { databases, storage } from "@/lib/appwrite";
+import { campaignKeys } from "@/lib/query-keys";
+
+/**
+ * Attachments of a step: 0 is the campaign's own email, N is sequence step N
+ */
+export function getStepAttachments(campaign: Campaign, stepIndex: number): EmailAttachment[] {
+	if (stepIndex === 0) return campaign.attachments ?? [];
+	return campaign.sequenceSteps[stepIndex - 1]?.attachments ?? [];
+}
+
+/**
+ * Campaign update that replaces one step's attachments
+ */
+function toUpdate(campaign: Campaign, stepIndex: number, attachments: EmailAttachment[]) {
+	if (stepIndex === 0) return { attachments: JSON.stringify(attachments) };
+
+	const sequenceSteps = campaign.sequenceSteps.map((step, index) =>
+		index === stepIndex - 1 ? { ...step, attachments } : step
+	);
+	return { sequenceSteps: JSON.stringify(sequenceSteps) };
+}
+
+export function useAttachments(campaign: Campaign | null) {
+	const queryClient = useQueryClient();
+
+	const { mutate: addAttachment, isPending: isUploading } = useMutation({
+		mutationFn: async ({ stepIndex, file }: { stepIndex: number; file: File }) => {
+			if (!campaign) throw new Error("No active campaign");
+
+			const current = getStepAttachments(campaign, stepIndex);
+			const candidate: EmailAttachment = {
+				fileId: "",
+				name: file.name,
+				mimeType: file.type || "application/octet-stream",
+				sizeBytes: file.size,
+			};
+			const invalid = validateAttachments([...current, candidate]);
+			if (invalid) throw new Error(invalid);
+
+			const uploaded = await storage.createFile(BucketId.CAMPAIGN_ATTACHMENTS, ID.unique(), file);
+			await databases.updateDocument(
+				DATABASE_ID,
+				CollectionId.CAMPAIGNS,
+				campaign.$id,
+				toUpdate(campaign, stepIndex, [...current, { ...candidate, fileId: uploaded.$id }])
+			);
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: campaignKeys.list() });
+			toast.success("Attachment added");
+		},
+		onError: (error) => {
+			console.error(error);
+			toast.error("Failed to add attachment", { description: error.message });
+		},
+	});
+
+	// Only detaches: cloned campaigns may still reference the stored file
+	const { mutate: removeAttachment } = useMutation({
+		mutationFn: async ({ stepIndex, fileId }: { stepIndex: number; fileId: string }) => {
+			if (!campaign) throw new Error("No active campaign");
+
+			const remaining = getStepAttachments(campaign, stepIndex).filter(
+				(attachment) => attachment.fileId !== fileId
+			);
+			await databases.updateDocument(
+				DATABASE_ID,
+				CollectionId.CAMPAIGNS,
+				campaign.$id,
+				toUpdate(campaign, stepIndex, remaining)
+			);
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: campaignKeys.list() });
+			toast.success("Attachment removed");
+		},
+		onError: (error) => {
+			console.error(error);
+			toast.error("Failed to remove attachment");
+		},
+	});
+
+	return {
+		addAttachment,
+		removeAttachment,
+		isUploading,
+	};
+}
@@ -1,32 +1,28 @@
 import { CollectionId, DATABASE_ID } from "@shared/constants/collection.constants";
-import type { Campaign } from "@shared/types/campaign.types";
-import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { Query } from "appwrite";
+import type { BodyFormatType } from "@shared/constants/status.constants";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
+import { selectCampaign, useCampaigns } from "@/features/shared/hooks/use-campaigns";
 import { databases } from "@/lib/appwrite";
+import { campaignKeys } from "@/lib/query-keys";
 
-export function useTemplate() {
+export function useTemplate(campaignId?: string) {
 	const queryClient = useQueryClient();
 
-	const { data: campaign, isLoading } = useQuery({
-		queryKey: ["active-campaign-template"],
-		queryFn: async () => {
-			// Fetch latest campaign
-			const response = await databases.listDocuments(DATABASE_ID, CollectionId.CAMPAIGNS, [
-				Query.orderDesc("$createdAt"),
-				Query.limit(1),
-			]);
-			return response.documents[0] as unknown as Campaign | undefined;
-		},
-	});
+	const { data: campaigns = [], isLoading } = useCampaigns();
+	const campaign = selectCampaign(campaigns, campaignId);
 
 	const { mutate: saveTemplate, isPending: isSaving } = useMutation({
-		mutationFn: async (data: { subjectTemplate: string; bodyTemplate: string }) => {
+		mutationFn: async (data: {
+			subjectTemplate: string;
+			bodyTemplate: string;
+			bodyFormat: BodyFormatType;
+		}) => {
 			if (!campaign) throw new Error("No active campaign");
 			await databases.updateDocument(DATABASE_ID, CollectionId.CAMPAIGNS, campaign.$id, data);
 		},
 		onSuccess: () => {
-			queryClient.invalidateQueries({ queryKey: ["active-campaign-template"] });
+			queryClient.invalidateQueries({ queryKey: campaignKeys.list() });
 			toast.success("Template saved");
 		},
 		onError: (error) => {
@@ -36,6 +32,7 @@ export function useTemplate() {
 	});
 
 	return {
+		campaigns,
 		campaign,
 		isLoading,
 		saveTemplate,
@@ -0,0 +1,74 @@
+import {
+	DEFAULT_THROTTLE_DOMAIN,
+	type DomainThrottleRule,
+} from "@shared/types/domain-throttle-rule.types";
+import { Gauge, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useDomainThrottleRules } from "../hooks/use-domain-throttle-rules";
+import { DomainThrottleRuleDialog } from "./domain-throttle-rule-dialog";
+
+export function DomainThrottleCard() {
+	const { rules, isLoading, createRule, isCreating, deleteRule } = useDomainThrottleRules();
+
+	return (
+		<div className="bg-card border rounded-xl p-6 shadow-sm">
+			<div className="flex items-center justify-between mb-4">
+				<h3 className="font-semibold flex items-center gap-2">
+					<Gauge className="h-4 w-4" /> Recipient Domain Limits
+				</h3>
+				<DomainThrottleRuleDialog onCreate={createRule} isCreating={isCreating} />
+			</div>
+
+			{isLoading ? (
+				<div className="text-muted-foreground text-sm italic">Loading...</div>
+			) : rules.length === 0 ? (
+				<div className="text-muted-foreground text-sm italic">No recipient domains throttled.</div>
+			) : (
+				<div className="space-y-2 text-sm">
+					{rules.map((rule) => (
+						<DomainThrottleRuleRow
+							key={rule.$id}
+							rule={rule}
+							onDelete={() => deleteRule(rule.$id)}
+						/>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
+
+function DomainThrottleRuleRow({
+	rule,
+	onDelete,
+}: {
+	rule: DomainThrottleRule;
+	onDelete: () => void;
+}) {
+	const limits = [
+		rule.hourlyLimit > 0 && `${rule.hourlyLimit}/hour`,
+		rule.dailyLimit > 0 && `${rule.dailyLimit}/day`,
+	].filter(Boolean);
+
+	return (
+		<div className="flex items-center justify-between gap-2">
+			<span className="font-mono truncate">
+				{rule.domain === DEFAULT_THROTTLE_DOMAIN ? "All other domains" : `@${rule.domain}`}
+			</span>
+			<div className="flex items-center gap-2 shrink-0">
+				<span className="text-xs text-muted-foreground">
+					{limits.length > 0 ? limits.join(" · ") : "Unlimited"}
+				</span>
+				<Button
+					variant="ghost"
+					size="icon"
+					className="h-6 w-6"
+					onClick={onDelete}
+					title="Remove rule"
+				>
+					<Trash2 className="h-3.5 w-3.5" />
+				</Button>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,118 @@
+import {
+	DEFAULT_THROTTLE_DOMAIN,
+	type DomainThrottleRuleCreateInput,
+} from "@shared/types/domain-throttle-rule.types";
+import { Gauge, Loader2, Plus } from "lucide-react";
+import { useId, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface DomainThrottleRuleDialogProps {
+	onCreate: (input: DomainThrottleRuleCreateInput) => Promise<void>;
+	isCreating: boolean;
+}
+
+const DEFAULT_FORM = {
+	domain: "",
+	hourlyLimit: "3",
+	dailyLimit: "20",
+};
+
+export function DomainThrottleRuleDialog({ onCreate, isCreating }: DomainThrottleRuleDialogProps) {
+	const [open, setOpen] = useState(false);
+	const [formData, setFormData] = useState(DEFAULT_FORM);
+	const [error, setError] = useState<string | null>(null);
+	const id = useId();
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+
+		const domain = formData.domain.trim().toLowerCase().replace(/^@/, "");
+		if (domain !== DEFAULT_THROTTLE_DOMAIN && !/^[a-z0-9.-]+\.[a-z]{2,}$/.test(domain)) {
+			setError("Enter a domain such as tcs.com, or * for all other domains");
+			return;
+		}
+
+		const hourlyLimit = Math.floor(Number(formData.hourlyLimit) || 0);
+		const dailyLimit = Math.floor(Number(formData.dailyLimit) || 0);
+		if (hourlyLimit < 0 || dailyLimit < 0 || (hourlyLimit === 0 && dailyLimit === 0)) {
+			setError("Set an hourly or daily limit");
+			return;
+		}
+
+		try {
+			await onCreate({ domain, hourlyLimit, dailyLimit });
+			setFormData(DEFAULT_FORM);
+			setError(null);
+			setOpen(false);
+		} catch {
+			// Error is handled by the mutation
+		}
+	};
+
+	const field = (key: keyof typeof DEFAULT_FORM, label: string) => (
+		<div className="space-y-2">
+			<Label htmlFor={`${id}-${key}`}>{label}</Label>
+			<Input
+				id={`${id}-${key}`}
+				type={key === "domain" ? "text" : "number"}
+				value={formData[key]}
+				onChange={(e) => setFormData({ ...formData, [key]: e.target.value })}
+			/>
+		</div>
+	);
+
+	return (
+		<Dialog open={open} onOpenChange={setOpen}>
+			<DialogTrigger asChild>
+				<Button variant="outline" size="sm" className="gap-2">
+					<Plus className="h-4 w-4" />
+					Add Rule
+				</Button>
+			</DialogTrigger>
+
+			<DialogContent className="max-w-md">
+				<DialogHeader>
+					<DialogTitle className="flex items-center gap-2 text-xl">
+						<Gauge className="h-5 w-5 text-primary" />
+						New Domain Limit
+					</DialogTitle>
+					<DialogDescription>
+						Caps emails to one recipient domain and its subdomains across all campaigns; * sets the
+						cap for every other domain. Leads over the cap are deferred until the hour or day rolls
+						over.
+					</DialogDescription>
+				</DialogHeader>
+
+				<form onSubmit={handleSubmit} className="space-y-4 py-4">
+					{field("domain", "Recipient Domain")}
+					<div className="grid grid-cols-2 gap-4">
+						{field("hourlyLimit", "Max / hour (0 = off)")}
+						{field("dailyLimit", "Max / day (0 = off)")}
+					</div>
+					{error && <p className="text-xs text-destructive">{error}</p>}
+
+					<DialogFooter className="pt-4">
+						<Button type="button" variant="outline" onClick={() => setOpen(false)}>
+							Cancel
+						</Button>
+						<Button type="submit" disabled={isCreating} className="gap-2">
+							{isCreating && <Loader2 className="h-4 w-4 animate-spin" />}
+							{isCreating ? "Creating..." : "Create Rule"}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
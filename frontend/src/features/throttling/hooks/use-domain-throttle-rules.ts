@@ -0,0 +1,67 @@
+import { CollectionId, DATABASE_ID } from "@shared/constants/collection.constants";
+import type {
+	DomainThrottleRule,
+	DomainThrottleRuleCreateInput,
+} from "@shared/types/domain-throttle-rule.types";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ID, Query } from "appwrite";
+import { toast } from "sonner";
+import { databases } from "@/lib/appwrite";
+import { throttleKeys } from "@/lib/query-keys";
+
+export function useDomainThrottleRules() {
+	const queryClient = useQueryClient();
+
+	const { data: rules = [], isLoading } = useQuery({
+		queryKey: throttleKeys.list(),
+		queryFn: async () => {
+			const response = await databases.listDocuments(
+				DATABASE_ID,
+				CollectionId.DOMAIN_THROTTLE_RULES,
+				[Query.orderAsc("domain"), Query.limit(500)]
+			);
+			return response.documents as unknown as DomainThrottleRule[];
+		},
+		staleTime: 1000 * 60,
+	});
+
+	const { mutateAsync: createRule, isPending: isCreating } = useMutation({
+		mutationFn: async (input: DomainThrottleRuleCreateInput) => {
+			// Running campaigns pick up rule changes from their next slice
+			await databases.createDocument(DATABASE_ID, CollectionId.DOMAIN_THROTTLE_RULES, ID.unique(), {
+				...input,
+				domain: input.domain.trim().toLowerCase(),
+			});
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: throttleKeys.list() });
+			toast.success("Throttle rule created");
+		},
+		onError: (error) => {
+			console.error(error);
+			toast.error("Failed to create throttle rule");
+		},
+	});
+
+	const { mutate: deleteRule } = useMutation({
+		mutationFn: async (ruleId: string) => {
+			await databases.deleteDocument(DATABASE_ID, CollectionId.DOMAIN_THROTTLE_RULES, ruleId);
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: throttleKeys.list() });
+			toast.success("Throttle rule removed");
+		},
+		onError: (error) => {
+			console.error(error);
+			toast.error("Failed to remove throttle rule");
+		},
+	});
+
+	return {
+		rules,
+		isLoading,
+		createRule,
+		isCreating,
+		deleteRule,
+	};
+}
@@ -0,0 +1,86 @@
+import { WarmupStatus } from "@shared/constants/status.constants";
+import type { WarmupPlan } from "@shared/types/warmup-plan.types";
+import { Flame, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useWarmupPlans } from "../hooks/use-warmup-plans";
+import { WarmupPlanDialog } from "./warmup-plan-dialog";
+
+export function WarmupCard() {
+	const { plans, isLoading, createPlan, isCreating, deletePlan } = useWarmupPlans();
+
+	return (
+		<div className="bg-card border rounded-xl p-6 shadow-sm">
+			<div className="flex items-center justify-between mb-4">
+				<h3 className="font-semibold flex items-center gap-2">
+					<Flame className="h-4 w-4" /> Domain Warm-up
+				</h3>
+				<WarmupPlanDialog onCreate={createPlan} isCreating={isCreating} />
+			</div>
+
+			{isLoading ? (
+				<div className="text-muted-foreground text-sm italic">Loading...</div>
+			) : plans.length === 0 ? (
+				<div className="text-muted-foreground text-sm italic">No sender domains warming up.</div>
+			) : (
+				<div className="space-y-4 text-sm">
+					{plans.map((plan) => (
+						<WarmupPlanRow key={plan.$id} plan={plan} onDelete={() => deletePlan(plan.$id)} />
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
+
+function WarmupPlanRow({ plan, onDelete }: { plan: WarmupPlan; onDelete: () => void }) {
+	const progress = Math.min(100, Math.round((plan.currentDailyLimit / plan.maxVolume) * 100));
+
+	return (
+		<div className="space-y-1.5">
+			<div className="flex items-center justify-between gap-2">
+				<span className="font-mono truncate">{plan.domain}</span>
+				<div className="flex items-center gap-2 shrink-0">
+					<WarmupStatusBadge status={plan.status} />
+					<Button
+						variant="ghost"
+						size="icon"
+						className="h-6 w-6"
+						onClick={onDelete}
+						title="Remove plan"
+					>
+						<Trash2 className="h-3.5 w-3.5" />
+					</Button>
+				</div>
+			</div>
+			<div className="h-1.5 w-full rounded-full bg-muted overflow-hidden">
+				<div className="h-full bg-orange-500" style={{ width: `${progress}%` }} />
+			</div>
+			<div className="flex justify-between text-xs text-muted-foreground">
+				<span>
+					Stage {plan.currentStage + 1}: {plan.currentDailyLimit}/{plan.maxVolume} per day
+				</span>
+				{plan.lastBounceRate !== null && plan.lastComplaintRate !== null && (
+					<span>
+						Bounce {plan.lastBounceRate.toFixed(2)}% · Complaints{" "}
+						{plan.lastComplaintRate.toFixed(2)}%
+					</span>
+				)}
+			</div>
+		</div>
+	);
+}
+
+function WarmupStatusBadge({ status }: { status: string }) {
+	let colorClass = "bg-orange-100 text-orange-800 border-orange-200";
+	if (status === WarmupStatus.HELD) colorClass = "bg-red-100 text-red-800 border-red-200";
+	if (status === WarmupStatus.COMPLETED)
+		colorClass = "bg-green-100 text-green-800 border-green-200";
+
+	return (
+		<span
+			className={`inline-flex items-center px-2 py-0.5 rounded-full text-[10px] font-medium border ${colorClass}`}
+		>
+			{status}
+		</span>
+	);
+}
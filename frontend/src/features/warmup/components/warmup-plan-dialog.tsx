@@ -0,0 +1,130 @@
+import type { WarmupPlanCreateInput } from "@shared/types/warmup-plan.types";
+import { Flame, Loader2, Plus } from "lucide-react";
+import { useId, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface WarmupPlanDialogProps {
+	onCreate: (input: WarmupPlanCreateInput) => Promise<void>;
+	isCreating: boolean;
+}
+
+const DEFAULT_FORM = {
+	domain: "",
+	startVolume: "20",
+	dailyIncreasePercent: "20",
+	maxVolume: "2000",
+	maxBounceRate: "2",
+	maxComplaintRate: "0.1",
+};
+
+export function WarmupPlanDialog({ onCreate, isCreating }: WarmupPlanDialogProps) {
+	const [open, setOpen] = useState(false);
+	const [formData, setFormData] = useState(DEFAULT_FORM);
+	const [error, setError] = useState<string | null>(null);
+	const id = useId();
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+
+		const domain = formData.domain.trim().toLowerCase();
+		if (!/^[a-z0-9.-]+\.[a-z]{2,}$/.test(domain)) {
+			setError("Enter a domain such as mail.example.com");
+			return;
+		}
+
+		const startVolume = Number(formData.startVolume);
+		const maxVolume = Number(formData.maxVolume);
+		if (!(startVolume >= 1) || !(maxVolume >= startVolume)) {
+			setError("Ceiling must be at least the starting volume");
+			return;
+		}
+
+		try {
+			await onCreate({
+				domain,
+				startVolume,
+				dailyIncreasePercent: Number(formData.dailyIncreasePercent) || 0,
+				maxVolume,
+				maxBounceRate: Number(formData.maxBounceRate) || 0,
+				maxComplaintRate: Number(formData.maxComplaintRate) || 0,
+			});
+			setFormData(DEFAULT_FORM);
+			setError(null);
+			setOpen(false);
+		} catch {
+			// Error is handled by the mutation
+		}
+	};
+
+	const field = (key: keyof typeof DEFAULT_FORM, label: string, step?: string) => (
+		<div className="space-y-2">
+			<Label htmlFor={`${id}-${key}`}>{label}</Label>
+			<Input
+				id={`${id}-${key}`}
+				type={key === "domain" ? "text" : "number"}
+				step={step}
+				value={formData[key]}
+				onChange={(e) => setFormData({ ...formData, [key]: e.target.value })}
+			/>
+		</div>
+	);
+
+	return (
+		<Dialog open={open} onOpenChange={setOpen}>
+			<DialogTrigger asChild>
+				<Button variant="outline" size="sm" className="gap-2">
+					<Plus className="h-4 w-4" />
+					Add Plan
+				</Button>
+			</DialogTrigger>
+
+			<DialogContent className="max-w-md">
+				<DialogHeader>
+					<DialogTitle className="flex items-center gap-2 text-xl">
+						<Flame className="h-5 w-5 text-primary" />
+						New Warm-up Plan
+					</DialogTitle>
+					<DialogDescription>
+						The daily limit grows after each day whose bounce and complaint rates stay under the
+						thresholds.
+					</DialogDescription>
+				</DialogHeader>
+
+				<form onSubmit={handleSubmit} className="space-y-4 py-4">
+					{field("domain", "Sender Domain")}
+					<div className="grid grid-cols-3 gap-4">
+						{field("startVolume", "Start / day")}
+						{field("dailyIncreasePercent", "Daily increase %")}
+						{field("maxVolume", "Ceiling / day")}
+					</div>
+					<div className="grid grid-cols-2 gap-4">
+						{field("maxBounceRate", "Max bounce rate %", "0.01")}
+						{field("maxComplaintRate", "Max complaint rate %", "0.01")}
+					</div>
+					{error && <p className="text-xs text-destructive">{error}</p>}
+
+					<DialogFooter className="pt-4">
+						<Button type="button" variant="outline" onClick={() => setOpen(false)}>
+							Cancel
+						</Button>
+						<Button type="submit" disabled={isCreating} className="gap-2">
+							{isCreating && <Loader2 className="h-4 w-4 animate-spin" />}
+							{isCreating ? "Creating..." : "Create Plan"}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,68 @@
+import { CollectionId, DATABASE_ID } from "@shared/constants/collection.constants";
+import { WarmupStatus } from "@shared/constants/status.constants";
+import type { WarmupPlan, WarmupPlanCreateInput } from "@shared/types/warmup-plan.types";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ID, Query } from "appwrite";
+import { toast } from "sonner";
+import { databases } from "@/lib/appwrite";
+import { warmupKeys } from "@/lib/query-keys";
+
+export function useWarmupPlans() {
+	const queryClient = useQueryClient();
+
+	const { data: plans = [], isLoading } = useQuery({
+		queryKey: warmupKeys.list(),
+		queryFn: async () => {
+			const response = await databases.listDocuments(DATABASE_ID, CollectionId.WARMUP_PLANS, [
+				Query.orderAsc("domain"),
+				Query.limit(100),
+			]);
+			return response.documents as unknown as WarmupPlan[];
+		},
+		staleTime: 1000 * 60,
+	});
+
+	const { mutateAsync: createPlan, isPending: isCreating } = useMutation({
+		mutationFn: async (input: WarmupPlanCreateInput) => {
+			// The orchestrator's scheduler advances the stage once per UTC day
+			await databases.createDocument(DATABASE_ID, CollectionId.WARMUP_PLANS, ID.unique(), {
+				...input,
+				domain: input.domain.trim().toLowerCase(),
+				currentStage: 0,
+				currentDailyLimit: Math.min(input.startVolume, input.maxVolume),
+				status: WarmupStatus.ACTIVE,
+				evaluatedOn: null,
+			});
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: warmupKeys.list() });
+			toast.success("Warm-up plan created");
+		},
+		onError: (error) => {
+			console.error(error);
+			toast.error("Failed to create warm-up plan");
+		},
+	});
+
+	const { mutate: deletePlan } = useMutation({
+		mutationFn: async (planId: string) => {
+			await databases.deleteDocument(DATABASE_ID, CollectionId.WARMUP_PLANS, planId);
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: warmupKeys.list() });
+			toast.success("Warm-up plan removed");
+		},
+		onError: (error) => {
+			console.error(error);
+			toast.error("Failed to remove warm-up plan");
+		},
+	});
+
+	return {
+		plans,
+		isLoading,
+		createPlan,
+		isCreating,
+		deletePlan,
+	};
+}
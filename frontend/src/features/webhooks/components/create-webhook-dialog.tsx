@@ -0,0 +1,193 @@
+import { EventType, type EventTypeValue } from "@shared/constants/event.constants";
+import { Copy, Loader2, Plus, Webhook } from "lucide-react";
+import { useId, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import { generateWebhookSecret, useWebhooks } from "../hooks/use-webhooks";
+
+/**
+ * Preselected for new webhooks
+ */
+const DEFAULT_EVENT_TYPES: EventTypeValue[] = [
+	EventType.CAMPAIGN_COMPLETED,
+	EventType.BOUNCE_RECEIVED,
+	EventType.COMPLAINT_RECEIVED,
+	EventType.LEAD_UNSUBSCRIBED,
+];
+
+const emptyForm = () => ({
+	name: "",
+	url: "",
+	secret: generateWebhookSecret(),
+	eventTypes: DEFAULT_EVENT_TYPES,
+});
+
+function validate(form: ReturnType<typeof emptyForm>): string | null {
+	if (!form.name.trim()) return "Name is required";
+	try {
+		const url = new URL(form.url.trim());
+		if (url.protocol !== "https:" && url.protocol !== "http:") {
+			return "URL must start with https://";
+		}
+	} catch {
+		return "URL is not valid";
+	}
+	if (form.eventTypes.length === 0) return "Select at least one event";
+	return null;
+}
+
+export function CreateWebhookDialog() {
+	const { createWebhook, isCreating } = useWebhooks();
+	const [open, setOpen] = useState(false);
+	const [formData, setFormData] = useState(emptyForm);
+	const [submitError, setSubmitError] = useState<string | null>(null);
+	const id = useId();
+
+	const handleOpenChange = (next: boolean) => {
+		if (next) {
+			setFormData(emptyForm());
+			setSubmitError(null);
+		}
+		setOpen(next);
+	};
+
+	const toggleEvent = (eventType: EventTypeValue) => {
+		const eventTypes = formData.eventTypes.includes(eventType)
+			? formData.eventTypes.filter((selected) => selected !== eventType)
+			: [...formData.eventTypes, eventType];
+		setFormData({ ...formData, eventTypes });
+	};
+
+	const copySecret = async () => {
+		await navigator.clipboard.writeText(formData.secret);
+		toast.success("Secret copied");
+	};
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		const error = validate(formData);
+		if (error) {
+			setSubmitError(error);
+			return;
+		}
+
+		try {
+			await createWebhook(formData);
+			setOpen(false);
+		} catch {
+			// Error is handled by the mutation
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={handleOpenChange}>
+			<DialogTrigger asChild>
+				<Button size="sm" className="gap-2">
+					<Plus className="h-4 w-4" />
+					Add Webhook
+				</Button>
+			</DialogTrigger>
+
+			<DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+				<DialogHeader>
+					<DialogTitle className="flex items-center gap-2 text-xl">
+						<Webhook className="h-5 w-5 text-primary" />
+						Add Webhook
+					</DialogTitle>
+					<DialogDescription>
+						Events are POSTed as JSON within a minute of being logged. Failed deliveries are retried
+						with backoff.
+					</DialogDescription>
+				</DialogHeader>
+
+				<form onSubmit={handleSubmit} className="space-y-4 py-4">
+					<div className="grid grid-cols-2 gap-4">
+						<div className="space-y-2">
+							<Label htmlFor={`${id}-name`}>Name</Label>
+							<Input
+								id={`${id}-name`}
+								placeholder="CRM"
+								value={formData.name}
+								onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+							/>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor={`${id}-url`}>Endpoint URL</Label>
+							<Input
+								id={`${id}-url`}
+								type="url"
+								placeholder="https://example.com/hooks/pivotr"
+								value={formData.url}
+								onChange={(e) => setFormData({ ...formData, url: e.target.value })}
+							/>
+						</div>
+					</div>
+
+					<div className="space-y-2">
+						<Label htmlFor={`${id}-secret`}>Signing secret</Label>
+						<div className="flex gap-2">
+							<Input id={`${id}-secret`} readOnly value={formData.secret} className="font-mono" />
+							<Button type="button" variant="outline" size="icon" onClick={copySecret}>
+								<Copy className="h-4 w-4" />
+							</Button>
+						</div>
+						<p className="text-xs text-muted-foreground">
+							Each request carries{" "}
+							<code className="font-mono">X-Pivotr-Signature: t=&lt;time&gt;,v1=&lt;hex&gt;</code>,
+							the HMAC-SHA256 of <code className="font-mono">{"{t}.{body}"}</code> with this secret.
+							Copy it now; it is not shown again.
+						</p>
+					</div>
+
+					<div className="space-y-2">
+						<Label>Events ({formData.eventTypes.length} selected)</Label>
+						<div className="flex flex-wrap gap-1.5 max-h-48 overflow-y-auto rounded-lg border p-3">
+							{Object.values(EventType).map((eventType) => {
+								const selected = formData.eventTypes.includes(eventType);
+								return (
+									<button
+										key={eventType}
+										type="button"
+										onClick={() => toggleEvent(eventType)}
+										className={cn(
+											"rounded-md border px-2 py-0.5 text-xs font-mono transition-colors",
+											selected
+												? "bg-primary text-primary-foreground border-primary"
+												: "text-muted-foreground hover:bg-muted"
+										)}
+									>
+										{eventType}
+									</button>
+								);
+							})}
+						</div>
+					</div>
+
+					{submitError && <p className="text-xs text-destructive">{submitError}</p>}
+
+					<DialogFooter className="pt-4">
+						<Button type="button" variant="outline" onClick={() => setOpen(false)}>
+							Cancel
+						</Button>
+						<Button type="submit" disabled={isCreating} className="gap-2">
+							{isCreating && <Loader2 className="h-4 w-4 animate-spin" />}
+							{isCreating ? "Adding..." : "Add Webhook"}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,123 @@
+import { WebhookDeliveryStatus } from "@shared/constants/status.constants";
+import { format, formatDistanceToNow } from "date-fns";
+import { RotateCw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { useWebhookDeliveries, useWebhooks } from "../hooks/use-webhooks";
+
+export function WebhookDeliveriesTable() {
+	const { deliveries, isLoading, retryDelivery, isRetrying } = useWebhookDeliveries();
+	const { webhooks } = useWebhooks();
+
+	const webhookName = (webhookId: string) =>
+		webhooks.find((webhook) => webhook.$id === webhookId)?.name ?? "Deleted webhook";
+
+	return (
+		<div className="space-y-2">
+			<h3 className="font-semibold">Recent Deliveries</h3>
+			<div className="rounded-md border bg-card">
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead className="w-[180px]">Queued</TableHead>
+							<TableHead>Webhook</TableHead>
+							<TableHead>Event</TableHead>
+							<TableHead className="w-[110px]">Status</TableHead>
+							<TableHead className="w-[80px]">Attempts</TableHead>
+							<TableHead>Last response</TableHead>
+							<TableHead className="w-[100px]"></TableHead>
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{isLoading ? (
+							<TableRow>
+								<TableCell colSpan={7} className="h-24 text-center text-muted-foreground">
+									Loading...
+								</TableCell>
+							</TableRow>
+						) : deliveries.length === 0 ? (
+							<TableRow>
+								<TableCell colSpan={7} className="h-24 text-center">
+									No deliveries yet.
+								</TableCell>
+							</TableRow>
+						) : (
+							deliveries.map((delivery) => (
+								<TableRow key={delivery.$id}>
+									<TableCell className="font-mono text-xs">
+										{format(new Date(delivery.$createdAt), "PP pp")}
+									</TableCell>
+									<TableCell className="font-medium">{webhookName(delivery.webhookId)}</TableCell>
+									<TableCell className="font-mono text-xs">{delivery.eventType}</TableCell>
+									<TableCell>
+										<DeliveryStatusBadge status={delivery.status} />
+									</TableCell>
+									<TableCell className="text-center">{delivery.attemptCount}</TableCell>
+									<TableCell className="text-xs text-muted-foreground max-w-[320px]">
+										<div className="truncate" title={delivery.errorMessage ?? undefined}>
+											{delivery.errorMessage ??
+												(delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : "—")}
+										</div>
+										{delivery.status === WebhookDeliveryStatus.RETRYING &&
+											delivery.nextAttemptAt && (
+												<div>
+													Next attempt{" "}
+													{formatDistanceToNow(new Date(delivery.nextAttemptAt), {
+														addSuffix: true,
+													})}
+												</div>
+											)}
+									</TableCell>
+									<TableCell>
+										{(delivery.status === WebhookDeliveryStatus.FAILED ||
+											delivery.status === WebhookDeliveryStatus.RETRYING) && (
+											<Button
+												variant="outline"
+												size="sm"
+												className="gap-2"
+												disabled={isRetrying}
+												onClick={() => retryDelivery(delivery.$id)}
+											>
+												<RotateCw className="h-3.5 w-3.5" />
+												Retry
+											</Button>
+										)}
+									</TableCell>
+								</TableRow>
+							))
+						)}
+					</TableBody>
+				</Table>
+			</div>
+		</div>
+	);
+}
+
+function DeliveryStatusBadge({ status }: { status: string }) {
+	switch (status) {
+		case WebhookDeliveryStatus.DELIVERED:
+			return (
+				<Badge variant="outline" className="text-green-700 border-green-200 bg-green-50">
+					DELIVERED
+				</Badge>
+			);
+		case WebhookDeliveryStatus.RETRYING:
+			return (
+				<Badge variant="secondary" className="bg-yellow-100 text-yellow-800 hover:bg-yellow-200">
+					RETRYING
+				</Badge>
+			);
+		case WebhookDeliveryStatus.FAILED:
+			return <Badge variant="destructive">FAILED</Badge>;
+		default:
+			return <Badge variant="outline">{status}</Badge>;
+	}
+}
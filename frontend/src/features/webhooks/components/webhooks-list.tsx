@@ -0,0 +1,73 @@
+import type { Webhook } from "@shared/types/webhook.types";
+import { Trash2, Webhook as WebhookIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { useWebhooks } from "../hooks/use-webhooks";
+import { CreateWebhookDialog } from "./create-webhook-dialog";
+
+export function WebhooksList() {
+	const { webhooks, isLoading, setWebhookEnabled, deleteWebhook } = useWebhooks();
+
+	return (
+		<div className="bg-card border rounded-xl p-6 shadow-sm">
+			<div className="flex items-center justify-between mb-4">
+				<h3 className="font-semibold flex items-center gap-2">
+					<WebhookIcon className="h-4 w-4" /> Endpoints
+				</h3>
+				<CreateWebhookDialog />
+			</div>
+
+			{isLoading ? (
+				<div className="text-muted-foreground text-sm italic">Loading...</div>
+			) : webhooks.length === 0 ? (
+				<div className="text-muted-foreground text-sm italic">No webhooks yet.</div>
+			) : (
+				<div className="divide-y text-sm">
+					{webhooks.map((webhook) => (
+						<WebhookRow
+							key={webhook.$id}
+							webhook={webhook}
+							onToggle={(enabled) => setWebhookEnabled({ webhookId: webhook.$id, enabled })}
+							onDelete={() => deleteWebhook(webhook.$id)}
+						/>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
+
+interface WebhookRowProps {
+	webhook: Webhook;
+	onToggle: (enabled: boolean) => void;
+	onDelete: () => void;
+}
+
+function WebhookRow({ webhook, onToggle, onDelete }: WebhookRowProps) {
+	const eventCount = webhook.eventTypes.length;
+
+	return (
+		<div className="flex items-center justify-between gap-4 py-3">
+			<div className="min-w-0 space-y-0.5">
+				<div className="font-medium truncate">{webhook.name}</div>
+				<div className="text-xs text-muted-foreground font-mono truncate">{webhook.url}</div>
+				<div
+					className="text-xs text-muted-foreground truncate"
+					title={webhook.eventTypes.join(", ")}
+				>
+					{eventCount} event{eventCount === 1 ? "" : "s"}: {webhook.eventTypes.join(", ")}
+				</div>
+			</div>
+			<div className="flex items-center gap-2 shrink-0">
+				<Switch
+					checked={webhook.enabled}
+					onCheckedChange={onToggle}
+					title={webhook.enabled ? "Disable webhook" : "Enable webhook"}
+				/>
+				<Button variant="ghost" size="icon" onClick={onDelete} title="Delete webhook">
+					<Trash2 className="h-4 w-4" />
+				</Button>
+			</div>
+		</div>
+	);
+}
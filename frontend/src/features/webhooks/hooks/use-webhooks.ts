@@ -0,0 +1,129 @@
+import { CollectionId, DATABASE_ID } from "@shared/constants/collection.constants";
+import { WebhookDeliveryStatus } from "@shared/constants/status.constants";
+import type { Webhook, WebhookCreateInput, WebhookDelivery } from "@shared/types/webhook.types";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ID, Query } from "appwrite";
+import { toast } from "sonner";
+import { databases } from "@/lib/appwrite";
+import { webhookKeys } from "@/lib/query-keys";
+
+/**
+ * Random signing secret, shown once when the webhook is created
+ */
+export function generateWebhookSecret(): string {
+	const bytes = crypto.getRandomValues(new Uint8Array(24));
+	return `whsec_${Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")}`;
+}
+
+export function useWebhooks() {
+	const queryClient = useQueryClient();
+
+	const { data: webhooks = [], isLoading } = useQuery({
+		queryKey: webhookKeys.list(),
+		queryFn: async () => {
+			const response = await databases.listDocuments(DATABASE_ID, CollectionId.WEBHOOKS, [
+				Query.orderDesc("$createdAt"),
+				Query.limit(100),
+			]);
+			return response.documents as unknown as Webhook[];
+		},
+		staleTime: 1000 * 60,
+	});
+
+	const { mutateAsync: createWebhook, isPending: isCreating } = useMutation({
+		mutationFn: async (input: WebhookCreateInput) => {
+			await databases.createDocument(DATABASE_ID, CollectionId.WEBHOOKS, ID.unique(), {
+				name: input.name.trim(),
+				url: input.url.trim(),
+				secret: input.secret,
+				eventTypes: input.eventTypes,
+				enabled: input.enabled ?? true,
+				cursorLogId: null,
+			});
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: webhookKeys.list() });
+			toast.success("Webhook added");
+		},
+		onError: (error) => {
+			console.error(error);
+			toast.error("Failed to add webhook", { description: error.message });
+		},
+	});
+
+	const { mutate: setWebhookEnabled } = useMutation({
+		mutationFn: async ({ webhookId, enabled }: { webhookId: string; enabled: boolean }) => {
+			await databases.updateDocument(DATABASE_ID, CollectionId.WEBHOOKS, webhookId, { enabled });
+		},
+		onSuccess: (_, { enabled }) => {
+			queryClient.invalidateQueries({ queryKey: webhookKeys.list() });
+			toast.success(enabled ? "Webhook enabled" : "Webhook disabled");
+		},
+		onError: (error) => {
+			console.error(error);
+			toast.error("Failed to update webhook");
+		},
+	});
+
+	const { mutate: deleteWebhook } = useMutation({
+		mutationFn: async (webhookId: string) => {
+			await databases.deleteDocument(DATABASE_ID, CollectionId.WEBHOOKS, webhookId);
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: webhookKeys.all });
+			toast.success("Webhook deleted");
+		},
+		onError: (error) => {
+			console.error(error);
+			toast.error("Failed to delete webhook");
+		},
+	});
+
+	return {
+		webhooks,
+		isLoading,
+		createWebhook,
+		isCreating,
+		setWebhookEnabled,
+		deleteWebhook,
+	};
+}
+
+/**
+ * Latest delivery attempts across all webhooks
+ */
+export function useWebhookDeliveries() {
+	const queryClient = useQueryClient();
+
+	const { data: deliveries = [], isLoading } = useQuery({
+		queryKey: webhookKeys.deliveries(),
+		queryFn: async () => {
+			const response = await databases.listDocuments(DATABASE_ID, CollectionId.WEBHOOK_DELIVERIES, [
+				Query.orderDesc("$createdAt"),
+				Query.limit(50),
+			]);
+			return response.documents as unknown as WebhookDelivery[];
+		},
+		refetchInterval: 1000 * 30,
+	});
+
+	const { mutate: retryDelivery, isPending: isRetrying } = useMutation({
+		mutationFn: async (deliveryId: string) => {
+			// Picked up by the next dispatcher run; a FAILED delivery gets one more attempt
+			await databases.updateDocument(DATABASE_ID, CollectionId.WEBHOOK_DELIVERIES, deliveryId, {
+				status: WebhookDeliveryStatus.RETRYING,
+				nextAttemptAt: new Date().toISOString(),
+			});
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: webhookKeys.deliveries() });
+			toast.success("Delivery queued for retry");
+		},
+		onError: (error) => {
+			console.error(error);
+			toast.error("Failed to retry delivery");
+		},
+	});
+
+	return { deliveries, isLoading, retryDelivery, isRetrying };
+}
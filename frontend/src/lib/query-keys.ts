@@ -26,10 +26,37 @@ export const stagedLeadsKeys = {
 	batches: () => [...stagedLeadsKeys.all, "batches"] as const,
 };
 
+export const segmentKeys = {
+	all: ["segments"] as const,
+	list: () => [...segmentKeys.all, "list"] as const,
+	count: (definition: string) => [...segmentKeys.all, "count", definition] as const,
+};
+
 export const campaignKeys = {
 	all: ["campaign"] as const,
-	active: () => [...campaignKeys.all, "active"] as const,
 	list: () => [...campaignKeys.all, "list"] as const,
+	catalog: (includeArchived: boolean) =>
+		[...campaignKeys.all, "catalog", { includeArchived }] as const,
+};
+
+export const outboxKeys = {
+	all: ["outbox"] as const,
+	latest: (campaignId?: string) => [...outboxKeys.all, "latest", campaignId] as const,
+};
+
+export const variantStatsKeys = {
+	all: ["variantStats"] as const,
+	list: (campaignId?: string) => [...variantStatsKeys.all, "list", campaignId] as const,
+};
+
+export const warmupKeys = {
+	all: ["warmup"] as const,
+	list: () => [...warmupKeys.all, "list"] as const,
+};
+
+export const throttleKeys = {
+	all: ["throttle"] as const,
+	list: () => [...throttleKeys.all, "list"] as const,
 };
 
 export const settingsKeys = {
@@ -40,3 +67,9 @@ export const logsKeys = {
 	all: ["logs"] as const,
 	recent: () => [...logsKeys.all, "recent"] as const,
 };
+
+export const webhookKeys = {
+	all: ["webhooks"] as const,
+	list: () => [...webhookKeys.all, "list"] as const,
+	deliveries: () => [...webhookKeys.all, "deliveries"] as const,
+};
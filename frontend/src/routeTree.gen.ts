@@ -9,14 +9,22 @@
 // Additionally, you should also exclude this file from your linter and/or formatter to prevent it from being checked or modified.
 
 import { Route as rootRouteImport } from './routes/__root'
+import { Route as WebhooksRouteImport } from './routes/webhooks'
 import { Route as TemplatesRouteImport } from './routes/templates'
 import { Route as SettingsRouteImport } from './routes/settings'
 import { Route as LogsRouteImport } from './routes/logs'
 import { Route as LoginRouteImport } from './routes/login'
+import { Route as CampaignsRouteImport } from './routes/campaigns'
 import { Route as IndexRouteImport } from './routes/index'
 import { Route as LeadsIndexRouteImport } from './routes/leads.index'
 import { Route as LeadsStagingRouteImport } from './routes/leads.staging'
+import { Route as LeadsSegmentsRouteImport } from './routes/leads.segments'
 
+const WebhooksRoute = WebhooksRouteImport.update({
+  id: '/webhooks',
+  path: '/webhooks',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const TemplatesRoute = TemplatesRouteImport.update({
   id: '/templates',
   path: '/templates',
@@ -37,6 +45,11 @@ const LoginRoute = LoginRouteImport.update({
   path: '/login',
   getParentRoute: () => rootRouteImport,
 } as any)
+const CampaignsRoute = CampaignsRouteImport.update({
+  id: '/campaigns',
+  path: '/campaigns',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const IndexRoute = IndexRouteImport.update({
   id: '/',
   path: '/',
@@ -52,32 +65,46 @@ const LeadsStagingRoute = LeadsStagingRouteImport.update({
   path: '/leads/staging',
   getParentRoute: () => rootRouteImport,
 } as any)
+const LeadsSegmentsRoute = LeadsSegmentsRouteImport.update({
+  id: '/leads/segments',
+  path: '/leads/segments',
+  getParentRoute: () => rootRouteImport,
+} as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
+  '/campaigns': typeof CampaignsRoute
   '/login': typeof LoginRoute
   '/logs': typeof LogsRoute
   '/settings': typeof SettingsRoute
   '/templates': typeof TemplatesRoute
+  '/webhooks': typeof WebhooksRoute
+  '/leads/segments': typeof LeadsSegmentsRoute
   '/leads/staging': typeof LeadsStagingRoute
   '/leads': typeof LeadsIndexRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
+  '/campaigns': typeof CampaignsRoute
   '/login': typeof LoginRoute
   '/logs': typeof LogsRoute
   '/settings': typeof SettingsRoute
   '/templates': typeof TemplatesRoute
+  '/webhooks': typeof WebhooksRoute
+  '/leads/segments': typeof LeadsSegmentsRoute
   '/leads/staging': typeof LeadsStagingRoute
   '/leads': typeof LeadsIndexRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
+  '/campaigns': typeof CampaignsRoute
   '/login': typeof LoginRoute
   '/logs': typeof LogsRoute
   '/settings': typeof SettingsRoute
   '/templates': typeof TemplatesRoute
+  '/webhooks': typeof WebhooksRoute
+  '/leads/segments': typeof LeadsSegmentsRoute
   '/leads/staging': typeof LeadsStagingRoute
   '/leads/': typeof LeadsIndexRoute
 }
@@ -85,44 +112,63 @@ export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
   fullPaths:
     | '/'
+    | '/campaigns'
     | '/login'
     | '/logs'
     | '/settings'
     | '/templates'
+    | '/webhooks'
+    | '/leads/segments'
     | '/leads/staging'
     | '/leads'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
+    | '/campaigns'
     | '/login'
     | '/logs'
     | '/settings'
     | '/templates'
+    | '/webhooks'
+    | '/leads/segments'
     | '/leads/staging'
     | '/leads'
   id:
     | '__root__'
     | '/'
+    | '/campaigns'
     | '/login'
     | '/logs'
     | '/settings'
     | '/templates'
+    | '/webhooks'
+    | '/leads/segments'
     | '/leads/staging'
     | '/leads/'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
+  CampaignsRoute: typeof CampaignsRoute
   LoginRoute: typeof LoginRoute
   LogsRoute: typeof LogsRoute
   SettingsRoute: typeof SettingsRoute
   TemplatesRoute: typeof TemplatesRoute
+  WebhooksRoute: typeof WebhooksRoute
+  LeadsSegmentsRoute: typeof LeadsSegmentsRoute
   LeadsStagingRoute: typeof LeadsStagingRoute
   LeadsIndexRoute: typeof LeadsIndexRoute
 }
 
 declare module '@tanstack/react-router' {
   interface FileRoutesByPath {
+    '/webhooks': {
+      id: '/webhooks'
+      path: '/webhooks'
+      fullPath: '/webhooks'
+      preLoaderRoute: typeof WebhooksRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/templates': {
       id: '/templates'
       path: '/templates'
@@ -151,6 +197,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof LoginRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/campaigns': {
+      id: '/campaigns'
+      path: '/campaigns'
+      fullPath: '/campaigns'
+      preLoaderRoute: typeof CampaignsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/': {
       id: '/'
       path: '/'
@@ -165,6 +218,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof LeadsIndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/leads/segments': {
+      id: '/leads/segments'
+      path: '/leads/segments'
+      fullPath: '/leads/segments'
+      preLoaderRoute: typeof LeadsSegmentsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/leads/staging': {
       id: '/leads/staging'
       path: '/leads/staging'
@@ -177,10 +237,13 @@ declare module '@tanstack/react-router' {
 
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
+  CampaignsRoute: CampaignsRoute,
   LoginRoute: LoginRoute,
   LogsRoute: LogsRoute,
   SettingsRoute: SettingsRoute,
   TemplatesRoute: TemplatesRoute,
+  WebhooksRoute: WebhooksRoute,
+  LeadsSegmentsRoute: LeadsSegmentsRoute,
   LeadsStagingRoute: LeadsStagingRoute,
   LeadsIndexRoute: LeadsIndexRoute,
 }
@@ -0,0 +1,55 @@
+import { createFileRoute, useNavigate } from "@tanstack/react-router";
+import { useId } from "react";
+import { z } from "zod";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { CampaignsTable } from "@/features/campaigns/components/campaigns-table";
+import { CreateCampaignDialog } from "@/features/campaigns/components/create-campaign-dialog";
+import {
+	useCampaignCatalog,
+	useManageCampaigns,
+} from "@/features/campaigns/hooks/use-manage-campaigns";
+
+const searchSchema = z.object({
+	archived: z.boolean().optional(),
+});
+
+export const Route = createFileRoute("/campaigns")({
+	component: CampaignsPage,
+	validateSearch: searchSchema,
+});
+
+function CampaignsPage() {
+	const navigate = useNavigate({ from: Route.fullPath });
+	const { archived = false } = Route.useSearch();
+	const { data: campaigns = [], isLoading } = useCampaignCatalog(archived);
+	const { createCampaign, isCreating } = useManageCampaigns();
+	const id = useId();
+
+	return (
+		<div className="p-8 space-y-6 max-w-[1600px] mx-auto">
+			<div className="flex items-start justify-between gap-4">
+				<div className="flex flex-col gap-1">
+					<h1 className="text-3xl font-bold tracking-tight mb-2">Campaigns</h1>
+					<p className="text-muted-foreground">
+						Create, clone and archive campaigns. New campaigns start as drafts.
+					</p>
+				</div>
+				<CreateCampaignDialog onCreate={createCampaign} isCreating={isCreating} />
+			</div>
+
+			<div className="flex items-center gap-2">
+				<Switch
+					id={`${id}-archived`}
+					checked={archived}
+					onCheckedChange={(checked) =>
+						navigate({ search: (prev) => ({ ...prev, archived: checked || undefined }) })
+					}
+				/>
+				<Label htmlFor={`${id}-archived`}>Show archived</Label>
+			</div>
+
+			<CampaignsTable campaigns={campaigns} isLoading={isLoading} />
+		</div>
+	);
+}
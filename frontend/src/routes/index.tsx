@@ -2,33 +2,40 @@ import { CollectionId, DATABASE_ID } from "@shared/constants/collection.constant
 import { CampaignStatus } from "@shared/constants/status.constants";
 import type { Campaign } from "@shared/types/campaign.types";
 import type { Log } from "@shared/types/log.types";
-import { createFileRoute } from "@tanstack/react-router";
+import { createFileRoute, useNavigate } from "@tanstack/react-router";
 import { Query } from "appwrite";
 import { format } from "date-fns";
-import { AlertTriangle, CheckCircle, Clock, Database, Mail, Zap } from "lucide-react";
+import { AlertTriangle, CheckCircle, Clock, Database, Layers, Mail, Zap } from "lucide-react";
+import { z } from "zod";
 import { Skeleton } from "@/components/ui/skeleton";
+import { AbTestCard } from "@/features/ab-testing/components/ab-test-card";
 import { CampaignControls } from "@/features/dashboard/components/campaign-controls";
+import { CircuitBreakerBanner } from "@/features/dashboard/components/circuit-breaker-banner";
 import { DashboardConsole } from "@/features/dashboard/components/dashboard-console";
 import { MetricCard } from "@/features/dashboard/components/metric-card";
 import { useDashboard } from "@/features/dashboard/hooks/use-dashboard";
+import { DelayCard } from "@/features/delays/components/delay-card";
+import { OutboxSheet } from "@/features/outbox/components/outbox-sheet";
+import { SendOptionsCard } from "@/features/send-options/components/send-options-card";
+import { CampaignSelect } from "@/features/shared/components/campaign-select";
+import { fetchCampaigns } from "@/features/shared/hooks/use-campaigns";
+import { DomainThrottleCard } from "@/features/throttling/components/domain-throttle-card";
+import { WarmupCard } from "@/features/warmup/components/warmup-card";
 import { databases } from "@/lib/appwrite";
 import { campaignKeys, logsKeys } from "@/lib/query-keys";
 
+const searchSchema = z.object({
+	campaign: z.string().optional(),
+});
+
 export const Route = createFileRoute("/")({
 	component: Dashboard,
+	validateSearch: searchSchema,
 	loader: async ({ context: { queryClient } }) => {
 		await Promise.all([
 			queryClient.ensureQueryData({
-				queryKey: campaignKeys.active(),
-				queryFn: async () => {
-					const response = await databases.listDocuments(DATABASE_ID, CollectionId.CAMPAIGNS, [
-						Query.orderDesc("$createdAt"),
-						Query.limit(1),
-					]);
-					return response.documents.length > 0
-						? (response.documents[0] as unknown as Campaign)
-						: null;
-				},
+				queryKey: campaignKeys.list(),
+				queryFn: fetchCampaigns,
 				staleTime: 1000 * 60,
 			}),
 			queryClient.ensureQueryData({
@@ -48,7 +55,14 @@ export const Route = createFileRoute("/")({
 });
 
 function Dashboard() {
-	const { activeCampaign, recentLogs, updateCampaignStatus } = useDashboard();
+	const navigate = useNavigate({ from: Route.fullPath });
+	const { campaign: campaignId } = Route.useSearch();
+	const { campaigns, activeCampaign, runningCampaigns, recentLogs, updateCampaignStatus } =
+		useDashboard(campaignId);
+
+	const handleCampaignChange = (id: string) => {
+		navigate({ search: (prev) => ({ ...prev, campaign: id }) });
+	};
 
 	// Derived Stats
 	const sentCount = activeCampaign?.processedCount || 0;
@@ -71,28 +85,36 @@ function Dashboard() {
 				<div>
 					<h1 className="text-3xl font-bold tracking-tight">Dashboard</h1>
 					<p className="text-muted-foreground mt-1">
-						{activeCampaign ? (
-							<>
-								Active Campaign:{" "}
-								<span className="font-medium text-foreground">{activeCampaign.name}</span>
-							</>
-						) : (
-							"No active campaigns found."
-						)}
+						{runningCampaigns.length > 0
+							? `${runningCampaigns.length} active campaign${runningCampaigns.length === 1 ? "" : "s"} sharing the send queue.`
+							: "No active campaigns found."}
 					</p>
 				</div>
 
 				{/* Campaign Controls */}
 				{activeCampaign && (
 					<div className="flex items-center gap-4 bg-card border rounded-lg p-2 shadow-sm">
+						<CampaignSelect
+							campaigns={campaigns}
+							value={activeCampaign.$id}
+							onValueChange={handleCampaignChange}
+						/>
 						<div className="px-2 text-sm font-medium border-r pr-4 mr-2">
 							Status: <StatusBadge status={activeCampaign.status} />
+							<ScheduleHint campaign={activeCampaign} />
 						</div>
-						<CampaignControls status={activeCampaign.status} onAction={updateCampaignStatus} />
+						<CampaignControls
+							status={activeCampaign.status}
+							onAction={updateCampaignStatus}
+							isBreakerTripped={!!activeCampaign.circuitBreakerTrippedAt}
+						/>
+						<OutboxSheet campaignId={activeCampaign.$id} />
 					</div>
 				)}
 			</div>
 
+			<CircuitBreakerBanner campaigns={campaigns} />
+
 			{/* KPI Grid */}
 			<div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
 				<MetricCard
@@ -128,6 +150,34 @@ function Dashboard() {
 			<div className="grid gap-6 lg:grid-cols-3">
 				{/* Left Column: Details (Expandable in future) */}
 				<div className="space-y-6">
+					{runningCampaigns.length > 1 && (
+						<div className="bg-card border rounded-xl p-6 shadow-sm">
+							<h3 className="font-semibold mb-4 flex items-center gap-2">
+								<Layers className="h-4 w-4" /> Active Campaigns
+							</h3>
+							<div className="space-y-2 text-sm">
+								{runningCampaigns.map((campaign) => (
+									<button
+										key={campaign.$id}
+										type="button"
+										onClick={() => handleCampaignChange(campaign.$id)}
+										className={`w-full flex items-center justify-between gap-2 rounded-md px-2 py-1.5 text-left hover:bg-muted ${
+											campaign.$id === activeCampaign?.$id ? "bg-muted" : ""
+										}`}
+									>
+										<span className="truncate font-medium">{campaign.name}</span>
+										<span className="flex items-center gap-2 shrink-0">
+											<span className="text-xs text-muted-foreground">
+												{campaign.processedCount}/{campaign.totalLeads}
+											</span>
+											<StatusBadge status={campaign.status} />
+										</span>
+									</button>
+								))}
+							</div>
+						</div>
+					)}
+
 					<div className="bg-card border rounded-xl p-6 shadow-sm">
 						<h3 className="font-semibold mb-4 flex items-center gap-2">
 							<Mail className="h-4 w-4" /> Campaign Details
@@ -136,7 +186,11 @@ function Dashboard() {
 							<div className="space-y-4 text-sm">
 								<div className="flex justify-between py-2 border-b">
 									<span className="text-muted-foreground">Sender</span>
-									<span className="font-mono">{activeCampaign.senderEmail}</span>
+									<span className="font-mono">
+										{activeCampaign.senderPool?.length
+											? `${activeCampaign.senderPool.length} rotating senders`
+											: activeCampaign.senderEmail}
+									</span>
 								</div>
 								<div className="flex justify-between py-2 border-b">
 									<span className="text-muted-foreground">Subject Template</span>
@@ -164,6 +218,16 @@ function Dashboard() {
 						)}
 					</div>
 
+					<AbTestCard campaign={activeCampaign} />
+
+					<DelayCard campaign={activeCampaign} />
+
+					<SendOptionsCard campaign={activeCampaign} />
+
+					<WarmupCard />
+
+					<DomainThrottleCard />
+
 					{/* System Status / Database Info */}
 					<div className="bg-card border rounded-xl p-6 shadow-sm">
 						<h3 className="font-semibold mb-4 flex items-center gap-2">
@@ -201,6 +265,8 @@ function StatusBadge({ status }: { status: string }) {
 	let colorClass = "bg-slate-100 text-slate-800";
 	if (status === CampaignStatus.RUNNING)
 		colorClass = "bg-green-100 text-green-800 border-green-200 animate-pulse";
+	if (status === CampaignStatus.WAITING)
+		colorClass = "bg-indigo-100 text-indigo-800 border-indigo-200";
 	if (status === CampaignStatus.PAUSED)
 		colorClass = "bg-yellow-100 text-yellow-800 border-yellow-200";
 	if (status === CampaignStatus.COMPLETED) colorClass = "bg-blue-100 text-blue-800 border-blue-200";
@@ -215,6 +281,17 @@ function StatusBadge({ status }: { status: string }) {
 	);
 }
 
+function ScheduleHint({ campaign }: { campaign: Campaign }) {
+	let label: string | null = null;
+	if (campaign.status === CampaignStatus.QUEUED && campaign.scheduledStartAt)
+		label = `Starts ${format(new Date(campaign.scheduledStartAt), "PP p")}`;
+	if (campaign.status === CampaignStatus.WAITING && campaign.nextRunAt)
+		label = `Resumes ${format(new Date(campaign.nextRunAt), "PP p")}`;
+	if (!label) return null;
+
+	return <span className="ml-2 text-xs text-muted-foreground">{label}</span>;
+}
+
 function DashboardSkeleton() {
 	return (
 		<div className="p-6 space-y-6">
@@ -1,6 +1,6 @@
 import { useQueryClient } from "@tanstack/react-query";
 import { createFileRoute, Link, useNavigate } from "@tanstack/react-router";
-import { ClipboardList, Search } from "lucide-react";
+import { ClipboardList, Filter, Search } from "lucide-react";
 import { useState } from "react";
 import { z } from "zod";
 import { Button } from "@/components/ui/button";
@@ -93,6 +93,12 @@ function LeadsPage() {
 							View Staging
 						</Button>
 					</Link>
+					<Link to="/leads/segments">
+						<Button variant="outline" className="gap-2">
+							<Filter className="h-4 w-4" />
+							Segments
+						</Button>
+					</Link>
 					<AddLeadDialog />
 					<ExcelImportDialog onImportSuccess={handleImportSuccess} />
 					<ExportLeadsButton />
@@ -0,0 +1,34 @@
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { SavedSegments } from "@/features/segments/components/saved-segments";
+import { SegmentBuilder } from "@/features/segments/components/segment-builder";
+
+export const Route = createFileRoute("/leads/segments")({
+	component: SegmentsPage,
+});
+
+function SegmentsPage() {
+	return (
+		<div className="p-8 space-y-6 max-w-[1600px] mx-auto">
+			<div className="flex items-start gap-4">
+				<Link to="/leads">
+					<Button variant="ghost" size="icon">
+						<ArrowLeft className="h-4 w-4" />
+					</Button>
+				</Link>
+				<div className="flex flex-col gap-1">
+					<h1 className="text-3xl font-bold tracking-tight mb-2">Segments</h1>
+					<p className="text-muted-foreground">
+						Select unassigned leads by their attributes and add them to a campaign's queue.
+					</p>
+				</div>
+			</div>
+
+			<div className="grid gap-6 lg:grid-cols-[2fr_1fr]">
+				<SegmentBuilder />
+				<SavedSegments />
+			</div>
+		</div>
+	);
+}
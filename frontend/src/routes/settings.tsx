@@ -1,12 +1,6 @@
-import {
-	CollectionId,
-	DATABASE_ID,
-	SETTINGS_DOCUMENT_ID,
-} from "@shared/constants/collection.constants";
-import type { Settings } from "@shared/types/settings.types";
 import { createFileRoute } from "@tanstack/react-router";
 import { SettingsForm, SettingsSkeleton } from "@/features/settings/components/settings-form";
-import { databases } from "@/lib/appwrite";
+import { fetchSettings } from "@/features/settings/hooks/use-settings";
 import { settingsKeys } from "@/lib/query-keys";
 
 export const Route = createFileRoute("/settings")({
@@ -14,21 +8,7 @@ export const Route = createFileRoute("/settings")({
 	loader: async ({ context: { queryClient } }) => {
 		await queryClient.ensureQueryData({
 			queryKey: settingsKeys.all,
-			queryFn: async () => {
-				try {
-					const response = await databases.getDocument(
-						DATABASE_ID,
-						CollectionId.SETTINGS,
-						SETTINGS_DOCUMENT_ID
-					);
-					return response as unknown as Settings;
-				} catch (error: unknown) {
-					if (error && typeof error === "object" && "code" in error && error.code === 404) {
-						return null;
-					}
-					throw error;
-				}
-			},
+			queryFn: fetchSettings,
 		});
 	},
 	pendingComponent: SettingsSkeleton,
@@ -1,11 +1,20 @@
-import { createFileRoute } from "@tanstack/react-router";
+import { createFileRoute, useNavigate } from "@tanstack/react-router";
+import { z } from "zod";
 import { TemplateEditor } from "@/features/templates/components/template-editor";
 
+const searchSchema = z.object({
+	campaign: z.string().optional(),
+});
+
 export const Route = createFileRoute("/templates")({
 	component: TemplatesPage,
+	validateSearch: searchSchema,
 });
 
 function TemplatesPage() {
+	const navigate = useNavigate({ from: Route.fullPath });
+	const { campaign } = Route.useSearch();
+
 	return (
 		<div className="p-6 max-w-[1600px] mx-auto h-full space-y-4">
 			<div className="flex flex-col gap-1">
@@ -15,7 +24,10 @@ function TemplatesPage() {
 				</p>
 			</div>
 
-			<TemplateEditor />
+			<TemplateEditor
+				campaignId={campaign}
+				onCampaignChange={(id) => navigate({ search: (prev) => ({ ...prev, campaign: id }) })}
+			/>
 		</div>
 	);
 }
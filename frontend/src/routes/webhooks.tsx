@@ -0,0 +1,23 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { WebhookDeliveriesTable } from "@/features/webhooks/components/webhook-deliveries-table";
+import { WebhooksList } from "@/features/webhooks/components/webhooks-list";
+
+export const Route = createFileRoute("/webhooks")({
+	component: WebhooksPage,
+});
+
+function WebhooksPage() {
+	return (
+		<div className="p-8 space-y-6 max-w-[1600px] mx-auto">
+			<div className="flex flex-col gap-1">
+				<h1 className="text-3xl font-bold tracking-tight mb-2">Webhooks</h1>
+				<p className="text-muted-foreground">
+					Push campaign and lead events to your CRM or chat as signed HTTP requests.
+				</p>
+			</div>
+
+			<WebhooksList />
+			<WebhookDeliveriesTable />
+		</div>
+	);
+}
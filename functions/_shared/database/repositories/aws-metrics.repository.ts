@@ -0,0 +1,35 @@
+/**
+ * AWS Metrics Repository
+ *
+ * Read access to the SES account snapshot stored by fetch-aws-metrics.
+ */
+
+import type { Client, Models } from 'node-appwrite';
+import { Databases, Query } from 'node-appwrite';
+import { CollectionId, DATABASE_ID } from '../../../../shared/constants/collection.constants';
+import type { AwsMetrics } from '../../../../shared/types/aws-metrics.types';
+
+/**
+ * Convert Appwrite document to AwsMetrics type
+ */
+function documentToAwsMetrics(doc: Models.Document): AwsMetrics {
+	return doc as unknown as AwsMetrics;
+}
+
+/**
+ * Get the most recent SES account snapshot
+ */
+export async function getLatestAwsMetrics(client: Client): Promise<AwsMetrics | null> {
+	const databases = new Databases(client);
+
+	try {
+		const result = await databases.listDocuments(DATABASE_ID, CollectionId.AWS_METRICS, [
+			Query.orderDesc('$updatedAt'),
+			Query.limit(1),
+		]);
+		return result.documents.length > 0 ? documentToAwsMetrics(result.documents[0]) : null;
+	} catch {
+		// Collection missing until fetch-aws-metrics has run at least once
+		return null;
+	}
+}
@@ -9,16 +9,89 @@ import { Databases, ID, Query } from 'node-appwrite';
 import { CollectionId, DATABASE_ID } from '../../../../shared/constants/collection.constants';
 import { CampaignStatus } from '../../../../shared/constants/status.constants';
 import type {
+	BufferedVerification,
 	Campaign,
 	CampaignCreateInput,
+	CampaignRunProgress,
+	CampaignStep,
 	CampaignUpdateInput,
+	CampaignVariant,
+	CircuitBreakerBaseline,
+	DelayParams,
+	EmailAttachment,
+	SenderIdentity,
+	SendingWindow,
 } from '../../../../shared/types/campaign.types';
 
+/**
+ * JSON-encoded campaign attributes (Appwrite has no native object type)
+ */
+const JSON_FIELDS = [
+	'sequenceSteps',
+	'sendingWindow',
+	'senderPool',
+	'variants',
+	'runProgress',
+	'bufferedVerification',
+	'circuitBreakerBaseline',
+	'delayParams',
+	'attachments',
+	'customHeaders',
+	'emailTags',
+] as const;
+
+/**
+ * Parse a JSON attribute that may already be decoded
+ */
+function parseJsonField<T>(value: unknown, fallback: T): T {
+	if (typeof value === 'string') {
+		return value ? (JSON.parse(value) as T) : fallback;
+	}
+	return (value as T | null | undefined) ?? fallback;
+}
+
+/**
+ * Serialize JSON attributes present in a create/update payload
+ */
+function serializeJsonFields(
+	data: CampaignCreateInput | CampaignUpdateInput
+): Record<string, unknown> {
+	const payload: Record<string, unknown> = { ...data };
+	for (const field of JSON_FIELDS) {
+		// Create inputs carry a subset of the JSON fields
+		const value = (data as CampaignUpdateInput)[field];
+		if (value !== undefined) {
+			payload[field] = value === null ? null : JSON.stringify(value);
+		}
+	}
+	return payload;
+}
+
 /**
  * Convert Appwrite document to Campaign type
  */
 function documentToCampaign(doc: Models.Document): Campaign {
-	return doc as unknown as Campaign;
+	const campaign = doc as unknown as Campaign;
+	return {
+		...campaign,
+		sequenceSteps: parseJsonField<CampaignStep[]>(campaign.sequenceSteps, []),
+		sendingWindow: parseJsonField<SendingWindow | null>(campaign.sendingWindow, null),
+		senderPool: parseJsonField<SenderIdentity[]>(campaign.senderPool, []),
+		variants: parseJsonField<CampaignVariant[]>(campaign.variants, []),
+		runProgress: parseJsonField<CampaignRunProgress | null>(campaign.runProgress, null),
+		bufferedVerification: parseJsonField<BufferedVerification | null>(
+			campaign.bufferedVerification,
+			null
+		),
+		circuitBreakerBaseline: parseJsonField<CircuitBreakerBaseline | null>(
+			campaign.circuitBreakerBaseline,
+			null
+		),
+		delayParams: parseJsonField<DelayParams | null>(campaign.delayParams, null),
+		attachments: parseJsonField<EmailAttachment[]>(campaign.attachments, []),
+		customHeaders: parseJsonField<Record<string, string>>(campaign.customHeaders, {}),
+		emailTags: parseJsonField<Record<string, string>>(campaign.emailTags, {}),
+	};
 }
 
 /**
@@ -28,12 +101,18 @@ export async function createCampaign(client: Client, data: CampaignCreateInput):
 	const databases = new Databases(client);
 
 	const doc = await databases.createDocument(DATABASE_ID, CollectionId.CAMPAIGNS, ID.unique(), {
-		...data,
+		...serializeJsonFields({
+			...data,
+			sequenceSteps: data.sequenceSteps ?? [],
+			senderPool: data.senderPool ?? [],
+			variants: data.variants ?? [],
+		}),
 		status: CampaignStatus.DRAFT,
 		processedCount: 0,
 		skippedCount: 0,
 		errorCount: 0,
 		allowCatchAll: data.allowCatchAll ?? false,
+		abTestAutoWinner: data.abTestAutoWinner ?? false,
 	});
 
 	return documentToCampaign(doc);
@@ -67,13 +146,22 @@ export async function updateCampaign(
 	const databases = new Databases(client);
 
 	const doc = await databases.updateDocument(DATABASE_ID, CollectionId.CAMPAIGNS, campaignId, {
-		...data,
+		...serializeJsonFields(data),
 		lastActivityAt: new Date().toISOString(),
 	});
 
 	return documentToCampaign(doc);
 }
 
+/**
+ * Delete a campaign
+ */
+export async function deleteCampaign(client: Client, campaignId: string): Promise<void> {
+	const databases = new Databases(client);
+
+	await databases.deleteDocument(DATABASE_ID, CollectionId.CAMPAIGNS, campaignId);
+}
+
 /**
  * Get all running campaigns (for recovery on startup)
  */
@@ -100,6 +188,41 @@ export async function getCampaignsByStatus(client: Client, status: string): Prom
 	return result.documents.map(documentToCampaign);
 }
 
+/**
+ * Get QUEUED campaigns whose scheduled start time has passed
+ */
+export async function getDueScheduledCampaigns(client: Client): Promise<Campaign[]> {
+	const databases = new Databases(client);
+
+	const result = await databases.listDocuments(DATABASE_ID, CollectionId.CAMPAIGNS, [
+		Query.equal('status', CampaignStatus.QUEUED),
+		Query.lessThanEqual('scheduledStartAt', new Date().toISOString()),
+		Query.orderAsc('scheduledStartAt'),
+	]);
+
+	return result.documents.map(documentToCampaign);
+}
+
+/**
+ * Get started campaigns whose A/B test is still undecided
+ */
+export async function getUndecidedAbTestCampaigns(client: Client): Promise<Campaign[]> {
+	const databases = new Databases(client);
+
+	const result = await databases.listDocuments(DATABASE_ID, CollectionId.CAMPAIGNS, [
+		Query.equal('status', [
+			CampaignStatus.RUNNING,
+			CampaignStatus.PAUSED,
+			CampaignStatus.WAITING,
+			CampaignStatus.COMPLETED,
+		]),
+		Query.isNotNull('abTestSampleSize'),
+		Query.isNull('abTestDecidedAt'),
+	]);
+
+	return result.documents.map(documentToCampaign);
+}
+
 /**
  * Increment campaign counter atomically
  * Note: Appwrite doesn't support atomic increments, so we read-modify-write
@@ -0,0 +1,34 @@
+/**
+ * Domain Throttle Rule Repository
+ *
+ * Data access layer for the domain_throttle_rules collection.
+ */
+
+import type { Client, Models } from 'node-appwrite';
+import { Databases, Query } from 'node-appwrite';
+import { CollectionId, DATABASE_ID } from '../../../../shared/constants/collection.constants';
+import type { DomainThrottleRule } from '../../../../shared/types/domain-throttle-rule.types';
+
+/**
+ * Convert Appwrite document to DomainThrottleRule type
+ */
+function documentToDomainThrottleRule(doc: Models.Document): DomainThrottleRule {
+	return doc as unknown as DomainThrottleRule;
+}
+
+/**
+ * Get all recipient domain throttle rules
+ */
+export async function getDomainThrottleRules(client: Client): Promise<DomainThrottleRule[]> {
+	const databases = new Databases(client);
+
+	try {
+		const result = await databases.listDocuments(DATABASE_ID, CollectionId.DOMAIN_THROTTLE_RULES, [
+			Query.limit(500),
+		]);
+		return result.documents.map(documentToDomainThrottleRule);
+	} catch {
+		// Collection missing until the migration has run
+		return [];
+	}
+}
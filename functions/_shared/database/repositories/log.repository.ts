@@ -172,3 +172,28 @@ export async function getLogsByEventType(
 
 	return result.documents.map(documentToLog);
 }
+
+/**
+ * Get logs of the given event types in creation order, after a cursor
+ *
+ * @param afterLogId - Last log already read (null: start at `since`)
+ * @param since - Earliest creation time read when there is no cursor
+ */
+export async function getLogsAfter(
+	client: Client,
+	eventTypes: string[],
+	afterLogId: string | null,
+	since: string,
+	limit: number = 100
+): Promise<Log[]> {
+	const databases = new Databases(client);
+
+	const result = await databases.listDocuments(DATABASE_ID, CollectionId.LOGS, [
+		Query.equal('eventType', eventTypes),
+		afterLogId ? Query.cursorAfter(afterLogId) : Query.greaterThanEqual('$createdAt', since),
+		Query.orderAsc('$createdAt'),
+		Query.limit(limit),
+	]);
+
+	return result.documents.map(documentToLog);
+}
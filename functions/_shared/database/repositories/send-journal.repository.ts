@@ -0,0 +1,126 @@
+/**
+ * Send Journal Repository
+ *
+ * Data access layer for the send journal: one entry per SES send attempt,
+ * keyed by the attempt's idempotency key.
+ */
+
+import type { Client, Models } from 'node-appwrite';
+import { Databases, Query } from 'node-appwrite';
+import { CollectionId, DATABASE_ID } from '../../../../shared/constants/collection.constants';
+import { SendJournalStatus } from '../../../../shared/constants/status.constants';
+import type {
+	SendJournalCreateInput,
+	SendJournalEntry,
+	SendJournalResultInput,
+} from '../../../../shared/types/send-journal.types';
+
+/**
+ * Convert Appwrite document to SendJournalEntry type
+ */
+function documentToJournalEntry(doc: Models.Document): SendJournalEntry {
+	return doc as unknown as SendJournalEntry;
+}
+
+/**
+ * Record the intent to send, before SES is called
+ */
+export async function createJournalEntry(
+	client: Client,
+	data: SendJournalCreateInput
+): Promise<SendJournalEntry> {
+	const databases = new Databases(client);
+	const { idempotencyKey, ...entry } = data;
+
+	const doc = await databases.createDocument(
+		DATABASE_ID,
+		CollectionId.SEND_JOURNAL,
+		idempotencyKey,
+		{
+			...entry,
+			variantId: entry.variantId ?? null,
+			status: SendJournalStatus.PENDING,
+			sesMessageId: null,
+			errorMessage: null,
+			completedAt: null,
+		}
+	);
+
+	return documentToJournalEntry(doc);
+}
+
+/**
+ * Get a journal entry by idempotency key
+ */
+export async function getJournalEntry(
+	client: Client,
+	idempotencyKey: string
+): Promise<SendJournalEntry | null> {
+	const databases = new Databases(client);
+
+	try {
+		const doc = await databases.getDocument(DATABASE_ID, CollectionId.SEND_JOURNAL, idempotencyKey);
+		return documentToJournalEntry(doc);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Record the outcome of a send attempt
+ */
+export async function completeJournalEntry(
+	client: Client,
+	idempotencyKey: string,
+	result: SendJournalResultInput
+): Promise<SendJournalEntry> {
+	const databases = new Databases(client);
+
+	const doc = await databases.updateDocument(
+		DATABASE_ID,
+		CollectionId.SEND_JOURNAL,
+		idempotencyKey,
+		{ ...result, completedAt: new Date().toISOString() }
+	);
+
+	return documentToJournalEntry(doc);
+}
+
+/**
+ * Get the most recent send attempt for a lead
+ */
+export async function getLatestJournalEntry(
+	client: Client,
+	leadId: string
+): Promise<SendJournalEntry | null> {
+	const databases = new Databases(client);
+
+	const result = await databases.listDocuments(DATABASE_ID, CollectionId.SEND_JOURNAL, [
+		Query.equal('leadId', leadId),
+		Query.orderDesc('$createdAt'),
+		Query.limit(1),
+	]);
+
+	return result.documents.length > 0 ? documentToJournalEntry(result.documents[0]) : null;
+}
+
+/**
+ * Get a lead's confirmed send attempt for a sequence step, e.g. one that
+ * was rolled back before its SES Send event arrived
+ */
+export async function getConfirmedJournalEntry(
+	client: Client,
+	leadId: string,
+	sequenceStep: number
+): Promise<SendJournalEntry | null> {
+	const databases = new Databases(client);
+
+	const result = await databases.listDocuments(DATABASE_ID, CollectionId.SEND_JOURNAL, [
+		Query.equal('leadId', leadId),
+		Query.equal('sequenceStep', sequenceStep),
+		Query.equal('status', SendJournalStatus.CONFIRMED),
+		Query.limit(1),
+	]);
+
+	return result.documents.length > 0 ? documentToJournalEntry(result.documents[0]) : null;
+}
@@ -0,0 +1,110 @@
+/**
+ * Variant Stats Repository
+ *
+ * Data access layer for per-variant A/B test results.
+ * Like metrics, counters are updated by read-modify-write.
+ */
+
+import { createHash } from 'node:crypto';
+import type { Client, Models } from 'node-appwrite';
+import { Databases, Query } from 'node-appwrite';
+import { CollectionId, DATABASE_ID } from '../../../../shared/constants/collection.constants';
+import type {
+	VariantStats,
+	VariantStatsIncrementInput,
+} from '../../../../shared/types/variant-stats.types';
+
+const COUNTER_FIELDS = [
+	'sent',
+	'delivered',
+	'opens',
+	'clicks',
+	'bounces',
+	'complaints',
+	'replies',
+] as const;
+
+/**
+ * Convert Appwrite document to VariantStats type
+ */
+function documentToVariantStats(doc: Models.Document): VariantStats {
+	return doc as unknown as VariantStats;
+}
+
+/**
+ * Deterministic document ID; variant IDs are user-defined, so hash them
+ */
+function getVariantStatsId(campaignId: string, variantId: string): string {
+	const hash = createHash('sha256').update(`${campaignId}:${variantId}`).digest('hex');
+	return `variant-${hash.slice(0, 24)}`;
+}
+
+/**
+ * Get results for every variant of a campaign
+ */
+export async function getCampaignVariantStats(
+	client: Client,
+	campaignId: string
+): Promise<VariantStats[]> {
+	const databases = new Databases(client);
+
+	const result = await databases.listDocuments(DATABASE_ID, CollectionId.VARIANT_STATS, [
+		Query.equal('campaignId', campaignId),
+		Query.limit(100),
+	]);
+
+	return result.documents.map(documentToVariantStats);
+}
+
+/**
+ * Increment a variant's counters (creates the document on first use)
+ */
+export async function incrementVariantStats(
+	client: Client,
+	campaignId: string,
+	variantId: string,
+	increments: VariantStatsIncrementInput
+): Promise<VariantStats> {
+	const databases = new Databases(client);
+	const statsId = getVariantStatsId(campaignId, variantId);
+
+	let current: VariantStats;
+	try {
+		current = documentToVariantStats(
+			await databases.getDocument(DATABASE_ID, CollectionId.VARIANT_STATS, statsId)
+		);
+	} catch {
+		const doc = await databases.createDocument(DATABASE_ID, CollectionId.VARIANT_STATS, statsId, {
+			campaignId,
+			variantId,
+			sent: 0,
+			delivered: 0,
+			opens: 0,
+			clicks: 0,
+			bounces: 0,
+			complaints: 0,
+			replies: 0,
+			lastUpdatedAt: new Date().toISOString(),
+		});
+		current = documentToVariantStats(doc);
+	}
+
+	const updates: Record<string, number | string> = {
+		lastUpdatedAt: new Date().toISOString(),
+	};
+	for (const field of COUNTER_FIELDS) {
+		const increment = increments[field];
+		if (increment) {
+			updates[field] = (current[field] || 0) + increment;
+		}
+	}
+
+	const updated = await databases.updateDocument(
+		DATABASE_ID,
+		CollectionId.VARIANT_STATS,
+		statsId,
+		updates
+	);
+
+	return documentToVariantStats(updated);
+}
@@ -0,0 +1,51 @@
+/**
+ * Warm-up Plan Repository
+ *
+ * Data access layer for the warmup_plans collection.
+ */
+
+import type { Client, Models } from 'node-appwrite';
+import { Databases, Query } from 'node-appwrite';
+import { CollectionId, DATABASE_ID } from '../../../../shared/constants/collection.constants';
+import { WarmupStatus } from '../../../../shared/constants/status.constants';
+import type { WarmupPlan, WarmupPlanUpdateInput } from '../../../../shared/types/warmup-plan.types';
+
+/**
+ * Convert Appwrite document to WarmupPlan type
+ */
+function documentToWarmupPlan(doc: Models.Document): WarmupPlan {
+	return doc as unknown as WarmupPlan;
+}
+
+/**
+ * Get plans that still limit sending (ACTIVE or HELD)
+ */
+export async function getActiveWarmupPlans(client: Client): Promise<WarmupPlan[]> {
+	const databases = new Databases(client);
+
+	try {
+		const result = await databases.listDocuments(DATABASE_ID, CollectionId.WARMUP_PLANS, [
+			Query.notEqual('status', WarmupStatus.COMPLETED),
+			Query.limit(100),
+		]);
+		return result.documents.map(documentToWarmupPlan);
+	} catch {
+		// Collection missing until the migration has run
+		return [];
+	}
+}
+
+/**
+ * Update a warm-up plan
+ */
+export async function updateWarmupPlan(
+	client: Client,
+	planId: string,
+	data: WarmupPlanUpdateInput
+): Promise<WarmupPlan> {
+	const databases = new Databases(client);
+
+	const doc = await databases.updateDocument(DATABASE_ID, CollectionId.WARMUP_PLANS, planId, data);
+
+	return documentToWarmupPlan(doc);
+}
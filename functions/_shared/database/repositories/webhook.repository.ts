@@ -0,0 +1,156 @@
+/**
+ * Webhook Repository
+ *
+ * Data access layer for the webhooks and webhook_deliveries collections.
+ */
+
+import type { Client, Models } from 'node-appwrite';
+import { Databases, ID, Query } from 'node-appwrite';
+import { CollectionId, DATABASE_ID } from '../../../../shared/constants/collection.constants';
+import { WebhookDeliveryStatus } from '../../../../shared/constants/status.constants';
+import type { Log } from '../../../../shared/types/log.types';
+import type {
+	Webhook,
+	WebhookDelivery,
+	WebhookDeliveryUpdateInput,
+	WebhookPayload,
+} from '../../../../shared/types/webhook.types';
+
+/**
+ * Convert Appwrite document to Webhook type
+ */
+function documentToWebhook(doc: Models.Document): Webhook {
+	return doc as unknown as Webhook;
+}
+
+/**
+ * Convert Appwrite document to WebhookDelivery type
+ */
+function documentToDelivery(doc: Models.Document): WebhookDelivery {
+	return doc as unknown as WebhookDelivery;
+}
+
+/**
+ * Get all enabled webhooks
+ */
+export async function getEnabledWebhooks(client: Client): Promise<Webhook[]> {
+	const databases = new Databases(client);
+
+	const result = await databases.listDocuments(DATABASE_ID, CollectionId.WEBHOOKS, [
+		Query.equal('enabled', true),
+		Query.limit(100),
+	]);
+
+	return result.documents.map(documentToWebhook);
+}
+
+/**
+ * Get a webhook by ID
+ */
+export async function getWebhookById(client: Client, webhookId: string): Promise<Webhook | null> {
+	const databases = new Databases(client);
+
+	try {
+		const doc = await databases.getDocument(DATABASE_ID, CollectionId.WEBHOOKS, webhookId);
+		return documentToWebhook(doc);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Remember the last log entry queued for a webhook
+ */
+export async function updateWebhookCursor(
+	client: Client,
+	webhookId: string,
+	cursorLogId: string
+): Promise<void> {
+	const databases = new Databases(client);
+
+	await databases.updateDocument(DATABASE_ID, CollectionId.WEBHOOKS, webhookId, { cursorLogId });
+}
+
+/**
+ * Queue a log entry for delivery to a webhook, due immediately
+ */
+export async function createWebhookDelivery(
+	client: Client,
+	webhookId: string,
+	log: Log
+): Promise<WebhookDelivery> {
+	const databases = new Databases(client);
+
+	// Logs store metadata as a JSON string
+	const metadata = log.metadata as unknown;
+	const payload: WebhookPayload = {
+		id: log.$id,
+		event: log.eventType,
+		occurredAt: log.$createdAt,
+		severity: log.severity,
+		message: log.message,
+		campaignId: log.campaignId ?? null,
+		leadId: log.leadId ?? null,
+		metadata: typeof metadata === 'string' ? JSON.parse(metadata || 'null') : log.metadata,
+	};
+
+	const doc = await databases.createDocument(
+		DATABASE_ID,
+		CollectionId.WEBHOOK_DELIVERIES,
+		ID.unique(),
+		{
+			webhookId,
+			logId: log.$id,
+			eventType: log.eventType,
+			payload: JSON.stringify(payload),
+			status: WebhookDeliveryStatus.PENDING,
+			attemptCount: 0,
+			nextAttemptAt: new Date().toISOString(),
+			lastAttemptAt: null,
+			responseStatus: null,
+			errorMessage: null,
+			deliveredAt: null,
+		}
+	);
+
+	return documentToDelivery(doc);
+}
+
+/**
+ * Get deliveries whose next attempt is due, oldest first
+ */
+export async function getDueWebhookDeliveries(
+	client: Client,
+	limit: number = 100
+): Promise<WebhookDelivery[]> {
+	const databases = new Databases(client);
+
+	const result = await databases.listDocuments(DATABASE_ID, CollectionId.WEBHOOK_DELIVERIES, [
+		Query.equal('status', [WebhookDeliveryStatus.PENDING, WebhookDeliveryStatus.RETRYING]),
+		Query.lessThanEqual('nextAttemptAt', new Date().toISOString()),
+		Query.orderAsc('nextAttemptAt'),
+		Query.limit(limit),
+	]);
+
+	return result.documents.map(documentToDelivery);
+}
+
+/**
+ * Record the outcome of a delivery attempt
+ */
+export async function updateWebhookDelivery(
+	client: Client,
+	deliveryId: string,
+	data: WebhookDeliveryUpdateInput
+): Promise<WebhookDelivery> {
+	const databases = new Databases(client);
+
+	const doc = await databases.updateDocument(
+		DATABASE_ID,
+		CollectionId.WEBHOOK_DELIVERIES,
+		deliveryId,
+		data
+	);
+
+	return documentToDelivery(doc);
+}
@@ -7,12 +7,21 @@
  * ╚═══════════════════════════════════════════════════════════════════════════╝
  */
 
+export * from './database/repositories/aws-metrics.repository';
 export * from './database/repositories/campaign.repository';
+export * from './database/repositories/domain-throttle-rule.repository';
 // Database Repositories
 export * from './database/repositories/lead.repository';
 export * from './database/repositories/log.repository';
 export * from './database/repositories/metrics.repository';
+export * from './database/repositories/outbox.repository';
+export * from './database/repositories/segment.repository';
+export * from './database/repositories/send-counter.repository';
+export * from './database/repositories/send-journal.repository';
 export * from './database/repositories/settings.repository';
+export * from './database/repositories/variant-stats.repository';
+export * from './database/repositories/warmup-plan.repository';
+export * from './database/repositories/webhook.repository';
 
 // External API Clients
 export * from './email-verifier/client';
@@ -21,11 +30,18 @@ export * from './errors/base-error';
 export * from './errors/error-handler';
 // Locking
 export * from './locking/campaign-lock';
+export * from './locking/send-arbiter';
+// Mail Transports
+export * from './mail-transport/message';
+export * from './mail-transport/transport';
+// MIME
+export * from './mime/builder';
 export * from './name-parser/honorifics';
 // Name Parser
 export * from './name-parser/parser';
 export * from './name-parser/surnames';
 export * from './ses-client/client';
+export * from './smtp-client/client';
 // Spintax
 export * from './spintax/resolver';
 export * from './spintax/variable-injector';
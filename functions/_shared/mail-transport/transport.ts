@@ -0,0 +1,176 @@
+/**
+ * Mail Transports
+ *
+ * Sends an email the way Settings.mailTransport says:
+ * - SES: the SES v2 client
+ * - SMTP: the configured relay, one connection per message
+ * - LOCAL_SINK: a .eml file per message in a directory, or a local
+ *   catch-all server at an smtp://host:port target (e.g., MailHog), so
+ *   campaigns can run end to end without AWS. Sink messages carry
+ *   X-Pivotr-* headers with their campaign, lead, variant and send
+ *   journal IDs for tests to match on.
+ *
+ * Only SES reports deliveries, bounces and complaints back (through the
+ * sqs-poller); for the other transports a send ends at "accepted", and a
+ * campaign's configuration set and tags are ignored.
+ * SMTP and sink sends are not retried in-process: retryable failures go
+ * to the lead retry queue like SES's.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { MailTransport, type MailTransportType } from '../../../shared/constants/status.constants';
+import { DEFAULT_SETTINGS, type Settings } from '../../../shared/types/settings.types';
+import { PivotrError } from '../errors/base-error';
+import { buildMimeMessage } from '../mime/builder';
+import { sendEmail } from '../ses-client/client';
+import { type SmtpConfig, sendSmtp } from '../smtp-client/client';
+import { type EmailMessage, type SendResult, toMimeMessage } from './message';
+
+/**
+ * A way of sending emails
+ */
+export interface MailTransportClient {
+	readonly name: MailTransportType;
+	send(message: EmailMessage): Promise<SendResult>;
+}
+
+/**
+ * Transport selected in settings (SES for documents that predate the choice)
+ */
+export function createMailTransport(settings: Settings): MailTransportClient {
+	switch (settings.mailTransport ?? MailTransport.SES) {
+		case MailTransport.SMTP:
+			return {
+				name: MailTransport.SMTP,
+				send: (message) =>
+					sendViaSmtp(message, {
+						host: settings.smtpHost,
+						port: settings.smtpPort,
+						secure: settings.smtpSecure,
+						username: settings.smtpUsername || undefined,
+						password: settings.smtpPassword || undefined,
+						timeoutMs: settings.smtpTimeoutMs ?? DEFAULT_SETTINGS.smtpTimeoutMs,
+					}),
+			};
+		case MailTransport.LOCAL_SINK:
+			return {
+				name: MailTransport.LOCAL_SINK,
+				send: (message) =>
+					sendToSink(
+						message,
+						settings.localSinkTarget,
+						settings.smtpTimeoutMs ?? DEFAULT_SETTINGS.smtpTimeoutMs
+					),
+			};
+		default:
+			return {
+				name: MailTransport.SES,
+				send: (message) =>
+					sendEmail(message, {
+						region: settings.awsSesRegion,
+						accessKeyId: settings.awsSesAccessKeyId,
+						secretAccessKey: settings.awsSesSecretAccessKey,
+						timeoutMs: settings.sesTimeoutMs,
+						maxRetries: settings.maxRetries,
+						retryBackoffMs: settings.retryBackoffMs,
+					}),
+			};
+	}
+}
+
+async function sendViaSmtp(
+	message: EmailMessage,
+	config: SmtpConfig,
+	headers: Record<string, string> = {}
+): Promise<SendResult> {
+	if (!config.host) return configurationFailure('No SMTP host is configured');
+
+	const messageId = createMessageId(message);
+	const raw = buildMimeMessage(
+		toMimeMessage(message, { 'Message-ID': `<${messageId}>`, ...headers })
+	);
+
+	try {
+		const reply = await sendSmtp({ from: message.from, to: [message.to] }, raw, config);
+		return { success: true, messageId, isRetryable: false, rawResponse: { reply } };
+	} catch (error) {
+		return toFailure(error);
+	}
+}
+
+/**
+ * Write the message to the sink directory, or hand it to the sink server
+ */
+async function sendToSink(
+	message: EmailMessage,
+	target: string,
+	timeoutMs: number
+): Promise<SendResult> {
+	if (!target) return configurationFailure('No local sink target is configured');
+
+	const headers: Record<string, string> = {
+		'X-Pivotr-Campaign-Id': message.campaignId,
+		'X-Pivotr-Lead-Id': message.leadId,
+		...(message.variantId && { 'X-Pivotr-Variant-Id': message.variantId }),
+		...(message.idempotencyKey && { 'X-Pivotr-Idempotency-Key': message.idempotencyKey }),
+	};
+
+	if (/^smtp:\/\//i.test(target)) {
+		const url = new URL(target);
+		return sendViaSmtp(
+			message,
+			{ host: url.hostname, port: Number(url.port) || 25, secure: false, timeoutMs },
+			headers
+		);
+	}
+
+	const messageId = createMessageId(message);
+	const raw = buildMimeMessage(
+		toMimeMessage(message, { 'Message-ID': `<${messageId}>`, ...headers })
+	);
+
+	try {
+		await mkdir(target, { recursive: true });
+		const path = join(target, `${Date.now()}-${message.idempotencyKey ?? randomUUID()}.eml`);
+		await writeFile(path, raw);
+		return { success: true, messageId, isRetryable: false, rawResponse: { path } };
+	} catch (error) {
+		return {
+			success: false,
+			errorCode: 'SINK_WRITE_FAILED',
+			errorMessage: (error as Error).message,
+			isRetryable: false,
+		};
+	}
+}
+
+/**
+ * Message-ID in the sender's domain; SES assigns its own instead
+ */
+function createMessageId(message: EmailMessage): string {
+	return `${randomUUID()}@${message.from.split('@')[1] || 'localhost'}`;
+}
+
+function configurationFailure(errorMessage: string): SendResult {
+	return { success: false, errorCode: 'CONFIGURATION_ERROR', errorMessage, isRetryable: false };
+}
+
+function toFailure(error: unknown): SendResult {
+	if (error instanceof PivotrError) {
+		const replyCode = error.details?.replyCode;
+		return {
+			success: false,
+			errorCode: replyCode ? `SMTP_${replyCode}` : error.code,
+			errorMessage: error.message,
+			isRetryable: error.isRetryable,
+		};
+	}
+	return {
+		success: false,
+		errorCode: 'UNKNOWN_ERROR',
+		errorMessage: (error as Error).message,
+		isRetryable: false,
+	};
+}
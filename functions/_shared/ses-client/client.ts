@@ -5,8 +5,17 @@
  * Handles throttling, retries, and proper error classification.
  */
 
-import type { SendEmailCommandOutput } from '@aws-sdk/client-sesv2';
+import type { EmailContent, MessageTag } from '@aws-sdk/client-sesv2';
 import { SESv2Client, SendEmailCommand } from '@aws-sdk/client-sesv2';
+import { SES_MAX_MESSAGE_BYTES } from '../../../shared/attachments/limits';
+import { RESERVED_TAGS } from '../../../shared/validation/send-options';
+import {
+	type EmailMessage,
+	type SendResult,
+	hasCustomHeaders,
+	toMimeMessage,
+} from '../mail-transport/message';
+import { buildMimeMessage } from '../mime/builder';
 
 /**
  * SES client configuration
@@ -20,32 +29,6 @@ export interface SesConfig {
 	retryBackoffMs: number;
 }
 
-/**
- * Email to send
- */
-export interface EmailMessage {
-	to: string;
-	from: string;
-	fromName: string;
-	subject: string;
-	bodyText: string;
-	bodyHtml?: string;
-	campaignId: string;
-	leadId: string;
-}
-
-/**
- * Send result
- */
-export interface SendResult {
-	success: boolean;
-	messageId?: string;
-	errorCode?: string;
-	errorMessage?: string;
-	isRetryable: boolean;
-	rawResponse?: SendEmailCommandOutput;
-}
-
 /**
  * SES client instance cache
  */
@@ -75,6 +58,17 @@ function getClient(config: SesConfig): SESv2Client {
  */
 export async function sendEmail(message: EmailMessage, config: SesConfig): Promise<SendResult> {
 	const client = getClient(config);
+	const content = buildContent(message);
+
+	const rawBytes = content.Raw?.Data?.byteLength ?? 0;
+	if (rawBytes > SES_MAX_MESSAGE_BYTES) {
+		return {
+			success: false,
+			errorCode: 'MESSAGE_TOO_LARGE',
+			errorMessage: `Message is ${rawBytes} bytes encoded; SES accepts up to ${SES_MAX_MESSAGE_BYTES}`,
+			isRetryable: false,
+		};
+	}
 
 	let lastError: Error | null = null;
 
@@ -85,30 +79,10 @@ export async function sendEmail(message: EmailMessage, config: SesConfig): Promi
 				Destination: {
 					ToAddresses: [message.to],
 				},
-				Content: {
-					Simple: {
-						Subject: {
-							Data: message.subject,
-							Charset: 'UTF-8',
-						},
-						Body: {
-							Text: {
-								Data: message.bodyText,
-								Charset: 'UTF-8',
-							},
-							...(message.bodyHtml && {
-								Html: {
-									Data: message.bodyHtml,
-									Charset: 'UTF-8',
-								},
-							}),
-						},
-					},
-				},
-				EmailTags: [
-					{ Name: 'campaign_id', Value: message.campaignId },
-					{ Name: 'lead_id', Value: message.leadId },
-				],
+				...(message.replyTo && { ReplyToAddresses: [message.replyTo] }),
+				Content: content,
+				ConfigurationSetName: message.configurationSetName,
+				EmailTags: buildTags(message),
 			});
 
 			const response = await client.send(command);
@@ -140,14 +114,65 @@ export async function sendEmail(message: EmailMessage, config: SesConfig): Promi
 		}
 	}
 
+	// Every attempt hit a transient error; worth another try later
 	return {
 		success: false,
 		errorCode: 'MAX_RETRIES_EXCEEDED',
 		errorMessage: lastError?.message || 'Failed after max retries',
-		isRetryable: false,
+		isRetryable: true,
+	};
+}
+
+/**
+ * SES content for a message: raw MIME when it needs headers or parts that
+ * `Content.Simple` cannot carry, simple content otherwise.
+ */
+function buildContent(message: EmailMessage): EmailContent {
+	if (message.listUnsubscribeUrl || message.attachments?.length || hasCustomHeaders(message)) {
+		const raw = buildMimeMessage(toMimeMessage(message));
+		return { Raw: { Data: new TextEncoder().encode(raw) } };
+	}
+
+	return {
+		Simple: {
+			Subject: {
+				Data: message.subject,
+				Charset: 'UTF-8',
+			},
+			Body: {
+				Text: {
+					Data: message.bodyText,
+					Charset: 'UTF-8',
+				},
+				...(message.bodyHtml && {
+					Html: {
+						Data: message.bodyHtml,
+						Charset: 'UTF-8',
+					},
+				}),
+			},
+		},
 	};
 }
 
+/**
+ * Tags echoed back in SES events: the built-in ones the sqs-poller
+ * matches on, then the campaign's own (never replacing a built-in one)
+ */
+function buildTags(message: EmailMessage): MessageTag[] {
+	const tags: MessageTag[] = [
+		{ Name: 'campaign_id', Value: message.campaignId },
+		{ Name: 'lead_id', Value: message.leadId },
+		...(message.variantId ? [{ Name: 'variant_id', Value: message.variantId }] : []),
+		...(message.idempotencyKey ? [{ Name: 'idempotency_key', Value: message.idempotencyKey }] : []),
+	];
+
+	for (const [name, value] of Object.entries(message.tags ?? {})) {
+		if (!RESERVED_TAGS.includes(name)) tags.push({ Name: name, Value: value });
+	}
+	return tags;
+}
+
 /**
  * Classify SES errors for retry logic.
  */
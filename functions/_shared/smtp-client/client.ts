@@ -0,0 +1,309 @@
+/**
+ * SMTP Client
+ *
+ * Minimal SMTP client (RFC 5321) that delivers one raw MIME message per
+ * connection, e.g. through Google Workspace's smtp-relay.gmail.com or to
+ * a local catch-all server such as MailHog.
+ *
+ * Session: EHLO, STARTTLS when the server offers it (unless the
+ * connection already uses implicit TLS), AUTH PLAIN or LOGIN when
+ * credentials are set, then MAIL FROM, RCPT TO and DATA. Credentials are
+ * never sent over an unencrypted connection.
+ */
+
+import { type Socket, connect as connectTcp } from 'node:net';
+import { connect as connectTls } from 'node:tls';
+import {
+	ExternalServiceError,
+	PivotrError,
+	TimeoutError,
+	ValidationError,
+} from '../errors/base-error';
+
+/**
+ * SMTP client configuration
+ */
+export interface SmtpConfig {
+	host: string;
+	port: number;
+	/** Implicit TLS from the first byte (port 465) */
+	secure: boolean;
+	username?: string;
+	password?: string;
+	timeoutMs: number;
+}
+
+/**
+ * Sender and recipients given to the server (apart from the message headers)
+ */
+export interface SmtpEnvelope {
+	from: string;
+	to: string[];
+}
+
+/**
+ * Server reply: status code and the text of each line
+ */
+interface SmtpReply {
+	code: number;
+	lines: string[];
+}
+
+const CRLF = '\r\n';
+
+/**
+ * Deliver a raw MIME message.
+ *
+ * @returns The server's reply to DATA (usually carries its queue ID)
+ * @throws ExternalServiceError with the reply code in details: 4xx replies
+ *   and network failures are retryable, 5xx replies are not
+ */
+export async function sendSmtp(
+	envelope: SmtpEnvelope,
+	raw: string,
+	config: SmtpConfig
+): Promise<string> {
+	for (const address of [envelope.from, ...envelope.to]) {
+		if (/[\r\n<>\s]/.test(address)) throw new ValidationError(`Invalid address: ${address}`);
+	}
+
+	let session: SmtpSession | null = null;
+	try {
+		session = await SmtpSession.open(config);
+		await session.expect('greeting', [220]);
+
+		const ehloName = envelope.from.split('@')[1] || 'localhost';
+		let capabilities = await session.ehlo(ehloName);
+		if (!session.isSecure && capabilities.includes('STARTTLS')) {
+			await session.command('STARTTLS', [220]);
+			await session.upgrade(config.host);
+			capabilities = await session.ehlo(ehloName);
+		}
+
+		if (config.username) {
+			if (!session.isSecure) {
+				throw new ExternalServiceError(
+					'SMTP',
+					'Server offers no TLS; refusing to send credentials in the clear',
+					false
+				);
+			}
+			await authenticate(session, capabilities, config.username, config.password ?? '');
+		}
+
+		await session.command(`MAIL FROM:<${envelope.from}>`, [250]);
+		for (const to of envelope.to) {
+			await session.command(`RCPT TO:<${to}>`, [250, 251]);
+		}
+		await session.command('DATA', [354]);
+
+		// Lines starting with "." are doubled so none ends the data early
+		const data = (raw.endsWith(CRLF) ? raw : raw + CRLF).replace(/^\./gm, '..');
+		const reply = await session.command(`${data}.`, [250], 'DATA');
+
+		await session.command('QUIT', [221]).catch(() => undefined);
+		return reply.lines.join(' ');
+	} catch (error) {
+		if (error instanceof PivotrError) throw error;
+		throw new ExternalServiceError('SMTP', (error as Error).message, true);
+	} finally {
+		session?.close();
+	}
+}
+
+/**
+ * AUTH PLAIN, or AUTH LOGIN for servers that only offer that
+ */
+async function authenticate(
+	session: SmtpSession,
+	capabilities: string[],
+	username: string,
+	password: string
+): Promise<void> {
+	const auth = capabilities.find((capability) => capability.startsWith('AUTH '));
+	const mechanisms = auth?.split(' ').slice(1) ?? [];
+	const base64 = (value: string) => Buffer.from(value, 'utf8').toString('base64');
+
+	if (mechanisms.includes('PLAIN')) {
+		await session.command(`AUTH PLAIN ${base64(`\0${username}\0${password}`)}`, [235], 'AUTH');
+		return;
+	}
+	if (mechanisms.includes('LOGIN')) {
+		await session.command('AUTH LOGIN', [334]);
+		await session.command(base64(username), [334], 'AUTH');
+		await session.command(base64(password), [235], 'AUTH');
+		return;
+	}
+
+	throw new ExternalServiceError('SMTP', 'Server offers neither AUTH PLAIN nor AUTH LOGIN', false);
+}
+
+/**
+ * One SMTP connection: writes commands and reads their replies in order
+ */
+class SmtpSession {
+	public isSecure: boolean;
+	private socket: Socket;
+	private readonly timeoutMs: number;
+	private buffer = '';
+	private pendingLines: string[] = [];
+	private replies: SmtpReply[] = [];
+	private waiter: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null =
+		null;
+	private failure: Error | null = null;
+
+	private constructor(socket: Socket, timeoutMs: number, isSecure: boolean) {
+		this.socket = socket;
+		this.timeoutMs = timeoutMs;
+		this.isSecure = isSecure;
+		this.listen();
+	}
+
+	static open(config: SmtpConfig): Promise<SmtpSession> {
+		return new Promise((resolve, reject) => {
+			const socket = config.secure
+				? connectTls({ host: config.host, port: config.port, servername: config.host })
+				: connectTcp({ host: config.host, port: config.port });
+
+			const onTimeout = () =>
+				socket.destroy(
+					new TimeoutError(
+						`Timed out connecting to ${config.host}:${config.port}`,
+						'SMTP connect',
+						config.timeoutMs
+					)
+				);
+			socket.setTimeout(config.timeoutMs);
+			socket.once('timeout', onTimeout);
+			socket.once('error', reject);
+			socket.once(config.secure ? 'secureConnect' : 'connect', () => {
+				socket.off('timeout', onTimeout);
+				socket.off('error', reject);
+				resolve(new SmtpSession(socket, config.timeoutMs, config.secure));
+			});
+		});
+	}
+
+	/**
+	 * Send a command and check the reply code.
+	 *
+	 * @param label - Names the step in errors (defaults to the command verb)
+	 */
+	async command(line: string, expected: number[], label?: string): Promise<SmtpReply> {
+		this.socket.write(line + CRLF);
+		return this.expect(label ?? line.split(' ')[0], expected);
+	}
+
+	async expect(label: string, expected: number[]): Promise<SmtpReply> {
+		const reply = await this.read();
+		if (!expected.includes(reply.code)) {
+			throw new ExternalServiceError(
+				'SMTP',
+				`${label} rejected: ${reply.code} ${reply.lines.join(' ')}`,
+				reply.code < 500,
+				{ replyCode: reply.code }
+			);
+		}
+		return reply;
+	}
+
+	/**
+	 * EHLO, returning the advertised extensions in upper case
+	 */
+	async ehlo(name: string): Promise<string[]> {
+		const reply = await this.command(`EHLO ${name}`, [250]);
+		return reply.lines.slice(1).map((line) => line.toUpperCase());
+	}
+
+	/**
+	 * Switch the connection to TLS after STARTTLS was accepted
+	 */
+	upgrade(host: string): Promise<void> {
+		const plain = this.socket;
+		plain.removeAllListeners('data');
+		plain.removeAllListeners('error');
+		plain.removeAllListeners('close');
+		plain.removeAllListeners('timeout');
+		plain.setTimeout(0);
+
+		return new Promise((resolve, reject) => {
+			const secure = connectTls({ socket: plain, servername: host });
+
+			// A server that stalls the handshake would otherwise hang the send
+			const onTimeout = () =>
+				secure.destroy(
+					new TimeoutError(
+						`Timed out negotiating TLS with ${host}`,
+						'SMTP STARTTLS',
+						this.timeoutMs
+					)
+				);
+			secure.setTimeout(this.timeoutMs);
+			secure.once('timeout', onTimeout);
+			secure.once('error', reject);
+			secure.once('secureConnect', () => {
+				secure.off('timeout', onTimeout);
+				secure.off('error', reject);
+				this.socket = secure;
+				this.isSecure = true;
+				this.listen();
+				resolve();
+			});
+		});
+	}
+
+	close(): void {
+		this.socket.destroy();
+	}
+
+	private listen(): void {
+		this.socket.on('data', (chunk: Buffer) => this.receive(chunk.toString('utf8')));
+		this.socket.on('error', (error: Error) => this.fail(error));
+		this.socket.on('close', () => this.fail(new Error('Connection closed by server')));
+		this.socket.setTimeout(this.timeoutMs, () => {
+			this.fail(new TimeoutError(`No reply within ${this.timeoutMs}ms`, 'SMTP', this.timeoutMs));
+			this.socket.destroy();
+		});
+	}
+
+	/**
+	 * Collect reply lines; "250-..." continues a reply, "250 ..." ends it
+	 */
+	private receive(text: string): void {
+		this.buffer += text;
+		let end = this.buffer.indexOf(CRLF);
+		while (end !== -1) {
+			const line = this.buffer.slice(0, end);
+			this.buffer = this.buffer.slice(end + CRLF.length);
+			this.pendingLines.push(line.slice(4));
+
+			if (line[3] !== '-') {
+				const reply = { code: Number(line.slice(0, 3)), lines: this.pendingLines };
+				this.pendingLines = [];
+				if (this.waiter) {
+					this.waiter.resolve(reply);
+					this.waiter = null;
+				} else {
+					this.replies.push(reply);
+				}
+			}
+			end = this.buffer.indexOf(CRLF);
+		}
+	}
+
+	private read(): Promise<SmtpReply> {
+		const queued = this.replies.shift();
+		if (queued) return Promise.resolve(queued);
+		if (this.failure) return Promise.reject(this.failure);
+		return new Promise((resolve, reject) => {
+			this.waiter = { resolve, reject };
+		});
+	}
+
+	private fail(error: Error): void {
+		if (this.failure) return;
+		this.failure = error;
+		this.waiter?.reject(error);
+		this.waiter = null;
+	}
+}
@@ -132,15 +132,20 @@ export function extractVariables(template: string): string[] {
 
 /**
  * Generate an unsubscribe link with HMAC token.
+ *
+ * @param functionUrl - Public domain URL of the unsubscribe-lead function.
+ *                      Requests to the domain reach the function with their
+ *                      query and body, which a one-click POST from the
+ *                      List-Unsubscribe header needs; the REST executions
+ *                      endpoint does not pass them through.
  */
 export function generateUnsubscribeLink(
-	baseUrl: string,
-	functionId: string,
+	functionUrl: string,
 	leadId: string,
 	secret: string
 ): string {
 	const token = generateHmacToken(leadId, secret);
-	return `${baseUrl}/v1/functions/${functionId}/executions?leadId=${encodeURIComponent(leadId)}&token=${encodeURIComponent(token)}`;
+	return `${functionUrl.replace(/\/+$/, '')}/?leadId=${encodeURIComponent(leadId)}&token=${encodeURIComponent(token)}`;
 }
 
 /**
@@ -34,6 +34,9 @@ export interface SesNotification {
 	timestamp: string;
 	leadId?: string;
 	campaignId?: string;
+	variantId?: string;
+	/** Send journal key of the attempt (idempotency_key tag) */
+	idempotencyKey?: string;
 	recipient: string;
 	// Bounce-specific fields
 	bounceType?: 'Permanent' | 'Transient' | 'Undetermined';
@@ -137,10 +140,12 @@ function parseMessage(message: Message): SesNotification | null {
 	const messageId = mail.messageId || '';
 	const timestamp = sesNotification.timestamp || mail.timestamp || new Date().toISOString();
 
-	// Extract lead/campaign IDs from tags
+	// Extract lead/campaign/variant IDs from tags
 	const tags = mail.tags || {};
 	const leadId = tags.lead_id?.[0] || undefined;
 	const campaignId = tags.campaign_id?.[0] || undefined;
+	const variantId = tags.variant_id?.[0] || undefined;
+	const idempotencyKey = tags.idempotency_key?.[0] || undefined;
 
 	// Extract recipient
 	let recipient = '';
@@ -161,6 +166,8 @@ function parseMessage(message: Message): SesNotification | null {
 		timestamp,
 		leadId,
 		campaignId,
+		variantId,
+		idempotencyKey,
 		recipient,
 		rawMessage: sesNotification,
 		receiptHandle: message.ReceiptHandle,
@@ -121,6 +121,7 @@ export default async function main(context: AppwriteContext): Promise<unknown> {
                             status: LeadStatus.PENDING_IMPORT,
                             isUnsubscribed: false,
                             metadata: doc.metadata || null,
+                            importBatchId: batchId,
                         },
                         [
                             Permission.read(Role.users()),
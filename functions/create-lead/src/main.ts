@@ -6,7 +6,8 @@
  *
  * API:
  *   POST / - Create a new lead
- *   Body: { fullName: string, email: string, companyName: string, phoneNumber?: string, leadType?: string }
+ *   Body: { fullName: string, email: string, companyName: string, phoneNumber?: string,
+ *           leadType?: string, tags?: string[] }
  */
 
 import { Client, Databases, ID, Permission, Role } from "node-appwrite";
@@ -19,6 +20,7 @@ interface CreateLeadRequest {
     companyName: string;
     phoneNumber?: string | null;
     leadType?: "HARDWARE" | "SOFTWARE" | "BOTH" | null;
+    tags?: string[] | null;
 }
 
 interface AppwriteContext {
@@ -61,7 +63,7 @@ export default async function main(context: AppwriteContext): Promise<unknown> {
             return res.json({ success: false, message: "Invalid JSON body" }, 400);
         }
 
-        const { fullName, email, companyName, phoneNumber, leadType } = request;
+        const { fullName, email, companyName, phoneNumber, leadType, tags } = request;
 
         // Validate required fields
         if (!fullName || !fullName.trim()) {
@@ -111,6 +113,10 @@ export default async function main(context: AppwriteContext): Promise<unknown> {
                 isUnsubscribed: false,
                 unsubscribedAt: null,
                 metadata: null,
+                // Segments match tags case-insensitively
+                tags: [
+                    ...new Set((tags || []).map((tag) => tag.trim().toLowerCase()).filter(Boolean)),
+                ],
             },
             [
                 Permission.read(Role.users()),
@@ -0,0 +1,89 @@
+/**
+ * Run Lock
+ *
+ * Keeps scheduled function runs from overlapping. A run that outlasts its
+ * schedule interval would otherwise work through the same queue as the
+ * next one.
+ *
+ * Built on the same locks collection as campaign-lock.ts: one document
+ * per function with a fixed ID, so only one creator can win. `expiresAt`
+ * is set past the function's timeout, so a lock left by a run that was
+ * killed is cleared by the next run instead of blocking it.
+ */
+
+import type { Client } from 'node-appwrite';
+import { AppwriteException, Databases } from 'node-appwrite';
+import { DATABASE_ID } from '../constants/collection.constants';
+
+const LOCKS_COLLECTION_ID = 'locks';
+
+/**
+ * Run lock document structure (locks collection)
+ */
+interface RunLockDocument {
+    $id: string;
+    campaignId: string;
+    instanceId: string;
+    acquiredAt: string;
+    expiresAt: string;
+}
+
+/**
+ * Try to take a function's run lock.
+ *
+ * @param lockId - Fixed lock document ID, e.g. the function ID
+ * @param ttlMs - How long the lock holds; longer than the function's timeout
+ * @returns false if another run holds it
+ */
+export async function acquireRunLock(
+    client: Client,
+    lockId: string,
+    ttlMs: number
+): Promise<boolean> {
+    const databases = new Databases(client);
+
+    // Second attempt only after clearing a stale lock
+    for (let attempt = 0; attempt < 2; attempt++) {
+        const now = new Date();
+        try {
+            await databases.createDocument(DATABASE_ID, LOCKS_COLLECTION_ID, lockId, {
+                campaignId: lockId,
+                instanceId: `${now.getTime().toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+                acquiredAt: now.toISOString(),
+                expiresAt: new Date(now.getTime() + ttlMs).toISOString(),
+            });
+            return true;
+        } catch (error) {
+            if (!(error instanceof AppwriteException && error.code === 409)) throw error;
+        }
+
+        try {
+            const lock = (await databases.getDocument(
+                DATABASE_ID,
+                LOCKS_COLLECTION_ID,
+                lockId
+            )) as unknown as RunLockDocument;
+            if (now <= new Date(lock.expiresAt)) return false;
+
+            await databases.deleteDocument(DATABASE_ID, LOCKS_COLLECTION_ID, lockId);
+            console.info(`Deleted stale run lock ${lockId}`);
+        } catch {
+            // Released between our create and read
+        }
+    }
+
+    return false;
+}
+
+/**
+ * Release a function's run lock.
+ */
+export async function releaseRunLock(client: Client, lockId: string): Promise<void> {
+    const databases = new Databases(client);
+
+    try {
+        await databases.deleteDocument(DATABASE_ID, LOCKS_COLLECTION_ID, lockId);
+    } catch {
+        // Already cleared as stale
+    }
+}
@@ -0,0 +1,135 @@
+import type { EventTypeValue } from "../constants/event.constants";
+import type { LogSeverityType, WebhookDeliveryStatusType } from "../constants/status.constants";
+
+/**
+ * Webhook Document Interface
+ *
+ * An endpoint that receives a signed POST for every log entry of the
+ * event types it subscribes to.
+ */
+export interface Webhook {
+    /** Appwrite document ID */
+    $id: string;
+
+    /** Document creation timestamp */
+    $createdAt: string;
+
+    /** Document last update timestamp */
+    $updatedAt: string;
+
+    /** Display name (e.g., "CRM", "Team chat bot") */
+    name: string;
+
+    /** HTTPS endpoint the events are POSTed to */
+    url: string;
+
+    /** Shared secret the payload signature is computed with */
+    secret: string;
+
+    /** Event types sent to the endpoint */
+    eventTypes: EventTypeValue[];
+
+    /** Disabled webhooks queue nothing */
+    enabled: boolean;
+
+    /** Last log entry queued for the webhook (null = none since it was created) */
+    cursorLogId: string | null;
+}
+
+/**
+ * Webhook Create Input
+ */
+export interface WebhookCreateInput {
+    name: string;
+    url: string;
+    secret: string;
+    eventTypes: EventTypeValue[];
+    enabled?: boolean;
+}
+
+/**
+ * Webhook Delivery Document Interface
+ *
+ * One event queued for one webhook, with the outcome of its latest attempt.
+ */
+export interface WebhookDelivery {
+    /** Appwrite document ID (sent as X-Pivotr-Delivery) */
+    $id: string;
+
+    /** Document creation timestamp (when the event was queued) */
+    $createdAt: string;
+
+    /** Document last update timestamp */
+    $updatedAt: string;
+
+    /** Reference to webhooks collection */
+    webhookId: string;
+
+    /** Log entry the event came from (the payload's id) */
+    logId: string;
+
+    /** Event type of the log entry */
+    eventType: EventTypeValue;
+
+    /** JSON-encoded WebhookPayload, identical across attempts */
+    payload: string;
+
+    /** Delivery state */
+    status: WebhookDeliveryStatusType;
+
+    /** Attempts made so far */
+    attemptCount: number;
+
+    /** When the next attempt is due (PENDING and RETRYING only) */
+    nextAttemptAt: string | null;
+
+    /** When the latest attempt was made */
+    lastAttemptAt: string | null;
+
+    /** HTTP status of the latest attempt (null = no response) */
+    responseStatus: number | null;
+
+    /** Why the latest attempt failed */
+    errorMessage: string | null;
+
+    /** When the endpoint accepted the event */
+    deliveredAt: string | null;
+}
+
+/**
+ * Webhook Delivery Update Input
+ *
+ * Outcome of an attempt, written back to the delivery.
+ */
+export interface WebhookDeliveryUpdateInput {
+    status?: WebhookDeliveryStatusType;
+    attemptCount?: number;
+    nextAttemptAt?: string | null;
+    lastAttemptAt?: string | null;
+    responseStatus?: number | null;
+    errorMessage?: string | null;
+    deliveredAt?: string | null;
+}
+
+/**
+ * Webhook Payload
+ *
+ * JSON body POSTed to the endpoint. Receivers should de-duplicate on `id`,
+ * since an event can be delivered more than once.
+ */
+export interface WebhookPayload {
+    /** Log entry ID, unique per event */
+    id: string;
+
+    /** Event type (EventType value) */
+    event: EventTypeValue;
+
+    /** When the event was logged */
+    occurredAt: string;
+
+    severity: LogSeverityType;
+    message: string;
+    campaignId: string | null;
+    leadId: string | null;
+    metadata: Record<string, unknown> | null;
+}
@@ -0,0 +1,290 @@
+/**
+ * Dispatch Webhooks Function — Main Entry Point
+ *
+ * This Appwrite Function runs on a schedule (every 1 minute) to send
+ * campaign and lead events to the registered webhook endpoints.
+ *
+ * 1. Queue: each enabled webhook reads the logs of its event types written
+ *    since its cursor and queues one delivery per log entry.
+ * 2. Deliver: due deliveries are POSTed as signed JSON. A 2xx response
+ *    delivers them; anything else is retried with exponential backoff
+ *    until MAX_ATTEMPTS, then the delivery is FAILED.
+ *
+ * Signature: `X-Pivotr-Signature: t=<unix seconds>,v1=<hex>`, where v1 is
+ * the HMAC-SHA256 of `${t}.${body}` keyed with the webhook's secret.
+ *
+ * Runs hold a lock for their whole length, so a run that outlasts the
+ * one-minute schedule isn't overlapped by the next one queueing and
+ * posting the same events again; the next run is skipped instead.
+ *
+ * Failures are reported to the execution log only. Writing them to the
+ * logs collection would turn them into events for the webhooks again.
+ */
+
+import { createHmac } from 'node:crypto';
+import { Client } from 'node-appwrite';
+import { WebhookDeliveryStatus } from './lib/shared/constants/status.constants';
+import { getLogsAfter } from './lib/shared/database/repositories/log.repository';
+import { acquireRunLock, releaseRunLock } from './lib/shared/locking/run-lock';
+import {
+    createWebhookDelivery,
+    getDueWebhookDeliveries,
+    getEnabledWebhooks,
+    updateWebhookCursor,
+    updateWebhookDelivery,
+} from './lib/shared/database/repositories/webhook.repository';
+import type { Webhook, WebhookDelivery } from './lib/shared/types/webhook.types';
+
+/**
+ * Attempts before a delivery is given up
+ */
+const MAX_ATTEMPTS = 6;
+
+/**
+ * Wait before the first retry; doubles with each attempt (1, 2, 4, 8, 16 min)
+ */
+const RETRY_BASE_MS = 60 * 1000;
+
+/**
+ * How long an endpoint gets to respond
+ */
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Stop starting new deliveries after this long, leaving the rest for the next run
+ */
+const TIME_BUDGET_MS = 45 * 1000;
+
+/**
+ * Run lock ID and lifetime; longer than the function's 120s timeout, so
+ * only a lock left by a killed run ever expires
+ */
+const RUN_LOCK_ID = 'dispatch-webhooks';
+const RUN_LOCK_TTL_MS = 150 * 1000;
+
+const DELIVERY_BATCH_SIZE = 25;
+const MAX_ERROR_LENGTH = 1000;
+
+/**
+ * Appwrite Function context
+ */
+interface AppwriteContext {
+    req: {
+        body: string;
+        headers: Record<string, string>;
+        method: string;
+    };
+    res: {
+        json: (data: unknown, statusCode?: number) => unknown;
+        text: (data: string, statusCode?: number) => unknown;
+    };
+    log: (message: string) => void;
+    error: (message: string) => void;
+}
+
+/**
+ * Outcome of one POST to an endpoint
+ */
+interface AttemptResult {
+    ok: boolean;
+    responseStatus: number | null;
+    errorMessage: string | null;
+}
+
+/**
+ * Main entry point for the Dispatch Webhooks Function.
+ */
+export default async function main(context: AppwriteContext): Promise<unknown> {
+    const { res, log, error: logErr } = context;
+    const startedAt = Date.now();
+
+    // Get endpoint - fix localhost for Docker internal networking
+    let endpoint = process.env.APPWRITE_FUNCTION_API_ENDPOINT || '';
+    if (endpoint.includes('localhost') || endpoint.includes('127.0.0.1')) {
+        endpoint = endpoint.replace('localhost', 'appwrite').replace('127.0.0.1', 'appwrite');
+    }
+
+    // Initialize Appwrite client
+    const client = new Client()
+        .setEndpoint(endpoint)
+        .setProject(process.env.APPWRITE_FUNCTION_PROJECT_ID || '')
+        .setKey(process.env.APPWRITE_API_KEY || '')
+        .setSelfSigned(true);
+
+    let holdsLock = false;
+    try {
+        holdsLock = await acquireRunLock(client, RUN_LOCK_ID, RUN_LOCK_TTL_MS);
+        if (!holdsLock) {
+            log('Webhooks: previous run still in progress, skipping');
+            return res.json({ success: true, message: 'Previous run still in progress' });
+        }
+
+        const webhooks = await getEnabledWebhooks(client);
+
+        let queued = 0;
+        for (const webhook of webhooks) {
+            try {
+                queued += await queueEvents(client, webhook);
+            } catch (err) {
+                const message = err instanceof Error ? err.message : String(err);
+                logErr(`Failed to queue events for webhook ${webhook.$id}: ${message}`);
+            }
+        }
+
+        const webhooksById = new Map(webhooks.map((webhook) => [webhook.$id, webhook]));
+        let delivered = 0;
+        let failed = 0;
+
+        while (Date.now() - startedAt < TIME_BUDGET_MS) {
+            const due = await getDueWebhookDeliveries(client, DELIVERY_BATCH_SIZE);
+            if (due.length === 0) break;
+
+            for (const delivery of due) {
+                if (Date.now() - startedAt >= TIME_BUDGET_MS) break;
+
+                const webhook = webhooksById.get(delivery.webhookId);
+                if (await attemptDelivery(client, delivery, webhook)) delivered++;
+                else failed++;
+            }
+        }
+
+        log(`Webhooks: ${queued} queued, ${delivered} delivered, ${failed} failed attempts`);
+
+        return res.json({
+            success: true,
+            message: `Delivered ${delivered} webhook events`,
+            data: { queued, delivered, failed },
+        });
+    } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        logErr(`Dispatch Webhooks error: ${message}`);
+
+        return res.json({ success: false, message }, 500);
+    } finally {
+        if (holdsLock) await releaseRunLock(client, RUN_LOCK_ID);
+    }
+}
+
+/**
+ * Queue a delivery for every new log entry the webhook subscribes to.
+ *
+ * The cursor only moves past entries that were queued, so a failure part
+ * way through resumes from the first entry that was not.
+ *
+ * @returns Number of deliveries queued
+ */
+async function queueEvents(client: Client, webhook: Webhook): Promise<number> {
+    if (webhook.eventTypes.length === 0) return 0;
+
+    const logs = await getLogsAfter(
+        client,
+        webhook.eventTypes,
+        webhook.cursorLogId,
+        webhook.$createdAt
+    );
+
+    let lastQueuedId: string | null = null;
+    try {
+        for (const entry of logs) {
+            await createWebhookDelivery(client, webhook.$id, entry);
+            lastQueuedId = entry.$id;
+        }
+    } finally {
+        if (lastQueuedId) {
+            await updateWebhookCursor(client, webhook.$id, lastQueuedId);
+        }
+    }
+
+    return logs.length;
+}
+
+/**
+ * Make one attempt at a delivery and record its outcome.
+ *
+ * @param webhook - Undefined if the webhook was disabled or deleted
+ * @returns Whether the endpoint accepted the event
+ */
+async function attemptDelivery(
+    client: Client,
+    delivery: WebhookDelivery,
+    webhook: Webhook | undefined
+): Promise<boolean> {
+    const now = new Date();
+
+    if (!webhook) {
+        await updateWebhookDelivery(client, delivery.$id, {
+            status: WebhookDeliveryStatus.FAILED,
+            nextAttemptAt: null,
+            errorMessage: 'Webhook was disabled or deleted',
+        });
+        return false;
+    }
+
+    const result = await postEvent(webhook, delivery);
+    const attemptCount = delivery.attemptCount + 1;
+
+    if (result.ok) {
+        await updateWebhookDelivery(client, delivery.$id, {
+            status: WebhookDeliveryStatus.DELIVERED,
+            attemptCount,
+            nextAttemptAt: null,
+            lastAttemptAt: now.toISOString(),
+            responseStatus: result.responseStatus,
+            errorMessage: null,
+            deliveredAt: new Date().toISOString(),
+        });
+        return true;
+    }
+
+    const exhausted = attemptCount >= MAX_ATTEMPTS;
+    const retryAt = new Date(now.getTime() + RETRY_BASE_MS * 2 ** (attemptCount - 1));
+
+    await updateWebhookDelivery(client, delivery.$id, {
+        status: exhausted ? WebhookDeliveryStatus.FAILED : WebhookDeliveryStatus.RETRYING,
+        attemptCount,
+        nextAttemptAt: exhausted ? null : retryAt.toISOString(),
+        lastAttemptAt: now.toISOString(),
+        responseStatus: result.responseStatus,
+        errorMessage: result.errorMessage?.slice(0, MAX_ERROR_LENGTH) ?? null,
+    });
+    return false;
+}
+
+/**
+ * POST a delivery's payload to the webhook's endpoint, signed with its secret.
+ */
+async function postEvent(webhook: Webhook, delivery: WebhookDelivery): Promise<AttemptResult> {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = createHmac('sha256', webhook.secret)
+        .update(`${timestamp}.${delivery.payload}`)
+        .digest('hex');
+
+    try {
+        const response = await fetch(webhook.url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'User-Agent': 'Pivotr-Mailer-Webhooks/1.0',
+                'X-Pivotr-Event': delivery.eventType,
+                'X-Pivotr-Delivery': delivery.$id,
+                'X-Pivotr-Signature': `t=${timestamp},v1=${signature}`,
+            },
+            body: delivery.payload,
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+
+        if (response.ok) {
+            return { ok: true, responseStatus: response.status, errorMessage: null };
+        }
+
+        const body = await response.text().catch(() => '');
+        return {
+            ok: false,
+            responseStatus: response.status,
+            errorMessage: `HTTP ${response.status}${body ? `: ${body.slice(0, 200)}` : ''}`,
+        };
+    } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return { ok: false, responseStatus: null, errorMessage: message };
+    }
+}
@@ -1,6 +1,7 @@
 import type {
     LeadStatusType,
     LeadTypeValue,
+    SkipReasonType,
     VerificationResultType,
 } from "../constants/status.constants";
 
@@ -82,6 +83,45 @@ export interface Lead {
 
     /** Extensible key-value store */
     metadata: Record<string, unknown> | null;
+
+    /** Index of the last sequence step sent (0 = initial email) */
+    sequenceStep: number | null;
+
+    /** When the next follow-up step becomes due (null if none pending) */
+    nextStepDueAt: string | null;
+
+    /** Timestamp the lead replied; stops further follow-ups */
+    repliedAt: string | null;
+
+    /** IANA timezone override (otherwise inferred from phone/domain) */
+    timezone: string | null;
+
+    /** Lead is skipped by the queue until this time (e.g., outside its sending window) */
+    deferredUntil: string | null;
+
+    /** Sender identity that emailed this lead; follow-ups reuse it */
+    senderEmail: string | null;
+
+    /** A/B variant of the initial email this lead received */
+    variantId: string | null;
+
+    /** Failed attempts at the current step that were scheduled for retry */
+    attemptCount: number | null;
+
+    /** When a RETRYING lead is requeued */
+    nextAttemptAt: string | null;
+
+    /** Free-form labels for segmenting (lowercased) */
+    tags: string[];
+
+    /** Staging batch the lead was approved from (null = added another way) */
+    importBatchId: string | null;
+
+    /** Last time any campaign emailed this lead (checked by the contact frequency cap) */
+    lastContactedAt: string | null;
+
+    /** Why the lead was SKIPPED */
+    skipReason: SkipReasonType | null;
 }
 
 /**
@@ -99,6 +139,9 @@ export interface LeadCreateInput {
     campaignId?: string;
     queuePosition?: number;
     metadata?: Record<string, unknown>;
+    timezone?: string | null;
+    tags?: string[];
+    importBatchId?: string | null;
 }
 
 /**
@@ -125,4 +168,16 @@ export interface LeadUpdateInput {
     isUnsubscribed?: boolean;
     unsubscribedAt?: string | null;
     metadata?: Record<string, unknown> | null;
+    sequenceStep?: number | null;
+    nextStepDueAt?: string | null;
+    repliedAt?: string | null;
+    timezone?: string | null;
+    deferredUntil?: string | null;
+    senderEmail?: string | null;
+    variantId?: string | null;
+    attemptCount?: number | null;
+    nextAttemptAt?: string | null;
+    tags?: string[];
+    lastContactedAt?: string | null;
+    skipReason?: SkipReasonType | null;
 }
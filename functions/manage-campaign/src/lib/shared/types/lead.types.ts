@@ -0,0 +1,183 @@
+import type {
+    LeadStatusType,
+    LeadTypeValue,
+    SkipReasonType,
+    VerificationResultType,
+} from "../constants/status.constants";
+
+/**
+ * Lead Document Interface
+ *
+ * Represents a potential email recipient in the Appwrite database.
+ * Each lead transitions through the finite state machine defined by LeadStatus.
+ */
+export interface Lead {
+    /** Appwrite document ID (auto-generated, 20 chars) */
+    $id: string;
+
+    /** Document creation timestamp */
+    $createdAt: string;
+
+    /** Document last update timestamp */
+    $updatedAt: string;
+
+    /** Raw imported name (e.g., "Mr. Rajesh Kumar Sharma") */
+    fullName: string;
+
+    /** Output from Indian Name Parser */
+    parsedFirstName: string | null;
+
+    /** RFC 5321 compliant email address */
+    email: string;
+
+    /** Lead's organization */
+    companyName: string;
+
+    /** Optional phone number */
+    phoneNumber: string | null;
+
+    /** Lead classification for campaign targeting */
+    leadType: LeadTypeValue | null;
+
+    /** Lead lifecycle state */
+    status: LeadStatusType;
+
+    /** Cached verifier response code */
+    verificationResult: VerificationResultType | null;
+
+    /** When JIT verification occurred */
+    verificationTimestamp: string | null;
+
+    /** AWS SES Message ID after successful send */
+    sesMessageId: string | null;
+
+    /** Bounce type from SQS feedback */
+    bounceType: string | null;
+
+    /** Detailed bounce classification */
+    bounceSubType: string | null;
+
+    /** Complaint type from feedback loop */
+    complaintFeedbackType: string | null;
+
+    /** Foreign key to campaigns collection */
+    campaignId: string | null;
+
+    /** Order in sending queue */
+    queuePosition: number | null;
+
+    /** Timestamp when processing began */
+    processingStartedAt: string | null;
+
+    /** Timestamp when fully processed */
+    processedAt: string | null;
+
+    /** Error details if processing failed */
+    errorMessage: string | null;
+
+    /** Unsubscribe flag (CAN-SPAM/GDPR compliance) */
+    isUnsubscribed: boolean;
+
+    /** Timestamp of unsubscribe action */
+    unsubscribedAt: string | null;
+
+    /** Extensible key-value store */
+    metadata: Record<string, unknown> | null;
+
+    /** Index of the last sequence step sent (0 = initial email) */
+    sequenceStep: number | null;
+
+    /** When the next follow-up step becomes due (null if none pending) */
+    nextStepDueAt: string | null;
+
+    /** Timestamp the lead replied; stops further follow-ups */
+    repliedAt: string | null;
+
+    /** IANA timezone override (otherwise inferred from phone/domain) */
+    timezone: string | null;
+
+    /** Lead is skipped by the queue until this time (e.g., outside its sending window) */
+    deferredUntil: string | null;
+
+    /** Sender identity that emailed this lead; follow-ups reuse it */
+    senderEmail: string | null;
+
+    /** A/B variant of the initial email this lead received */
+    variantId: string | null;
+
+    /** Failed attempts at the current step that were scheduled for retry */
+    attemptCount: number | null;
+
+    /** When a RETRYING lead is requeued */
+    nextAttemptAt: string | null;
+
+    /** Free-form labels for segmenting (lowercased) */
+    tags: string[];
+
+    /** Staging batch the lead was approved from (null = added another way) */
+    importBatchId: string | null;
+
+    /** Last time any campaign emailed this lead (checked by the contact frequency cap) */
+    lastContactedAt: string | null;
+
+    /** Why the lead was SKIPPED */
+    skipReason: SkipReasonType | null;
+}
+
+/**
+ * Lead Create Input
+ *
+ * Fields required when creating a new lead document.
+ */
+export interface LeadCreateInput {
+    fullName: string;
+    email: string;
+    companyName: string;
+    phoneNumber?: string | null;
+    leadType?: LeadTypeValue | null;
+    status?: LeadStatusType;
+    campaignId?: string;
+    queuePosition?: number;
+    metadata?: Record<string, unknown>;
+    timezone?: string | null;
+    tags?: string[];
+    importBatchId?: string | null;
+}
+
+/**
+ * Lead Update Input
+ *
+ * Fields that can be updated on an existing lead.
+ */
+export interface LeadUpdateInput {
+    parsedFirstName?: string | null;
+    phoneNumber?: string | null;
+    leadType?: LeadTypeValue | null;
+    status?: LeadStatusType;
+    verificationResult?: VerificationResultType | null;
+    verificationTimestamp?: string | null;
+    sesMessageId?: string | null;
+    bounceType?: string | null;
+    bounceSubType?: string | null;
+    complaintFeedbackType?: string | null;
+    campaignId?: string | null;
+    queuePosition?: number | null;
+    processingStartedAt?: string | null;
+    processedAt?: string | null;
+    errorMessage?: string | null;
+    isUnsubscribed?: boolean;
+    unsubscribedAt?: string | null;
+    metadata?: Record<string, unknown> | null;
+    sequenceStep?: number | null;
+    nextStepDueAt?: string | null;
+    repliedAt?: string | null;
+    timezone?: string | null;
+    deferredUntil?: string | null;
+    senderEmail?: string | null;
+    variantId?: string | null;
+    attemptCount?: number | null;
+    nextAttemptAt?: string | null;
+    tags?: string[];
+    lastContactedAt?: string | null;
+    skipReason?: SkipReasonType | null;
+}
@@ -0,0 +1,209 @@
+import { MailTransport, type MailTransportType } from "../constants/status.constants";
+
+/**
+ * Settings Document Interface
+ *
+ * Singleton configuration document for system-wide settings.
+ * Fixed document ID: "global_settings"
+ */
+export interface Settings {
+    /** Fixed document ID: "global_settings" */
+    $id: string;
+
+    /** Document creation timestamp */
+    $createdAt: string;
+
+    /** Document last update timestamp */
+    $updatedAt: string;
+
+    /** How emails are sent: AWS SES, an SMTP relay or a local sink */
+    mailTransport: MailTransportType;
+
+    /** AWS region for SES (e.g., "ap-south-1") */
+    awsSesRegion: string;
+
+    /**
+     * IAM access key for SES
+     * NOTE: In production, prefer environment variables
+     */
+    awsSesAccessKeyId: string;
+
+    /**
+     * IAM secret key for SES
+     * NOTE: In production, prefer environment variables
+     */
+    awsSesSecretAccessKey: string;
+
+    /** SMTP relay host (e.g., "smtp-relay.gmail.com") */
+    smtpHost: string;
+
+    /** SMTP port: 587 upgrades with STARTTLS, 465 uses implicit TLS */
+    smtpPort: number;
+
+    /** Connect with implicit TLS instead of upgrading with STARTTLS */
+    smtpSecure: boolean;
+
+    /** SMTP username (empty for relays that allow by IP address) */
+    smtpUsername: string;
+
+    /**
+     * SMTP password or app password
+     * NOTE: In production, prefer environment variables
+     */
+    smtpPassword: string;
+
+    /** SMTP and local sink connection timeout (milliseconds) */
+    smtpTimeoutMs: number;
+
+    /**
+     * Local sink target: a directory for .eml files, or the smtp://host:port
+     * of a catch-all server (e.g., "smtp://localhost:1025" for MailHog)
+     */
+    localSinkTarget: string;
+
+    /** SQS queue URL for bounce/complaint feedback */
+    awsSqsQueueUrl: string;
+
+    /** AWS region for SQS */
+    awsSqsRegion: string;
+
+    /**
+     * MyEmailVerifier API key
+     * NOTE: In production, prefer environment variables
+     */
+    myEmailVerifierApiKey: string;
+
+    /** Default Gaussian minimum delay (milliseconds) */
+    defaultMinDelayMs: number;
+
+    /** Default Gaussian maximum delay (milliseconds) */
+    defaultMaxDelayMs: number;
+
+    /** SQS polling frequency (milliseconds) */
+    sqsPollingIntervalMs: number;
+
+    /** MyEmailVerifier API timeout (milliseconds) */
+    verifierTimeoutMs: number;
+
+    /** SES API timeout (milliseconds) */
+    sesTimeoutMs: number;
+
+    /** Retry count before marking as failed */
+    maxRetries: number;
+
+    /** Base backoff duration for retries (milliseconds) */
+    retryBackoffMs: number;
+
+    /** Retry queue: attempts per lead before giving up on a transient failure */
+    maxLeadAttempts: number;
+
+    /** Retry queue: delay before the first retry, doubled per attempt (minutes) */
+    leadRetryBackoffMinutes: number;
+
+    /** HMAC secret for unsubscribe link tokens */
+    unsubscribeTokenSecret: string;
+
+    /** Max emails per UTC day across all campaigns (0 = unlimited) */
+    globalDailySendCap: number;
+
+    /** Max emails per UTC hour across all campaigns (0 = unlimited) */
+    globalHourlySendCap: number;
+
+    /** Circuit breaker: pause a campaign above this hard-bounce rate (percent, 0 = off) */
+    breakerMaxHardBounceRate: number;
+
+    /** Circuit breaker: pause a campaign above this complaint rate (percent, 0 = off) */
+    breakerMaxComplaintRate: number;
+
+    /** Circuit breaker: sends before the bounce and complaint rates are judged */
+    breakerMinSends: number;
+
+    /** Circuit breaker: any complaint within this many sends pauses the campaign (0 = off) */
+    breakerEarlyComplaintSends: number;
+
+    /** Contact frequency cap: days before a recipient may be emailed again by any campaign (0 = off) */
+    contactCapDays: number;
+
+    /** Contact frequency cap: also count emails to colleagues at the same company domain */
+    contactCapByDomain: boolean;
+}
+
+/**
+ * Settings Update Input
+ *
+ * Fields that can be updated on the settings document.
+ */
+export interface SettingsUpdateInput {
+    mailTransport?: MailTransportType;
+    awsSesRegion?: string;
+    awsSesAccessKeyId?: string;
+    awsSesSecretAccessKey?: string;
+    smtpHost?: string;
+    smtpPort?: number;
+    smtpSecure?: boolean;
+    smtpUsername?: string;
+    smtpPassword?: string;
+    smtpTimeoutMs?: number;
+    localSinkTarget?: string;
+    awsSqsQueueUrl?: string;
+    awsSqsRegion?: string;
+    myEmailVerifierApiKey?: string;
+    defaultMinDelayMs?: number;
+    defaultMaxDelayMs?: number;
+    sqsPollingIntervalMs?: number;
+    verifierTimeoutMs?: number;
+    sesTimeoutMs?: number;
+    maxRetries?: number;
+    retryBackoffMs?: number;
+    maxLeadAttempts?: number;
+    leadRetryBackoffMinutes?: number;
+    unsubscribeTokenSecret?: string;
+    globalDailySendCap?: number;
+    globalHourlySendCap?: number;
+    breakerMaxHardBounceRate?: number;
+    breakerMaxComplaintRate?: number;
+    breakerMinSends?: number;
+    breakerEarlyComplaintSends?: number;
+    contactCapDays?: number;
+    contactCapByDomain?: boolean;
+}
+
+/**
+ * Default Settings Values
+ *
+ * Sensible defaults for initial setup.
+ */
+export const DEFAULT_SETTINGS: Omit<Settings, "$id" | "$createdAt" | "$updatedAt"> = {
+    mailTransport: MailTransport.SES,
+    awsSesRegion: "ap-south-1",
+    awsSesAccessKeyId: "",
+    awsSesSecretAccessKey: "",
+    smtpHost: "",
+    smtpPort: 587,
+    smtpSecure: false,
+    smtpUsername: "",
+    smtpPassword: "",
+    smtpTimeoutMs: 30000, // 30 seconds
+    localSinkTarget: "smtp://localhost:1025", // MailHog's default SMTP port
+    awsSqsQueueUrl: "",
+    awsSqsRegion: "ap-south-1",
+    myEmailVerifierApiKey: "",
+    defaultMinDelayMs: 60000, // 1 minute
+    defaultMaxDelayMs: 180000, // 3 minutes
+    sqsPollingIntervalMs: 60000, // 1 minute
+    verifierTimeoutMs: 10000, // 10 seconds
+    sesTimeoutMs: 30000, // 30 seconds
+    maxRetries: 3,
+    retryBackoffMs: 1000, // 1 second base
+    maxLeadAttempts: 4, // First attempt + 3 retries
+    leadRetryBackoffMinutes: 30, // 30m, 1h, 2h, ...
+    unsubscribeTokenSecret: "", // MUST be set before production use
+    globalDailySendCap: 0, // Unlimited (SES quota still applies)
+    globalHourlySendCap: 0, // Unlimited
+    breakerMaxHardBounceRate: 3,
+    breakerMaxComplaintRate: 0.1, // SES reviews accounts above 0.1%
+    breakerMinSends: 50,
+    breakerEarlyComplaintSends: 50,
+    contactCapDays: 0, // Off
+    contactCapByDomain: true, // Free-mail providers are never treated as one company
+};
@@ -0,0 +1,333 @@
+/**
+ * Manage Campaign Function
+ *
+ * Creates, clones, archives and deletes campaigns.
+ * Uses server-side API key for proper authorization.
+ *
+ * API:
+ *   POST / - Run a campaign action
+ *   Body:
+ *     { action: "create", campaign: { name, senderEmail, senderName, subjectTemplate,
+ *       bodyTemplate, minDelayMs?, maxDelayMs?, allowCatchAll?, sendingWindow? } }
+ *     { action: "clone", campaignId: string, name?: string }
+ *     { action: "archive" | "restore" | "delete", campaignId: string }
+ *
+ * New campaigns start as DRAFT. Delays default to the settings'
+ * defaultMinDelayMs/defaultMaxDelayMs. Only campaigns that are not in
+ * flight can be archived, and only those that never sent can be deleted;
+ * their leads are released for other campaigns.
+ */
+
+import { Client } from "node-appwrite";
+import { EventType } from "./lib/shared/constants/event.constants";
+import { CampaignStatus } from "./lib/shared/constants/status.constants";
+import type {
+    Campaign,
+    CampaignCreateInput,
+    SendingWindow,
+} from "./lib/shared/types/campaign.types";
+import { DEFAULT_SETTINGS } from "./lib/shared/types/settings.types";
+import { validateSendingWindow } from "./lib/shared/validation/sending-window";
+import {
+    createCampaign,
+    deleteCampaign,
+    getCampaignById,
+    updateCampaign,
+} from "./lib/shared/database/repositories/campaign.repository";
+import { releaseCampaignLeads } from "./lib/shared/database/repositories/lead.repository";
+import { logInfo } from "./lib/shared/database/repositories/log.repository";
+import { getSettings } from "./lib/shared/database/repositories/settings.repository";
+
+type CampaignAction = "create" | "clone" | "archive" | "restore" | "delete";
+
+interface CampaignDraft {
+    name: string;
+    senderEmail: string;
+    senderName: string;
+    subjectTemplate: string;
+    bodyTemplate: string;
+    minDelayMs?: number | null;
+    maxDelayMs?: number | null;
+    allowCatchAll?: boolean;
+    sendingWindow?: SendingWindow | null;
+}
+
+interface ManageCampaignRequest {
+    action: CampaignAction;
+    campaign?: CampaignDraft;
+    campaignId?: string;
+    name?: string;
+}
+
+interface AppwriteContext {
+    req: {
+        body: string;
+        headers: Record<string, string>;
+        method: string;
+    };
+    res: {
+        json: (data: unknown, statusCode?: number) => unknown;
+    };
+    log: (message: string) => void;
+    error: (message: string) => void;
+}
+
+/**
+ * Statuses in which the orchestrator may still touch the campaign
+ */
+const IN_FLIGHT_STATUSES: string[] = [
+    CampaignStatus.QUEUED,
+    CampaignStatus.RUNNING,
+    CampaignStatus.WAITING,
+    CampaignStatus.PAUSED,
+];
+
+/** Matches the campaigns attribute sizes */
+const MAX_NAME_LENGTH = 255;
+const MAX_SUBJECT_LENGTH = 998;
+const MAX_BODY_LENGTH = 100000;
+
+/**
+ * Check a draft against the campaigns schema.
+ *
+ * @returns Validation error, or null if the draft can be saved
+ */
+function validateDraft(
+    draft: CampaignDraft,
+    minDelayMs: number,
+    maxDelayMs: number
+): string | null {
+    if (!draft.name?.trim()) return "name is required";
+    if (draft.name.trim().length > MAX_NAME_LENGTH) {
+        return `name must be at most ${MAX_NAME_LENGTH} characters`;
+    }
+
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!draft.senderEmail || !emailRegex.test(draft.senderEmail.trim())) {
+        return "senderEmail must be a valid email address";
+    }
+    if (!draft.senderName?.trim()) return "senderName is required";
+    if (draft.senderName.trim().length > MAX_NAME_LENGTH) {
+        return `senderName must be at most ${MAX_NAME_LENGTH} characters`;
+    }
+
+    if (!draft.subjectTemplate?.trim()) return "subjectTemplate is required";
+    if (draft.subjectTemplate.length > MAX_SUBJECT_LENGTH) {
+        return `subjectTemplate must be at most ${MAX_SUBJECT_LENGTH} characters`;
+    }
+    if (!draft.bodyTemplate?.trim()) return "bodyTemplate is required";
+    if (draft.bodyTemplate.length > MAX_BODY_LENGTH) {
+        return `bodyTemplate must be at most ${MAX_BODY_LENGTH} characters`;
+    }
+
+    if (!Number.isInteger(minDelayMs) || !Number.isInteger(maxDelayMs) || minDelayMs < 0) {
+        return "Delays must be whole, non-negative milliseconds";
+    }
+    if (maxDelayMs < minDelayMs) return "maxDelayMs must be at least minDelayMs";
+
+    if (draft.sendingWindow) return validateSendingWindow(draft.sendingWindow);
+
+    return null;
+}
+
+/**
+ * Copy a campaign's configuration into a new DRAFT.
+ * Counters, schedule, run state and A/B results are not carried over.
+ */
+function cloneInput(source: Campaign, name: string): CampaignCreateInput {
+    return {
+        name,
+        subjectTemplate: source.subjectTemplate,
+        bodyTemplate: source.bodyTemplate,
+        bodyFormat: source.bodyFormat,
+        senderEmail: source.senderEmail,
+        senderName: source.senderName,
+        senderPool: source.senderPool,
+        replyTo: source.replyTo,
+        customHeaders: source.customHeaders,
+        sesConfigurationSet: source.sesConfigurationSet,
+        emailTags: source.emailTags,
+        totalLeads: 0,
+        minDelayMs: source.minDelayMs,
+        maxDelayMs: source.maxDelayMs,
+        allowCatchAll: source.allowCatchAll,
+        gaussianMean: source.gaussianMean ?? undefined,
+        gaussianStdDev: source.gaussianStdDev ?? undefined,
+        delayStrategy: source.delayStrategy,
+        delayParams: source.delayParams,
+        sequenceSteps: source.sequenceSteps,
+        attachments: source.attachments,
+        sendingWindow: source.sendingWindow,
+        recurrenceIntervalHours: source.recurrenceIntervalHours,
+        dailySendCap: source.dailySendCap,
+        hourlySendCap: source.hourlySendCap,
+        variants: source.variants,
+        abTestSampleSize: source.abTestSampleSize,
+        abTestWinnerMetric: source.abTestWinnerMetric,
+        abTestAutoWinner: source.abTestAutoWinner,
+        abTestEvaluateAfterHours: source.abTestEvaluateAfterHours,
+        abTestMinEvents: source.abTestMinEvents,
+        abTestMaxWaitHours: source.abTestMaxWaitHours,
+    };
+}
+
+export default async function main(context: AppwriteContext): Promise<unknown> {
+    const { req, res, log, error: logErr } = context;
+
+    // Get endpoint - fix localhost for Docker internal networking
+    let endpoint = process.env.APPWRITE_FUNCTION_API_ENDPOINT || "";
+    if (endpoint.includes("localhost") || endpoint.includes("127.0.0.1")) {
+        endpoint = endpoint.replace("localhost", "appwrite").replace("127.0.0.1", "appwrite");
+    }
+
+    // Initialize Appwrite client with API key
+    const client = new Client()
+        .setEndpoint(endpoint)
+        .setProject(process.env.APPWRITE_FUNCTION_PROJECT_ID || "")
+        .setKey(process.env.APPWRITE_API_KEY || "")
+        .setSelfSigned(true);
+
+    try {
+        // Parse request body
+        let request: ManageCampaignRequest;
+        try {
+            request = JSON.parse(req.body || "{}");
+        } catch {
+            return res.json({ success: false, message: "Invalid JSON body" }, 400);
+        }
+
+        const { action } = request;
+
+        if (action === "create") {
+            const draft = request.campaign;
+            if (!draft) {
+                return res.json({ success: false, message: "campaign is required" }, 400);
+            }
+
+            const settings = await getSettings(client);
+            const defaults = settings ?? DEFAULT_SETTINGS;
+            const minDelayMs = draft.minDelayMs ?? defaults.defaultMinDelayMs;
+            const maxDelayMs = draft.maxDelayMs ?? defaults.defaultMaxDelayMs;
+
+            const validationError = validateDraft(draft, minDelayMs, maxDelayMs);
+            if (validationError) {
+                return res.json({ success: false, message: validationError }, 400);
+            }
+
+            log(`Creating campaign: ${draft.name.trim()}`);
+
+            const campaign = await createCampaign(client, {
+                name: draft.name.trim(),
+                senderEmail: draft.senderEmail.trim().toLowerCase(),
+                senderName: draft.senderName.trim(),
+                subjectTemplate: draft.subjectTemplate,
+                bodyTemplate: draft.bodyTemplate,
+                totalLeads: 0,
+                minDelayMs,
+                maxDelayMs,
+                allowCatchAll: draft.allowCatchAll ?? false,
+                sendingWindow: draft.sendingWindow ?? null,
+            });
+            await logInfo(
+                client,
+                EventType.CAMPAIGN_CREATED,
+                `Campaign "${campaign.name}" created`,
+                { campaignId: campaign.$id }
+            );
+
+            return res.json({ success: true, campaign });
+        }
+
+        if (!["clone", "archive", "restore", "delete"].includes(action)) {
+            return res.json({ success: false, message: `Unknown action: ${action}` }, 400);
+        }
+
+        if (!request.campaignId) {
+            return res.json({ success: false, message: "campaignId is required" }, 400);
+        }
+
+        const source = await getCampaignById(client, request.campaignId);
+        if (!source) {
+            return res.json({ success: false, message: "Campaign not found" }, 404);
+        }
+
+        if (action === "clone") {
+            const name = (request.name?.trim() || `${source.name} (copy)`).slice(
+                0,
+                MAX_NAME_LENGTH
+            );
+
+            log(`Cloning campaign ${source.$id} as: ${name}`);
+
+            const campaign = await createCampaign(client, cloneInput(source, name));
+            await logInfo(
+                client,
+                EventType.CAMPAIGN_CREATED,
+                `Campaign "${campaign.name}" cloned from "${source.name}"`,
+                { campaignId: campaign.$id, metadata: { clonedFrom: source.$id } }
+            );
+
+            return res.json({ success: true, campaign });
+        }
+
+        // An abort settles once its current send is done, or on the next
+        // scheduler tick if no execution is running the campaign
+        if (source.status === CampaignStatus.ABORTING) {
+            return res.json(
+                { success: false, message: "Campaign is being aborted; try again in a few minutes" },
+                409
+            );
+        }
+
+        if (IN_FLIGHT_STATUSES.includes(source.status)) {
+            return res.json(
+                {
+                    success: false,
+                    message: `Campaign is ${source.status}; abort it or let it finish first`,
+                },
+                409
+            );
+        }
+
+        if (action === "archive" || action === "restore") {
+            const archivedAt = action === "archive" ? new Date().toISOString() : null;
+            const campaign = await updateCampaign(client, source.$id, { archivedAt });
+            await logInfo(
+                client,
+                action === "archive" ? EventType.CAMPAIGN_ARCHIVED : EventType.CAMPAIGN_RESTORED,
+                `Campaign "${source.name}" ${action === "archive" ? "archived" : "restored"}`,
+                { campaignId: source.$id }
+            );
+
+            return res.json({ success: true, campaign });
+        }
+
+        // Sent campaigns keep their leads, logs and metrics; archive those instead
+        if (source.processedCount > 0) {
+            return res.json(
+                {
+                    success: false,
+                    message: "Campaign has already sent emails; archive it instead",
+                },
+                409
+            );
+        }
+
+        log(`Deleting campaign: ${source.$id}`);
+
+        const releasedLeads = await releaseCampaignLeads(client, source.$id);
+        await deleteCampaign(client, source.$id);
+        await logInfo(
+            client,
+            EventType.CAMPAIGN_DELETED,
+            `Campaign "${source.name}" deleted`,
+            { campaignId: source.$id, metadata: { releasedLeads } }
+        );
+
+        return res.json({ success: true, deletedId: source.$id, releasedLeads });
+    } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        logErr(`Manage campaign error: ${message}`);
+        return res.json({ success: false, message }, 500);
+    }
+}
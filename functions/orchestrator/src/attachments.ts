@@ -0,0 +1,66 @@
+/**
+ * Campaign Attachments
+ *
+ * Downloads the Storage files a campaign or sequence step attaches and
+ * hands them to the SES client as MIME attachments. Every lead of a step
+ * gets the same files, so downloads are cached for the execution.
+ */
+
+import { type Client, Storage } from 'node-appwrite';
+import { validateAttachments } from './lib/shared/attachments/limits';
+import { BucketId } from './lib/shared/constants/collection.constants';
+import type { EmailAttachment } from './lib/shared/types/campaign.types';
+import type { MimeAttachment } from './lib/shared/mime/builder';
+
+/** Files kept in memory; at the 5MB file limit this stays under 100MB */
+const MAX_CACHED_FILES = 20;
+
+/**
+ * File contents by Storage file ID, oldest first
+ */
+const fileCache = new Map<string, Promise<Uint8Array>>();
+
+/**
+ * Load a step's attachments.
+ *
+ * @throws Error if the set breaks the attachment limits or a file is missing
+ */
+export async function loadAttachments(
+	client: Client,
+	attachments: EmailAttachment[]
+): Promise<MimeAttachment[]> {
+	if (attachments.length === 0) return [];
+
+	const invalid = validateAttachments(attachments);
+	if (invalid) throw new Error(invalid);
+
+	const storage = new Storage(client);
+	return Promise.all(
+		attachments.map(async (attachment) => ({
+			filename: attachment.name,
+			contentType: attachment.mimeType,
+			content: await downloadFile(storage, attachment.fileId),
+		}))
+	);
+}
+
+function downloadFile(storage: Storage, fileId: string): Promise<Uint8Array> {
+	const cached = fileCache.get(fileId);
+	if (cached) return cached;
+
+	const download = storage
+		.getFileDownload(BucketId.CAMPAIGN_ATTACHMENTS, fileId)
+		.then((data) => new Uint8Array(data))
+		.catch((error: Error) => {
+			// Let the next lead try again
+			fileCache.delete(fileId);
+			throw new Error(`Attachment ${fileId} could not be downloaded: ${error.message}`);
+		});
+
+	fileCache.set(fileId, download);
+	if (fileCache.size > MAX_CACHED_FILES) {
+		const oldest = fileCache.keys().next().value;
+		if (oldest !== undefined) fileCache.delete(oldest);
+	}
+	return download;
+}
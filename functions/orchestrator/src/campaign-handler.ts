@@ -3,71 +3,143 @@
  *
  * Manages the execution of a campaign with:
  * - Fill Buffer pipeline (pre-verify next lead during delay)
- * - Gaussian delay timing
+ * - Delay timing from the campaign's delay strategy, arbitrated across concurrently running campaigns
  * - Campaign lock management
  * - Graceful pause/abort handling
+ * - Sending windows (campaign or recipient timezone)
+ * - Hourly/daily send caps and SES quota throttling
+ * - Sender pool daily caps
+ * - Recipient domain throttling (over-cap leads are deferred)
+ * - A/B winner selection once the sample has been sent (auto-winner holds initial emails until then)
+ * - Circuit breaker pause on bounce/complaint spikes
+ * - Journal-based recovery of sends interrupted by a crash
+ * - Hand-off to WAITING while leads are deferred, retrying or follow-ups are pending
+ * - Bounded execution slices that schedule their own continuation
  */
 
 import type { Client } from 'node-appwrite';
-import { SENDING_TIMEOUT_MS } from './lib/shared/constants/collection.constants';
 import { EventType } from './lib/shared/constants/event.constants';
-import { CampaignStatus, LeadStatus } from './lib/shared/constants/status.constants';
-import type { Campaign } from './lib/shared/types/campaign.types';
+import {
+	CampaignStatus,
+	LeadStatus,
+	MailTransport,
+} from './lib/shared/constants/status.constants';
+import type { BufferedVerification, CampaignRunProgress } from './lib/shared/types/campaign.types';
 import type { Lead } from './lib/shared/types/lead.types';
-import type { Settings } from './lib/shared/types/settings.types';
 import {
 	completeCampaign,
 	getCampaignById,
 	updateCampaign,
 } from './lib/shared/database/repositories/campaign.repository';
 import {
+	countLeadsByStatus,
+	countPendingFollowUps,
 	countRemainingLeads,
+	getNextDeferredAt,
 	getNextQueuedLead,
-	getSendingLeads,
+	getNextRetryAt,
 	updateLead,
 } from './lib/shared/database/repositories/lead.repository';
-import { logError, logInfo, logWarn } from './lib/shared/database/repositories/log.repository';
+import { getLatestAwsMetrics } from './lib/shared/database/repositories/aws-metrics.repository';
+import { getDomainThrottleRules } from './lib/shared/database/repositories/domain-throttle-rule.repository';
+import { logError, logInfo } from './lib/shared/database/repositories/log.repository';
 import { getSettings } from './lib/shared/database/repositories/settings.repository';
 // Shared modules
 import { withCampaignLock } from './lib/shared/locking/campaign-lock';
+import { acquireSendSlot } from './lib/shared/locking/send-arbiter';
 // Local modules
-import { calculateGaussianDelay, sleep } from './delay-calculator';
+import { checkCircuitBreaker, tripCircuitBreaker } from './circuit-breaker';
+import { checkContactCap } from './contact-cap';
+import { type RunTriggerAction, triggerCampaignRun } from './continuation';
+import { calculateCampaignDelay, sleep } from './delay-calculator';
 import { type ProcessConfig, processLead } from './lead-processor';
+import {
+	claimBufferedLead,
+	isVerificationRejected,
+	preVerifyNextLead,
+	recordPreVerification,
+} from './pre-verification';
+import { RECOVERY_RECHECK_MS, recoverStuckLeads } from './send-recovery';
+import { checkRecipientDomainCaps, checkSendCaps, getMinSendIntervalMs } from './send-throttle';
+import { getSenderHold } from './sender-pool';
+import { getNextStepIndex } from './sequence';
+import {
+	getCampaignWindowHold,
+	getMsUntilWindowOpens,
+	resolveWindowTimezone,
+} from './sending-window';
+import { evaluateAbTest, getAbTestHold } from './variants';
 
 /**
  * Campaign execution result
  */
 export interface CampaignExecutionResult {
 	campaignId: string;
-	status: 'completed' | 'paused' | 'aborted' | 'error' | 'locked';
+	status: 'completed' | 'waiting' | 'continuing' | 'paused' | 'aborted' | 'error' | 'locked';
 	leadsProcessed: number;
 	leadsSkipped: number;
 	leadsErrored: number;
 	message: string;
 }
 
+/**
+ * Lead outcomes counted as skipped rather than errored
+ */
+const SKIPPED_STATUSES: string[] = [LeadStatus.INVALID, LeadStatus.RISKY, LeadStatus.SKIPPED];
+
+/**
+ * Longest hold (sending window, send cap) that is slept in-process; anything
+ * longer parks the campaign for the scheduler instead of holding the
+ * execution open.
+ */
+const MAX_IN_PROCESS_WAIT_MS = 5 * 60 * 1000;
+
+/**
+ * How long one execution keeps sending before handing the run to a fresh
+ * execution. Leaves room under the function's 900s timeout for the last
+ * send slot, verification and the hand-off itself.
+ */
+const SLICE_BUDGET_MS = 8 * 60 * 1000;
+
 /**
  * Orchestrator configuration
  */
 export interface OrchestratorConfig {
 	appwriteClient: Client;
-	appwriteEndpoint: string;
-	unsubscribeFunctionId: string;
+	/** Public domain URL of the unsubscribe-lead function */
+	unsubscribeUrl: string;
+	/** This function's own ID, used by the scheduler to trigger campaign runs */
+	orchestratorFunctionId: string;
 }
 
 /**
  * Execute a campaign with the Fill Buffer pipeline.
+ *
+ * Runs one slice of the campaign. If the slice budget runs out first, the
+ * next slice is triggered once this one has released the lock.
+ *
+ * @param mode - `start` begins a new run, `continue` picks up the current
+ *   run's next slice, `resume` restarts a PAUSED or WAITING campaign's run
+ *   with its totals kept
  */
 export async function executeCampaign(
 	campaignId: string,
-	config: OrchestratorConfig
+	config: OrchestratorConfig,
+	mode: RunTriggerAction = 'start'
 ): Promise<CampaignExecutionResult> {
 	const { appwriteClient } = config;
 
 	try {
-		return await withCampaignLock(appwriteClient, campaignId, async () => {
-			return await runCampaignWithLock(campaignId, config);
+		const result = await withCampaignLock(appwriteClient, campaignId, async () => {
+			return await runCampaignWithLock(campaignId, config, mode);
 		});
+
+		if (result.status === 'continuing') {
+			// A failed trigger leaves the run stalled; the scheduler continues it
+			await triggerCampaignRun(config, campaignId, 'continue');
+		}
+
+		return result;
 	} catch (error) {
 		const errorMessage = error instanceof Error ? error.message : String(error);
 
@@ -109,9 +181,11 @@ export async function executeCampaign(
  */
 async function runCampaignWithLock(
 	campaignId: string,
-	config: OrchestratorConfig
+	config: OrchestratorConfig,
+	mode: RunTriggerAction
 ): Promise<CampaignExecutionResult> {
 	const { appwriteClient } = config;
+	const sliceStartedAt = Date.now();
 
 	const campaign = await getCampaignById(appwriteClient, campaignId);
 	if (!campaign) {
@@ -137,20 +211,67 @@ async function runCampaignWithLock(
 		};
 	}
 
-	await recoverStuckLeads(appwriteClient, campaignId);
+	await recoverStuckLeads(appwriteClient, campaign);
 
-	await updateCampaign(appwriteClient, campaignId, {
-		status: CampaignStatus.RUNNING,
-	});
+	// Continuations and resumes carry the current run's totals forward; a
+	// resume without a run (a recurring campaign's next run) starts a new one
+	const carried = mode === 'start' ? null : campaign.runProgress;
+	const progress: CampaignRunProgress = carried
+		? { ...carried, slice: carried.slice + 1 }
+		: {
+				startedAt: new Date(sliceStartedAt).toISOString(),
+				slice: 1,
+				leadsProcessed: 0,
+				leadsSkipped: 0,
+				leadsErrored: 0,
+			};
 
-	await logInfo(appwriteClient, EventType.CAMPAIGN_STARTED, `Starting campaign: ${campaign.name}`, {
-		campaignId,
-	});
+	// A continuation keeps the status as it is, so a pause or abort that
+	// arrived between slices is handled by the loop below.
+	if (mode === 'continue') {
+		await updateCampaign(appwriteClient, campaignId, {
+			runProgress: progress,
+			bufferedVerification: null,
+		});
+	} else {
+		await updateCampaign(appwriteClient, campaignId, {
+			status: CampaignStatus.RUNNING,
+			nextRunAt: null,
+			runProgress: progress,
+			bufferedVerification: null,
+		});
 
-	let leadsProcessed = 0;
-	let leadsSkipped = 0;
-	let leadsErrored = 0;
-	let verifiedBuffer: Lead | null = null;
+		// A paused campaign is resumed even if its progress predates the pause
+		if (mode === 'resume' && (carried || campaign.status === CampaignStatus.PAUSED)) {
+			const { leadsProcessed, leadsSkipped, leadsErrored } = progress;
+			await logInfo(
+				appwriteClient,
+				EventType.CAMPAIGN_RESUMED,
+				`Campaign resumed from ${campaign.status}: ${leadsProcessed} sent, ${leadsSkipped} skipped, ${leadsErrored} errors so far`,
+				{ campaignId, metadata: { previousStatus: campaign.status, ...progress } }
+			);
+		} else {
+			await logInfo(
+				appwriteClient,
+				EventType.CAMPAIGN_STARTED,
+				`Starting campaign: ${campaign.name}`,
+				{ campaignId }
+			);
+		}
+	}
+
+	// Rule edits apply from the next slice
+	const throttleRules = await getDomainThrottleRules(appwriteClient);
+
+	let { leadsProcessed, leadsSkipped, leadsErrored } = progress;
+	const currentProgress = (): CampaignRunProgress => ({
+		...progress,
+		leadsProcessed,
+		leadsSkipped,
+		leadsErrored,
+	});
+	// Carried over from a paused, parked or handed-off run; checked before use
+	let verifiedBuffer: BufferedVerification | null = campaign.bufferedVerification;
 
 	while (true) {
 		// This loop is the main heartbeat of the campaign. We use a "Fill Buffer"
@@ -160,7 +281,14 @@ async function runCampaignWithLock(
 		const currentCampaign = await getCampaignById(appwriteClient, campaignId);
 		if (!currentCampaign) break;
 
+		const sliceRemainingMs = SLICE_BUDGET_MS - (Date.now() - sliceStartedAt);
+
 		if (currentCampaign.status === CampaignStatus.PAUSED) {
+			// Kept for the resume, which carries on with the same run
+			await updateCampaign(appwriteClient, campaignId, {
+				runProgress: currentProgress(),
+				bufferedVerification: verifiedBuffer,
+			});
 			await logInfo(appwriteClient, EventType.CAMPAIGN_PAUSED, 'Campaign paused by user', {
 				campaignId,
 			});
@@ -175,12 +303,7 @@ async function runCampaignWithLock(
 		}
 
 		if (currentCampaign.status === CampaignStatus.ABORTING) {
-			await updateCampaign(appwriteClient, campaignId, {
-				status: CampaignStatus.ABORTED,
-			});
-			await logInfo(appwriteClient, EventType.CAMPAIGN_ABORTED, 'Campaign aborted by user', {
-				campaignId,
-			});
+			await completeAbort(appwriteClient, campaignId);
 			return {
 				campaignId,
 				status: 'aborted',
@@ -191,85 +314,245 @@ async function runCampaignWithLock(
 			};
 		}
 
-		let currentLead: Lead | null = verifiedBuffer;
-		verifiedBuffer = null;
-
-		if (!currentLead) {
-			currentLead = await getNextQueuedLead(appwriteClient, campaignId);
+		// Out of budget: persist progress and let a fresh execution carry on
+		if (sliceRemainingMs <= 0) {
+			return await handOffSlice(appwriteClient, campaignId, currentProgress(), verifiedBuffer);
 		}
 
-		if (!currentLead) {
-			await completeCampaign(appwriteClient, campaignId);
-			await logInfo(
-				appwriteClient,
-				EventType.CAMPAIGN_COMPLETED,
-				`Campaign completed: ${leadsProcessed} sent, ${leadsSkipped} skipped, ${leadsErrored} errors`,
-				{ campaignId }
-			);
+		// Bounce/complaint spike: pause until someone acknowledges it
+		const tripReason = await checkCircuitBreaker(appwriteClient, currentCampaign, settings);
+		if (tripReason) {
+			await tripCircuitBreaker(appwriteClient, campaignId, tripReason);
+			await updateCampaign(appwriteClient, campaignId, {
+				runProgress: currentProgress(),
+				bufferedVerification: verifiedBuffer,
+			});
 			return {
 				campaignId,
-				status: 'completed',
+				status: 'paused',
 				leadsProcessed,
 				leadsSkipped,
 				leadsErrored,
-				message: 'All leads processed',
+				message: `Circuit breaker tripped: ${tripReason}`,
 			};
 		}
 
+		const { sendingWindow } = currentCampaign;
+		// SES quotas mean nothing to the SMTP and local sink transports
+		const awsMetrics =
+			(settings.mailTransport ?? MailTransport.SES) === MailTransport.SES
+				? await getLatestAwsMetrics(appwriteClient)
+				: null;
+
+		// Sending window and send caps: short holds are slept off in-process,
+		// longer ones park the campaign for the scheduler.
+		const hold =
+			getCampaignWindowHold(sendingWindow) ??
+			(await checkSendCaps(appwriteClient, currentCampaign, settings, awsMetrics));
+		if (hold) {
+			const waitMs = hold.resumeAt.getTime() - Date.now();
+			if (waitMs <= MAX_IN_PROCESS_WAIT_MS) {
+				// Sleep past the slice budget belongs to the next slice
+				await sleep(Math.max(0, Math.min(waitMs, sliceRemainingMs)));
+				continue;
+			}
+			return await parkCampaign(
+				appwriteClient,
+				campaignId,
+				hold.resumeAt.toISOString(),
+				hold.reason,
+				currentProgress(),
+				verifiedBuffer
+			);
+		}
+
+		// A buffered result only applies if its lead hasn't changed since
+		let currentLead: Lead | null = null;
+		let preVerification: BufferedVerification | null = null;
+		if (verifiedBuffer) {
+			currentLead = await claimBufferedLead(appwriteClient, verifiedBuffer);
+			if (currentLead) preVerification = verifiedBuffer;
+			verifiedBuffer = null;
+		}
+
+		if (!currentLead) {
+			currentLead = await getNextQueuedLead(appwriteClient, campaignId);
+		}
+
+		if (!currentLead) {
+			return await finalizeCampaign(appwriteClient, campaignId, currentProgress());
+		}
+
+		// A/B auto-winner: initial emails wait for the winner once the sample is out
+		const abTestHold = getAbTestHold(currentCampaign);
+		if (abTestHold && getNextStepIndex(currentLead) === 0) {
+			await updateLead(appwriteClient, currentLead.$id, {
+				deferredUntil: abTestHold.resumeAt.toISOString(),
+			});
+			continue;
+		}
+
+		// The contact cap is checked once per lead and handed to processLead.
+		// A buffered lead is checked again: its pre-verification check ran
+		// before the previous send recorded its contact.
+		const contactCapReason =
+			getNextStepIndex(currentLead) > 0
+				? null
+				: await checkContactCap(appwriteClient, currentLead, settings);
+
 		const processConfig: ProcessConfig = {
 			appwriteClient,
 			campaign: currentCampaign,
 			settings,
-			appwriteEndpoint: config.appwriteEndpoint,
-			unsubscribeFunctionId: config.unsubscribeFunctionId,
+			unsubscribeUrl: config.unsubscribeUrl,
+			preVerification: preVerification ?? undefined,
+			contactCapReason,
 		};
 
+		// Leads the buffer already rejected, or the contact frequency cap will
+		// skip, are recorded without taking a send slot
+		if (
+			contactCapReason ||
+			(preVerification && isVerificationRejected(preVerification, currentCampaign))
+		) {
+			const result = await processLead(currentLead, processConfig);
+			if (SKIPPED_STATUSES.includes(result.status)) {
+				leadsSkipped++;
+			} else if (result.status !== LeadStatus.RETRYING) {
+				leadsErrored++;
+			}
+			continue;
+		}
+
+		// Per-recipient windows: defer this lead and move on to the next one
+		if (sendingWindow?.useRecipientTimezone) {
+			const timezone = resolveWindowTimezone(sendingWindow, currentLead);
+			const waitMs = getMsUntilWindowOpens(sendingWindow, timezone);
+			if (waitMs > 0) {
+				await updateLead(appwriteClient, currentLead.$id, {
+					deferredUntil: new Date(Date.now() + waitMs).toISOString(),
+				});
+				continue;
+			}
+		}
+
+		// Recipient domain at its cap: defer this lead, other domains go first
+		const domainHold = await checkRecipientDomainCaps(
+			appwriteClient,
+			throttleRules,
+			currentLead.email
+		);
+		if (domainHold) {
+			await updateLead(appwriteClient, currentLead.$id, {
+				deferredUntil: domainHold.resumeAt.toISOString(),
+			});
+			continue;
+		}
+
+		// Follow-ups wait for their own sender; a fully capped pool holds the campaign
+		const senderHold = await getSenderHold(appwriteClient, currentCampaign, currentLead);
+		if (senderHold) {
+			if (currentLead.senderEmail) {
+				await updateLead(appwriteClient, currentLead.$id, {
+					deferredUntil: senderHold.resumeAt.toISOString(),
+				});
+				continue;
+			}
+
+			// The lead is untouched, so its buffered result stays usable
+			const waitMs = senderHold.resumeAt.getTime() - Date.now();
+			if (waitMs <= MAX_IN_PROCESS_WAIT_MS) {
+				verifiedBuffer = preVerification;
+				await sleep(Math.max(0, Math.min(waitMs, sliceRemainingMs)));
+				continue;
+			}
+			return await parkCampaign(
+				appwriteClient,
+				campaignId,
+				senderHold.resumeAt.toISOString(),
+				senderHold.reason,
+				currentProgress(),
+				preVerification
+			);
+		}
+
+		// The gap after this send is reserved globally, so concurrent campaigns
+		// interleave their sends instead of each pacing independently.
+		const sendIndex =
+			currentCampaign.processedCount + currentCampaign.skippedCount + currentCampaign.errorCount;
+		const delayMs = calculateCampaignDelay(currentCampaign, sendIndex);
+
+		// A break too long to wait in-process (Poisson burst strategy) is
+		// taken by parking the campaign after this send, so it doesn't hold
+		// the send queue against other campaigns.
+		const breakMs = delayMs > MAX_IN_PROCESS_WAIT_MS ? delayMs : 0;
+		const gapMs = Math.max(
+			breakMs ? currentCampaign.minDelayMs : delayMs,
+			getMinSendIntervalMs(awsMetrics)
+		);
+
+		// Fill Buffer: verify the next lead while this one waits out the
+		// delay and sends. It only calls the verifier, so nothing races.
+		// Skipped while the A/B test holds initial emails, which it would verify.
+		const nextVerification = abTestHold
+			? Promise.resolve(null)
+			: preVerifyNextLead(appwriteClient, campaignId, currentLead.$id, settings, throttleRules);
+
+		// Waiting on other campaigns' slots past the slice budget would run into
+		// the function timeout; hand off instead, keeping this lead's result
+		const slot = await acquireSendSlot(
+			appwriteClient,
+			campaignId,
+			gapMs,
+			SLICE_BUDGET_MS - (Date.now() - sliceStartedAt)
+		);
+		if (!slot) {
+			// Settled so it doesn't outlive the slice. Its credit is spent either
+			// way; its result is handed off unless this lead's takes the buffer.
+			const verified = await nextVerification;
+			if (verified) {
+				await recordPreVerification(appwriteClient, campaignId);
+			}
+			return await handOffSlice(
+				appwriteClient,
+				campaignId,
+				currentProgress(),
+				preVerification ?? verified
+			);
+		}
+
 		const result = await processLead(currentLead, processConfig);
 
 		if (result.success) {
 			leadsProcessed++;
-		} else if (result.status === LeadStatus.INVALID || result.status === LeadStatus.RISKY) {
+			// Picked up by the next iteration's campaign refresh
+			await evaluateAbTest(appwriteClient, currentCampaign);
+		} else if (SKIPPED_STATUSES.includes(result.status)) {
 			leadsSkipped++;
-		} else {
+		} else if (result.status !== LeadStatus.RETRYING) {
 			leadsErrored++;
 		}
 
+		verifiedBuffer = await nextVerification;
+		if (verifiedBuffer) {
+			await recordPreVerification(appwriteClient, campaignId);
+		}
+
 		const remainingLeads = await countRemainingLeads(appwriteClient, campaignId);
 		if (remainingLeads === 0) {
-			await completeCampaign(appwriteClient, campaignId);
-			await logInfo(
+			return await finalizeCampaign(appwriteClient, campaignId, currentProgress());
+		}
+
+		if (breakMs) {
+			return await parkCampaign(
 				appwriteClient,
-				EventType.CAMPAIGN_COMPLETED,
-				`Campaign completed: ${leadsProcessed} sent, ${leadsSkipped} skipped, ${leadsErrored} errors`,
-				{ campaignId }
-			);
-			return {
 				campaignId,
-				status: 'completed',
-				leadsProcessed,
-				leadsSkipped,
-				leadsErrored,
-				message: 'All leads processed',
-			};
+				new Date(Date.now() + breakMs).toISOString(),
+				'Taking a break between send bursts',
+				currentProgress(),
+				verifiedBuffer
+			);
 		}
-
-		const delayMs = calculateGaussianDelay({
-			minDelayMs: currentCampaign.minDelayMs,
-			maxDelayMs: currentCampaign.maxDelayMs,
-			mean: currentCampaign.gaussianMean ?? undefined,
-			stdDev: currentCampaign.gaussianStdDev ?? undefined,
-		});
-
-		const fillBufferPromise = fillVerifiedBuffer(
-			appwriteClient,
-			campaignId,
-			currentCampaign,
-			settings,
-			processConfig
-		);
-
-		const [bufferResult] = await Promise.all([fillBufferPromise, sleep(delayMs)]);
-		verifiedBuffer = bufferResult;
 	}
 
 	return {
@@ -283,99 +566,181 @@ async function runCampaignWithLock(
 }
 
 /**
- * Fill Buffer Strategy: Find and pre-verify the next valid lead.
- * Keeps trying until it finds a valid lead or runs out of queue.
+ * Mark a campaign ABORTED, dropping any parked run so nothing resumes it.
+ *
+ * Called by the running loop once it sees ABORTING, and directly for
+ * campaigns no execution is working on.
  */
-async function fillVerifiedBuffer(
+export async function completeAbort(client: Client, campaignId: string): Promise<void> {
+	await updateCampaign(client, campaignId, {
+		status: CampaignStatus.ABORTED,
+		nextRunAt: null,
+		runProgress: null,
+		bufferedVerification: null,
+	});
+	await logInfo(client, EventType.CAMPAIGN_ABORTED, 'Campaign aborted by user', { campaignId });
+}
+
+/**
+ * Finish a run once no lead is eligible to send.
+ *
+ * Campaigns with deferred or retrying leads, interrupted sends still
+ * being recovered, a recurrence interval, or follow-up steps still pending
+ * move to WAITING so the scheduler can pick them up again; everything else
+ * is marked COMPLETED.
+ */
+async function finalizeCampaign(
 	client: Client,
 	campaignId: string,
-	campaign: Campaign,
-	settings: Settings,
-	_processConfig: ProcessConfig
-): Promise<Lead | null> {
-	const maxAttempts = 5; // Prevent infinite loop
-
-	for (let attempt = 0; attempt < maxAttempts; attempt++) {
-		const nextLead = await getNextQueuedLead(client, campaignId);
-		if (!nextLead) return null;
-
-		const verifierConfig = {
-			apiKey: settings.myEmailVerifierApiKey,
-			timeoutMs: settings.verifierTimeoutMs,
-			maxRetries: 1, // Single attempt for buffer fill
-			retryBackoffMs: settings.retryBackoffMs,
-		};
+	progress: CampaignRunProgress
+): Promise<CampaignExecutionResult> {
+	const { leadsProcessed, leadsSkipped, leadsErrored } = progress;
 
-		try {
-			const { verifyEmail } = await import('./lib/shared/email-verifier/client');
-			const result = await verifyEmail(nextLead.email, verifierConfig);
+	const nextDeferredAt = await getNextDeferredAt(client, campaignId);
+	if (nextDeferredAt) {
+		return await parkCampaign(
+			client,
+			campaignId,
+			nextDeferredAt,
+			'Remaining leads are deferred (sending window or send caps)',
+			progress
+		);
+	}
 
-			if (result.isValid || (result.status === 'catch_all' && campaign.allowCatchAll)) {
-				// Valid lead found, cache the verification result
-				await updateLead(client, nextLead.$id, {
-					verificationResult: result.status,
-					verificationTimestamp: new Date().toISOString(),
-				});
-				return nextLead;
-			} else {
-				// Invalid lead, mark and continue searching
-				await updateLead(client, nextLead.$id, {
-					status: result.status === 'catch_all' ? LeadStatus.RISKY : LeadStatus.INVALID,
-					verificationResult: result.status,
-					verificationTimestamp: new Date().toISOString(),
-				});
-				// Continue to next lead in buffer fill
-			}
-		} catch {
-			// Verification failed, leave lead in queue for main loop
-			return null;
-		}
+	// Due retries are requeued by the scheduler before it triggers the run
+	const nextRetryAt = await getNextRetryAt(client, campaignId);
+	if (nextRetryAt) {
+		return await parkCampaign(client, campaignId, nextRetryAt, 'Leads awaiting retry', progress);
 	}
 
-	return null;
-}
+	// Recovery left these for their SES Send event; it runs again on resume
+	const awaitingEvent = await countLeadsByStatus(client, campaignId, LeadStatus.SENDING);
+	if (awaitingEvent > 0) {
+		return await parkCampaign(
+			client,
+			campaignId,
+			new Date(Date.now() + RECOVERY_RECHECK_MS).toISOString(),
+			`${awaitingEvent} interrupted sends awaiting their SES Send event`,
+			progress
+		);
+	}
 
-/**
- * Recover leads stuck in SENDING status (power failure recovery).
- * 
- * Invariants:
- * - Leads with a messageId are already sent; we just mark them SENT to avoid duplicates.
- * - Leads without a messageId are reverted to VERIFIED, ensuring at-least-once delivery.
- */
-async function recoverStuckLeads(client: Client, campaignId: string): Promise<void> {
-	const stuckLeads = await getSendingLeads(client, campaignId, SENDING_TIMEOUT_MS);
-
-	for (const lead of stuckLeads) {
-		if (lead.sesMessageId) {
-			// SES accepted the message but status update failed
-			await updateLead(client, lead.$id, {
-				status: LeadStatus.SENT,
-				processedAt: new Date().toISOString(),
-			});
-			await logWarn(
-				client,
-				EventType.SYSTEM_RECOVERY,
-				`Recovered stuck lead ${lead.$id} as SENT (had messageId)`,
-				{ leadId: lead.$id, campaignId }
-			);
-		} else {
-			// SES call may not have completed, revert to VERIFIED for retry
-			await updateLead(client, lead.$id, {
-				status: LeadStatus.VERIFIED,
-				processingStartedAt: null,
-			});
-			await logWarn(
-				client,
-				EventType.SYSTEM_RECOVERY,
-				`Recovered stuck lead ${lead.$id} back to VERIFIED for retry`,
-				{ leadId: lead.$id, campaignId }
-			);
-		}
+	const campaign = await getCampaignById(client, campaignId);
+	if (campaign?.recurrenceIntervalHours) {
+		const nextRunAt = new Date(
+			Date.now() + campaign.recurrenceIntervalHours * 60 * 60 * 1000
+		).toISOString();
+		// This run is over; the next recurrence starts a new one
+		return await parkCampaign(
+			client,
+			campaignId,
+			nextRunAt,
+			'Recurring run finished, waiting for newly assigned leads',
+			progress,
+			null,
+			true
+		);
 	}
 
-	if (stuckLeads.length > 0) {
-		await logInfo(client, EventType.SYSTEM_RECOVERY, `Recovered ${stuckLeads.length} stuck leads`, {
+	const pendingFollowUps = await countPendingFollowUps(client, campaignId);
+	if (pendingFollowUps > 0) {
+		return await parkCampaign(
+			client,
 			campaignId,
-		});
+			null,
+			`${pendingFollowUps} follow-ups pending`,
+			progress
+		);
 	}
+
+	await completeCampaign(client, campaignId);
+	await logInfo(
+		client,
+		EventType.CAMPAIGN_COMPLETED,
+		`Campaign completed: ${leadsProcessed} sent, ${leadsSkipped} skipped, ${leadsErrored} errors`,
+		{ campaignId }
+	);
+	return {
+		campaignId,
+		status: 'completed',
+		leadsProcessed,
+		leadsSkipped,
+		leadsErrored,
+		message: 'All leads processed',
+	};
+}
+
+/**
+ * Move a campaign to WAITING until the scheduler picks it up again.
+ *
+ * The run's progress is kept, so the scheduler's resume carries on with
+ * the same totals instead of starting a new run.
+ *
+ * @param nextRunAt - When to re-trigger the run (null: follow-up requeue decides)
+ * @param bufferedVerification - Pre-verified next lead, kept for the next run
+ * @param runEnded - Drop the progress so the next trigger starts a new run
+ */
+async function parkCampaign(
+	client: Client,
+	campaignId: string,
+	nextRunAt: string | null,
+	reason: string,
+	progress: CampaignRunProgress,
+	bufferedVerification: BufferedVerification | null = null,
+	runEnded = false
+): Promise<CampaignExecutionResult> {
+	const { leadsProcessed, leadsSkipped, leadsErrored } = progress;
+
+	await updateCampaign(client, campaignId, {
+		status: CampaignStatus.WAITING,
+		nextRunAt,
+		runProgress: runEnded ? null : progress,
+		bufferedVerification,
+	});
+	await logInfo(
+		client,
+		EventType.CAMPAIGN_WAITING,
+		`Campaign waiting (${reason}): ${leadsProcessed} sent, ${leadsSkipped} skipped, ${leadsErrored} errors`,
+		{ campaignId, metadata: { nextRunAt } }
+	);
+	return {
+		campaignId,
+		status: 'waiting',
+		leadsProcessed,
+		leadsSkipped,
+		leadsErrored,
+		message: reason,
+	};
+}
+
+/**
+ * End this execution's slice with the run still RUNNING.
+ *
+ * Progress and the pre-verified next lead are saved on the campaign for
+ * the continuation, which
+ * `executeCampaign` triggers after the lock is released.
+ */
+async function handOffSlice(
+	client: Client,
+	campaignId: string,
+	progress: CampaignRunProgress,
+	bufferedVerification: BufferedVerification | null
+): Promise<CampaignExecutionResult> {
+	const { leadsProcessed, leadsSkipped, leadsErrored } = progress;
+
+	await updateCampaign(client, campaignId, { runProgress: progress, bufferedVerification });
+	await logInfo(
+		client,
+		EventType.CAMPAIGN_CONTINUED,
+		`Slice ${progress.slice} finished, continuing in a new execution: ${leadsProcessed} sent, ${leadsSkipped} skipped, ${leadsErrored} errors so far`,
+		{ campaignId, metadata: { ...progress } }
+	);
+	return {
+		campaignId,
+		status: 'continuing',
+		leadsProcessed,
+		leadsSkipped,
+		leadsErrored,
+		message: `Slice ${progress.slice} finished, run continues in a new execution`,
+	};
 }
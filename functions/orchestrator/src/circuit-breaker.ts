@@ -0,0 +1,122 @@
+/**
+ * Campaign Circuit Breaker
+ *
+ * Pauses a campaign whose hard bounces or complaints spike, before SES
+ * reviews or suspends the account. The SQS poller keeps the campaign's
+ * metrics current; the send loop checks them before every send.
+ *
+ * A tripped campaign stays PAUSED until someone acknowledges the trip.
+ * Acknowledging records the metrics at that point, and later checks only
+ * judge what was sent after it.
+ */
+
+import type { Client } from 'node-appwrite';
+import { EventType } from './lib/shared/constants/event.constants';
+import { CampaignStatus } from './lib/shared/constants/status.constants';
+import type { Campaign, CircuitBreakerBaseline } from './lib/shared/types/campaign.types';
+import type { Metrics } from './lib/shared/types/metrics.types';
+import type { Settings } from './lib/shared/types/settings.types';
+import { updateCampaign } from './lib/shared/database/repositories/campaign.repository';
+import { logInfo, logWarn } from './lib/shared/database/repositories/log.repository';
+import { getCampaignMetrics } from './lib/shared/database/repositories/metrics.repository';
+
+/**
+ * Find the threshold a campaign's feedback has crossed.
+ *
+ * @returns Human-readable reason, or null if the campaign may keep sending
+ */
+export function evaluateCircuitBreaker(
+	metrics: Pick<Metrics, 'totalEmailsSent' | 'totalHardBounces' | 'totalComplaints'>,
+	baseline: CircuitBreakerBaseline | null,
+	settings: Settings
+): string | null {
+	const sent = metrics.totalEmailsSent - (baseline?.emailsSent ?? 0);
+	const hardBounces = metrics.totalHardBounces - (baseline?.hardBounces ?? 0);
+	const complaints = metrics.totalComplaints - (baseline?.complaints ?? 0);
+	if (sent <= 0) return null;
+
+	if (complaints > 0 && sent <= settings.breakerEarlyComplaintSends) {
+		return `${complaints} complaint(s) within the first ${sent} sends`;
+	}
+
+	if (sent < settings.breakerMinSends) return null;
+
+	const hardBounceRate = (hardBounces / sent) * 100;
+	if (settings.breakerMaxHardBounceRate > 0 && hardBounceRate > settings.breakerMaxHardBounceRate) {
+		return `Hard-bounce rate ${hardBounceRate.toFixed(2)}% is above ${settings.breakerMaxHardBounceRate}% (${hardBounces} of ${sent} sends)`;
+	}
+
+	const complaintRate = (complaints / sent) * 100;
+	if (settings.breakerMaxComplaintRate > 0 && complaintRate > settings.breakerMaxComplaintRate) {
+		return `Complaint rate ${complaintRate.toFixed(2)}% is above ${settings.breakerMaxComplaintRate}% (${complaints} of ${sent} sends)`;
+	}
+
+	return null;
+}
+
+/**
+ * Check a campaign against the circuit breaker thresholds.
+ *
+ * @returns Trip reason, or null if the campaign may keep sending
+ */
+export async function checkCircuitBreaker(
+	client: Client,
+	campaign: Campaign,
+	settings: Settings
+): Promise<string | null> {
+	const metrics = await getCampaignMetrics(client, campaign.$id);
+	if (!metrics) return null;
+
+	return evaluateCircuitBreaker(metrics, campaign.circuitBreakerBaseline, settings);
+}
+
+/**
+ * Pause a campaign that crossed a threshold.
+ */
+export async function tripCircuitBreaker(
+	client: Client,
+	campaignId: string,
+	reason: string
+): Promise<void> {
+	const now = new Date().toISOString();
+
+	await updateCampaign(client, campaignId, {
+		status: CampaignStatus.PAUSED,
+		pausedAt: now,
+		circuitBreakerTrippedAt: now,
+		circuitBreakerReason: reason,
+	});
+	await logWarn(
+		client,
+		EventType.CAMPAIGN_PAUSED,
+		`Campaign paused by circuit breaker: ${reason}. Acknowledge before resuming.`,
+		{ campaignId, metadata: { circuitBreaker: true, reason } }
+	);
+}
+
+/**
+ * Clear a trip so the campaign can be resumed.
+ *
+ * Does not resume the campaign; that stays a separate, explicit action.
+ */
+export async function acknowledgeCircuitBreaker(client: Client, campaign: Campaign): Promise<void> {
+	const metrics = await getCampaignMetrics(client, campaign.$id);
+	const baseline: CircuitBreakerBaseline = {
+		acknowledgedAt: new Date().toISOString(),
+		emailsSent: metrics?.totalEmailsSent ?? 0,
+		hardBounces: metrics?.totalHardBounces ?? 0,
+		complaints: metrics?.totalComplaints ?? 0,
+	};
+
+	await updateCampaign(client, campaign.$id, {
+		circuitBreakerTrippedAt: null,
+		circuitBreakerReason: null,
+		circuitBreakerBaseline: baseline,
+	});
+	await logInfo(
+		client,
+		EventType.CIRCUIT_BREAKER_ACKNOWLEDGED,
+		`Circuit breaker acknowledged (${campaign.circuitBreakerReason ?? 'no reason recorded'})`,
+		{ campaignId: campaign.$id, metadata: { ...baseline } }
+	);
+}
@@ -0,0 +1,78 @@
+/**
+ * Contact Frequency Cap
+ *
+ * Keeps every campaign from emailing a recipient who was emailed by any
+ * campaign within the last `contactCapDays`. With `contactCapByDomain`,
+ * an email to a colleague at the same company domain counts too.
+ *
+ * Intent: Salespeople importing overlapping lists used to reach the same
+ * person twice in a week. The cap is checked before verification, so a
+ * blocked lead costs no verifier credit.
+ */
+
+import type { Client } from 'node-appwrite';
+import type { Lead } from './lib/shared/types/lead.types';
+import type { Settings } from './lib/shared/types/settings.types';
+import { findRecentlyContactedLead } from './lib/shared/database/repositories/lead.repository';
+// Local modules
+import { getEmailDomain } from './warmup';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Mailbox providers whose users are unrelated people, not one company
+ */
+const FREE_MAIL_DOMAINS = new Set([
+	'gmail.com',
+	'googlemail.com',
+	'yahoo.com',
+	'yahoo.co.in',
+	'outlook.com',
+	'hotmail.com',
+	'live.com',
+	'msn.com',
+	'icloud.com',
+	'me.com',
+	'aol.com',
+	'proton.me',
+	'protonmail.com',
+	'zoho.com',
+	'yandex.com',
+	'gmx.com',
+	'mail.com',
+	'rediffmail.com',
+]);
+
+/**
+ * Check a lead's initial email against the contact frequency cap.
+ *
+ * Follow-up steps are part of the contact already made and are not checked.
+ *
+ * @returns Why the lead may not be emailed, or null if it may
+ */
+export async function checkContactCap(
+	client: Client,
+	lead: Lead,
+	settings: Settings,
+	now: Date = new Date()
+): Promise<string | null> {
+	const days = settings.contactCapDays ?? 0;
+	if (days <= 0) return null;
+
+	const since = new Date(now.getTime() - days * DAY_MS);
+	const domain = getEmailDomain(lead.email);
+	const byDomain = settings.contactCapByDomain && !FREE_MAIL_DOMAINS.has(domain);
+
+	const contacted = await findRecentlyContactedLead(
+		client,
+		lead.email,
+		since,
+		byDomain ? domain : null
+	);
+	if (!contacted?.lastContactedAt) return null;
+
+	const when = contacted.lastContactedAt.slice(0, 10);
+	return contacted.$id === lead.$id
+		? `${lead.email} was already emailed on ${when} (cap: once per ${days} days)`
+		: `${contacted.email} at ${domain} was emailed on ${when} (cap: once per ${days} days)`;
+}
@@ -0,0 +1,81 @@
+/**
+ * Run Continuations
+ *
+ * A campaign run is split into bounded slices so no single function
+ * execution outlives its timeout. Each slice ends by starting the next
+ * one as a fresh async execution of this function; progress lives on the
+ * campaign document, so nothing is lost between slices.
+ *
+ * If a continuation never arrives (trigger failed, execution killed),
+ * the campaign is left RUNNING with no live lock. The scheduler and the
+ * `recover` action detect that and continue the run.
+ */
+
+import { Functions } from 'node-appwrite';
+import type { Client } from 'node-appwrite';
+import { STALE_LOCK_THRESHOLD_MS } from './lib/shared/constants/collection.constants';
+import { EventType } from './lib/shared/constants/event.constants';
+import { CampaignStatus } from './lib/shared/constants/status.constants';
+import type { Campaign } from './lib/shared/types/campaign.types';
+import { logError } from './lib/shared/database/repositories/log.repository';
+import { isCampaignLocked } from './lib/shared/locking/campaign-lock';
+// Local modules
+import type { OrchestratorConfig } from './campaign-handler';
+
+/**
+ * How a triggered execution treats the campaign: `start` begins a new
+ * run, `continue` picks up a RUNNING campaign's current run, `resume`
+ * moves a PAUSED or WAITING campaign back to RUNNING with its run kept.
+ */
+export type RunTriggerAction = 'start' | 'continue' | 'resume';
+
+/**
+ * Start a campaign run or continuation as a separate async execution of
+ * this function.
+ *
+ * @returns false if the execution could not be created (logged)
+ */
+export async function triggerCampaignRun(
+	config: OrchestratorConfig,
+	campaignId: string,
+	action: RunTriggerAction = 'start'
+): Promise<boolean> {
+	const { appwriteClient, orchestratorFunctionId } = config;
+
+	try {
+		const functions = new Functions(appwriteClient);
+		await functions.createExecution(
+			orchestratorFunctionId,
+			JSON.stringify({ action, campaignId }),
+			true
+		);
+		return true;
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		await logError(
+			appwriteClient,
+			EventType.CAMPAIGN_ERROR,
+			`Failed to trigger campaign ${action}: ${errorMessage}`,
+			{ campaignId, errorDetails: { message: errorMessage } }
+		);
+		return false;
+	}
+}
+
+/**
+ * Whether a RUNNING campaign has no execution working on it.
+ *
+ * Every slice updates the campaign as it goes and holds the campaign lock
+ * (refreshed while sleeping), so a run is stalled once the lock is gone
+ * and the campaign has been quiet for longer than a lock could be stale.
+ */
+export async function isRunStalled(client: Client, campaign: Campaign): Promise<boolean> {
+	if (campaign.status !== CampaignStatus.RUNNING) return false;
+
+	const lastActivityAt = campaign.lastActivityAt ?? campaign.$updatedAt;
+	if (Date.now() - new Date(lastActivityAt).getTime() < STALE_LOCK_THRESHOLD_MS) {
+		return false;
+	}
+
+	return !(await isCampaignLocked(client, campaign.$id));
+}
@@ -0,0 +1,178 @@
+/**
+ * Campaign Dry Run
+ *
+ * Renders what each queued lead would receive, in queue order, into the
+ * outbox collection. Runs the real lead pipeline (name parsing, variants,
+ * sender rotation, Spintax, variables, signatures) but never calls SES or
+ * the verifier, compresses send delays to zero, and leaves leads,
+ * campaign state and metrics untouched.
+ */
+
+import { ID } from 'node-appwrite';
+import { EventType } from './lib/shared/constants/event.constants';
+import { LeadStatus } from './lib/shared/constants/status.constants';
+import { getCampaignById } from './lib/shared/database/repositories/campaign.repository';
+import { getQueuedLeads } from './lib/shared/database/repositories/lead.repository';
+import { logError, logInfo } from './lib/shared/database/repositories/log.repository';
+import { getSettings } from './lib/shared/database/repositories/settings.repository';
+import { withCampaignLock } from './lib/shared/locking/campaign-lock';
+// Local modules
+import type { CampaignExecutionResult, OrchestratorConfig } from './campaign-handler';
+import { calculateCampaignDelay } from './delay-calculator';
+import { type DryRunContext, processLead } from './lead-processor';
+
+/** Leads rendered when the request doesn't set a limit */
+export const DEFAULT_DRY_RUN_LIMIT = 500;
+
+const PAGE_SIZE = 100;
+
+/**
+ * Dry run result
+ */
+export interface DryRunResult extends CampaignExecutionResult {
+	/** Outbox emails of this run share this ID */
+	dryRunId: string;
+}
+
+/**
+ * Render up to `limit` queued leads into the outbox.
+ *
+ * Holds the campaign lock so a dry run never overlaps a real run.
+ */
+export async function executeDryRun(
+	campaignId: string,
+	config: OrchestratorConfig,
+	limit: number = DEFAULT_DRY_RUN_LIMIT
+): Promise<DryRunResult> {
+	const { appwriteClient } = config;
+	const dryRunId = ID.unique();
+
+	try {
+		return await withCampaignLock(appwriteClient, campaignId, async () => {
+			return await runDryRunWithLock(campaignId, dryRunId, limit, config);
+		});
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+
+		if (errorMessage.includes('lock')) {
+			return {
+				campaignId,
+				dryRunId,
+				status: 'locked',
+				leadsProcessed: 0,
+				leadsSkipped: 0,
+				leadsErrored: 0,
+				message: `Campaign is locked by another instance: ${errorMessage}`,
+			};
+		}
+
+		await logError(
+			appwriteClient,
+			EventType.CAMPAIGN_ERROR,
+			`Dry run failed for campaign ${campaignId}: ${errorMessage}`,
+			{
+				campaignId,
+				errorDetails: { message: errorMessage },
+				metadata: { dryRunId },
+			}
+		);
+
+		return {
+			campaignId,
+			dryRunId,
+			status: 'error',
+			leadsProcessed: 0,
+			leadsSkipped: 0,
+			leadsErrored: 0,
+			message: errorMessage,
+		};
+	}
+}
+
+async function runDryRunWithLock(
+	campaignId: string,
+	dryRunId: string,
+	limit: number,
+	config: OrchestratorConfig
+): Promise<DryRunResult> {
+	const { appwriteClient } = config;
+
+	const campaign = await getCampaignById(appwriteClient, campaignId);
+	const settings = await getSettings(appwriteClient);
+	if (!campaign || !settings) {
+		return {
+			campaignId,
+			dryRunId,
+			status: 'error',
+			leadsProcessed: 0,
+			leadsSkipped: 0,
+			leadsErrored: 0,
+			message: campaign ? 'Settings not configured' : 'Campaign not found',
+		};
+	}
+
+	const pendingSends = new Map<string, number>();
+	let leadsProcessed = 0;
+	let leadsSkipped = 0;
+	let leadsErrored = 0;
+	let simulatedDurationMs = 0;
+
+	// A seeded campaign draws the same delays the live run would
+	const firstSendIndex = campaign.processedCount + campaign.skippedCount + campaign.errorCount;
+
+	// Leads are not modified, so offset paging over the queue is stable
+	for (let offset = 0; offset < limit; offset += PAGE_SIZE) {
+		const leads = await getQueuedLeads(
+			appwriteClient,
+			campaignId,
+			Math.min(PAGE_SIZE, limit - offset),
+			offset
+		);
+
+		for (const [index, lead] of leads.entries()) {
+			const dryRun: DryRunContext = {
+				dryRunId,
+				simulatedDelayMs: calculateCampaignDelay(campaign, firstSendIndex + offset + index),
+				pendingSends,
+			};
+
+			const result = await processLead(lead, {
+				appwriteClient,
+				campaign,
+				settings,
+				unsubscribeUrl: config.unsubscribeUrl,
+				dryRun,
+			});
+
+			if (result.success) {
+				leadsProcessed++;
+				simulatedDurationMs += dryRun.simulatedDelayMs;
+			} else if (result.status === LeadStatus.SKIPPED) {
+				// Contact frequency cap: the live run would skip it too
+				leadsSkipped++;
+			} else {
+				leadsErrored++;
+			}
+		}
+
+		if (leads.length < PAGE_SIZE) break;
+	}
+
+	const message =
+		`Dry run rendered ${leadsProcessed} emails to the outbox ` +
+		`(${leadsSkipped} skipped, ${leadsErrored} failed)`;
+	await logInfo(appwriteClient, EventType.CAMPAIGN_DRY_RUN_COMPLETED, message, {
+		campaignId,
+		metadata: { dryRunId, leadsProcessed, leadsSkipped, leadsErrored, simulatedDurationMs },
+	});
+
+	return {
+		campaignId,
+		dryRunId,
+		status: 'completed',
+		leadsProcessed,
+		leadsSkipped,
+		leadsErrored,
+		message,
+	};
+}
@@ -2,17 +2,40 @@
  * Lead Processor
  *
  * Handles the processing of individual leads through the email pipeline:
- * 1. Parse name (if not already parsed)
- * 2. Verify email (JIT verification)
- * 3. Resolve template (Spintax + variables)
- * 4. Send via SES
- * 5. Update lead status and metrics
+ * 1. Check the contact frequency cap (initial step only)
+ * 2. Parse name (if not already parsed)
+ * 3. Verify email (JIT verification, initial step only; may arrive pre-verified)
+ * 4. Pick sender identity (weighted rotation, follow-ups reuse the first sender)
+ * 5. Resolve template (A/B variant, Spintax + variables) and sender signature
+ * 6. Send via the mail transport chosen in settings (SES, SMTP or a
+ *    local sink) with the campaign's Reply-To, headers and SES tags,
+ *    journaled (see below)
+ * 7. Update lead status and metrics
+ *
+ * Transient failures (greylisting, retryable SES errors) go to the retry
+ * queue until the lead runs out of attempts.
+ *
+ * Every SES call is bracketed by the send journal: the intent is written
+ * under a fresh idempotency key before the call and the outcome after it.
+ * The key also goes to SES as a message tag, so a crash between SES
+ * accepting the email and the lead update can be reconciled from the
+ * journal and the SES Send event instead of sending twice (see
+ * send-recovery).
+ *
+ * In a dry run the same pipeline renders into the outbox instead: the
+ * verifier is stubbed and no lead, metric or counter is written.
  */
 
+import { randomUUID } from 'node:crypto';
 import type { Client } from 'node-appwrite';
 import { EventType } from './lib/shared/constants/event.constants';
-import { LeadStatus, VerificationResult } from './lib/shared/constants/status.constants';
-import type { Campaign } from './lib/shared/types/campaign.types';
+import {
+	LeadStatus,
+	SendJournalStatus,
+	SkipReason,
+	VerificationResult,
+} from './lib/shared/constants/status.constants';
+import type { BufferedVerification, Campaign } from './lib/shared/types/campaign.types';
 import type { Lead } from './lib/shared/types/lead.types';
 import type { Settings } from './lib/shared/types/settings.types';
 import { incrementCampaignCounter } from './lib/shared/database/repositories/campaign.repository';
@@ -24,10 +47,22 @@ import {
 	incrementCampaignMetrics,
 	incrementGlobalMetrics,
 } from './lib/shared/database/repositories/metrics.repository';
-import { verifyEmail } from './lib/shared/email-verifier/client';
+import { createOutboxEmail } from './lib/shared/database/repositories/outbox.repository';
+import { recordSend } from './lib/shared/database/repositories/send-counter.repository';
+import {
+	completeJournalEntry,
+	createJournalEntry,
+} from './lib/shared/database/repositories/send-journal.repository';
+import { incrementVariantStats } from './lib/shared/database/repositories/variant-stats.repository';
+import { renderEmailBody } from './lib/shared/email-body/renderer';
+import {
+	type VerificationResponse,
+	type VerifierApiResponse,
+	verifyEmail,
+} from './lib/shared/email-verifier/client';
 // Shared modules
+import { createMailTransport } from './lib/shared/mail-transport/transport';
 import { parseIndianName } from './lib/shared/name-parser/parser';
-import { sendEmail } from './lib/shared/ses-client/client';
 import { resolveSpintax } from './lib/shared/spintax/resolver';
 import {
 	buildTemplateVariables,
@@ -35,6 +70,14 @@ import {
 	injectVariables,
 	templateVariablesToMap,
 } from './lib/shared/spintax/variable-injector';
+import { resolveEmailTags, validateSendOptions } from './lib/shared/validation/send-options';
+// Local modules
+import { loadAttachments } from './attachments';
+import { checkContactCap } from './contact-cap';
+import { scheduleLeadRetry } from './retry-queue';
+import { selectSender } from './sender-pool';
+import { calculateNextStepDueAt, getNextStepIndex, resolveStepTemplates } from './sequence';
+import { assignVariant } from './variants';
 
 /**
  * Result of processing a lead
@@ -48,6 +91,28 @@ export interface ProcessResult {
 	processingTimeMs: number;
 }
 
+/**
+ * Dry-run state shared across the leads of one run
+ */
+export interface DryRunContext {
+	dryRunId: string;
+	/** Delay (from the campaign's delay strategy) that would precede this send */
+	simulatedDelayMs: number;
+	/** Rendered emails per sender mailbox, so rotation advances without counters */
+	pendingSends: Map<string, number>;
+}
+
+/**
+ * An email SES accepted
+ */
+export interface AcceptedSend {
+	messageId: string;
+	stepIndex: number;
+	senderEmail: string;
+	variantId: string | null;
+	sentAt: Date;
+}
+
 /**
  * Configuration for lead processing
  */
@@ -55,8 +120,14 @@ export interface ProcessConfig {
 	appwriteClient: Client;
 	campaign: Campaign;
 	settings: Settings;
-	appwriteEndpoint: string;
-	unsubscribeFunctionId: string;
+	/** Public domain URL of the unsubscribe-lead function */
+	unsubscribeUrl: string;
+	/** Render into the outbox instead of sending */
+	dryRun?: DryRunContext;
+	/** Verifier result obtained during the previous delay (credit already counted) */
+	preVerification?: BufferedVerification;
+	/** Contact cap result already checked by the caller (undefined = check here) */
+	contactCapReason?: string | null;
 }
 
 /**
@@ -64,7 +135,7 @@ export interface ProcessConfig {
  */
 export async function processLead(lead: Lead, config: ProcessConfig): Promise<ProcessResult> {
 	const startTime = Date.now();
-	const { appwriteClient, campaign, settings } = config;
+	const { appwriteClient, campaign, settings, dryRun, preVerification, contactCapReason } = config;
 
 	// We follow a "Wide Event" logging pattern: instead of noisy granular logs, 
 	// we accumulate rich context in this object and emit one comprehensive 
@@ -74,94 +145,156 @@ export async function processLead(lead: Lead, config: ProcessConfig): Promise<Pr
 		campaignId: campaign.$id,
 		metadata: {},
 	};
+	// Set once the transport has accepted the email
+	let sent = false;
 
 	try {
-		await updateLead(appwriteClient, lead.$id, {
-			status: LeadStatus.VERIFYING,
-			processingStartedAt: new Date().toISOString(),
-		});
-
-		let firstName = lead.parsedFirstName;
-		if (!firstName) {
-			const parsed = parseIndianName(lead.fullName);
-			firstName = parsed.firstName || lead.fullName.split(' ')[0] || 'there';
-
-			await updateLead(appwriteClient, lead.$id, {
-				parsedFirstName: firstName,
-			});
+		// Follow-up steps were already verified when the initial email went out
+		const stepIndex = getNextStepIndex(lead);
+		const isFollowUp = stepIndex > 0;
+		context.metadata = { ...context.metadata, sequenceStep: stepIndex };
+
+		// Before verification, so a blocked lead costs no verifier credit
+		let capReason: string | null = null;
+		if (!isFollowUp) {
+			capReason =
+				contactCapReason === undefined
+					? await checkContactCap(appwriteClient, lead, settings)
+					: contactCapReason;
 		}
+		if (capReason) {
+			context.metadata = { ...context.metadata, skipReason: SkipReason.CONTACT_FREQUENCY_CAP };
 
-		const verifierConfig = {
-			apiKey: settings.myEmailVerifierApiKey,
-			timeoutMs: settings.verifierTimeoutMs,
-			maxRetries: settings.maxRetries,
-			retryBackoffMs: settings.retryBackoffMs,
-		};
-
-		const verificationResult = await verifyEmail(lead.email, verifierConfig);
-		context.verifierResponse = verificationResult.rawResponse as unknown as Record<string, unknown>;
-
-		// Update metadata with verification context
-		context.metadata = {
-			...context.metadata,
-			verification: {
-				status: verificationResult.status,
-				diagnosis: verificationResult.diagnosis,
-				isValid: verificationResult.isValid,
-				isGreylisted: verificationResult.isGreylisted,
-			}
-		};
-
-		// Increment verifier credits used
-		await incrementGlobalMetrics(appwriteClient, { verifierCreditsUsed: 1 });
-		await incrementCampaignMetrics(appwriteClient, campaign.$id, { verifierCreditsUsed: 1 });
-
-		// Handle verification result
-		if (!verificationResult.isValid) {
-			// Check for GREYLISTED (retry later)
-			if (verificationResult.isGreylisted) {
+			if (!dryRun) {
 				await updateLead(appwriteClient, lead.$id, {
-					status: LeadStatus.RISKY,
-					verificationResult: verificationResult.status,
-					verificationTimestamp: new Date().toISOString(),
-					errorMessage: `Greylisted - retry after ${verificationResult.retryAfterHours || 6} hours. ${verificationResult.diagnosis}`,
+					status: LeadStatus.SKIPPED,
+					skipReason: SkipReason.CONTACT_FREQUENCY_CAP,
+					errorMessage: capReason,
+					processedAt: new Date().toISOString(),
 				});
 
 				await incrementCampaignCounter(appwriteClient, campaign.$id, 'skippedCount');
-				await incrementGlobalMetrics(appwriteClient, { totalVerificationFailed: 1 });
 
-				await logWarn(
+				await logInfo(
 					appwriteClient,
-					EventType.VERIFICATION_RISKY,
-					`Domain greylisted for ${lead.email}, retry after ${verificationResult.retryAfterHours || 6} hours`,
+					EventType.LEAD_SKIPPED,
+					`Skipped ${lead.email}: ${capReason}`,
 					{
 						...context,
 						processingTimeMs: Date.now() - startTime,
 					}
 				);
+			}
 
-				return {
-					success: false,
-					leadId: lead.$id,
-					status: LeadStatus.RISKY,
-					error: `Greylisted - retry later`,
-					processingTimeMs: Date.now() - startTime,
-				};
+			return {
+				success: false,
+				leadId: lead.$id,
+				status: LeadStatus.SKIPPED,
+				error: capReason,
+				processingTimeMs: Date.now() - startTime,
+			};
+		}
+
+		if (!dryRun) {
+			await updateLead(appwriteClient, lead.$id, {
+				status: isFollowUp ? LeadStatus.VERIFIED : LeadStatus.VERIFYING,
+				processingStartedAt: new Date().toISOString(),
+			});
+		}
+
+		let firstName = lead.parsedFirstName;
+		if (!firstName) {
+			const parsed = parseIndianName(lead.fullName);
+			firstName = parsed.firstName || lead.fullName.split(' ')[0] || 'there';
+
+			if (!dryRun) {
+				await updateLead(appwriteClient, lead.$id, {
+					parsedFirstName: firstName,
+				});
 			}
+		}
+
+		if (dryRun && !isFollowUp) {
+			// Stubbed: a dry run must not spend verifier credits
+			context.metadata = { ...context.metadata, verification: { stubbed: true } };
+		} else if (!isFollowUp) {
+			const verifierConfig = {
+				apiKey: settings.myEmailVerifierApiKey,
+				timeoutMs: settings.verifierTimeoutMs,
+				maxRetries: settings.maxRetries,
+				retryBackoffMs: settings.retryBackoffMs,
+			};
+
+			const verificationResult: VerificationResponse = preVerification
+				? { ...preVerification, rawResponse: {} as VerifierApiResponse }
+				: await verifyEmail(lead.email, verifierConfig);
+			if (!preVerification) {
+				context.verifierResponse = verificationResult.rawResponse as unknown as Record<
+					string,
+					unknown
+				>;
+			}
+
+			// Update metadata with verification context
+			context.metadata = {
+				...context.metadata,
+				verification: {
+					status: verificationResult.status,
+					diagnosis: verificationResult.diagnosis,
+					isValid: verificationResult.isValid,
+					isGreylisted: verificationResult.isGreylisted,
+					preVerified: !!preVerification,
+				}
+			};
+
+			// Increment verifier credits used (pre-verification counts its own)
+			if (!preVerification) {
+				await incrementGlobalMetrics(appwriteClient, { verifierCreditsUsed: 1 });
+				await incrementCampaignMetrics(appwriteClient, campaign.$id, { verifierCreditsUsed: 1 });
+			}
+
+			// Handle verification result
+			if (!verificationResult.isValid) {
+				// Check for GREYLISTED (retry later)
+				if (verificationResult.isGreylisted) {
+					const retryAfterHours = verificationResult.retryAfterHours || 6;
+					const nextAttemptAt = await scheduleLeadRetry(
+						appwriteClient,
+						lead,
+						settings,
+						`Greylisted - retry after ${retryAfterHours} hours. ${verificationResult.diagnosis}`,
+						retryAfterHours * 60 * 60 * 1000,
+						{
+							verificationResult: verificationResult.status,
+							verificationTimestamp: new Date().toISOString(),
+						}
+					);
+
+					if (nextAttemptAt) {
+						await logWarn(
+							appwriteClient,
+							EventType.LEAD_RETRY_SCHEDULED,
+							`Domain greylisted for ${lead.email}, retrying at ${nextAttemptAt.toISOString()}`,
+							{
+								...context,
+								processingTimeMs: Date.now() - startTime,
+							}
+						);
+
+						return {
+							success: false,
+							leadId: lead.$id,
+							status: LeadStatus.RETRYING,
+							error: 'Greylisted - retry scheduled',
+							processingTimeMs: Date.now() - startTime,
+						};
+					}
 
-			// Check if it's a RISKY (catch-all) email
-			if (verificationResult.status === VerificationResult.CATCH_ALL) {
-				if (campaign.allowCatchAll) {
-					// Proceed with risky email
-					// We'll log this as part of the final wide event, but maybe keep a WARN if it's significant?
-					// The guidelines say "Emit one comprehensive event at the end of each operation".
-					// So let's just make sure it's in the metadata.
-				} else {
-					// Skip risky email
 					await updateLead(appwriteClient, lead.$id, {
 						status: LeadStatus.RISKY,
 						verificationResult: verificationResult.status,
 						verificationTimestamp: new Date().toISOString(),
+						errorMessage: `Greylisted - retry after ${verificationResult.retryAfterHours || 6} hours. ${verificationResult.diagnosis}`,
 					});
 
 					await incrementCampaignCounter(appwriteClient, campaign.$id, 'skippedCount');
@@ -169,8 +302,8 @@ export async function processLead(lead: Lead, config: ProcessConfig): Promise<Pr
 
 					await logWarn(
 						appwriteClient,
-						EventType.VERIFICATION_FAILED,
-						`Catch-all domain detected for ${lead.email}, skipped`,
+						EventType.VERIFICATION_RISKY,
+						`Domain greylisted for ${lead.email}, retry after ${verificationResult.retryAfterHours || 6} hours`,
 						{
 							...context,
 							processingTimeMs: Date.now() - startTime,
@@ -181,101 +314,246 @@ export async function processLead(lead: Lead, config: ProcessConfig): Promise<Pr
 						success: false,
 						leadId: lead.$id,
 						status: LeadStatus.RISKY,
-						error: 'Catch-all domain - skipped',
+						error: `Greylisted - retry later`,
 						processingTimeMs: Date.now() - startTime,
 					};
 				}
-			} else {
-				// Invalid email
-				await updateLead(appwriteClient, lead.$id, {
-					status: LeadStatus.INVALID,
-					verificationResult: verificationResult.status,
-					verificationTimestamp: new Date().toISOString(),
-					errorMessage: verificationResult.errorMessage || verificationResult.diagnosis,
-				});
-
-				await incrementCampaignCounter(appwriteClient, campaign.$id, 'skippedCount');
-				await incrementGlobalMetrics(appwriteClient, { totalVerificationFailed: 1 });
 
-				await logWarn(
-					appwriteClient,
-					EventType.VERIFICATION_FAILED,
-					`Email ${lead.email} failed verification: ${verificationResult.status}`,
-					{
-						...context,
-						processingTimeMs: Date.now() - startTime,
+				// Check if it's a RISKY (catch-all) email
+				if (verificationResult.status === VerificationResult.CATCH_ALL) {
+					if (campaign.allowCatchAll) {
+						// Proceed with risky email
+						// We'll log this as part of the final wide event, but maybe keep a WARN if it's significant?
+						// The guidelines say "Emit one comprehensive event at the end of each operation".
+						// So let's just make sure it's in the metadata.
+					} else {
+						// Skip risky email
+						await updateLead(appwriteClient, lead.$id, {
+							status: LeadStatus.RISKY,
+							verificationResult: verificationResult.status,
+							verificationTimestamp: new Date().toISOString(),
+						});
+
+						await incrementCampaignCounter(appwriteClient, campaign.$id, 'skippedCount');
+						await incrementGlobalMetrics(appwriteClient, { totalVerificationFailed: 1 });
+
+						await logWarn(
+							appwriteClient,
+							EventType.VERIFICATION_FAILED,
+							`Catch-all domain detected for ${lead.email}, skipped`,
+							{
+								...context,
+								processingTimeMs: Date.now() - startTime,
+							}
+						);
+
+						return {
+							success: false,
+							leadId: lead.$id,
+							status: LeadStatus.RISKY,
+							error: 'Catch-all domain - skipped',
+							processingTimeMs: Date.now() - startTime,
+						};
 					}
-				);
+				} else {
+					// Invalid email
+					await updateLead(appwriteClient, lead.$id, {
+						status: LeadStatus.INVALID,
+						verificationResult: verificationResult.status,
+						verificationTimestamp: new Date().toISOString(),
+						errorMessage: verificationResult.errorMessage || verificationResult.diagnosis,
+					});
 
-				return {
-					success: false,
-					leadId: lead.$id,
-					status: LeadStatus.INVALID,
-					error: `Verification failed: ${verificationResult.status}`,
-					processingTimeMs: Date.now() - startTime,
-				};
+					await incrementCampaignCounter(appwriteClient, campaign.$id, 'skippedCount');
+					await incrementGlobalMetrics(appwriteClient, { totalVerificationFailed: 1 });
+
+					await logWarn(
+						appwriteClient,
+						EventType.VERIFICATION_FAILED,
+						`Email ${lead.email} failed verification: ${verificationResult.status}`,
+						{
+							...context,
+							processingTimeMs: Date.now() - startTime,
+						}
+					);
+
+					return {
+						success: false,
+						leadId: lead.$id,
+						status: LeadStatus.INVALID,
+						error: `Verification failed: ${verificationResult.status}`,
+						processingTimeMs: Date.now() - startTime,
+					};
+				}
 			}
-		}
 
-		await updateLead(appwriteClient, lead.$id, {
-			status: LeadStatus.VERIFIED,
-			verificationResult: verificationResult.status,
-			verificationTimestamp: new Date().toISOString(),
-		});
+			await updateLead(appwriteClient, lead.$id, {
+				status: LeadStatus.VERIFIED,
+				verificationResult: verificationResult.status,
+				verificationTimestamp: new Date().toISOString(),
+			});
 
-		await incrementGlobalMetrics(appwriteClient, { totalVerificationPassed: 1 });
+			await incrementGlobalMetrics(appwriteClient, { totalVerificationPassed: 1 });
+		}
 
 		const unsubscribeLink = generateUnsubscribeLink(
-			config.appwriteEndpoint,
-			config.unsubscribeFunctionId,
+			config.unsubscribeUrl,
 			lead.$id,
 			settings.unsubscribeTokenSecret
 		);
 
 		// Refresh lead with parsed name
-		const updatedLead = await getLeadById(appwriteClient, lead.$id);
+		const updatedLead = dryRun
+			? { ...lead, parsedFirstName: firstName }
+			: await getLeadById(appwriteClient, lead.$id);
 		if (!updatedLead) throw new Error('Lead not found after update');
 
 		const templateVars = buildTemplateVariables(updatedLead, unsubscribeLink);
 		const varMap = templateVariablesToMap(templateVars);
 
-		const resolvedSubject = injectVariables(resolveSpintax(campaign.subjectTemplate), varMap);
-		const resolvedBody = injectVariables(resolveSpintax(campaign.bodyTemplate), varMap);
+		const sender = await selectSender(
+			appwriteClient,
+			campaign,
+			updatedLead,
+			new Date(),
+			dryRun?.pendingSends
+		);
+		if (!sender) throw new Error('No sender identity is under its daily or warm-up cap');
+		context.metadata = { ...context.metadata, senderEmail: sender.email };
+
+		// Initial emails may be an A/B variant; follow-ups are shared by all variants
+		const variant = isFollowUp ? null : assignVariant(campaign);
+		if (variant) context.metadata = { ...context.metadata, variantId: variant.id };
+
+		// Variants only change the wording; the step's attachments go with all of them
+		const step = resolveStepTemplates(campaign, stepIndex);
+		const templates = variant ?? step;
+		const resolvedSubject = injectVariables(resolveSpintax(templates.subjectTemplate), varMap);
+		let resolvedBody = injectVariables(resolveSpintax(templates.bodyTemplate), varMap);
+		if (sender.signature) {
+			resolvedBody += `\n\n${injectVariables(resolveSpintax(sender.signature), varMap)}`;
+		}
 
 		context.resolvedSubject = resolvedSubject;
 		context.resolvedBody = resolvedBody;
 		context.templateVariables = templateVars;
 
+		// Sent as multipart/alternative: sanitized HTML plus its plain-text rendering
+		const body = renderEmailBody(resolvedBody, campaign.bodyFormat);
+		// Loaded in dry runs too, so a missing or oversized file shows up before the real run
+		const attachments = await loadAttachments(appwriteClient, step.attachments);
+		const invalidSendOptions = validateSendOptions(campaign);
+		if (invalidSendOptions) throw new Error(invalidSendOptions);
+
+		if (dryRun) {
+			const outboxEmail = await createOutboxEmail(appwriteClient, {
+				dryRunId: dryRun.dryRunId,
+				campaignId: campaign.$id,
+				leadId: lead.$id,
+				toEmail: lead.email,
+				fromEmail: sender.email,
+				fromName: sender.name,
+				subject: resolvedSubject,
+				bodyHtml: body.html,
+				bodyText: body.text,
+				sequenceStep: stepIndex,
+				variantId: variant?.id ?? null,
+				simulatedDelayMs: dryRun.simulatedDelayMs,
+			});
+
+			const senderKey = sender.email.toLowerCase();
+			dryRun.pendingSends.set(senderKey, (dryRun.pendingSends.get(senderKey) ?? 0) + 1);
+
+			return {
+				success: true,
+				leadId: lead.$id,
+				status: LeadStatus.SENT,
+				messageId: outboxEmail.$id,
+				processingTimeMs: Date.now() - startTime,
+			};
+		}
+
 		await updateLead(appwriteClient, lead.$id, {
 			status: LeadStatus.SENDING,
 		});
 
-		const sesConfig = {
-			region: settings.awsSesRegion,
-			accessKeyId: settings.awsSesAccessKeyId,
-			secretAccessKey: settings.awsSesSecretAccessKey,
-			timeoutMs: settings.sesTimeoutMs,
-			maxRetries: settings.maxRetries,
-			retryBackoffMs: settings.retryBackoffMs,
-		};
+		// Intent before the call, outcome right after it
+		const idempotencyKey = randomUUID();
+		await createJournalEntry(appwriteClient, {
+			idempotencyKey,
+			leadId: lead.$id,
+			campaignId: campaign.$id,
+			sequenceStep: stepIndex,
+			recipientEmail: lead.email,
+			senderEmail: sender.email,
+			variantId: variant?.id ?? null,
+		});
+		context.metadata = { ...context.metadata, idempotencyKey };
+
+		const transport = createMailTransport(settings);
+		context.metadata = { ...context.metadata, transport: transport.name };
+
+		const sendResult = await transport.send({
+			to: lead.email,
+			from: sender.email,
+			fromName: sender.name,
+			subject: resolvedSubject,
+			bodyText: body.text,
+			bodyHtml: body.html,
+			campaignId: campaign.$id,
+			leadId: lead.$id,
+			variantId: variant?.id,
+			idempotencyKey,
+			listUnsubscribeUrl: unsubscribeLink,
+			attachments,
+			replyTo: campaign.replyTo || undefined,
+			headers: campaign.customHeaders,
+			configurationSetName: campaign.sesConfigurationSet || undefined,
+			tags: resolveEmailTags(campaign.emailTags ?? {}, varMap),
+		});
+		sent = sendResult.success;
 
-		const sendResult = await sendEmail(
-			{
-				to: lead.email,
-				from: campaign.senderEmail,
-				fromName: campaign.senderName,
-				subject: resolvedSubject,
-				bodyText: resolvedBody.replace(/<[^>]*>/g, ''), // Strip HTML for text version
-				bodyHtml: resolvedBody,
-				campaignId: campaign.$id,
-				leadId: lead.$id,
-			},
-			sesConfig
+		await completeJournalEntry(
+			appwriteClient,
+			idempotencyKey,
+			sendResult.success
+				? { status: SendJournalStatus.SENT, sesMessageId: sendResult.messageId ?? null }
+				: { status: SendJournalStatus.FAILED, errorMessage: sendResult.errorMessage ?? null }
 		);
 
 		context.sesResponse = sendResult.rawResponse as unknown as Record<string, unknown>;
 
 		if (!sendResult.success) {
+			// Transient transport failure: try again later
+			const nextAttemptAt = sendResult.isRetryable
+				? await scheduleLeadRetry(
+						appwriteClient,
+						lead,
+						settings,
+						sendResult.errorMessage ?? 'Transient send failure'
+					)
+				: null;
+
+			if (nextAttemptAt) {
+				await logWarn(
+					appwriteClient,
+					EventType.LEAD_RETRY_SCHEDULED,
+					`Failed to send email to ${lead.email}, retrying at ${nextAttemptAt.toISOString()}: ${sendResult.errorMessage}`,
+					{
+						...context,
+						processingTimeMs: Date.now() - startTime,
+					}
+				);
+
+				return {
+					success: false,
+					leadId: lead.$id,
+					status: LeadStatus.RETRYING,
+					error: sendResult.errorMessage,
+					processingTimeMs: Date.now() - startTime,
+				};
+			}
+
 			// Send failed
 			await updateLead(appwriteClient, lead.$id, {
 				status: LeadStatus.ERROR,
@@ -305,16 +583,14 @@ export async function processLead(lead: Lead, config: ProcessConfig): Promise<Pr
 			};
 		}
 
-		await updateLead(appwriteClient, lead.$id, {
-			status: LeadStatus.SENT,
-			sesMessageId: sendResult.messageId,
-			processedAt: new Date().toISOString(),
+		await recordSentLead(appwriteClient, campaign, lead, {
+			messageId: sendResult.messageId ?? '',
+			stepIndex,
+			senderEmail: sender.email,
+			variantId: variant?.id ?? null,
+			sentAt: new Date(),
 		});
 
-		await incrementCampaignCounter(appwriteClient, campaign.$id, 'processedCount');
-		await incrementGlobalMetrics(appwriteClient, { totalEmailsSent: 1 });
-		await incrementCampaignMetrics(appwriteClient, campaign.$id, { totalEmailsSent: 1 });
-
 		// Final Wide Event for Success
 		await logInfo(appwriteClient, EventType.EMAIL_SENT, `Email sent to ${lead.email}`, {
 			...context,
@@ -331,6 +607,42 @@ export async function processLead(lead: Lead, config: ProcessConfig): Promise<Pr
 	} catch (error) {
 		const errorMessage = error instanceof Error ? error.message : String(error);
 
+		if (dryRun) {
+			return {
+				success: false,
+				leadId: lead.$id,
+				status: LeadStatus.ERROR,
+				error: errorMessage,
+				processingTimeMs: Date.now() - startTime,
+			};
+		}
+
+		// The email went out, so the lead must not be failed (and sent again).
+		// It stays in SENDING with its journal entry for recoverStuckLeads to
+		// mark SENT, unless it was already marked before the error.
+		if (sent) {
+			await logWarn(
+				appwriteClient,
+				EventType.SYSTEM_ERROR,
+				`Email to ${lead.email} was sent but not fully recorded: ${errorMessage}`,
+				{
+					...context,
+					processingTimeMs: Date.now() - startTime,
+					errorDetails: {
+						message: errorMessage,
+						stack: error instanceof Error ? error.stack : undefined,
+					},
+				}
+			);
+
+			return {
+				success: true,
+				leadId: lead.$id,
+				status: LeadStatus.SENDING,
+				processingTimeMs: Date.now() - startTime,
+			};
+		}
+
 		await updateLead(appwriteClient, lead.$id, {
 			status: LeadStatus.ERROR,
 			errorMessage,
@@ -363,3 +675,49 @@ export async function processLead(lead: Lead, config: ProcessConfig): Promise<Pr
 		};
 	}
 }
+
+/**
+ * Mark a lead SENT and count the send.
+ *
+ * Also used by send-recovery to finish a send that SES accepted just
+ * before a crash. The email has gone out by now, so a counter or metric
+ * update that fails is logged instead of failing the lead.
+ */
+export async function recordSentLead(
+	client: Client,
+	campaign: Campaign,
+	lead: Lead,
+	send: AcceptedSend
+): Promise<void> {
+	const { messageId, stepIndex, senderEmail, variantId, sentAt } = send;
+
+	await updateLead(client, lead.$id, {
+		status: LeadStatus.SENT,
+		sesMessageId: messageId,
+		processedAt: sentAt.toISOString(),
+		lastContactedAt: sentAt.toISOString(),
+		sequenceStep: stepIndex,
+		nextStepDueAt: calculateNextStepDueAt(campaign, stepIndex, sentAt),
+		senderEmail,
+		...(variantId && { variantId }),
+		...(lead.attemptCount && { attemptCount: null }),
+	});
+
+	try {
+		await incrementCampaignCounter(client, campaign.$id, 'processedCount');
+		await incrementGlobalMetrics(client, { totalEmailsSent: 1 });
+		await incrementCampaignMetrics(client, campaign.$id, { totalEmailsSent: 1 });
+		await recordSend(client, campaign.$id, sentAt, senderEmail, lead.email);
+		if (variantId) {
+			await incrementVariantStats(client, campaign.$id, variantId, { sent: 1 });
+		}
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		await logWarn(
+			client,
+			EventType.SYSTEM_ERROR,
+			`Email to ${lead.email} was sent but not fully counted: ${errorMessage}`,
+			{ leadId: lead.$id, campaignId: campaign.$id, errorDetails: { message: errorMessage } }
+		);
+	}
+}
@@ -0,0 +1,63 @@
+/**
+ * Attachment Limits
+ *
+ * Size rules for files attached to campaign emails. SES rejects messages
+ * over 10MB, counted after base64 encoding, so attachments are checked
+ * by their encoded size with room left for the headers and body parts.
+ * Used by the dashboard when files are picked and by the orchestrator
+ * before a campaign sends.
+ */
+
+import type { EmailAttachment } from "../types/campaign.types";
+
+/** Most files one campaign or step may attach */
+export const MAX_ATTACHMENTS = 10;
+
+/** Largest single file, before encoding */
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+/** SES limit for a whole message, after encoding */
+export const SES_MAX_MESSAGE_BYTES = 10 * 1024 * 1024;
+
+/** Room kept for headers, the text and HTML parts and MIME boundaries */
+export const MESSAGE_OVERHEAD_BYTES = 512 * 1024;
+
+/**
+ * Size of a file once base64-encoded in 76-character CRLF lines
+ */
+export function encodedSize(sizeBytes: number): number {
+    const base64 = Math.ceil(sizeBytes / 3) * 4;
+    return base64 + Math.ceil(base64 / 76) * 2;
+}
+
+/**
+ * Check a set of attachments against the count, file and message limits.
+ *
+ * @returns Reason the set is rejected, or null if it fits
+ */
+export function validateAttachments(attachments: EmailAttachment[]): string | null {
+    if (attachments.length > MAX_ATTACHMENTS) {
+        return `At most ${MAX_ATTACHMENTS} attachments are allowed`;
+    }
+
+    const tooLarge = attachments.find((file) => file.sizeBytes > MAX_ATTACHMENT_BYTES);
+    if (tooLarge) {
+        return `${tooLarge.name} is over the ${formatBytes(MAX_ATTACHMENT_BYTES)} file limit`;
+    }
+
+    const total = attachments.reduce((sum, file) => sum + encodedSize(file.sizeBytes), 0);
+    if (total > SES_MAX_MESSAGE_BYTES - MESSAGE_OVERHEAD_BYTES) {
+        return `Attachments come to ${formatBytes(total)} encoded; SES allows ${formatBytes(SES_MAX_MESSAGE_BYTES)} per email`;
+    }
+
+    return null;
+}
+
+/**
+ * Human-readable size (e.g., "1.5 MB")
+ */
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
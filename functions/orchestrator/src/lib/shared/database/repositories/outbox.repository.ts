@@ -0,0 +1,31 @@
+/**
+ * Outbox Repository
+ *
+ * Data access layer for emails rendered by campaign dry runs.
+ */
+
+import type { Client, Models } from 'node-appwrite';
+import { Databases, ID } from 'node-appwrite';
+import { CollectionId, DATABASE_ID } from '../../constants/collection.constants';
+import type { OutboxEmail, OutboxEmailCreateInput } from '../../types/outbox.types';
+
+/**
+ * Convert Appwrite document to OutboxEmail type
+ */
+function documentToOutboxEmail(doc: Models.Document): OutboxEmail {
+    return doc as unknown as OutboxEmail;
+}
+
+/**
+ * Store a rendered dry-run email
+ */
+export async function createOutboxEmail(
+    client: Client,
+    data: OutboxEmailCreateInput
+): Promise<OutboxEmail> {
+    const databases = new Databases(client);
+
+    const doc = await databases.createDocument(DATABASE_ID, CollectionId.OUTBOX, ID.unique(), data);
+
+    return documentToOutboxEmail(doc);
+}
@@ -0,0 +1,367 @@
+/**
+ * Send Counter Repository
+ *
+ * Hourly and daily send counts (UTC buckets), globally, per campaign and
+ * per recipient domain, plus daily counts per sender mailbox and sender
+ * domain. Counters are updated synchronously by the orchestrator after
+ * each send.
+ */
+
+import { createHash } from 'node:crypto';
+import type { Client, Models } from 'node-appwrite';
+import { AppwriteException, Databases, Query } from 'node-appwrite';
+import { CollectionId, DATABASE_ID } from '../../constants/collection.constants';
+import {
+    SendCounterPeriod,
+    type SendCounterPeriodType,
+    SendCounterScope,
+    type SendCounterScopeType,
+} from '../../constants/status.constants';
+import type { SendCounter } from '../../types/send-counter.types';
+
+/**
+ * Convert Appwrite document to SendCounter type
+ */
+function documentToSendCounter(doc: Models.Document): SendCounter {
+    return doc as unknown as SendCounter;
+}
+
+/**
+ * Start of the UTC bucket containing `at`
+ */
+export function getBucketStart(period: SendCounterPeriodType, at: Date = new Date()): Date {
+    const start = new Date(at);
+    start.setUTCMinutes(0, 0, 0);
+    if (period === SendCounterPeriod.DAY) start.setUTCHours(0);
+    return start;
+}
+
+/**
+ * Start of the bucket after the one containing `at`
+ */
+export function getNextBucketStart(period: SendCounterPeriodType, at: Date = new Date()): Date {
+    const start = getBucketStart(period, at);
+    const lengthMs = period === SendCounterPeriod.DAY ? 24 * 60 * 60 * 1000 : 60 * 60 * 1000;
+    return new Date(start.getTime() + lengthMs);
+}
+
+/**
+ * Counter owner: the global account, a campaign, a sender mailbox or
+ * domain, or a recipient domain
+ */
+interface CounterScope {
+    scope: SendCounterScopeType;
+    /** Campaign ID or sender key; null for GLOBAL */
+    scopeId: string | null;
+}
+
+function campaignScope(campaignId: string | null): CounterScope {
+    return campaignId
+        ? { scope: SendCounterScope.CAMPAIGN, scopeId: campaignId }
+        : { scope: SendCounterScope.GLOBAL, scopeId: null };
+}
+
+type HashedScopeType =
+    | typeof SendCounterScope.SENDER
+    | typeof SendCounterScope.DOMAIN
+    | typeof SendCounterScope.RECIPIENT_DOMAIN;
+
+/**
+ * Scope ID prefixes, kept short so counter IDs stay within 36 characters
+ */
+const HASHED_SCOPE_PREFIX: Record<HashedScopeType, string> = {
+    SENDER: 'sender',
+    DOMAIN: 'domain',
+    RECIPIENT_DOMAIN: 'rcpt',
+};
+
+/**
+ * Scope keyed by a short hash, since emails and domains don't fit document ID rules
+ */
+function hashedScope(scope: HashedScopeType, value: string): CounterScope {
+    const hash = createHash('sha256').update(value.trim().toLowerCase()).digest('hex');
+    return { scope, scopeId: `${HASHED_SCOPE_PREFIX[scope]}-${hash.slice(0, 16)}` };
+}
+
+function senderScope(senderEmail: string): CounterScope {
+    return hashedScope(SendCounterScope.SENDER, senderEmail);
+}
+
+function domainScope(domain: string): CounterScope {
+    return hashedScope(SendCounterScope.DOMAIN, domain);
+}
+
+function recipientDomainScope(domain: string): CounterScope {
+    return hashedScope(SendCounterScope.RECIPIENT_DOMAIN, domain);
+}
+
+/**
+ * The recipient's domain and its parent domains (mail.tcs.com, tcs.com),
+ * so a rule for tcs.com counts sends to its subdomains too
+ */
+function recipientDomainScopes(recipientEmail: string): CounterScope[] {
+    const labels = (recipientEmail.split('@').pop() ?? recipientEmail).toLowerCase().split('.');
+    const scopes: CounterScope[] = [];
+    for (let i = 0; i < Math.max(1, labels.length - 1); i++) {
+        scopes.push(recipientDomainScope(labels.slice(i).join('.')));
+    }
+    return scopes;
+}
+
+/**
+ * Deterministic counter document ID, e.g. "global_h_2026101912"
+ */
+function getCounterId(
+    { scopeId }: CounterScope,
+    period: SendCounterPeriodType,
+    bucketStart: Date
+): string {
+    const stamp = bucketStart.toISOString().slice(0, 13).replace(/[-T]/g, '');
+    const bucket = period === SendCounterPeriod.DAY ? stamp.slice(0, 8) : stamp;
+    const prefix = period === SendCounterPeriod.DAY ? 'd' : 'h';
+    return `${scopeId ?? 'global'}_${prefix}_${bucket}`;
+}
+
+async function getCount(
+    client: Client,
+    counterScope: CounterScope,
+    period: SendCounterPeriodType,
+    at: Date
+): Promise<number> {
+    const databases = new Databases(client);
+    const counterId = getCounterId(counterScope, period, getBucketStart(period, at));
+
+    try {
+        const doc = await databases.getDocument(DATABASE_ID, CollectionId.SEND_COUNTERS, counterId);
+        return documentToSendCounter(doc).count;
+    } catch {
+        return 0;
+    }
+}
+
+/**
+ * Get the send count for the bucket containing `at`
+ *
+ * @param campaignId - Campaign scope, or null for the global counter
+ */
+export async function getSendCount(
+    client: Client,
+    campaignId: string | null,
+    period: SendCounterPeriodType,
+    at: Date = new Date()
+): Promise<number> {
+    return getCount(client, campaignScope(campaignId), period, at);
+}
+
+/**
+ * Get a sender mailbox's send count for the UTC day containing `at`
+ */
+export async function getSenderDailySendCount(
+    client: Client,
+    senderEmail: string,
+    at: Date = new Date()
+): Promise<number> {
+    return getCount(client, senderScope(senderEmail), SendCounterPeriod.DAY, at);
+}
+
+/**
+ * Get a sender domain's send count for the UTC day containing `at`
+ */
+export async function getDomainDailySendCount(
+    client: Client,
+    domain: string,
+    at: Date = new Date()
+): Promise<number> {
+    return getCount(client, domainScope(domain), SendCounterPeriod.DAY, at);
+}
+
+/**
+ * Get a recipient domain's send count for the bucket containing `at`,
+ * sends to its subdomains included
+ */
+export async function getRecipientDomainSendCount(
+    client: Client,
+    domain: string,
+    period: SendCounterPeriodType,
+    at: Date = new Date()
+): Promise<number> {
+    return getCount(client, recipientDomainScope(domain), period, at);
+}
+
+/**
+ * Count global sends in hourly buckets starting at or after `since`
+ */
+export async function countGlobalSendsSince(client: Client, since: Date): Promise<number> {
+    const databases = new Databases(client);
+
+    const result = await databases.listDocuments(DATABASE_ID, CollectionId.SEND_COUNTERS, [
+        Query.equal('scope', SendCounterScope.GLOBAL),
+        Query.equal('period', SendCounterPeriod.HOUR),
+        Query.greaterThanEqual(
+            'bucketStart',
+            getBucketStart(SendCounterPeriod.HOUR, since).toISOString()
+        ),
+        Query.limit(48),
+    ]);
+
+    return result.documents.map(documentToSendCounter).reduce((sum, c) => sum + c.count, 0);
+}
+
+/**
+ * Locks collection document guarding counter updates, so concurrent sends
+ * don't overwrite each other's read-modify-write (same scheme as the send
+ * arbiter's mutex)
+ */
+const LOCKS_COLLECTION_ID = 'locks';
+const COUNTER_MUTEX_ID = 'send-counter-mutex';
+
+/** Mutex is only held for one send's counter updates; anything older is abandoned */
+const COUNTER_MUTEX_TTL_MS = 10000;
+
+/** Longest wait for the mutex before the update fails */
+const COUNTER_MUTEX_WAIT_MS = 15000;
+
+/** Base backoff when another send holds the mutex */
+const COUNTER_MUTEX_RETRY_MS = 100;
+
+/** Attempts at a counter update that keeps hitting write conflicts */
+const MAX_INCREMENT_ATTEMPTS = 3;
+
+function hasErrorCode(error: unknown, code: number): boolean {
+    return error instanceof AppwriteException && error.code === code;
+}
+
+/**
+ * Increment a single counter bucket (creates if not exists)
+ * Note: This performs a read-modify-write since Appwrite doesn't support
+ * atomic increments; callers hold the counter mutex
+ */
+async function incrementCounter(
+    databases: Databases,
+    counterScope: CounterScope,
+    period: SendCounterPeriodType,
+    at: Date
+): Promise<void> {
+    const bucketStart = getBucketStart(period, at);
+    const counterId = getCounterId(counterScope, period, bucketStart);
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            let doc: Models.Document | null = null;
+            try {
+                doc = await databases.getDocument(DATABASE_ID, CollectionId.SEND_COUNTERS, counterId);
+            } catch (error) {
+                if (!hasErrorCode(error, 404)) throw error;
+            }
+
+            if (doc) {
+                await databases.updateDocument(DATABASE_ID, CollectionId.SEND_COUNTERS, counterId, {
+                    count: documentToSendCounter(doc).count + 1,
+                });
+            } else {
+                await databases.createDocument(DATABASE_ID, CollectionId.SEND_COUNTERS, counterId, {
+                    ...counterScope,
+                    period,
+                    bucketStart: bucketStart.toISOString(),
+                    count: 1,
+                });
+            }
+            return;
+        } catch (error) {
+            // Created or updated by a writer that skipped the mutex: read it again
+            if (!hasErrorCode(error, 409) || attempt >= MAX_INCREMENT_ATTEMPTS) throw error;
+        }
+    }
+}
+
+/**
+ * Take the counter mutex, clearing it if its holder died mid-update.
+ *
+ * @returns false if it is still held by another send after `COUNTER_MUTEX_WAIT_MS`
+ */
+async function acquireCounterMutex(databases: Databases, campaignId: string): Promise<boolean> {
+    const deadline = Date.now() + COUNTER_MUTEX_WAIT_MS;
+
+    while (true) {
+        const now = new Date();
+        try {
+            await databases.createDocument(DATABASE_ID, LOCKS_COLLECTION_ID, COUNTER_MUTEX_ID, {
+                campaignId: COUNTER_MUTEX_ID,
+                instanceId: campaignId,
+                acquiredAt: now.toISOString(),
+                expiresAt: new Date(now.getTime() + COUNTER_MUTEX_TTL_MS).toISOString(),
+            });
+            return true;
+        } catch (error) {
+            if (!hasErrorCode(error, 409)) throw error;
+        }
+
+        try {
+            const mutex = await databases.getDocument(
+                DATABASE_ID,
+                LOCKS_COLLECTION_ID,
+                COUNTER_MUTEX_ID
+            );
+            if (now > new Date(mutex.expiresAt)) {
+                await databases.deleteDocument(DATABASE_ID, LOCKS_COLLECTION_ID, COUNTER_MUTEX_ID);
+                continue;
+            }
+        } catch {
+            // Released between our create and read; tried again after the backoff
+        }
+
+        if (Date.now() >= deadline) return false;
+        await new Promise((resolve) =>
+            setTimeout(resolve, COUNTER_MUTEX_RETRY_MS + Math.random() * COUNTER_MUTEX_RETRY_MS)
+        );
+    }
+}
+
+async function releaseCounterMutex(databases: Databases): Promise<void> {
+    try {
+        await databases.deleteDocument(DATABASE_ID, LOCKS_COLLECTION_ID, COUNTER_MUTEX_ID);
+    } catch {
+        // Already cleared as stale
+    }
+}
+
+/**
+ * Record one send against the global, campaign and recipient domain
+ * hour/day buckets, and the sender mailbox and domain day buckets
+ *
+ * @throws If the counters can't be updated; the send itself has happened,
+ *         so callers log this rather than failing the lead
+ */
+export async function recordSend(
+    client: Client,
+    campaignId: string,
+    at: Date = new Date(),
+    senderEmail?: string,
+    recipientEmail?: string
+): Promise<void> {
+    const databases = new Databases(client);
+
+    const counterScopes = [campaignScope(null), campaignScope(campaignId)];
+    if (recipientEmail) {
+        counterScopes.push(...recipientDomainScopes(recipientEmail));
+    }
+
+    if (!(await acquireCounterMutex(databases, campaignId))) {
+        throw new Error('Send counters are busy; this send was not counted');
+    }
+
+    try {
+        for (const counterScope of counterScopes) {
+            await incrementCounter(databases, counterScope, SendCounterPeriod.HOUR, at);
+            await incrementCounter(databases, counterScope, SendCounterPeriod.DAY, at);
+        }
+
+        if (senderEmail) {
+            const domain = senderEmail.split('@').pop() ?? senderEmail;
+            await incrementCounter(databases, senderScope(senderEmail), SendCounterPeriod.DAY, at);
+            await incrementCounter(databases, domainScope(domain), SendCounterPeriod.DAY, at);
+        }
+    } finally {
+        await releaseCounterMutex(databases);
+    }
+}
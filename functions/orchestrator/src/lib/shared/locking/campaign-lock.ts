@@ -143,6 +143,20 @@ export async function releaseCampaignLock(client: Client, lockId: string): Promi
     }
 }
 
+/**
+ * Check whether any instance currently holds an unexpired lock on a campaign.
+ */
+export async function isCampaignLocked(client: Client, campaignId: string): Promise<boolean> {
+    const databases = new Databases(client);
+
+    const existingLocks = await databases.listDocuments(DATABASE_ID, LOCKS_COLLECTION_ID, [
+        Query.equal('campaignId', campaignId),
+        Query.greaterThan('expiresAt', new Date().toISOString()),
+    ]);
+
+    return existingLocks.documents.length > 0;
+}
+
 /**
  * Clean up all stale locks (for recovery on system startup).
  */
@@ -0,0 +1,190 @@
+/**
+ * Send Arbiter
+ *
+ * Interleaves sends from concurrently running campaigns so the global
+ * pacing rules (Gaussian delay between sends, SES max send rate) hold
+ * across the whole account rather than per campaign.
+ *
+ * Built on the same locks collection as campaign-lock.ts:
+ * - `send-arbiter` document: `expiresAt` is when the next send slot opens,
+ *   `instanceId` is the campaign that was granted the previous slot
+ * - `send-arbiter-mutex` document: short-lived mutex guarding updates to
+ *   the arbiter document (fixed ID, so only one creator can win)
+ */
+
+import type { Client } from 'node-appwrite';
+import { Databases } from 'node-appwrite';
+import { DATABASE_ID } from '../constants/collection.constants';
+import { LockError } from '../errors/base-error';
+
+const LOCKS_COLLECTION_ID = 'locks';
+
+const ARBITER_DOCUMENT_ID = 'send-arbiter';
+const MUTEX_DOCUMENT_ID = 'send-arbiter-mutex';
+
+/** Mutex is only held for a read + write; anything older is abandoned */
+const MUTEX_TTL_MS = 10000;
+
+/** Base backoff when another campaign holds the mutex */
+const MUTEX_RETRY_MS = 250;
+
+/**
+ * Extra wait applied to the campaign that was granted the previous slot,
+ * so other waiting campaigns get the next one (round-robin interleaving).
+ */
+const YIELD_MS = 1000;
+
+/**
+ * Arbiter document structure (locks collection)
+ */
+interface ArbiterDocument {
+    $id: string;
+    campaignId: string;
+    instanceId: string;
+    acquiredAt: string;
+    expiresAt: string;
+}
+
+/**
+ * Granted send slot
+ */
+export interface SendSlot {
+    grantedAt: Date;
+    waitedMs: number;
+}
+
+/**
+ * Wait for the next global send slot and reserve it.
+ *
+ * @param gapMs - Minimum time before any campaign may send after this slot
+ * @param maxWaitMs - Longest the caller can wait (e.g., what is left of its
+ *                    execution slice)
+ * @returns null if no slot opens within `maxWaitMs`; nothing is reserved
+ */
+export async function acquireSendSlot(
+    client: Client,
+    campaignId: string,
+    gapMs: number,
+    maxWaitMs: number = Number.POSITIVE_INFINITY
+): Promise<SendSlot | null> {
+    const databases = new Databases(client);
+    const startedAt = Date.now();
+    const deadline = startedAt + maxWaitMs;
+
+    while (true) {
+        if (!(await acquireMutex(databases, campaignId))) {
+            if (Date.now() + MUTEX_RETRY_MS > deadline) return null;
+            await sleep(MUTEX_RETRY_MS + Math.random() * MUTEX_RETRY_MS);
+            continue;
+        }
+
+        let waitMs: number;
+        try {
+            const state = await getArbiterDocument(databases);
+            const now = Date.now();
+
+            let opensAt = 0;
+            if (state) {
+                opensAt = new Date(state.expiresAt).getTime();
+                if (state.instanceId === campaignId) opensAt += YIELD_MS;
+            }
+
+            waitMs = opensAt - now;
+            if (waitMs <= 0) {
+                await writeArbiterDocument(databases, {
+                    campaignId: ARBITER_DOCUMENT_ID,
+                    instanceId: campaignId,
+                    acquiredAt: new Date(now).toISOString(),
+                    expiresAt: new Date(now + gapMs).toISOString(),
+                });
+                return { grantedAt: new Date(now), waitedMs: now - startedAt };
+            }
+        } finally {
+            await releaseMutex(databases);
+        }
+
+        // The slot opens too late; leave it to a campaign that can wait
+        if (Date.now() + waitMs > deadline) return null;
+
+        // Jitter so campaigns waiting on the same slot don't collide on the mutex
+        await sleep(waitMs + Math.random() * MUTEX_RETRY_MS);
+    }
+}
+
+/**
+ * Try to take the arbiter mutex.
+ *
+ * @returns false if another campaign currently holds it
+ */
+async function acquireMutex(databases: Databases, campaignId: string): Promise<boolean> {
+    const now = new Date();
+
+    try {
+        await databases.createDocument(DATABASE_ID, LOCKS_COLLECTION_ID, MUTEX_DOCUMENT_ID, {
+            campaignId: MUTEX_DOCUMENT_ID,
+            instanceId: campaignId,
+            acquiredAt: now.toISOString(),
+            expiresAt: new Date(now.getTime() + MUTEX_TTL_MS).toISOString(),
+        });
+        return true;
+    } catch (error) {
+        if (!(error as Error).message?.includes('already exists')) {
+            throw new LockError(`Send arbiter unavailable: ${(error as Error).message}`, {
+                campaignId,
+            });
+        }
+    }
+
+    // Held by someone else; clear it if its holder died mid-update
+    try {
+        const mutex = (await databases.getDocument(
+            DATABASE_ID,
+            LOCKS_COLLECTION_ID,
+            MUTEX_DOCUMENT_ID
+        )) as unknown as ArbiterDocument;
+        if (now > new Date(mutex.expiresAt)) {
+            await databases.deleteDocument(DATABASE_ID, LOCKS_COLLECTION_ID, MUTEX_DOCUMENT_ID);
+            console.info('Deleted stale send arbiter mutex');
+        }
+    } catch {
+        // Released between our create and read
+    }
+
+    return false;
+}
+
+async function releaseMutex(databases: Databases): Promise<void> {
+    try {
+        await databases.deleteDocument(DATABASE_ID, LOCKS_COLLECTION_ID, MUTEX_DOCUMENT_ID);
+    } catch {
+        // Already cleared as stale
+    }
+}
+
+async function getArbiterDocument(databases: Databases): Promise<ArbiterDocument | null> {
+    try {
+        return (await databases.getDocument(
+            DATABASE_ID,
+            LOCKS_COLLECTION_ID,
+            ARBITER_DOCUMENT_ID
+        )) as unknown as ArbiterDocument;
+    } catch {
+        return null;
+    }
+}
+
+async function writeArbiterDocument(
+    databases: Databases,
+    data: Omit<ArbiterDocument, '$id'>
+): Promise<void> {
+    try {
+        await databases.updateDocument(DATABASE_ID, LOCKS_COLLECTION_ID, ARBITER_DOCUMENT_ID, data);
+    } catch {
+        // First slot ever, or removed by stale lock cleanup
+        await databases.createDocument(DATABASE_ID, LOCKS_COLLECTION_ID, ARBITER_DOCUMENT_ID, data);
+    }
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,101 @@
+/**
+ * Mail Transport Messages
+ *
+ * The email handed to a mail transport and the result every transport
+ * returns, so the orchestrator can send through SES, SMTP or a local
+ * sink without knowing which.
+ */
+
+import { isReservedHeader } from '../validation/send-options';
+import type { MimeAttachment, MimeMessage } from '../mime/builder';
+
+/**
+ * Email to send
+ */
+export interface EmailMessage {
+    to: string;
+    from: string;
+    fromName: string;
+    subject: string;
+    /** Plain-text part */
+    bodyText: string;
+    /** HTML part; sent together with bodyText as multipart/alternative */
+    bodyHtml?: string;
+    campaignId: string;
+    leadId: string;
+    /** A/B variant, echoed back in SES events as the variant_id tag */
+    variantId?: string;
+    /** Send journal key, echoed back in SES events as the idempotency_key tag */
+    idempotencyKey?: string;
+    /**
+     * One-click unsubscribe URL (RFC 8058), sent as List-Unsubscribe and
+     * List-Unsubscribe-Post headers. The provider POSTs to it as is, so it
+     * must reach the function with its query and body (its domain URL).
+     */
+    listUnsubscribeUrl?: string;
+    /** Files to attach; sent as multipart/mixed */
+    attachments?: MimeAttachment[];
+    /** Address replies go to instead of `from` */
+    replyTo?: string;
+    /** Campaign's own headers; ones the sender writes itself are skipped */
+    headers?: Record<string, string>;
+    /** SES configuration set that routes the send's events (SES only) */
+    configurationSetName?: string;
+    /** Campaign's own SES tags, added to the built-in ones (SES only) */
+    tags?: Record<string, string>;
+}
+
+/**
+ * Send result
+ */
+export interface SendResult {
+    success: boolean;
+    messageId?: string;
+    errorCode?: string;
+    errorMessage?: string;
+    isRetryable: boolean;
+    /** Transport response, kept in the audit log */
+    rawResponse?: unknown;
+}
+
+/**
+ * MIME form of a message: the campaign's custom headers, Reply-To and
+ * List-Unsubscribe, then any transport-specific extra headers
+ */
+export function toMimeMessage(
+    message: EmailMessage,
+    headers: Record<string, string> = {}
+): MimeMessage {
+    return {
+        from: message.from,
+        fromName: message.fromName,
+        to: message.to,
+        subject: message.subject,
+        text: message.bodyText,
+        html: message.bodyHtml,
+        headers: {
+            ...customHeaders(message.headers),
+            ...(message.replyTo && { 'Reply-To': message.replyTo }),
+            ...(message.listUnsubscribeUrl && {
+                'List-Unsubscribe': `<${message.listUnsubscribeUrl}>`,
+                'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+            }),
+            ...headers,
+        },
+        attachments: message.attachments,
+    };
+}
+
+/**
+ * Custom headers, without the ones the sender writes itself
+ */
+function customHeaders(headers: Record<string, string> = {}): Record<string, string> {
+    return Object.fromEntries(Object.entries(headers).filter(([name]) => !isReservedHeader(name)));
+}
+
+/**
+ * Whether a message has custom headers left to send
+ */
+export function hasCustomHeaders(message: EmailMessage): boolean {
+    return Object.keys(customHeaders(message.headers)).length > 0;
+}
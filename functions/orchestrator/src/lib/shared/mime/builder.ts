@@ -0,0 +1,192 @@
+/**
+ * MIME Message Builder
+ *
+ * Builds a raw RFC 5322 message for sends that need headers or parts the
+ * SES `Content.Simple` path cannot carry (e.g., List-Unsubscribe,
+ * attachments).
+ *
+ * Layout: a text/plain part, plus a text/html alternative when there is
+ * HTML (multipart/alternative). With attachments, that body is the first
+ * part of a multipart/mixed message and each file follows it. Parts are
+ * base64-encoded, and non-ASCII header values are RFC 2047 encoded words.
+ */
+
+import { randomBytes } from 'node:crypto';
+
+/**
+ * Message to encode
+ */
+export interface MimeMessage {
+    from: string;
+    fromName: string;
+    to: string;
+    subject: string;
+    text: string;
+    html?: string;
+    /** Extra headers, written after the standard ones */
+    headers?: Record<string, string>;
+    /** Files attached after the body */
+    attachments?: MimeAttachment[];
+}
+
+/**
+ * File attached to a message
+ */
+export interface MimeAttachment {
+    filename: string;
+    contentType: string;
+    content: Uint8Array;
+}
+
+interface MimePart {
+    headers: Record<string, string>;
+    body: string;
+}
+
+const CRLF = '\r\n';
+
+/** RFC 2045 limit for base64 lines */
+const BASE64_LINE_LENGTH = 76;
+
+/** Bytes of UTF-8 per encoded word, keeping each word under 75 characters */
+const ENCODED_WORD_BYTES = 45;
+
+const CONTENT_TYPE = /^[\w.+-]+\/[\w.+-]+$/;
+
+/**
+ * Encode a message as raw MIME with CRLF line endings.
+ */
+export function buildMimeMessage(message: MimeMessage): string {
+    const headers: Record<string, string> = {
+        From: formatAddress(message.fromName, message.from),
+        To: stripLineBreaks(message.to),
+        Subject: encodeHeaderValue(message.subject),
+        Date: new Date().toUTCString(),
+        'MIME-Version': '1.0',
+    };
+    // A line break in a value would start a header of its own
+    for (const [name, value] of Object.entries(message.headers ?? {})) {
+        headers[stripLineBreaks(name)] = stripLineBreaks(value);
+    }
+
+    const attachments = message.attachments ?? [];
+    const entity =
+        attachments.length > 0
+            ? multipart('mixed', [buildBody(message), ...attachments.map(attachmentPart)])
+            : buildBody(message);
+
+    return joinHeaders({ ...headers, ...entity.headers }) + CRLF + entity.body;
+}
+
+/**
+ * Header value safe for any mail system: ASCII as is, otherwise
+ * base64 encoded words that never split a character.
+ */
+export function encodeHeaderValue(value: string): string {
+    if (/^[\x20-\x7e]*$/.test(value)) return value;
+
+    const words: string[] = [];
+    let chunk = '';
+    for (const char of value) {
+        if (Buffer.byteLength(chunk + char) > ENCODED_WORD_BYTES) {
+            words.push(chunk);
+            chunk = '';
+        }
+        chunk += char;
+    }
+    if (chunk) words.push(chunk);
+
+    return words
+        .map((word) => `=?UTF-8?B?${Buffer.from(word, 'utf8').toString('base64')}?=`)
+        .join(`${CRLF} `);
+}
+
+/**
+ * `Name <address>`, quoting or encoding the display name as needed
+ */
+export function formatAddress(name: string, address: string): string {
+    const safeAddress = stripLineBreaks(address);
+    if (!name) return safeAddress;
+    if (!/^[\x20-\x7e]*$/.test(name)) return `${encodeHeaderValue(name)} <${safeAddress}>`;
+    return `"${name.replace(/(["\\])/g, '\\$1')}" <${safeAddress}>`;
+}
+
+/**
+ * Text part, or text and HTML alternatives
+ */
+function buildBody(message: MimeMessage): MimePart {
+    const textPart = encodePart('text/plain', message.text);
+    if (!message.html) return textPart;
+    return multipart('alternative', [textPart, encodePart('text/html', message.html)]);
+}
+
+function multipart(subtype: 'alternative' | 'mixed', parts: MimePart[]): MimePart {
+    const boundary = `=_pivotr_${randomBytes(12).toString('hex')}`;
+    const body = parts
+        .map((part) => `--${boundary}${CRLF}${joinHeaders(part.headers)}${CRLF}${part.body}`)
+        .join(CRLF);
+
+    return {
+        headers: { 'Content-Type': `multipart/${subtype}; boundary="${boundary}"` },
+        body: `${body}${CRLF}--${boundary}--${CRLF}`,
+    };
+}
+
+function encodePart(contentType: string, content: string): MimePart {
+    return {
+        headers: {
+            'Content-Type': `${contentType}; charset=UTF-8`,
+            'Content-Transfer-Encoding': 'base64',
+        },
+        body: toBase64Lines(Buffer.from(content, 'utf8')),
+    };
+}
+
+function attachmentPart(attachment: MimeAttachment): MimePart {
+    const filename = stripLineBreaks(attachment.filename);
+    const contentType = CONTENT_TYPE.test(attachment.contentType)
+        ? attachment.contentType
+        : 'application/octet-stream';
+
+    return {
+        headers: {
+            'Content-Type': `${contentType}; name="${quoteParameter(encodeHeaderValue(filename))}"`,
+            'Content-Disposition': `attachment; ${filenameParameter(filename)}`,
+            'Content-Transfer-Encoding': 'base64',
+        },
+        body: toBase64Lines(Buffer.from(attachment.content)),
+    };
+}
+
+/**
+ * `filename` parameter: quoted if ASCII, RFC 2231 percent-encoded otherwise
+ */
+function filenameParameter(filename: string): string {
+    if (/^[\x20-\x7e]*$/.test(filename)) return `filename="${quoteParameter(filename)}"`;
+
+    const encoded = encodeURIComponent(filename).replace(
+        /['()*]/g,
+        (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+    );
+    return `filename*=UTF-8''${encoded}`;
+}
+
+function quoteParameter(value: string): string {
+    return value.replace(/(["\\])/g, '\\$1');
+}
+
+function toBase64Lines(content: Buffer): string {
+    const encoded = content.toString('base64');
+    const lines = encoded.match(new RegExp(`.{1,${BASE64_LINE_LENGTH}}`, 'g')) ?? [];
+    return lines.join(CRLF) + CRLF;
+}
+
+function joinHeaders(headers: Record<string, string>): string {
+    return Object.entries(headers)
+        .map(([name, value]) => `${name}: ${value}${CRLF}`)
+        .join('');
+}
+
+function stripLineBreaks(value: string): string {
+    return value.replace(/[\r\n]+/g, ' ');
+}
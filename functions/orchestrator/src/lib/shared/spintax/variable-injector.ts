@@ -25,6 +25,7 @@ export interface TemplateVariables {
     fullName: string;
     company: string;
     email: string;
+    leadType: string;
     unsubscribeLink: string;
     /** Index signature for extensibility and log.types.ts compatibility */
     [key: string]: string;
@@ -43,7 +44,14 @@ export const REQUIRED_VARIABLES = ['UnsubscribeLink'];
 /**
  * All available variable names
  */
-export const AVAILABLE_VARIABLES = ['FirstName', 'FullName', 'Company', 'Email', 'UnsubscribeLink'];
+export const AVAILABLE_VARIABLES = [
+    'FirstName',
+    'FullName',
+    'Company',
+    'Email',
+    'LeadType',
+    'UnsubscribeLink',
+];
 
 /**
  * Inject template variables into a resolved template.
@@ -73,6 +81,7 @@ export function buildTemplateVariables(lead: Lead, unsubscribeLink: string): Tem
         fullName: lead.fullName,
         company: lead.companyName,
         email: lead.email,
+        leadType: lead.leadType ?? '',
         unsubscribeLink,
     };
 }
@@ -86,6 +95,7 @@ export function templateVariablesToMap(vars: TemplateVariables): VariableMap {
         fullname: vars.fullName,
         company: vars.company,
         email: vars.email,
+        leadtype: vars.leadType,
         unsubscribelink: vars.unsubscribeLink,
     };
 }
@@ -133,15 +143,20 @@ export function extractVariables(template: string): string[] {
 
 /**
  * Generate an unsubscribe link with HMAC token.
+ *
+ * @param functionUrl - Public domain URL of the unsubscribe-lead function.
+ *                      Requests to the domain reach the function with their
+ *                      query and body, which a one-click POST from the
+ *                      List-Unsubscribe header needs; the REST executions
+ *                      endpoint does not pass them through.
  */
 export function generateUnsubscribeLink(
-    baseUrl: string,
-    functionId: string,
+    functionUrl: string,
     leadId: string,
     secret: string
 ): string {
     const token = generateHmacToken(leadId, secret);
-    return `${baseUrl}/v1/functions/${functionId}/executions?leadId=${encodeURIComponent(leadId)}&token=${encodeURIComponent(token)}`;
+    return `${functionUrl.replace(/\/+$/, '')}/?leadId=${encodeURIComponent(leadId)}&token=${encodeURIComponent(token)}`;
 }
 
 /**
@@ -0,0 +1,42 @@
+/**
+ * Domain Throttle Rule Document Interface
+ *
+ * Caps how many emails go to one recipient domain per UTC hour and day,
+ * across all campaigns, e.g. at most 3/hour to tcs.com. Leads over a cap
+ * are deferred and picked up later in the queue rather than skipped.
+ *
+ * A rule also covers its subdomains, which share its caps (tcs.com
+ * covers mail.tcs.com); the most specific rule wins. The "*" rule applies
+ * to every other domain, each one capped on its own.
+ */
+export interface DomainThrottleRule {
+    /** Appwrite document ID */
+    $id: string;
+
+    /** Document creation timestamp */
+    $createdAt: string;
+
+    /** Document last update timestamp */
+    $updatedAt: string;
+
+    /** Recipient domain the rule applies to (e.g., "tcs.com"), lowercased, or "*" */
+    domain: string;
+
+    /** Max emails to the domain per UTC hour (0 = unlimited) */
+    hourlyLimit: number;
+
+    /** Max emails to the domain per UTC day (0 = unlimited) */
+    dailyLimit: number;
+}
+
+/** Domain of the rule applied to recipient domains no other rule covers */
+export const DEFAULT_THROTTLE_DOMAIN = "*";
+
+/**
+ * Domain Throttle Rule Create Input
+ */
+export interface DomainThrottleRuleCreateInput {
+    domain: string;
+    hourlyLimit: number;
+    dailyLimit: number;
+}
@@ -0,0 +1,71 @@
+/**
+ * Outbox Email Document Interface
+ *
+ * An email rendered by a campaign dry run instead of being sent through SES.
+ * Each dry run writes its emails under a fresh dryRunId so successive runs
+ * can be reviewed separately.
+ */
+export interface OutboxEmail {
+    /** Appwrite document ID (auto-generated) */
+    $id: string;
+
+    /** Document creation timestamp */
+    $createdAt: string;
+
+    /** Document last update timestamp */
+    $updatedAt: string;
+
+    /** Dry run that rendered this email */
+    dryRunId: string;
+
+    /** Campaign the email belongs to */
+    campaignId: string;
+
+    /** Lead the email would be sent to */
+    leadId: string;
+
+    /** Recipient address */
+    toEmail: string;
+
+    /** Sender mailbox picked from the pool */
+    fromEmail: string;
+
+    /** Display name for From header */
+    fromName: string;
+
+    /** Subject after Spintax and variable resolution */
+    subject: string;
+
+    /** Rendered body (HTML/plain, including sender signature) */
+    bodyHtml: string;
+
+    /** Plain-text alternative */
+    bodyText: string;
+
+    /** Sequence step the email belongs to (0 = initial) */
+    sequenceStep: number;
+
+    /** A/B variant of the initial email, if any */
+    variantId: string | null;
+
+    /** Gaussian delay that would have preceded this send (skipped in dry runs) */
+    simulatedDelayMs: number;
+}
+
+/**
+ * Outbox Email Create Input
+ */
+export interface OutboxEmailCreateInput {
+    dryRunId: string;
+    campaignId: string;
+    leadId: string;
+    toEmail: string;
+    fromEmail: string;
+    fromName: string;
+    subject: string;
+    bodyHtml: string;
+    bodyText: string;
+    sequenceStep: number;
+    variantId: string | null;
+    simulatedDelayMs: number;
+}
@@ -0,0 +1,35 @@
+import type { SendCounterPeriodType, SendCounterScopeType } from "../constants/status.constants";
+
+/**
+ * Send Counter Document Interface
+ *
+ * Number of emails sent in one UTC hour or day, globally, per campaign,
+ * per sender mailbox or domain, or per recipient domain. Used to enforce daily/hourly send caps. Document IDs
+ * are deterministic so the orchestrator can read-modify-write without a
+ * lookup query.
+ */
+export interface SendCounter {
+    /** Deterministic ID: {scope}_{h|d}_{bucket} */
+    $id: string;
+
+    /** Document creation timestamp */
+    $createdAt: string;
+
+    /** Document last update timestamp */
+    $updatedAt: string;
+
+    /** GLOBAL, CAMPAIGN, SENDER, DOMAIN or RECIPIENT_DOMAIN scoped counter */
+    scope: SendCounterScopeType;
+
+    /** Campaign ID (CAMPAIGN) or hashed email/domain key, null for GLOBAL */
+    scopeId: string | null;
+
+    /** Bucket size */
+    period: SendCounterPeriodType;
+
+    /** Start of the bucket (UTC) */
+    bucketStart: string;
+
+    /** Emails sent in this bucket */
+    count: number;
+}
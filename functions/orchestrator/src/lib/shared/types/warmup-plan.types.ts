@@ -0,0 +1,84 @@
+import type { WarmupStatusType } from "../constants/status.constants";
+
+/**
+ * Warm-up Plan Document Interface
+ *
+ * Daily send ramp for a new sender domain, e.g. 20/day rising 20% a day up
+ * to 2000/day. The limit only grows after a day whose bounce and complaint
+ * rates stayed under the plan's thresholds.
+ */
+export interface WarmupPlan {
+    /** Appwrite document ID */
+    $id: string;
+
+    /** Document creation timestamp */
+    $createdAt: string;
+
+    /** Document last update timestamp */
+    $updatedAt: string;
+
+    /** Sender domain the plan applies to (e.g., "mail.example.com") */
+    domain: string;
+
+    /** Daily limit on the first day */
+    startVolume: number;
+
+    /** Daily limit growth after each clean day (percent) */
+    dailyIncreasePercent: number;
+
+    /** Daily limit at which the warm-up is complete */
+    maxVolume: number;
+
+    /** Highest bounce rate (percent) that still lets the ramp advance */
+    maxBounceRate: number;
+
+    /** Highest complaint rate (percent) that still lets the ramp advance */
+    maxComplaintRate: number;
+
+    /** Current stage (0 = first day) */
+    currentStage: number;
+
+    /** Sends allowed per UTC day at the current stage */
+    currentDailyLimit: number;
+
+    /** Ramp progress */
+    status: WarmupStatusType;
+
+    /** UTC date (YYYY-MM-DD) the current stage was last evaluated */
+    evaluatedOn: string | null;
+
+    /** Bounce rate (percent) of the last evaluated day */
+    lastBounceRate: number | null;
+
+    /** Complaint rate (percent) of the last evaluated day */
+    lastComplaintRate: number | null;
+}
+
+/**
+ * Warm-up Plan Create Input
+ */
+export interface WarmupPlanCreateInput {
+    domain: string;
+    startVolume: number;
+    dailyIncreasePercent: number;
+    maxVolume: number;
+    maxBounceRate: number;
+    maxComplaintRate: number;
+}
+
+/**
+ * Warm-up Plan Update Input
+ */
+export interface WarmupPlanUpdateInput {
+    startVolume?: number;
+    dailyIncreasePercent?: number;
+    maxVolume?: number;
+    maxBounceRate?: number;
+    maxComplaintRate?: number;
+    currentStage?: number;
+    currentDailyLimit?: number;
+    status?: WarmupStatusType;
+    evaluatedOn?: string | null;
+    lastBounceRate?: number | null;
+    lastComplaintRate?: number | null;
+}
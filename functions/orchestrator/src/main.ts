@@ -9,10 +9,14 @@
  * all execution paths.
  *
  * API Endpoints:
- *   POST /start   - Start a campaign
+ *   POST /start   - Start a campaign ({ dryRun: true } renders to the outbox instead)
  *   POST /pause   - Pause a running campaign
  *   POST /resume  - Resume a paused campaign
  *   POST /abort   - Abort a campaign
+ *   POST /acknowledge - Clear a circuit breaker trip so the campaign can be resumed
+ *   POST /continue - Run the next slice of a RUNNING campaign (self-triggered)
+ *   POST /recover - Clean stale locks and continue stalled runs
+ *   POST /schedule - Run a scheduler tick (also the default for cron triggers)
  */
 
 import { Client } from 'node-appwrite';
@@ -25,16 +29,33 @@ import {
 	updateCampaign,
 } from './lib/shared/database/repositories/campaign.repository';
 import { logError, logInfo } from './lib/shared/database/repositories/log.repository';
-import { cleanupStaleLocks } from './lib/shared/locking/campaign-lock';
+import { cleanupStaleLocks, isCampaignLocked } from './lib/shared/locking/campaign-lock';
+import { validateSendingWindow } from './lib/shared/validation/sending-window';
 // Local modules
-import { executeCampaign, type OrchestratorConfig } from './campaign-handler';
+import { completeAbort, executeCampaign, type OrchestratorConfig } from './campaign-handler';
+import { acknowledgeCircuitBreaker } from './circuit-breaker';
+import { isRunStalled, triggerCampaignRun } from './continuation';
+import { executeDryRun } from './dry-run';
+import { runScheduler } from './scheduler';
 
 /**
  * Request body structure
  */
 interface OrchestratorRequest {
-	action: 'start' | 'pause' | 'resume' | 'abort' | 'recover';
+	action:
+		| 'start'
+		| 'pause'
+		| 'resume'
+		| 'abort'
+		| 'acknowledge'
+		| 'continue'
+		| 'recover'
+		| 'schedule';
 	campaignId?: string;
+	/** start only: render emails to the outbox without sending or verifying */
+	dryRun?: boolean;
+	/** start only: max leads rendered by a dry run */
+	limit?: number;
 }
 
 // Response structure is inlined in res.json() calls
@@ -77,8 +98,8 @@ export default async function main(context: AppwriteContext): Promise<unknown> {
 
 	const config: OrchestratorConfig = {
 		appwriteClient: client,
-		appwriteEndpoint: process.env.APPWRITE_FUNCTION_API_ENDPOINT || '',
-		unsubscribeFunctionId: process.env.UNSUBSCRIBE_FUNCTION_ID || '',
+		unsubscribeUrl: process.env.UNSUBSCRIBE_FUNCTION_URL || '',
+		orchestratorFunctionId: process.env.APPWRITE_FUNCTION_ID || '',
 	};
 
 	try {
@@ -89,13 +110,17 @@ export default async function main(context: AppwriteContext): Promise<unknown> {
 			return res.json({ success: false, message: 'Invalid JSON body' }, 400);
 		}
 
-		const { action, campaignId } = request;
+		const { campaignId } = request;
+
+		// Cron-triggered executions arrive without a body
+		const action =
+			request.action ?? (req.headers['x-appwrite-trigger'] === 'schedule' ? 'schedule' : undefined);
 
 		log(`Received action: ${action} for campaign: ${campaignId || 'none'}`);
 
 		switch (action) {
 			case 'start':
-				return await handleStart(client, config, campaignId, res);
+				return await handleStart(client, config, request, res);
 
 			case 'pause':
 				return await handlePause(client, campaignId, res);
@@ -106,14 +131,23 @@ export default async function main(context: AppwriteContext): Promise<unknown> {
 			case 'abort':
 				return await handleAbort(client, campaignId, res);
 
+			case 'acknowledge':
+				return await handleAcknowledge(client, campaignId, res);
+
+			case 'continue':
+				return await handleContinue(client, config, campaignId, res);
+
 			case 'recover':
 				return await handleRecover(client, config, res);
 
+			case 'schedule':
+				return await handleSchedule(config, res);
+
 			default:
 				return res.json(
 					{
 						success: false,
-						message: `Unknown action: ${action}. Valid actions: start, pause, resume, abort, recover`,
+						message: `Unknown action: ${action}. Valid actions: start, pause, resume, abort, acknowledge, continue, recover, schedule`,
 					},
 					400
 				);
@@ -131,9 +165,10 @@ export default async function main(context: AppwriteContext): Promise<unknown> {
 async function handleStart(
 	client: Client,
 	config: OrchestratorConfig,
-	campaignId: string | undefined,
+	request: OrchestratorRequest,
 	res: AppwriteContext['res']
 ): Promise<unknown> {
+	const { campaignId } = request;
 	if (!campaignId) {
 		return res.json({ success: false, message: 'campaignId is required' }, 400);
 	}
@@ -143,6 +178,22 @@ async function handleStart(
 		return res.json({ success: false, message: 'Campaign not found' }, 404);
 	}
 
+	// Dry runs leave the campaign's status alone, so any state can be previewed
+	if (request.dryRun) {
+		const result = await executeDryRun(campaignId, config, request.limit);
+
+		return res.json({
+			success: result.status === 'completed',
+			message: result.message,
+			data: {
+				status: result.status,
+				dryRunId: result.dryRunId,
+				leadsProcessed: result.leadsProcessed,
+				leadsErrored: result.leadsErrored,
+			},
+		});
+	}
+
 	if (campaign.status === CampaignStatus.RUNNING) {
 		return res.json({ success: false, message: 'Campaign is already running' }, 400);
 	}
@@ -151,11 +202,27 @@ async function handleStart(
 		return res.json({ success: false, message: 'Campaign is already completed' }, 400);
 	}
 
+	if (campaign.circuitBreakerTrippedAt) {
+		return res.json(
+			{ success: false, message: 'Circuit breaker tripped; acknowledge it before starting' },
+			409
+		);
+	}
+
+	// Windows are validated when saved; this catches ones written to the database directly
+	const invalidWindow = campaign.sendingWindow && validateSendingWindow(campaign.sendingWindow);
+	if (invalidWindow) {
+		return res.json({ success: false, message: invalidWindow }, 400);
+	}
+
 	// Execute campaign (this will run for a long time)
 	const result = await executeCampaign(campaignId, config);
 
 	return res.json({
-		success: result.status === 'completed',
+		success:
+			result.status === 'completed' ||
+			result.status === 'waiting' ||
+			result.status === 'continuing',
 		message: result.message,
 		data: {
 			status: result.status,
@@ -180,7 +247,7 @@ async function handlePause(
 		return res.json({ success: false, message: 'Campaign not found' }, 404);
 	}
 
-	if (campaign.status !== CampaignStatus.RUNNING) {
+	if (campaign.status !== CampaignStatus.RUNNING && campaign.status !== CampaignStatus.WAITING) {
 		return res.json({ success: false, message: 'Campaign is not running' }, 400);
 	}
 
@@ -210,17 +277,31 @@ async function handleResume(
 		return res.json({ success: false, message: 'Campaign not found' }, 404);
 	}
 
-	if (campaign.status !== CampaignStatus.PAUSED) {
-		return res.json({ success: false, message: 'Campaign is not paused' }, 400);
+	// WAITING campaigns are resumed by the scheduler once they are due
+	if (campaign.status !== CampaignStatus.PAUSED && campaign.status !== CampaignStatus.WAITING) {
+		return res.json({ success: false, message: 'Campaign is not paused or waiting' }, 400);
 	}
 
-	await logInfo(client, EventType.CAMPAIGN_RESUMED, 'Campaign resumed', { campaignId });
+	if (campaign.circuitBreakerTrippedAt) {
+		return res.json(
+			{ success: false, message: 'Circuit breaker tripped; acknowledge it before resuming' },
+			409
+		);
+	}
 
-	// Execute campaign (continues where it left off)
-	const result = await executeCampaign(campaignId, config);
+	const invalidWindow = campaign.sendingWindow && validateSendingWindow(campaign.sendingWindow);
+	if (invalidWindow) {
+		return res.json({ success: false, message: invalidWindow }, 400);
+	}
+
+	// Execute campaign (continues where it left off, logs the resume)
+	const result = await executeCampaign(campaignId, config, 'resume');
 
 	return res.json({
-		success: result.status === 'completed',
+		success:
+			result.status === 'completed' ||
+			result.status === 'waiting' ||
+			result.status === 'continuing',
 		message: result.message,
 		data: {
 			status: result.status,
@@ -249,6 +330,12 @@ async function handleAbort(
 		return res.json({ success: false, message: 'Campaign is already finished' }, 400);
 	}
 
+	// Nothing is running it (parked, paused, queued, between slices): abort now
+	if (!(await isCampaignLocked(client, campaignId))) {
+		await completeAbort(client, campaignId);
+		return res.json({ success: true, message: 'Campaign aborted' });
+	}
+
 	// Set status to ABORTING (the running loop will detect this)
 	await updateCampaign(client, campaignId, {
 		status: CampaignStatus.ABORTING,
@@ -259,9 +346,70 @@ async function handleAbort(
 	return res.json({ success: true, message: 'Campaign abort requested' });
 }
 
+async function handleAcknowledge(
+	client: Client,
+	campaignId: string | undefined,
+	res: AppwriteContext['res']
+): Promise<unknown> {
+	if (!campaignId) {
+		return res.json({ success: false, message: 'campaignId is required' }, 400);
+	}
+
+	const campaign = await getCampaignById(client, campaignId);
+	if (!campaign) {
+		return res.json({ success: false, message: 'Campaign not found' }, 404);
+	}
+
+	if (!campaign.circuitBreakerTrippedAt) {
+		return res.json({ success: false, message: 'Circuit breaker is not tripped' }, 400);
+	}
+
+	await acknowledgeCircuitBreaker(client, campaign);
+
+	return res.json({ success: true, message: 'Circuit breaker acknowledged' });
+}
+
+async function handleContinue(
+	client: Client,
+	config: OrchestratorConfig,
+	campaignId: string | undefined,
+	res: AppwriteContext['res']
+): Promise<unknown> {
+	if (!campaignId) {
+		return res.json({ success: false, message: 'campaignId is required' }, 400);
+	}
+
+	const campaign = await getCampaignById(client, campaignId);
+	if (!campaign) {
+		return res.json({ success: false, message: 'Campaign not found' }, 404);
+	}
+
+	// An abort requested between slices is finished by the continuation;
+	// a pause just ends the chain until the campaign is resumed.
+	if (campaign.status !== CampaignStatus.RUNNING && campaign.status !== CampaignStatus.ABORTING) {
+		return res.json({ success: false, message: 'Campaign is not running' }, 400);
+	}
+
+	const result = await executeCampaign(campaignId, config, 'continue');
+
+	return res.json({
+		success:
+			result.status === 'completed' ||
+			result.status === 'waiting' ||
+			result.status === 'continuing',
+		message: result.message,
+		data: {
+			status: result.status,
+			leadsProcessed: result.leadsProcessed,
+			leadsSkipped: result.leadsSkipped,
+			leadsErrored: result.leadsErrored,
+		},
+	});
+}
+
 async function handleRecover(
 	client: Client,
-	_config: OrchestratorConfig,
+	config: OrchestratorConfig,
 	res: AppwriteContext['res']
 ): Promise<unknown> {
 	// Clean up stale locks
@@ -270,26 +418,48 @@ async function handleRecover(
 	// Find running campaigns
 	const runningCampaigns = await getRunningCampaigns(client);
 
+	// Runs whose slice died without handing off are continued; paused
+	// campaigns still need an explicit resume.
+	const continued: string[] = [];
+	for (const campaign of runningCampaigns) {
+		if (await isRunStalled(client, campaign)) {
+			if (await triggerCampaignRun(config, campaign.$id, 'continue')) {
+				continued.push(campaign.$id);
+			}
+		}
+	}
+
 	await logInfo(
 		client,
 		EventType.SYSTEM_STARTUP,
-		`System recovery: ${cleaned} stale locks cleaned, ${runningCampaigns.length} campaigns found`,
+		`System recovery: ${cleaned} stale locks cleaned, ${runningCampaigns.length} campaigns found, ${continued.length} stalled runs continued`,
 		{}
 	);
 
-	// Note: We don't auto-resume campaigns here. The frontend should
-	// call resume for each campaign explicitly after recovery.
-
 	return res.json({
 		success: true,
-		message: `Cleaned ${cleaned} stale locks, found ${runningCampaigns.length} campaigns`,
+		message: `Cleaned ${cleaned} stale locks, found ${runningCampaigns.length} campaigns, continued ${continued.length}`,
 		data: {
 			staleLocksCleaned: cleaned,
 			runningCampaigns: runningCampaigns.map((c) => ({
 				id: c.$id,
 				name: c.name,
 				status: c.status,
+				continued: continued.includes(c.$id),
 			})),
 		},
 	});
 }
+
+async function handleSchedule(
+	config: OrchestratorConfig,
+	res: AppwriteContext['res']
+): Promise<unknown> {
+	const result = await runScheduler(config);
+
+	return res.json({
+		success: true,
+		message: `Started ${result.campaignsStarted} scheduled campaigns, requeued ${result.leadsRequeued} follow-ups, triggered ${result.campaignsTriggered} campaigns`,
+		data: result,
+	});
+}
@@ -0,0 +1,135 @@
+/**
+ * Pre-verification (Fill Buffer)
+ *
+ * Verifies the next queued lead while the current send waits for its
+ * slot, so JIT verification latency hides behind the Gaussian delay.
+ *
+ * Pre-verifying only calls the verifier and writes nothing, so it can run
+ * alongside the current send without racing its lead and metric updates.
+ * The buffered result is used only if the lead is unchanged when its turn
+ * comes; otherwise the lead is verified again as usual.
+ */
+
+import type { Client } from 'node-appwrite';
+import { LeadStatus, VerificationResult } from './lib/shared/constants/status.constants';
+import type { BufferedVerification, Campaign } from './lib/shared/types/campaign.types';
+import type { DomainThrottleRule } from './lib/shared/types/domain-throttle-rule.types';
+import type { Lead } from './lib/shared/types/lead.types';
+import type { Settings } from './lib/shared/types/settings.types';
+import { getLeadById, getNextQueuedLead } from './lib/shared/database/repositories/lead.repository';
+import {
+	incrementCampaignMetrics,
+	incrementGlobalMetrics,
+} from './lib/shared/database/repositories/metrics.repository';
+import { verifyEmail } from './lib/shared/email-verifier/client';
+// Local modules
+import { checkContactCap } from './contact-cap';
+import { checkRecipientDomainCaps } from './send-throttle';
+import { getNextStepIndex } from './sequence';
+
+/**
+ * Oldest buffered result still trusted (e.g., after a long pause)
+ */
+const BUFFER_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Verify the lead queued after `currentLeadId`.
+ *
+ * Never throws, so the promise can be left running while the current
+ * lead is sent.
+ *
+ * @param throttleRules - Leads whose recipient domain is capped are not
+ *                        verified, since deferring them voids the result
+ * @returns null if there is no initial-step lead to verify, its domain is
+ *          capped, the contact frequency cap will skip it, or the verifier
+ *          gave no conclusive answer (rate limit, outage). The contact cap
+ *          check here only saves verifier credit; the lead being sent now
+ *          isn't recorded yet, so the campaign loop checks it again.
+ */
+export async function preVerifyNextLead(
+	client: Client,
+	campaignId: string,
+	currentLeadId: string,
+	settings: Settings,
+	throttleRules: DomainThrottleRule[] = []
+): Promise<BufferedVerification | null> {
+	try {
+		const lead = await getNextQueuedLead(client, campaignId, currentLeadId);
+		// Follow-up steps were already verified when the initial email went out
+		if (!lead || getNextStepIndex(lead) > 0) return null;
+		if (await checkRecipientDomainCaps(client, throttleRules, lead.email)) return null;
+		if (await checkContactCap(client, lead, settings)) return null;
+
+		const result = await verifyEmail(lead.email, {
+			apiKey: settings.myEmailVerifierApiKey,
+			timeoutMs: settings.verifierTimeoutMs,
+			maxRetries: 1, // Single attempt; processLead retries in full if this fails
+			retryBackoffMs: settings.retryBackoffMs,
+		});
+		if (result.status === VerificationResult.UNKNOWN && result.errorMessage) return null;
+
+		return {
+			leadId: lead.$id,
+			email: lead.email,
+			leadUpdatedAt: lead.$updatedAt,
+			verifiedAt: new Date().toISOString(),
+			status: result.status,
+			isValid: result.isValid,
+			isRisky: result.isRisky,
+			isGreylisted: result.isGreylisted,
+			diagnosis: result.diagnosis,
+			errorMessage: result.errorMessage,
+			retryAfterHours: result.retryAfterHours,
+		};
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Count the verifier credit spent on a buffered result.
+ *
+ * Called once the concurrent send has finished, so the metric updates
+ * don't interleave.
+ */
+export async function recordPreVerification(client: Client, campaignId: string): Promise<void> {
+	await incrementGlobalMetrics(client, { verifierCreditsUsed: 1 });
+	await incrementCampaignMetrics(client, campaignId, { verifierCreditsUsed: 1 });
+}
+
+/**
+ * Re-read a buffered lead and check the result still applies.
+ *
+ * @returns The current lead, or null if the result is stale (lead edited,
+ *          deferred, sent, unsubscribed, or verified too long ago)
+ */
+export async function claimBufferedLead(
+	client: Client,
+	buffered: BufferedVerification
+): Promise<Lead | null> {
+	if (Date.now() - new Date(buffered.verifiedAt).getTime() > BUFFER_MAX_AGE_MS) return null;
+
+	const lead = await getLeadById(client, buffered.leadId);
+	if (
+		!lead ||
+		lead.status !== LeadStatus.QUEUED ||
+		lead.isUnsubscribed ||
+		lead.email !== buffered.email ||
+		lead.$updatedAt !== buffered.leadUpdatedAt
+	) {
+		return null;
+	}
+
+	return lead;
+}
+
+/**
+ * Whether a verifier result keeps the lead from being sent.
+ */
+export function isVerificationRejected(
+	verification: BufferedVerification,
+	campaign: Campaign
+): boolean {
+	if (verification.isValid) return false;
+	return !(verification.status === VerificationResult.CATCH_ALL && campaign.allowCatchAll);
+}
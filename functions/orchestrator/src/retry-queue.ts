@@ -0,0 +1,77 @@
+/**
+ * Retry Queue
+ *
+ * Gives leads that failed for a transient reason (greylisted domain, SES
+ * throttling or outage) another attempt instead of leaving them RISKY or
+ * ERROR. A retrying lead waits in RETRYING until `nextAttemptAt`, then the
+ * scheduler puts it back in its campaign's queue.
+ *
+ * The delay doubles with each attempt. Once a lead has used
+ * `maxLeadAttempts`, the caller records the failure as final.
+ */
+
+import type { Client } from 'node-appwrite';
+import { LeadStatus } from './lib/shared/constants/status.constants';
+import type { Lead, LeadUpdateInput } from './lib/shared/types/lead.types';
+import type { Settings } from './lib/shared/types/settings.types';
+import { getDueRetryLeads, updateLead } from './lib/shared/database/repositories/lead.repository';
+
+/**
+ * Retry delay for the given attempt: the base backoff doubled per earlier
+ * attempt, but never shorter than `minDelayMs`.
+ */
+export function getRetryDelayMs(attempt: number, settings: Settings, minDelayMs = 0): number {
+	const backoffMs = settings.leadRetryBackoffMinutes * 60 * 1000 * 2 ** (attempt - 1);
+	return Math.max(minDelayMs, backoffMs);
+}
+
+/**
+ * Move a lead to RETRYING after a transient failure.
+ *
+ * @param reason - Stored as the lead's error message
+ * @param minDelayMs - Earliest sensible retry (e.g., the greylisting window)
+ * @param data - Extra fields to store with the retry (e.g., verification result)
+ * @returns When the lead will be requeued, or null if it has no attempts left
+ */
+export async function scheduleLeadRetry(
+	client: Client,
+	lead: Lead,
+	settings: Settings,
+	reason: string,
+	minDelayMs = 0,
+	data: LeadUpdateInput = {}
+): Promise<Date | null> {
+	const attemptCount = (lead.attemptCount ?? 0) + 1;
+	if (attemptCount >= settings.maxLeadAttempts) return null;
+
+	const nextAttemptAt = new Date(Date.now() + getRetryDelayMs(attemptCount, settings, minDelayMs));
+
+	await updateLead(client, lead.$id, {
+		...data,
+		status: LeadStatus.RETRYING,
+		attemptCount,
+		nextAttemptAt: nextAttemptAt.toISOString(),
+		errorMessage: reason,
+		processingStartedAt: null,
+	});
+
+	return nextAttemptAt;
+}
+
+/**
+ * Move a campaign's RETRYING leads whose attempt is due back into its queue.
+ *
+ * @returns Number of leads requeued
+ */
+export async function requeueDueRetries(client: Client, campaignId: string): Promise<number> {
+	const dueLeads = await getDueRetryLeads(client, campaignId);
+
+	for (const lead of dueLeads) {
+		await updateLead(client, lead.$id, {
+			status: LeadStatus.QUEUED,
+			nextAttemptAt: null,
+		});
+	}
+
+	return dueLeads.length;
+}
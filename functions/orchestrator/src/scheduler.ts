@@ -0,0 +1,204 @@
+/**
+ * Scheduler
+ *
+ * Periodic entry point for the orchestrator (runs on the function's
+ * cron schedule). Each tick it:
+ * - Starts QUEUED campaigns whose `scheduledStartAt` has passed
+ * - Requeues leads whose next follow-up step or retry is due
+ * - Resumes the run of WAITING campaigns that now have queued leads
+ *   or whose `nextRunAt` has passed (e.g., sending window opened)
+ * - Completes WAITING campaigns with nothing left to send
+ * - Continues RUNNING campaigns whose slice died without handing off
+ * - Finishes ABORTING campaigns no execution is running
+ * - Decides A/B tests whose results are in, including parked and finished campaigns
+ * - Moves sender domain warm-up plans to the day's stage
+ *
+ * Campaign runs are started as separate async executions so a single
+ * tick never blocks on a long-running send loop.
+ */
+
+import { EventType } from './lib/shared/constants/event.constants';
+import { CampaignStatus, LeadStatus } from './lib/shared/constants/status.constants';
+import type { Campaign } from './lib/shared/types/campaign.types';
+import {
+	completeCampaign,
+	getCampaignsByStatus,
+	getDueScheduledCampaigns,
+	getUndecidedAbTestCampaigns,
+} from './lib/shared/database/repositories/campaign.repository';
+import {
+	countPendingFollowUps,
+	countRemainingLeads,
+	getDueFollowUpLeads,
+	getNextRetryAt,
+	updateLead,
+} from './lib/shared/database/repositories/lead.repository';
+import { logInfo } from './lib/shared/database/repositories/log.repository';
+import { isCampaignLocked } from './lib/shared/locking/campaign-lock';
+// Local modules
+import { completeAbort, type OrchestratorConfig } from './campaign-handler';
+import { isRunStalled, triggerCampaignRun } from './continuation';
+import { requeueDueRetries } from './retry-queue';
+import { evaluateAbTest } from './variants';
+import { evaluateWarmupPlans } from './warmup';
+
+/**
+ * Summary of a single scheduler tick
+ */
+export interface SchedulerResult {
+	campaignsChecked: number;
+	campaignsStarted: number;
+	leadsRequeued: number;
+	retriesRequeued: number;
+	campaignsTriggered: number;
+	campaignsContinued: number;
+	campaignsCompleted: number;
+	campaignsAborted: number;
+	abTestWinners: number;
+	warmupPlansAdvanced: number;
+	warmupPlansHeld: number;
+}
+
+/**
+ * Run one scheduler tick.
+ */
+export async function runScheduler(config: OrchestratorConfig): Promise<SchedulerResult> {
+	const { appwriteClient } = config;
+
+	const result: SchedulerResult = {
+		campaignsChecked: 0,
+		campaignsStarted: 0,
+		leadsRequeued: 0,
+		retriesRequeued: 0,
+		campaignsTriggered: 0,
+		campaignsContinued: 0,
+		campaignsCompleted: 0,
+		campaignsAborted: 0,
+		abTestWinners: 0,
+		warmupPlansAdvanced: 0,
+		warmupPlansHeld: 0,
+	};
+
+	// Warm-up limits must be current before any campaign sends today
+	const warmup = await evaluateWarmupPlans(appwriteClient);
+	result.warmupPlansAdvanced = warmup.advanced;
+	result.warmupPlansHeld = warmup.held;
+
+	// Before WAITING campaigns resume, so leads held for the winner get it
+	for (const campaign of await getUndecidedAbTestCampaigns(appwriteClient)) {
+		if (await evaluateAbTest(appwriteClient, campaign)) result.abTestWinners++;
+	}
+
+	const scheduled = await getDueScheduledCampaigns(appwriteClient);
+	for (const campaign of scheduled) {
+		result.campaignsChecked++;
+		await logInfo(
+			appwriteClient,
+			EventType.CAMPAIGN_STARTED,
+			`Scheduled start reached for campaign: ${campaign.name}`,
+			{ campaignId: campaign.$id, metadata: { scheduledStartAt: campaign.scheduledStartAt } }
+		);
+		await triggerCampaignRun(config, campaign.$id);
+		result.campaignsStarted++;
+	}
+
+	// RUNNING campaigns pick requeued leads up on their next loop iteration;
+	// WAITING campaigns need a fresh run to be triggered.
+	const running = await getCampaignsByStatus(appwriteClient, CampaignStatus.RUNNING);
+	const waiting = await getCampaignsByStatus(appwriteClient, CampaignStatus.WAITING);
+
+	for (const campaign of running) {
+		result.campaignsChecked++;
+		result.leadsRequeued += await requeueDueFollowUps(config, campaign);
+		result.retriesRequeued += await requeueDueRetries(appwriteClient, campaign.$id);
+
+		if (await isRunStalled(appwriteClient, campaign)) {
+			if (await triggerCampaignRun(config, campaign.$id, 'continue')) {
+				result.campaignsContinued++;
+			}
+		}
+	}
+
+	for (const campaign of waiting) {
+		result.campaignsChecked++;
+		const requeued = await requeueDueFollowUps(config, campaign);
+		const retried = await requeueDueRetries(appwriteClient, campaign.$id);
+		result.leadsRequeued += requeued;
+		result.retriesRequeued += retried;
+
+		const isDue = campaign.nextRunAt !== null && new Date(campaign.nextRunAt) <= new Date();
+		if (requeued > 0 || retried > 0 || isDue) {
+			// Resumed, not restarted: the run's totals carry on
+			await triggerCampaignRun(config, campaign.$id, 'resume');
+			result.campaignsTriggered++;
+			continue;
+		}
+
+		if (campaign.nextRunAt) continue;
+
+		const pending = await countPendingFollowUps(appwriteClient, campaign.$id);
+		const remaining = await countRemainingLeads(appwriteClient, campaign.$id);
+		const nextRetryAt = await getNextRetryAt(appwriteClient, campaign.$id);
+		if (pending === 0 && remaining === 0 && !nextRetryAt) {
+			await completeCampaign(appwriteClient, campaign.$id);
+			await logInfo(
+				appwriteClient,
+				EventType.CAMPAIGN_COMPLETED,
+				`Campaign completed: all sequence steps finished`,
+				{ campaignId: campaign.$id }
+			);
+			result.campaignsCompleted++;
+		}
+	}
+
+	// The loop finishes aborts it sees; these lost their execution first
+	const aborting = await getCampaignsByStatus(appwriteClient, CampaignStatus.ABORTING);
+	for (const campaign of aborting) {
+		if (await isCampaignLocked(appwriteClient, campaign.$id)) continue;
+		await completeAbort(appwriteClient, campaign.$id);
+		result.campaignsAborted++;
+	}
+
+	if (
+		result.campaignsStarted > 0 ||
+		result.leadsRequeued > 0 ||
+		result.retriesRequeued > 0 ||
+		result.campaignsTriggered > 0 ||
+		result.campaignsContinued > 0 ||
+		result.campaignsCompleted > 0 ||
+		result.campaignsAborted > 0 ||
+		result.abTestWinners > 0 ||
+		result.warmupPlansAdvanced > 0 ||
+		result.warmupPlansHeld > 0
+	) {
+		await logInfo(
+			appwriteClient,
+			EventType.SCHEDULER_RUN,
+			`Scheduler: ${result.campaignsStarted} scheduled starts, ${result.leadsRequeued} follow-ups requeued, ${result.retriesRequeued} retries requeued, ${result.campaignsTriggered} campaigns triggered, ${result.campaignsContinued} stalled runs continued, ${result.campaignsCompleted} completed, ${result.campaignsAborted} aborted, ${result.abTestWinners} A/B winners picked, ${result.warmupPlansAdvanced} warm-ups advanced, ${result.warmupPlansHeld} held`,
+			{ metadata: { ...result } }
+		);
+	}
+
+	return result;
+}
+
+/**
+ * Move leads with a due follow-up step back into the campaign queue.
+ *
+ * @returns Number of leads requeued
+ */
+async function requeueDueFollowUps(
+	config: OrchestratorConfig,
+	campaign: Campaign
+): Promise<number> {
+	const { appwriteClient } = config;
+	const dueLeads = await getDueFollowUpLeads(appwriteClient, campaign.$id);
+
+	for (const lead of dueLeads) {
+		await updateLead(appwriteClient, lead.$id, {
+			status: LeadStatus.QUEUED,
+		});
+	}
+
+	return dueLeads.length;
+}
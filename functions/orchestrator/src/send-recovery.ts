@@ -0,0 +1,137 @@
+/**
+ * Send Recovery
+ *
+ * Finishes or rolls back leads left in SENDING by a crashed execution,
+ * using the send journal as the record of what reached SES:
+ * - SENT or CONFIRMED with a message ID: final. The transport accepted
+ *   the email, so the lead is marked SENT and counted, without sending
+ *   again. No Send event is needed, which matters because none arrives
+ *   without an SES configuration set or with the SMTP and sink transports.
+ * - FAILED, or no entry for the step: never accepted, so the lead goes
+ *   back to QUEUED.
+ * - PENDING: the execution died during the transport call. The sqs-poller
+ *   confirms the entry when the SES Send event carrying its idempotency
+ *   key arrives, so the lead is left in SENDING for a long grace period
+ *   (the poller runs on a cron schedule and SQS can lag). Only an entry
+ *   still PENDING after that is rolled back and the lead requeued. A Send
+ *   event that arrives even later is handled by the sqs-poller, which
+ *   hands the lead back to this recovery to be marked SENT.
+ */
+
+import type { Client } from 'node-appwrite';
+import { SENDING_TIMEOUT_MS } from './lib/shared/constants/collection.constants';
+import { EventType } from './lib/shared/constants/event.constants';
+import { LeadStatus, SendJournalStatus } from './lib/shared/constants/status.constants';
+import type { Campaign } from './lib/shared/types/campaign.types';
+import type { Lead } from './lib/shared/types/lead.types';
+import type { SendJournalEntry } from './lib/shared/types/send-journal.types';
+import { getSendingLeads, updateLead } from './lib/shared/database/repositories/lead.repository';
+import { logInfo, logWarn } from './lib/shared/database/repositories/log.repository';
+import {
+	completeJournalEntry,
+	getConfirmedJournalEntry,
+	getLatestJournalEntry,
+} from './lib/shared/database/repositories/send-journal.repository';
+// Local modules
+import { recordSentLead } from './lead-processor';
+import { getNextStepIndex } from './sequence';
+
+/**
+ * How long after a send attempt its SES Send event may still arrive
+ * before a PENDING entry is rolled back. Generous, since the sqs-poller
+ * runs on a cron schedule and a rollback risks emailing the lead twice.
+ */
+const SEND_EVENT_GRACE_MS = 60 * 60 * 1000;
+
+/**
+ * How soon a campaign whose run ended with sends awaiting their Send
+ * event is resumed, so recovery can settle them
+ */
+export const RECOVERY_RECHECK_MS = 10 * 60 * 1000;
+
+const ACCEPTED_STATUSES: string[] = [SendJournalStatus.SENT, SendJournalStatus.CONFIRMED];
+
+/**
+ * Reconcile a campaign's stuck SENDING leads against the send journal.
+ */
+export async function recoverStuckLeads(client: Client, campaign: Campaign): Promise<void> {
+	const stuckLeads = await getSendingLeads(client, campaign.$id, SENDING_TIMEOUT_MS);
+
+	let recovered = 0;
+	for (const lead of stuckLeads) {
+		const entry = await resolveJournalEntry(client, lead);
+		// Left in SENDING until the Send event or the end of the grace period
+		if (entry === 'awaiting-event') continue;
+		recovered++;
+
+		if (entry?.sesMessageId && ACCEPTED_STATUSES.includes(entry.status)) {
+			await recordSentLead(client, campaign, lead, {
+				messageId: entry.sesMessageId,
+				stepIndex: entry.sequenceStep,
+				senderEmail: entry.senderEmail,
+				variantId: entry.variantId,
+				sentAt: new Date(entry.completedAt ?? entry.$createdAt),
+			});
+			await logWarn(
+				client,
+				EventType.SYSTEM_RECOVERY,
+				`Recovered stuck lead ${lead.$id} as SENT from the send journal`,
+				{ leadId: lead.$id, campaignId: campaign.$id, metadata: { idempotencyKey: entry.$id } }
+			);
+			continue;
+		}
+
+		if (entry?.status === SendJournalStatus.PENDING) {
+			await completeJournalEntry(client, entry.$id, {
+				status: SendJournalStatus.ROLLED_BACK,
+				errorMessage: 'No SES Send event within the recovery grace period',
+			});
+		}
+
+		await updateLead(client, lead.$id, {
+			status: LeadStatus.QUEUED,
+			processingStartedAt: null,
+		});
+		await logWarn(
+			client,
+			EventType.SYSTEM_RECOVERY,
+			`Recovered stuck lead ${lead.$id} back to QUEUED for retry`,
+			{
+				leadId: lead.$id,
+				campaignId: campaign.$id,
+				metadata: { idempotencyKey: entry?.$id ?? null, journalStatus: entry?.status ?? null },
+			}
+		);
+	}
+
+	if (recovered > 0) {
+		await logInfo(client, EventType.SYSTEM_RECOVERY, `Recovered ${recovered} stuck leads`, {
+			campaignId: campaign.$id,
+		});
+	}
+}
+
+/**
+ * The journal entry for the step the lead was sending, once its outcome
+ * is as settled as it will get.
+ *
+ * @returns null if the send never reached the journal, 'awaiting-event'
+ *          if a PENDING entry is still within its grace period
+ */
+async function resolveJournalEntry(
+	client: Client,
+	lead: Lead
+): Promise<SendJournalEntry | 'awaiting-event' | null> {
+	const entry = await getLatestJournalEntry(client, lead.$id);
+	// The latest entry may belong to an earlier step that went through
+	if (!entry || entry.sequenceStep !== getNextStepIndex(lead)) return null;
+	if (ACCEPTED_STATUSES.includes(entry.status)) return entry;
+
+	// An earlier attempt at this step may have been confirmed after its rollback
+	const confirmed = await getConfirmedJournalEntry(client, lead.$id, entry.sequenceStep);
+	if (confirmed) return confirmed;
+	if (entry.status !== SendJournalStatus.PENDING) return entry;
+
+	const graceEndsAt = new Date(entry.$createdAt).getTime() + SEND_EVENT_GRACE_MS;
+	return graceEndsAt > Date.now() ? 'awaiting-event' : entry;
+}
@@ -0,0 +1,182 @@
+/**
+ * Send Throttle
+ *
+ * Enforces send caps before each lead is processed:
+ * - Global and per-campaign hourly/daily caps (UTC buckets)
+ * - SES 24-hour quota (from the aws_metrics snapshot)
+ * - SES max send rate (minimum gap handed to the send arbiter)
+ * - Recipient domain hourly/daily caps (domain throttle rules)
+ *
+ * Intent: Two campaigns started on the same day used to trip SES
+ * throttling. Checking our own counters against the last quota snapshot
+ * keeps every execution under the account limits. Recipient domain caps
+ * stop one corporate MX from receiving a burst from a list full of
+ * colleagues.
+ */
+
+import type { Client } from 'node-appwrite';
+import { SendCounterPeriod } from './lib/shared/constants/status.constants';
+import type { AwsMetrics } from './lib/shared/types/aws-metrics.types';
+import type { Campaign } from './lib/shared/types/campaign.types';
+import {
+	DEFAULT_THROTTLE_DOMAIN,
+	type DomainThrottleRule,
+} from './lib/shared/types/domain-throttle-rule.types';
+import type { Settings } from './lib/shared/types/settings.types';
+import {
+	countGlobalSendsSince,
+	getNextBucketStart,
+	getRecipientDomainSendCount,
+	getSendCount,
+} from './lib/shared/database/repositories/send-counter.repository';
+// Local modules
+import { getEmailDomain } from './warmup';
+
+/**
+ * Reason sending must stop, and when it may resume
+ */
+export interface SendHold {
+	reason: string;
+	resumeAt: Date;
+}
+
+/**
+ * How long to back off once the SES 24-hour quota is exhausted.
+ * Quota frees up gradually as sends age out of the rolling window.
+ */
+const QUOTA_BACKOFF_MS = 60 * 60 * 1000;
+
+/**
+ * Check configured send caps and the SES 24-hour quota.
+ *
+ * @returns The first hold that applies, or null if sending may proceed
+ */
+export async function checkSendCaps(
+	client: Client,
+	campaign: Campaign,
+	settings: Settings,
+	awsMetrics: AwsMetrics | null
+): Promise<SendHold | null> {
+	const now = new Date();
+
+	const caps = [
+		{
+			limit: settings.globalHourlySendCap,
+			scopeId: null,
+			period: SendCounterPeriod.HOUR,
+			label: 'Global hourly',
+		},
+		{
+			limit: settings.globalDailySendCap,
+			scopeId: null,
+			period: SendCounterPeriod.DAY,
+			label: 'Global daily',
+		},
+		{
+			limit: campaign.hourlySendCap,
+			scopeId: campaign.$id,
+			period: SendCounterPeriod.HOUR,
+			label: 'Campaign hourly',
+		},
+		{
+			limit: campaign.dailySendCap,
+			scopeId: campaign.$id,
+			period: SendCounterPeriod.DAY,
+			label: 'Campaign daily',
+		},
+	];
+
+	for (const { limit, scopeId, period, label } of caps) {
+		if (!limit || limit <= 0) continue;
+
+		const sent = await getSendCount(client, scopeId, period, now);
+		if (sent >= limit) {
+			return {
+				reason: `${label} send cap reached (${sent}/${limit})`,
+				resumeAt: getNextBucketStart(period, now),
+			};
+		}
+	}
+
+	if (awsMetrics && awsMetrics.sendQuotaMax24Hour > 0) {
+		// The snapshot is only as fresh as the last fetch; add what we sent since
+		const sentSinceFetch = await countGlobalSendsSince(client, new Date(awsMetrics.fetchedAt));
+		const used = awsMetrics.sendQuotaSentLast24Hours + sentSinceFetch;
+
+		if (used >= awsMetrics.sendQuotaMax24Hour) {
+			return {
+				reason: `SES 24-hour quota reached (${used}/${awsMetrics.sendQuotaMax24Hour})`,
+				resumeAt: new Date(now.getTime() + QUOTA_BACKOFF_MS),
+			};
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Minimum gap between two sends allowed by the SES max send rate.
+ */
+export function getMinSendIntervalMs(awsMetrics: AwsMetrics | null): number {
+	const maxPerSecond = awsMetrics?.sendQuotaMaxPerSecond ?? 0;
+	return maxPerSecond > 0 ? Math.ceil(1000 / maxPerSecond) : 0;
+}
+
+/**
+ * Find the throttle rule for a recipient domain: the longest rule domain
+ * it equals or is a subdomain of, else the "*" rule.
+ *
+ * @returns The rule and the domain its send counts are kept under, or null
+ */
+function findDomainThrottleRule(
+	rules: DomainThrottleRule[],
+	domain: string
+): { rule: DomainThrottleRule; countedDomain: string } | null {
+	let match: DomainThrottleRule | null = null;
+	for (const rule of rules) {
+		const ruleDomain = rule.domain.toLowerCase();
+		const covers = domain === ruleDomain || domain.endsWith(`.${ruleDomain}`);
+		if (covers && (!match || ruleDomain.length > match.domain.length)) match = rule;
+	}
+	if (match) return { rule: match, countedDomain: match.domain.toLowerCase() };
+
+	// The default caps each domain on its own
+	const fallback = rules.find((r) => r.domain === DEFAULT_THROTTLE_DOMAIN);
+	return fallback ? { rule: fallback, countedDomain: domain } : null;
+}
+
+/**
+ * Check the recipient's domain against its throttle rule.
+ *
+ * @param rules - All rules (see getDomainThrottleRules)
+ * @returns Hold until the capped bucket rolls over, or null if the lead may be sent
+ */
+export async function checkRecipientDomainCaps(
+	client: Client,
+	rules: DomainThrottleRule[],
+	recipientEmail: string,
+	now: Date = new Date()
+): Promise<SendHold | null> {
+	const match = findDomainThrottleRule(rules, getEmailDomain(recipientEmail));
+	if (!match) return null;
+	const { rule, countedDomain: domain } = match;
+
+	const caps = [
+		{ limit: rule.hourlyLimit, period: SendCounterPeriod.HOUR, label: 'hourly' },
+		{ limit: rule.dailyLimit, period: SendCounterPeriod.DAY, label: 'daily' },
+	];
+
+	for (const { limit, period, label } of caps) {
+		if (!limit || limit <= 0) continue;
+
+		const sent = await getRecipientDomainSendCount(client, domain, period, now);
+		if (sent >= limit) {
+			return {
+				reason: `Recipient domain ${domain} ${label} cap reached (${sent}/${limit})`,
+				resumeAt: getNextBucketStart(period, now),
+			};
+		}
+	}
+
+	return null;
+}
@@ -0,0 +1,127 @@
+/**
+ * Sender Pool
+ *
+ * Picks the sender identity for each email. Initial emails rotate across
+ * the campaign's pool by weighted round-robin; follow-ups reuse the
+ * identity recorded on the lead so a thread never changes sender.
+ *
+ * Rotation is stateless: the next sender is the one furthest behind its
+ * weighted share of today's sends (per-mailbox daily counters). This
+ * survives restarts and accounts for other campaigns sharing a mailbox.
+ * Senders whose domain has used up today's warm-up limit are skipped.
+ */
+
+import type { Client } from 'node-appwrite';
+import { SendCounterPeriod } from './lib/shared/constants/status.constants';
+import type { Campaign, SenderIdentity } from './lib/shared/types/campaign.types';
+import type { Lead } from './lib/shared/types/lead.types';
+import {
+	getNextBucketStart,
+	getSenderDailySendCount,
+} from './lib/shared/database/repositories/send-counter.repository';
+import { getActiveWarmupPlans } from './lib/shared/database/repositories/warmup-plan.repository';
+// Local modules
+import type { SendHold } from './send-throttle';
+import { isWarmupLimitReached } from './warmup';
+
+/**
+ * The campaign's sender pool, or its single senderEmail/senderName identity.
+ */
+export function getSenderPool(campaign: Campaign): SenderIdentity[] {
+	if (campaign.senderPool.length > 0) return campaign.senderPool;
+
+	return [
+		{
+			email: campaign.senderEmail,
+			name: campaign.senderName,
+			weight: 1,
+			dailyCap: null,
+			signature: null,
+		},
+	];
+}
+
+/**
+ * Identity that sent the lead's first email.
+ *
+ * Falls back to the bare mailbox if it has since been removed from the pool.
+ *
+ * @returns null if the lead has not been emailed yet
+ */
+export function getLeadSender(campaign: Campaign, lead: Lead): SenderIdentity | null {
+	if (!lead.senderEmail) return null;
+
+	const email = lead.senderEmail.toLowerCase();
+	const pooled = getSenderPool(campaign).find((sender) => sender.email.toLowerCase() === email);
+
+	return (
+		pooled ?? {
+			email: lead.senderEmail,
+			name: campaign.senderName,
+			weight: 1,
+			dailyCap: null,
+			signature: null,
+		}
+	);
+}
+
+/**
+ * Pick the sender for a lead.
+ *
+ * @param pendingSends - Sends per mailbox not yet in the counters (dry runs)
+ * @returns null if every candidate sender has reached its daily or warm-up cap
+ */
+export async function selectSender(
+	client: Client,
+	campaign: Campaign,
+	lead: Lead,
+	now: Date = new Date(),
+	pendingSends?: Map<string, number>
+): Promise<SenderIdentity | null> {
+	const leadSender = getLeadSender(campaign, lead);
+	const candidates = leadSender
+		? [leadSender]
+		: getSenderPool(campaign).filter((sender) => sender.weight > 0);
+
+	const warmupPlans = await getActiveWarmupPlans(client);
+
+	let selected: SenderIdentity | null = null;
+	let selectedLoad = Number.POSITIVE_INFINITY;
+
+	for (const sender of candidates) {
+		const sentToday =
+			(await getSenderDailySendCount(client, sender.email, now)) +
+			(pendingSends?.get(sender.email.toLowerCase()) ?? 0);
+		if (sender.dailyCap && sentToday >= sender.dailyCap) continue;
+		if (await isWarmupLimitReached(client, warmupPlans, sender.email, now)) continue;
+
+		// Share of today's sends this sender would have after one more, relative to its weight
+		const load = (sentToday + 1) / (sender.weight > 0 ? sender.weight : 1);
+		if (load < selectedLoad) {
+			selected = sender;
+			selectedLoad = load;
+		}
+	}
+
+	return selected;
+}
+
+/**
+ * Hold while no sender for this lead is under its daily and warm-up caps.
+ * Both reset at the next UTC day.
+ */
+export async function getSenderHold(
+	client: Client,
+	campaign: Campaign,
+	lead: Lead,
+	now: Date = new Date()
+): Promise<SendHold | null> {
+	if (await selectSender(client, campaign, lead, now)) return null;
+
+	return {
+		reason: lead.senderEmail
+			? `Sender ${lead.senderEmail} reached its daily or warm-up cap`
+			: 'Every sender in the pool reached its daily or warm-up cap',
+		resumeAt: getNextBucketStart(SendCounterPeriod.DAY, now),
+	};
+}
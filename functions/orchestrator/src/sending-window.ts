@@ -0,0 +1,190 @@
+/**
+ * Sending Window
+ *
+ * Evaluates campaign business-hours windows (e.g., Mon–Fri 09:30–17:30)
+ * in the campaign's timezone or, optionally, the recipient's.
+ *
+ * Intent: The Gaussian delay makes the gap between sends look human, but
+ * an email landing at 2am local time still looks automated. Windows keep
+ * arrival times inside the recipient's working day.
+ *
+ * Note: Offsets are derived from the zone's current wall-clock time, so a
+ * DST transition inside the wait period can shift the opening by an hour.
+ * The zones we target (IST, GST, SGT) have no DST.
+ */
+
+import type { SendingWindow } from './lib/shared/types/campaign.types';
+import type { Lead } from './lib/shared/types/lead.types';
+import { isValidTimezone } from './lib/shared/validation/sending-window';
+// Local modules
+import type { SendHold } from './send-throttle';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Dialling code → IANA timezone (longest prefix wins)
+ */
+const PHONE_PREFIX_TIMEZONES: Record<string, string> = {
+	'91': 'Asia/Kolkata',
+	'971': 'Asia/Dubai',
+	'65': 'Asia/Singapore',
+	'966': 'Asia/Riyadh',
+	'974': 'Asia/Qatar',
+	'968': 'Asia/Muscat',
+	'973': 'Asia/Bahrain',
+	'965': 'Asia/Kuwait',
+	'60': 'Asia/Kuala_Lumpur',
+	'94': 'Asia/Colombo',
+	'977': 'Asia/Kathmandu',
+	'44': 'Europe/London',
+};
+
+/**
+ * Country-code TLD → IANA timezone
+ */
+const TLD_TIMEZONES: Record<string, string> = {
+	in: 'Asia/Kolkata',
+	ae: 'Asia/Dubai',
+	sg: 'Asia/Singapore',
+	sa: 'Asia/Riyadh',
+	qa: 'Asia/Qatar',
+	om: 'Asia/Muscat',
+	bh: 'Asia/Bahrain',
+	kw: 'Asia/Kuwait',
+	my: 'Asia/Kuala_Lumpur',
+	lk: 'Asia/Colombo',
+	np: 'Asia/Kathmandu',
+	uk: 'Europe/London',
+};
+
+/**
+ * Infer a lead's timezone.
+ *
+ * Order: explicit `lead.timezone` → international phone prefix → email TLD.
+ * An imported `lead.timezone` the runtime doesn't recognise is ignored.
+ *
+ * @returns IANA timezone, or null if nothing matched
+ */
+export function inferLeadTimezone(lead: Lead): string | null {
+	if (lead.timezone && isValidTimezone(lead.timezone)) return lead.timezone;
+
+	// Only numbers written with an international prefix carry a country code
+	const phone = lead.phoneNumber?.replace(/[\s()-]/g, '') ?? '';
+	let international: string | null = null;
+	if (phone.startsWith('+')) international = phone.slice(1);
+	else if (phone.startsWith('00')) international = phone.slice(2);
+
+	if (international) {
+		for (let length = 3; length >= 1; length--) {
+			const timezone = PHONE_PREFIX_TIMEZONES[international.slice(0, length)];
+			if (timezone) return timezone;
+		}
+	}
+
+	const tld = lead.email.split('.').pop()?.toLowerCase() ?? '';
+	return TLD_TIMEZONES[tld] ?? null;
+}
+
+/**
+ * Resolve the timezone a window should be evaluated in for a lead.
+ */
+export function resolveWindowTimezone(window: SendingWindow, lead: Lead | null): string {
+	if (window.useRecipientTimezone && lead) {
+		return inferLeadTimezone(lead) ?? window.timezone;
+	}
+	return window.timezone;
+}
+
+/**
+ * Campaign-wide hold while outside a window evaluated in the campaign's
+ * own timezone. Recipient-timezone windows are checked per lead instead.
+ */
+export function getCampaignWindowHold(
+	window: SendingWindow | null,
+	now: Date = new Date()
+): SendHold | null {
+	if (!window || window.useRecipientTimezone) return null;
+
+	const waitMs = getMsUntilWindowOpens(window, window.timezone, now);
+	if (waitMs === 0) return null;
+
+	return {
+		reason: 'Outside sending window',
+		resumeAt: new Date(now.getTime() + waitMs),
+	};
+}
+
+/**
+ * Milliseconds until the window next opens.
+ *
+ * A window whose end is not after its start runs overnight: it opens on an
+ * allowed day and closes at endTime the next morning (22:00–06:00 on
+ * Friday covers Friday night into Saturday). Equal times keep it open for
+ * a full day from startTime.
+ *
+ * @returns 0 if `now` is inside the window
+ */
+export function getMsUntilWindowOpens(
+	window: SendingWindow,
+	timezone: string,
+	now: Date = new Date()
+): number {
+	const { weekday, minuteOfDay, second } = getZonedTime(now, timezone);
+	const startMinute = parseTime(window.startTime);
+	const endMinute = parseTime(window.endTime);
+	const isAllowed = (day: number) => window.days.includes((day + 7) % 7);
+
+	if (endMinute > startMinute) {
+		if (isAllowed(weekday) && minuteOfDay >= startMinute && minuteOfDay < endMinute) return 0;
+	} else {
+		// Overnight: tonight's window, or the tail of last night's
+		if (isAllowed(weekday) && minuteOfDay >= startMinute) return 0;
+		if (isAllowed(weekday - 1) && minuteOfDay < endMinute) return 0;
+	}
+
+	for (let dayOffset = 0; dayOffset <= 7; dayOffset++) {
+		if (!isAllowed(weekday + dayOffset)) continue;
+
+		const minutesAhead = dayOffset * MINUTES_PER_DAY + startMinute - minuteOfDay;
+		if (minutesAhead > 0) {
+			return (minutesAhead * 60 - second) * 1000;
+		}
+	}
+
+	throw new Error('Sending window has no allowed days');
+}
+
+/**
+ * Parse "HH:mm" into minutes after midnight.
+ */
+function parseTime(value: string): number {
+	const [hours, minutes] = value.split(':').map(Number);
+	return hours * 60 + (minutes || 0);
+}
+
+/**
+ * Wall-clock weekday/time of an instant in a timezone.
+ */
+function getZonedTime(
+	date: Date,
+	timezone: string
+): { weekday: number; minuteOfDay: number; second: number } {
+	const parts = new Intl.DateTimeFormat('en-US', {
+		timeZone: timezone,
+		weekday: 'short',
+		hour: '2-digit',
+		minute: '2-digit',
+		second: '2-digit',
+		hourCycle: 'h23',
+	}).formatToParts(date);
+
+	const get = (type: Intl.DateTimeFormatPartTypes) =>
+		parts.find((part) => part.type === type)?.value ?? '0';
+	const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+	return {
+		weekday: weekdays.indexOf(get('weekday')),
+		minuteOfDay: Number(get('hour')) * 60 + Number(get('minute')),
+		second: Number(get('second')),
+	};
+}
@@ -0,0 +1,72 @@
+/**
+ * Sequence Helpers
+ *
+ * Resolves which step of a multi-step campaign a lead is on and
+ * when its next follow-up becomes due.
+ *
+ * Step 0 is the campaign's own subject/body template; step N (N >= 1)
+ * is campaign.sequenceSteps[N - 1].
+ */
+
+import type { Campaign, EmailAttachment } from './lib/shared/types/campaign.types';
+import type { Lead } from './lib/shared/types/lead.types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Templates for a single sequence step
+ */
+export interface StepTemplates {
+	subjectTemplate: string;
+	bodyTemplate: string;
+	attachments: EmailAttachment[];
+}
+
+/**
+ * Index of the step the lead should receive next.
+ */
+export function getNextStepIndex(lead: Lead): number {
+	return lead.sequenceStep === null || lead.sequenceStep === undefined ? 0 : lead.sequenceStep + 1;
+}
+
+/**
+ * Resolve the subject/body templates and attachments for a step.
+ *
+ * @throws Error if the campaign has no such step
+ */
+export function resolveStepTemplates(campaign: Campaign, stepIndex: number): StepTemplates {
+	if (stepIndex === 0) {
+		return {
+			subjectTemplate: campaign.subjectTemplate,
+			bodyTemplate: campaign.bodyTemplate,
+			attachments: campaign.attachments ?? [],
+		};
+	}
+
+	const step = campaign.sequenceSteps?.[stepIndex - 1];
+	if (!step) {
+		throw new Error(`Campaign ${campaign.$id} has no sequence step ${stepIndex}`);
+	}
+
+	return {
+		subjectTemplate: step.subjectTemplate,
+		bodyTemplate: step.bodyTemplate,
+		attachments: step.attachments ?? [],
+	};
+}
+
+/**
+ * Calculate when the step after `sentStepIndex` becomes due.
+ *
+ * @returns ISO timestamp, or null if the sequence is finished
+ */
+export function calculateNextStepDueAt(
+	campaign: Campaign,
+	sentStepIndex: number,
+	sentAt: Date = new Date()
+): string | null {
+	const nextStep = campaign.sequenceSteps?.[sentStepIndex];
+	if (!nextStep) return null;
+
+	return new Date(sentAt.getTime() + nextStep.waitDays * MS_PER_DAY).toISOString();
+}
@@ -0,0 +1,248 @@
+/**
+ * A/B Variants
+ *
+ * Splits a campaign's initial emails across named variants and, once the
+ * configured sample has been sent and its results have come back, picks
+ * the variant with the best rate.
+ *
+ * Assignment is random by split percentage rather than round-robin, so it
+ * needs no state and stays fair across restarts and resumed runs. With
+ * auto-winner enabled, initial emails are held once the sample is sent
+ * and every lead after the sample gets the winner.
+ */
+
+import type { Client } from 'node-appwrite';
+import { EventType } from './lib/shared/constants/event.constants';
+import { AbTestMetric, type AbTestMetricType } from './lib/shared/constants/status.constants';
+import {
+	AB_TEST_DEFAULTS,
+	type Campaign,
+	type CampaignVariant,
+} from './lib/shared/types/campaign.types';
+import type { VariantStats } from './lib/shared/types/variant-stats.types';
+import { updateCampaign } from './lib/shared/database/repositories/campaign.repository';
+import { logInfo } from './lib/shared/database/repositories/log.repository';
+import { getCampaignVariantStats } from './lib/shared/database/repositories/variant-stats.repository';
+// Local modules
+import type { SendHold } from './send-throttle';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * How often a test past its evaluation time, still short of `abTestMinEvents`,
+ * is looked at again
+ */
+const AB_TEST_RECHECK_MS = HOUR_MS;
+
+/**
+ * Hold on a test past its max wait but not yet decided; the scheduler
+ * decides it on its next tick
+ */
+const AB_TEST_OVERDUE_HOLD_MS = 5 * 60 * 1000;
+
+/**
+ * Pick the variant for a lead's initial email.
+ *
+ * @returns null if the campaign has no variants (use its own templates)
+ */
+export function assignVariant(
+	campaign: Campaign,
+	random: () => number = Math.random
+): CampaignVariant | null {
+	const variants = campaign.variants.filter((variant) => variant.splitPercent > 0);
+	if (variants.length === 0) return null;
+
+	if (campaign.abTestAutoWinner && campaign.winningVariantId) {
+		const winner = campaign.variants.find((variant) => variant.id === campaign.winningVariantId);
+		if (winner) return winner;
+	}
+
+	// Splits need not add up to 100; they are relative shares
+	const total = variants.reduce((sum, variant) => sum + variant.splitPercent, 0);
+	let point = random() * total;
+	for (const variant of variants) {
+		point -= variant.splitPercent;
+		if (point < 0) return variant;
+	}
+
+	return variants[variants.length - 1];
+}
+
+/**
+ * Hold on initial emails while an auto-winner test waits for its results.
+ *
+ * Once the sample is sent, the remaining leads are held until a winner
+ * (or no clear winner) is decided, so they get the winner rather than the
+ * split. Follow-up steps are not held.
+ *
+ * @returns null if the campaign isn't auto-winner, the sample isn't sent
+ *          yet, or the test is decided
+ */
+export function getAbTestHold(campaign: Campaign, now: Date = new Date()): SendHold | null {
+	const variants = campaign.variants.filter((variant) => variant.splitPercent > 0);
+	if (
+		!campaign.abTestAutoWinner ||
+		variants.length < 2 ||
+		!campaign.abTestSampleSize ||
+		!campaign.abTestSampleSentAt ||
+		campaign.winningVariantId ||
+		campaign.abTestDecidedAt
+	) {
+		return null;
+	}
+
+	const { evaluateAt, decideByAt } = getAbTestDeadlines(campaign, campaign.abTestSampleSentAt);
+	const time = now.getTime();
+
+	let resumeAt = time < evaluateAt ? evaluateAt : Math.min(time + AB_TEST_RECHECK_MS, decideByAt);
+	if (resumeAt <= time) resumeAt = time + AB_TEST_OVERDUE_HOLD_MS;
+
+	return { reason: 'A/B test sample sent, waiting for a winner', resumeAt: new Date(resumeAt) };
+}
+
+/**
+ * When a test whose sample was sent at `sampleSentAt` is first evaluated,
+ * and when it is decided on the results so far at the latest.
+ */
+function getAbTestDeadlines(
+	campaign: Campaign,
+	sampleSentAt: string
+): { evaluateAt: number; decideByAt: number } {
+	const sentAt = new Date(sampleSentAt).getTime();
+	const evaluateAfterHours =
+		campaign.abTestEvaluateAfterHours ?? AB_TEST_DEFAULTS.evaluateAfterHours;
+	const maxWaitHours = campaign.abTestMaxWaitHours ?? AB_TEST_DEFAULTS.maxWaitHours;
+
+	return {
+		evaluateAt: sentAt + evaluateAfterHours * HOUR_MS,
+		decideByAt: sentAt + Math.max(evaluateAfterHours, maxWaitHours) * HOUR_MS,
+	};
+}
+
+/**
+ * Rate used to rank a variant, per email sent.
+ */
+export function getVariantRate(stats: VariantStats, metric: AbTestMetricType): number {
+	if (stats.sent === 0) return 0;
+
+	switch (metric) {
+		case AbTestMetric.CLICK_RATE:
+			return stats.clicks / stats.sent;
+		case AbTestMetric.REPLY_RATE:
+			return stats.replies / stats.sent;
+		default:
+			return stats.opens / stats.sent;
+	}
+}
+
+/**
+ * Decide the A/B test once its results are in.
+ *
+ * The sample is complete once `abTestSampleSize` initial emails are sent;
+ * its time is recorded and the test then waits `abTestEvaluateAfterHours`
+ * for SES events and replies to come back, and until every variant has
+ * `abTestMinEvents` events of the winner metric, or at most
+ * `abTestMaxWaitHours`, after which the results so far decide (a variant
+ * the metric never recorded anything for then ties at 0%). Until then the remaining
+ * leads keep their split, or are held with auto-winner (`getAbTestHold`).
+ * Run after each send and on every scheduler tick, so parked and finished
+ * campaigns are decided too. The best rate wins; if two or more variants
+ * share it, "no clear winner" is recorded and the split stays.
+ *
+ * Does nothing if the test has no sample size, is already decided, or
+ * has fewer than two variants with a split above 0%.
+ *
+ * @returns The winner, or null if the test is undecided or had no clear winner
+ */
+export async function evaluateAbTest(
+	client: Client,
+	campaign: Campaign,
+	now: Date = new Date()
+): Promise<CampaignVariant | null> {
+	// Variants at a 0% split get no leads, so they have no results to wait for
+	const variants = campaign.variants.filter((variant) => variant.splitPercent > 0);
+	if (
+		variants.length < 2 ||
+		!campaign.abTestSampleSize ||
+		campaign.winningVariantId ||
+		campaign.abTestDecidedAt
+	) {
+		return null;
+	}
+
+	const stats = await getCampaignVariantStats(client, campaign.$id);
+	const totalSent = stats.reduce((sum, variantStats) => sum + variantStats.sent, 0);
+	if (totalSent < campaign.abTestSampleSize) return null;
+
+	if (!campaign.abTestSampleSentAt) {
+		await updateCampaign(client, campaign.$id, { abTestSampleSentAt: now.toISOString() });
+		return null;
+	}
+
+	const { evaluateAt, decideByAt } = getAbTestDeadlines(campaign, campaign.abTestSampleSentAt);
+	if (now.getTime() < evaluateAt) return null;
+	const timedOut = now.getTime() >= decideByAt;
+
+	const metric = campaign.abTestWinnerMetric;
+	const minEvents = campaign.abTestMinEvents ?? AB_TEST_DEFAULTS.minEvents;
+	const results = variants.map((variant) => {
+		const variantStats = stats.find((s) => s.variantId === variant.id);
+		return {
+			variant,
+			sent: variantStats?.sent ?? 0,
+			events: variantStats ? getVariantEvents(variantStats, metric) : 0,
+			rate: variantStats ? getVariantRate(variantStats, metric) : 0,
+		};
+	});
+	if (!timedOut && results.some((result) => result.events < minEvents)) return null;
+
+	const bestRate = Math.max(...results.map((result) => result.rate));
+	const leaders = results.filter((result) => result.rate === bestRate);
+	const winner = leaders.length === 1 ? leaders[0].variant : null;
+
+	await updateCampaign(client, campaign.$id, {
+		abTestDecidedAt: now.toISOString(),
+		winningVariantId: winner?.id ?? null,
+	});
+
+	const rate = `${metric} ${(bestRate * 100).toFixed(2)}%`;
+	const tied = leaders.map((leader) => leader.variant.name).join(', ');
+	const waited = timedOut ? ' (max wait reached)' : '';
+	await logInfo(
+		client,
+		winner ? EventType.AB_TEST_WINNER_SELECTED : EventType.AB_TEST_NO_CLEAR_WINNER,
+		winner
+			? `Variant ${winner.name} won the A/B test after ${totalSent} sends${waited} (${rate})`
+			: `A/B test had no clear winner after ${totalSent} sends${waited} (${tied} tied at ${rate})`,
+		{
+			campaignId: campaign.$id,
+			metadata: {
+				variantId: winner?.id ?? null,
+				autoWinner: campaign.abTestAutoWinner,
+				timedOut,
+				results: results.map((result) => ({
+					variantId: result.variant.id,
+					sent: result.sent,
+					events: result.events,
+					rate: result.rate,
+				})),
+			},
+		}
+	);
+
+	return winner;
+}
+
+/**
+ * Events counted by a metric: opens, clicks or replies
+ */
+function getVariantEvents(stats: VariantStats, metric: AbTestMetricType): number {
+	switch (metric) {
+		case AbTestMetric.CLICK_RATE:
+			return stats.clicks;
+		case AbTestMetric.REPLY_RATE:
+			return stats.replies;
+		default:
+			return stats.opens;
+	}
+}
@@ -0,0 +1,146 @@
+/**
+ * Domain Warm-up
+ *
+ * Enforces per-domain warm-up ramps (e.g., 20/day rising 20% daily up to a
+ * ceiling) across every mailbox and campaign sending from that domain.
+ *
+ * Intent: A new domain that sends its full volume on day one gets burned.
+ * The limit only grows after a day whose bounce and complaint rates stayed
+ * under the plan's thresholds; otherwise the stage is held.
+ */
+
+import type { Client } from 'node-appwrite';
+import { EventType } from './lib/shared/constants/event.constants';
+import { SendCounterPeriod, WarmupStatus } from './lib/shared/constants/status.constants';
+import type { WarmupPlan } from './lib/shared/types/warmup-plan.types';
+import { countSenderDomainFeedback } from './lib/shared/database/repositories/lead.repository';
+import { logInfo, logWarn } from './lib/shared/database/repositories/log.repository';
+import {
+	getBucketStart,
+	getDomainDailySendCount,
+} from './lib/shared/database/repositories/send-counter.repository';
+import {
+	getActiveWarmupPlans,
+	updateWarmupPlan,
+} from './lib/shared/database/repositories/warmup-plan.repository';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Outcome of a daily warm-up evaluation pass
+ */
+export interface WarmupEvaluation {
+	advanced: number;
+	held: number;
+}
+
+/**
+ * Domain part of an email address, lowercased.
+ */
+export function getEmailDomain(email: string): string {
+	return (email.split('@').pop() ?? email).toLowerCase();
+}
+
+/**
+ * Whether the sender's domain has used up today's warm-up allowance.
+ *
+ * @param plans - Active plans (see getActiveWarmupPlans)
+ */
+export async function isWarmupLimitReached(
+	client: Client,
+	plans: WarmupPlan[],
+	senderEmail: string,
+	now: Date = new Date()
+): Promise<boolean> {
+	const domain = getEmailDomain(senderEmail);
+	const plan = plans.find((p) => p.domain.toLowerCase() === domain);
+	if (!plan) return false;
+
+	const sentToday = await getDomainDailySendCount(client, domain, now);
+	return sentToday >= plan.currentDailyLimit;
+}
+
+/**
+ * Move each active plan to today's stage, once per UTC day.
+ *
+ * Yesterday's sends (domain counter) and bounces/complaints (lead statuses
+ * recorded by the SQS poller) decide whether the limit grows or is held.
+ * A day without sends carries the stage over unchanged.
+ */
+export async function evaluateWarmupPlans(
+	client: Client,
+	now: Date = new Date()
+): Promise<WarmupEvaluation> {
+	const result: WarmupEvaluation = { advanced: 0, held: 0 };
+
+	const todayStart = getBucketStart(SendCounterPeriod.DAY, now);
+	const yesterdayStart = new Date(todayStart.getTime() - MS_PER_DAY);
+	const today = todayStart.toISOString().slice(0, 10);
+
+	const plans = await getActiveWarmupPlans(client);
+	for (const plan of plans) {
+		if (plan.evaluatedOn === today) continue;
+
+		// First day of a new plan: nothing to judge yet
+		if (!plan.evaluatedOn) {
+			await updateWarmupPlan(client, plan.$id, { evaluatedOn: today });
+			continue;
+		}
+
+		const sent = await getDomainDailySendCount(client, plan.domain, yesterdayStart);
+		if (sent === 0) {
+			await updateWarmupPlan(client, plan.$id, { evaluatedOn: today });
+			continue;
+		}
+
+		const { bounced, complained } = await countSenderDomainFeedback(
+			client,
+			plan.domain,
+			yesterdayStart,
+			todayStart
+		);
+		const bounceRate = (bounced / sent) * 100;
+		const complaintRate = (complained / sent) * 100;
+
+		if (bounceRate > plan.maxBounceRate || complaintRate > plan.maxComplaintRate) {
+			await updateWarmupPlan(client, plan.$id, {
+				status: WarmupStatus.HELD,
+				evaluatedOn: today,
+				lastBounceRate: bounceRate,
+				lastComplaintRate: complaintRate,
+			});
+			await logWarn(
+				client,
+				EventType.WARMUP_HELD,
+				`Warm-up held for ${plan.domain} at ${plan.currentDailyLimit}/day: bounce ${bounceRate.toFixed(2)}%, complaints ${complaintRate.toFixed(2)}%`,
+				{ metadata: { planId: plan.$id, stage: plan.currentStage, sent, bounced, complained } }
+			);
+			result.held++;
+			continue;
+		}
+
+		const grown = Math.ceil(plan.currentDailyLimit * (1 + plan.dailyIncreasePercent / 100));
+		const nextLimit = Math.min(plan.maxVolume, Math.max(grown, plan.currentDailyLimit + 1));
+		const completed = nextLimit >= plan.maxVolume;
+
+		await updateWarmupPlan(client, plan.$id, {
+			currentStage: plan.currentStage + 1,
+			currentDailyLimit: nextLimit,
+			status: completed ? WarmupStatus.COMPLETED : WarmupStatus.ACTIVE,
+			evaluatedOn: today,
+			lastBounceRate: bounceRate,
+			lastComplaintRate: complaintRate,
+		});
+		await logInfo(
+			client,
+			EventType.WARMUP_ADVANCED,
+			completed
+				? `Warm-up complete for ${plan.domain}: ${nextLimit}/day`
+				: `Warm-up for ${plan.domain} advanced to stage ${plan.currentStage + 1}: ${nextLimit}/day`,
+			{ metadata: { planId: plan.$id, stage: plan.currentStage + 1, sent, bounced, complained } }
+		);
+		result.advanced++;
+	}
+
+	return result;
+}
@@ -0,0 +1,282 @@
+/**
+ * Campaign Repository
+ *
+ * Data access layer for the campaigns collection.
+ */
+
+import type { Client, Models } from 'node-appwrite';
+import { Databases, ID, Query } from 'node-appwrite';
+import { CollectionId, DATABASE_ID } from '../../constants/collection.constants';
+import { CampaignStatus } from '../../constants/status.constants';
+import type {
+    BufferedVerification,
+    Campaign,
+    CampaignCreateInput,
+    CampaignRunProgress,
+    CampaignStep,
+    CampaignUpdateInput,
+    CampaignVariant,
+    CircuitBreakerBaseline,
+    DelayParams,
+    EmailAttachment,
+    SenderIdentity,
+    SendingWindow,
+} from '../../types/campaign.types';
+
+/**
+ * JSON-encoded campaign attributes (Appwrite has no native object type)
+ */
+const JSON_FIELDS = [
+    'sequenceSteps',
+    'sendingWindow',
+    'senderPool',
+    'variants',
+    'runProgress',
+    'bufferedVerification',
+    'circuitBreakerBaseline',
+    'delayParams',
+    'attachments',
+    'customHeaders',
+    'emailTags',
+] as const;
+
+/**
+ * Parse a JSON attribute that may already be decoded
+ */
+function parseJsonField<T>(value: unknown, fallback: T): T {
+    if (typeof value === 'string') {
+        return value ? (JSON.parse(value) as T) : fallback;
+    }
+    return (value as T | null | undefined) ?? fallback;
+}
+
+/**
+ * Serialize JSON attributes present in a create/update payload
+ */
+function serializeJsonFields(
+    data: CampaignCreateInput | CampaignUpdateInput
+): Record<string, unknown> {
+    const payload: Record<string, unknown> = { ...data };
+    for (const field of JSON_FIELDS) {
+        // Create inputs carry a subset of the JSON fields
+        const value = (data as CampaignUpdateInput)[field];
+        if (value !== undefined) {
+            payload[field] = value === null ? null : JSON.stringify(value);
+        }
+    }
+    return payload;
+}
+
+/**
+ * Convert Appwrite document to Campaign type
+ */
+function documentToCampaign(doc: Models.Document): Campaign {
+    const campaign = doc as unknown as Campaign;
+    return {
+        ...campaign,
+        sequenceSteps: parseJsonField<CampaignStep[]>(campaign.sequenceSteps, []),
+        sendingWindow: parseJsonField<SendingWindow | null>(campaign.sendingWindow, null),
+        senderPool: parseJsonField<SenderIdentity[]>(campaign.senderPool, []),
+        variants: parseJsonField<CampaignVariant[]>(campaign.variants, []),
+        runProgress: parseJsonField<CampaignRunProgress | null>(campaign.runProgress, null),
+        bufferedVerification: parseJsonField<BufferedVerification | null>(
+            campaign.bufferedVerification,
+            null
+        ),
+        circuitBreakerBaseline: parseJsonField<CircuitBreakerBaseline | null>(
+            campaign.circuitBreakerBaseline,
+            null
+        ),
+        delayParams: parseJsonField<DelayParams | null>(campaign.delayParams, null),
+        attachments: parseJsonField<EmailAttachment[]>(campaign.attachments, []),
+        customHeaders: parseJsonField<Record<string, string>>(campaign.customHeaders, {}),
+        emailTags: parseJsonField<Record<string, string>>(campaign.emailTags, {}),
+    };
+}
+
+/**
+ * Create a new campaign
+ */
+export async function createCampaign(client: Client, data: CampaignCreateInput): Promise<Campaign> {
+    const databases = new Databases(client);
+
+    const doc = await databases.createDocument(DATABASE_ID, CollectionId.CAMPAIGNS, ID.unique(), {
+        ...serializeJsonFields({
+            ...data,
+            sequenceSteps: data.sequenceSteps ?? [],
+            senderPool: data.senderPool ?? [],
+            variants: data.variants ?? [],
+        }),
+        status: CampaignStatus.DRAFT,
+        processedCount: 0,
+        skippedCount: 0,
+        errorCount: 0,
+        allowCatchAll: data.allowCatchAll ?? false,
+        abTestAutoWinner: data.abTestAutoWinner ?? false,
+    });
+
+    return documentToCampaign(doc);
+}
+
+/**
+ * Get a campaign by ID
+ */
+export async function getCampaignById(
+    client: Client,
+    campaignId: string
+): Promise<Campaign | null> {
+    const databases = new Databases(client);
+
+    try {
+        const doc = await databases.getDocument(DATABASE_ID, CollectionId.CAMPAIGNS, campaignId);
+        return documentToCampaign(doc);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Update a campaign
+ */
+export async function updateCampaign(
+    client: Client,
+    campaignId: string,
+    data: CampaignUpdateInput
+): Promise<Campaign> {
+    const databases = new Databases(client);
+
+    const doc = await databases.updateDocument(DATABASE_ID, CollectionId.CAMPAIGNS, campaignId, {
+        ...serializeJsonFields(data),
+        lastActivityAt: new Date().toISOString(),
+    });
+
+    return documentToCampaign(doc);
+}
+
+/**
+ * Delete a campaign
+ */
+export async function deleteCampaign(client: Client, campaignId: string): Promise<void> {
+    const databases = new Databases(client);
+
+    await databases.deleteDocument(DATABASE_ID, CollectionId.CAMPAIGNS, campaignId);
+}
+
+/**
+ * Get all running campaigns (for recovery on startup)
+ */
+export async function getRunningCampaigns(client: Client): Promise<Campaign[]> {
+    const databases = new Databases(client);
+
+    const result = await databases.listDocuments(DATABASE_ID, CollectionId.CAMPAIGNS, [
+        Query.equal('status', CampaignStatus.RUNNING),
+    ]);
+
+    return result.documents.map(documentToCampaign);
+}
+
+/**
+ * Get campaigns by status
+ */
+export async function getCampaignsByStatus(client: Client, status: string): Promise<Campaign[]> {
+    const databases = new Databases(client);
+
+    const result = await databases.listDocuments(DATABASE_ID, CollectionId.CAMPAIGNS, [
+        Query.equal('status', status),
+    ]);
+
+    return result.documents.map(documentToCampaign);
+}
+
+/**
+ * Get QUEUED campaigns whose scheduled start time has passed
+ */
+export async function getDueScheduledCampaigns(client: Client): Promise<Campaign[]> {
+    const databases = new Databases(client);
+
+    const result = await databases.listDocuments(DATABASE_ID, CollectionId.CAMPAIGNS, [
+        Query.equal('status', CampaignStatus.QUEUED),
+        Query.lessThanEqual('scheduledStartAt', new Date().toISOString()),
+        Query.orderAsc('scheduledStartAt'),
+    ]);
+
+    return result.documents.map(documentToCampaign);
+}
+
+/**
+ * Get started campaigns whose A/B test is still undecided
+ */
+export async function getUndecidedAbTestCampaigns(client: Client): Promise<Campaign[]> {
+    const databases = new Databases(client);
+
+    const result = await databases.listDocuments(DATABASE_ID, CollectionId.CAMPAIGNS, [
+        Query.equal('status', [
+            CampaignStatus.RUNNING,
+            CampaignStatus.PAUSED,
+            CampaignStatus.WAITING,
+            CampaignStatus.COMPLETED,
+        ]),
+        Query.isNotNull('abTestSampleSize'),
+        Query.isNull('abTestDecidedAt'),
+    ]);
+
+    return result.documents.map(documentToCampaign);
+}
+
+/**
+ * Increment campaign counter atomically
+ * Note: Appwrite doesn't support atomic increments, so we read-modify-write
+ */
+export async function incrementCampaignCounter(
+    client: Client,
+    campaignId: string,
+    field: 'processedCount' | 'skippedCount' | 'errorCount',
+    amount: number = 1
+): Promise<void> {
+    const databases = new Databases(client);
+
+    const campaign = await getCampaignById(client, campaignId);
+    if (!campaign) return;
+
+    const currentValue = campaign[field] || 0;
+
+    await databases.updateDocument(DATABASE_ID, CollectionId.CAMPAIGNS, campaignId, {
+        [field]: currentValue + amount,
+        lastActivityAt: new Date().toISOString(),
+    });
+}
+
+/**
+ * Start a campaign
+ */
+export async function startCampaign(client: Client, campaignId: string): Promise<Campaign> {
+    return updateCampaign(client, campaignId, {
+        status: CampaignStatus.RUNNING,
+        pausedAt: null,
+    });
+}
+
+/**
+ * Pause a campaign
+ */
+export async function pauseCampaign(
+    client: Client,
+    campaignId: string,
+    resumePosition: number
+): Promise<Campaign> {
+    return updateCampaign(client, campaignId, {
+        status: CampaignStatus.PAUSED,
+        pausedAt: new Date().toISOString(),
+        resumePosition,
+    });
+}
+
+/**
+ * Complete a campaign
+ */
+export async function completeCampaign(client: Client, campaignId: string): Promise<Campaign> {
+    return updateCampaign(client, campaignId, {
+        status: CampaignStatus.COMPLETED,
+        completedAt: new Date().toISOString(),
+    });
+}
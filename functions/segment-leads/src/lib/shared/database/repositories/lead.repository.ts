@@ -0,0 +1,444 @@
+/**
+ * Lead Repository
+ *
+ * Data access layer for the leads collection.
+ * All database operations for leads should go through this module.
+ */
+
+import type { Client, Models } from 'node-appwrite';
+import { Databases, ID, Query } from 'node-appwrite';
+import { CollectionId, DATABASE_ID } from '../../constants/collection.constants';
+import { LeadStatus } from '../../constants/status.constants';
+import type { Lead, LeadCreateInput, LeadUpdateInput } from '../../types/lead.types';
+
+/**
+ * Convert Appwrite document to Lead type
+ */
+function documentToLead(doc: Models.Document): Lead {
+    return doc as unknown as Lead;
+}
+
+/**
+ * Create a new lead
+ */
+export async function createLead(client: Client, data: LeadCreateInput): Promise<Lead> {
+    const databases = new Databases(client);
+
+    const doc = await databases.createDocument(DATABASE_ID, CollectionId.LEADS, ID.unique(), {
+        ...data,
+        status: data.status ?? LeadStatus.PENDING_IMPORT,
+        isUnsubscribed: false,
+    });
+
+    return documentToLead(doc);
+}
+
+/**
+ * Get a lead by ID
+ */
+export async function getLeadById(client: Client, leadId: string): Promise<Lead | null> {
+    const databases = new Databases(client);
+
+    try {
+        const doc = await databases.getDocument(DATABASE_ID, CollectionId.LEADS, leadId);
+        return documentToLead(doc);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Update a lead
+ */
+export async function updateLead(
+    client: Client,
+    leadId: string,
+    data: LeadUpdateInput
+): Promise<Lead> {
+    const databases = new Databases(client);
+
+    const doc = await databases.updateDocument(DATABASE_ID, CollectionId.LEADS, leadId, data);
+
+    return documentToLead(doc);
+}
+
+/**
+ * Find lead by email
+ */
+export async function findLeadByEmail(client: Client, email: string): Promise<Lead | null> {
+    const databases = new Databases(client);
+
+    const result = await databases.listDocuments(DATABASE_ID, CollectionId.LEADS, [
+        Query.equal('email', email),
+        Query.limit(1),
+    ]);
+
+    return result.documents.length > 0 ? documentToLead(result.documents[0]) : null;
+}
+
+/**
+ * Find lead by SES Message ID (for bounce/complaint processing)
+ */
+export async function findLeadBySesMessageId(
+    client: Client,
+    sesMessageId: string
+): Promise<Lead | null> {
+    const databases = new Databases(client);
+
+    const result = await databases.listDocuments(DATABASE_ID, CollectionId.LEADS, [
+        Query.equal('sesMessageId', sesMessageId),
+        Query.limit(1),
+    ]);
+
+    return result.documents.length > 0 ? documentToLead(result.documents[0]) : null;
+}
+
+/**
+ * Get next lead in queue for a campaign
+ */
+export async function getNextQueuedLead(
+    client: Client,
+    campaignId: string,
+    excludeLeadId?: string
+): Promise<Lead | null> {
+    const databases = new Databases(client);
+
+    const queries = [
+        Query.equal('campaignId', campaignId),
+        Query.equal('status', LeadStatus.QUEUED),
+        Query.equal('isUnsubscribed', false),
+        Query.or([
+            Query.isNull('deferredUntil'),
+            Query.lessThanEqual('deferredUntil', new Date().toISOString()),
+        ]),
+        Query.orderAsc('queuePosition'),
+        Query.limit(1),
+    ];
+    // Looking past the lead that is about to be sent
+    if (excludeLeadId) queries.push(Query.notEqual('$id', excludeLeadId));
+
+    const result = await databases.listDocuments(DATABASE_ID, CollectionId.LEADS, queries);
+
+    return result.documents.length > 0 ? documentToLead(result.documents[0]) : null;
+}
+
+/**
+ * Get a page of queued leads in queue order, including deferred ones
+ */
+export async function getQueuedLeads(
+    client: Client,
+    campaignId: string,
+    limit: number,
+    offset: number = 0
+): Promise<Lead[]> {
+    const databases = new Databases(client);
+
+    const result = await databases.listDocuments(DATABASE_ID, CollectionId.LEADS, [
+        Query.equal('campaignId', campaignId),
+        Query.equal('status', LeadStatus.QUEUED),
+        Query.equal('isUnsubscribed', false),
+        Query.orderAsc('queuePosition'),
+        Query.limit(limit),
+        Query.offset(offset),
+    ]);
+
+    return result.documents.map(documentToLead);
+}
+
+/**
+ * Get the earliest time a deferred lead in the queue becomes eligible
+ */
+export async function getNextDeferredAt(
+    client: Client,
+    campaignId: string
+): Promise<string | null> {
+    const databases = new Databases(client);
+
+    const result = await databases.listDocuments(DATABASE_ID, CollectionId.LEADS, [
+        Query.equal('campaignId', campaignId),
+        Query.equal('status', LeadStatus.QUEUED),
+        Query.equal('isUnsubscribed', false),
+        Query.isNotNull('deferredUntil'),
+        Query.orderAsc('deferredUntil'),
+        Query.limit(1),
+    ]);
+
+    return result.documents.length > 0 ? documentToLead(result.documents[0]).deferredUntil : null;
+}
+
+/**
+ * Get leads stuck in SENDING status (for recovery)
+ */
+export async function getSendingLeads(
+    client: Client,
+    campaignId: string,
+    olderThanMs: number
+): Promise<Lead[]> {
+    const databases = new Databases(client);
+    const threshold = new Date(Date.now() - olderThanMs).toISOString();
+
+    const result = await databases.listDocuments(DATABASE_ID, CollectionId.LEADS, [
+        Query.equal('campaignId', campaignId),
+        Query.equal('status', LeadStatus.SENDING),
+        Query.lessThan('processingStartedAt', threshold),
+    ]);
+
+    return result.documents.map(documentToLead);
+}
+
+/**
+ * Count leads by status for a campaign
+ */
+export async function countLeadsByStatus(
+    client: Client,
+    campaignId: string,
+    status: string
+): Promise<number> {
+    const databases = new Databases(client);
+
+    const result = await databases.listDocuments(DATABASE_ID, CollectionId.LEADS, [
+        Query.equal('campaignId', campaignId),
+        Query.equal('status', status),
+        Query.limit(0), // We only need the total count
+    ]);
+
+    return result.total;
+}
+
+/**
+ * Count remaining leads to process
+ */
+export async function countRemainingLeads(client: Client, campaignId: string): Promise<number> {
+    const databases = new Databases(client);
+
+    const result = await databases.listDocuments(DATABASE_ID, CollectionId.LEADS, [
+        Query.equal('campaignId', campaignId),
+        Query.equal('status', LeadStatus.QUEUED),
+        Query.equal('isUnsubscribed', false),
+        Query.limit(0),
+    ]);
+
+    return result.total;
+}
+
+/**
+ * Get leads whose next sequence step is due
+ */
+export async function getDueFollowUpLeads(
+    client: Client,
+    campaignId: string,
+    limit: number = 100
+): Promise<Lead[]> {
+    const databases = new Databases(client);
+
+    const result = await databases.listDocuments(DATABASE_ID, CollectionId.LEADS, [
+        Query.equal('campaignId', campaignId),
+        Query.equal('status', LeadStatus.SENT),
+        Query.equal('isUnsubscribed', false),
+        Query.isNull('repliedAt'),
+        Query.lessThanEqual('nextStepDueAt', new Date().toISOString()),
+        Query.orderAsc('nextStepDueAt'),
+        Query.limit(limit),
+    ]);
+
+    return result.documents.map(documentToLead);
+}
+
+/**
+ * Count leads still waiting on a follow-up step
+ */
+export async function countPendingFollowUps(client: Client, campaignId: string): Promise<number> {
+    const databases = new Databases(client);
+
+    const result = await databases.listDocuments(DATABASE_ID, CollectionId.LEADS, [
+        Query.equal('campaignId', campaignId),
+        Query.equal('status', LeadStatus.SENT),
+        Query.equal('isUnsubscribed', false),
+        Query.isNull('repliedAt'),
+        Query.isNotNull('nextStepDueAt'),
+        Query.limit(0),
+    ]);
+
+    return result.total;
+}
+
+/**
+ * Get RETRYING leads whose next attempt is due
+ */
+export async function getDueRetryLeads(
+    client: Client,
+    campaignId: string,
+    limit: number = 100
+): Promise<Lead[]> {
+    const databases = new Databases(client);
+
+    const result = await databases.listDocuments(DATABASE_ID, CollectionId.LEADS, [
+        Query.equal('campaignId', campaignId),
+        Query.equal('status', LeadStatus.RETRYING),
+        Query.equal('isUnsubscribed', false),
+        Query.lessThanEqual('nextAttemptAt', new Date().toISOString()),
+        Query.orderAsc('nextAttemptAt'),
+        Query.limit(limit),
+    ]);
+
+    return result.documents.map(documentToLead);
+}
+
+/**
+ * Get the earliest time a RETRYING lead is due to be requeued
+ */
+export async function getNextRetryAt(client: Client, campaignId: string): Promise<string | null> {
+    const databases = new Databases(client);
+
+    const result = await databases.listDocuments(DATABASE_ID, CollectionId.LEADS, [
+        Query.equal('campaignId', campaignId),
+        Query.equal('status', LeadStatus.RETRYING),
+        Query.equal('isUnsubscribed', false),
+        Query.orderAsc('nextAttemptAt'),
+        Query.limit(1),
+    ]);
+
+    return result.documents.length > 0 ? documentToLead(result.documents[0]).nextAttemptAt : null;
+}
+
+/**
+ * Count bounces and complaints on leads emailed from a sender domain
+ * within [since, until), as recorded by the SQS poller
+ */
+export async function countSenderDomainFeedback(
+    client: Client,
+    domain: string,
+    since: Date,
+    until: Date
+): Promise<{ bounced: number; complained: number }> {
+    const databases = new Databases(client);
+
+    const countStatus = async (status: string) => {
+        const result = await databases.listDocuments(DATABASE_ID, CollectionId.LEADS, [
+            Query.endsWith('senderEmail', `@${domain}`),
+            Query.equal('status', status),
+            Query.greaterThanEqual('processedAt', since.toISOString()),
+            Query.lessThan('processedAt', until.toISOString()),
+            Query.limit(0),
+        ]);
+        return result.total;
+    };
+
+    return {
+        bounced: await countStatus(LeadStatus.BOUNCED),
+        complained: await countStatus(LeadStatus.COMPLAINED),
+    };
+}
+
+/**
+ * Find a lead emailed at or after `since` at this address, or anywhere
+ * at `domain` when given (contact frequency cap)
+ */
+export async function findRecentlyContactedLead(
+    client: Client,
+    email: string,
+    since: Date,
+    domain: string | null = null
+): Promise<Lead | null> {
+    const databases = new Databases(client);
+
+    const result = await databases.listDocuments(DATABASE_ID, CollectionId.LEADS, [
+        domain ? Query.endsWith('email', `@${domain}`) : Query.equal('email', email),
+        Query.greaterThanEqual('lastContactedAt', since.toISOString()),
+        Query.orderDesc('lastContactedAt'),
+        Query.limit(1),
+    ]);
+
+    return result.documents.length > 0 ? documentToLead(result.documents[0]) : null;
+}
+
+/**
+ * Get the highest queue position used in a campaign (0 if none)
+ */
+export async function getLastQueuePosition(client: Client, campaignId: string): Promise<number> {
+    const databases = new Databases(client);
+
+    const result = await databases.listDocuments(DATABASE_ID, CollectionId.LEADS, [
+        Query.equal('campaignId', campaignId),
+        Query.isNotNull('queuePosition'),
+        Query.orderDesc('queuePosition'),
+        Query.limit(1),
+    ]);
+
+    return result.documents.length > 0 ? (documentToLead(result.documents[0]).queuePosition ?? 0) : 0;
+}
+
+/**
+ * Bulk update leads for a campaign
+ *
+ * Clears what an earlier campaign left on the lead (sequence step, sender,
+ * variant, retries), so a lead released from a deleted campaign starts the
+ * new campaign's sequence from its initial email.
+ *
+ * @param startPosition - Queue position of the first lead; pass the one
+ *                        after getLastQueuePosition to append to a queue
+ */
+export async function assignLeadsToCampaign(
+    client: Client,
+    leadIds: string[],
+    campaignId: string,
+    startPosition: number = 1
+): Promise<void> {
+    const databases = new Databases(client);
+
+    for (let i = 0; i < leadIds.length; i++) {
+        await databases.updateDocument(DATABASE_ID, CollectionId.LEADS, leadIds[i], {
+            campaignId,
+            status: LeadStatus.QUEUED,
+            queuePosition: startPosition + i,
+            sequenceStep: null,
+            nextStepDueAt: null,
+            senderEmail: null,
+            variantId: null,
+            attemptCount: null,
+            nextAttemptAt: null,
+            deferredUntil: null,
+            processingStartedAt: null,
+            processedAt: null,
+            errorMessage: null,
+            skipReason: null,
+        });
+    }
+}
+
+/**
+ * Detach every lead from a campaign that is being deleted.
+ * Leads still waiting to be sent go back to PENDING_IMPORT so they can be
+ * assigned to another campaign.
+ *
+ * @returns Number of leads detached
+ */
+export async function releaseCampaignLeads(client: Client, campaignId: string): Promise<number> {
+    const databases = new Databases(client);
+    const waiting: string[] = [LeadStatus.QUEUED, LeadStatus.RETRYING];
+    let released = 0;
+
+    // Detached leads drop out of the query, so always read the first page
+    while (true) {
+        const result = await databases.listDocuments(DATABASE_ID, CollectionId.LEADS, [
+            Query.equal('campaignId', campaignId),
+            Query.limit(100),
+        ]);
+
+        for (const doc of result.documents) {
+            const lead = documentToLead(doc);
+            await databases.updateDocument(DATABASE_ID, CollectionId.LEADS, lead.$id, {
+                campaignId: null,
+                queuePosition: null,
+                ...(waiting.includes(lead.status) && {
+                    status: LeadStatus.PENDING_IMPORT,
+                    deferredUntil: null,
+                    nextAttemptAt: null,
+                }),
+            });
+            released++;
+        }
+
+        if (result.documents.length < 100) return released;
+    }
+}
@@ -0,0 +1,56 @@
+/**
+ * Segment Repository
+ *
+ * Data access layer for the segments collection.
+ */
+
+import type { Client, Models } from 'node-appwrite';
+import { Databases } from 'node-appwrite';
+import { CollectionId, DATABASE_ID } from '../../constants/collection.constants';
+import type { Segment, SegmentCondition } from '../../types/segment.types';
+
+/**
+ * Convert Appwrite document to Segment type
+ * (conditions are stored as a JSON string)
+ */
+function documentToSegment(doc: Models.Document): Segment {
+    const segment = doc as unknown as Segment;
+    const conditions = segment.conditions as unknown;
+    return {
+        ...segment,
+        conditions:
+            typeof conditions === 'string'
+                ? (JSON.parse(conditions || '[]') as SegmentCondition[])
+                : segment.conditions,
+    };
+}
+
+/**
+ * Get a segment by ID
+ */
+export async function getSegmentById(client: Client, segmentId: string): Promise<Segment | null> {
+    const databases = new Databases(client);
+
+    try {
+        const doc = await databases.getDocument(DATABASE_ID, CollectionId.SEGMENTS, segmentId);
+        return documentToSegment(doc);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Record the outcome of applying a segment
+ */
+export async function markSegmentApplied(
+    client: Client,
+    segmentId: string,
+    assignedCount: number
+): Promise<void> {
+    const databases = new Databases(client);
+
+    await databases.updateDocument(DATABASE_ID, CollectionId.SEGMENTS, segmentId, {
+        lastAppliedAt: new Date().toISOString(),
+        lastAssignedCount: assignedCount,
+    });
+}
@@ -0,0 +1,510 @@
+import type {
+    AbTestMetricType,
+    BodyFormatType,
+    CampaignStatusType,
+    DelayStrategyType,
+    VerificationResultType,
+} from "../constants/status.constants";
+
+/**
+ * Campaign Document Interface
+ *
+ * Represents a discrete sending batch with specific configuration.
+ * Each campaign transitions through the finite state machine defined by CampaignStatus.
+ */
+export interface Campaign {
+    /** Appwrite document ID (auto-generated) */
+    $id: string;
+
+    /** Document creation timestamp */
+    $createdAt: string;
+
+    /** Document last update timestamp */
+    $updatedAt: string;
+
+    /** Human-readable campaign name */
+    name: string;
+
+    /** Campaign lifecycle state */
+    status: CampaignStatusType;
+
+    /** Spintax-enabled subject line template */
+    subjectTemplate: string;
+
+    /** Spintax-enabled body template, written in `bodyFormat` */
+    bodyTemplate: string;
+
+    /** How the body templates (all steps and variants) are written */
+    bodyFormat: BodyFormatType;
+
+    /** Verified SES sender identity (used when senderPool is empty) */
+    senderEmail: string;
+
+    /** Display name for From header */
+    senderName: string;
+
+    /** Rotating sender identities (stored as JSON string, empty = senderEmail only) */
+    senderPool: SenderIdentity[];
+
+    /** Address replies go to instead of the sender (null = the sender) */
+    replyTo: string | null;
+
+    /** Extra headers on every email (stored as JSON string) */
+    customHeaders: Record<string, string>;
+
+    /** SES configuration set that routes the campaign's events (null = account default) */
+    sesConfigurationSet: string | null;
+
+    /** SES tags added to every email; values may use template variables (stored as JSON string) */
+    emailTags: Record<string, string>;
+
+    /** Count of leads at campaign creation */
+    totalLeads: number;
+
+    /** Successfully sent count */
+    processedCount: number;
+
+    /** Verification failure count */
+    skippedCount: number;
+
+    /** Processing error count */
+    errorCount: number;
+
+    /** Timestamp of last pause */
+    pausedAt: string | null;
+
+    /** Queue position to resume from */
+    resumePosition: number | null;
+
+    /** Shortest gap between sends (milliseconds) */
+    minDelayMs: number;
+
+    /** Longest gap between sends, except Poisson breaks and off-peak stretching (milliseconds) */
+    maxDelayMs: number;
+
+    /** Custom Gaussian mean (default: midpoint) */
+    gaussianMean: number | null;
+
+    /** Custom Gaussian standard deviation */
+    gaussianStdDev: number | null;
+
+    /** How the gap between sends is drawn */
+    delayStrategy: DelayStrategyType;
+
+    /** Parameters of the delay strategy (stored as JSON string, null = defaults) */
+    delayParams: DelayParams | null;
+
+    /** If true, RISKY (catch-all) leads are sent; if false, skipped */
+    allowCatchAll: boolean;
+
+    /** Timestamp of last state transition */
+    lastActivityAt: string | null;
+
+    /** Campaign completion timestamp */
+    completedAt: string | null;
+
+    /** Follow-up steps sent after the initial template (stored as JSON string) */
+    sequenceSteps: CampaignStep[];
+
+    /** Files attached to the initial email and its variants (stored as JSON string) */
+    attachments: EmailAttachment[];
+
+    /** Allowed days/hours for sending (stored as JSON string, null = any time) */
+    sendingWindow: SendingWindow | null;
+
+    /** When a WAITING campaign should be picked up again by the scheduler */
+    nextRunAt: string | null;
+
+    /** Automatic start time; the scheduler starts QUEUED campaigns once it passes */
+    scheduledStartAt: string | null;
+
+    /** Re-run interval for recurring campaigns (null = one-off) */
+    recurrenceIntervalHours: number | null;
+
+    /** Max emails this campaign may send per UTC day (null = unlimited) */
+    dailySendCap: number | null;
+
+    /** Max emails this campaign may send per UTC hour (null = unlimited) */
+    hourlySendCap: number | null;
+
+    /** A/B variants of the initial email (stored as JSON string, empty = campaign templates) */
+    variants: CampaignVariant[];
+
+    /** Initial sends across all variants before a winner is picked (null = never) */
+    abTestSampleSize: number | null;
+
+    /** Rate that decides the winning variant */
+    abTestWinnerMetric: AbTestMetricType;
+
+    /** Send the winning variant to every remaining lead once it is picked */
+    abTestAutoWinner: boolean;
+
+    /** Hours after the sample is sent before the test is evaluated (null = AB_TEST_DEFAULTS) */
+    abTestEvaluateAfterHours: number | null;
+
+    /** Opens, clicks or replies (per the metric) every variant needs before evaluation */
+    abTestMinEvents: number | null;
+
+    /**
+     * Hours after the sample is sent after which the test is decided on the
+     * results so far, even if a variant is short of abTestMinEvents
+     * (null = AB_TEST_DEFAULTS)
+     */
+    abTestMaxWaitHours: number | null;
+
+    /** When the sample finished sending (null = still sending it) */
+    abTestSampleSentAt: string | null;
+
+    /** When the test was decided; with no winningVariantId there was no clear winner */
+    abTestDecidedAt: string | null;
+
+    /** Variant with the best rate after the sample (null = undecided or no clear winner) */
+    winningVariantId: string | null;
+
+    /** Totals of the current run across execution slices (stored as JSON string) */
+    runProgress: CampaignRunProgress | null;
+
+    /** Next lead's verifier result, kept across pauses and slices (stored as JSON string) */
+    bufferedVerification: BufferedVerification | null;
+
+    /** When the bounce/complaint circuit breaker paused the campaign (null = not tripped) */
+    circuitBreakerTrippedAt: string | null;
+
+    /** Threshold that tripped the circuit breaker */
+    circuitBreakerReason: string | null;
+
+    /** Metrics at the last acknowledgement (stored as JSON string, null = never tripped) */
+    circuitBreakerBaseline: CircuitBreakerBaseline | null;
+
+    /** When the campaign was archived (null = listed on the dashboard) */
+    archivedAt: string | null;
+}
+
+/**
+ * Campaign Run Progress
+ *
+ * A run is split into bounded execution slices that each schedule the
+ * next one. Counters carry over so the run is reported as a whole,
+ * including across pauses and WAITING periods; a recurring campaign
+ * starts a new run each interval.
+ */
+export interface CampaignRunProgress {
+    /** When the run's first slice started */
+    startedAt: string;
+
+    /** 1-based number of the slice currently executing (or handed off) */
+    slice: number;
+
+    /** Emails sent so far in this run */
+    leadsProcessed: number;
+
+    /** Leads skipped by verification so far in this run */
+    leadsSkipped: number;
+
+    /** Processing errors so far in this run */
+    leadsErrored: number;
+}
+
+/**
+ * Delay Strategy Parameters
+ *
+ * Every field is optional; unset fields fall back to DELAY_DEFAULTS
+ * (shared/delay/strategies).
+ */
+export interface DelayParams {
+    /** LOG_NORMAL: median gap in ms (default: geometric mean of the bounds) */
+    median?: number;
+
+    /** LOG_NORMAL: spread of the gap's logarithm */
+    sigma?: number;
+
+    /** POISSON_BURST: average sends per burst */
+    meanBurstSize?: number;
+
+    /** POISSON_BURST: shortest break between bursts (milliseconds) */
+    breakMinMs?: number;
+
+    /** POISSON_BURST: longest break between bursts (milliseconds) */
+    breakMaxMs?: number;
+
+    /** TIME_OF_DAY: hour full speed starts (0-23) */
+    peakStartHour?: number;
+
+    /** TIME_OF_DAY: hour full speed ends (1-24, exclusive) */
+    peakEndHour?: number;
+
+    /** TIME_OF_DAY: hours over which speed ramps up before and down after the peak */
+    rampHours?: number;
+
+    /** TIME_OF_DAY: gap multiplier away from the peak */
+    offPeakFactor?: number;
+
+    /** TIME_OF_DAY: IANA timezone of the hours (default: sending window's, else UTC) */
+    timezone?: string;
+
+    /** Replay: the n-th gap is derived from this seed instead of fresh randomness */
+    seed?: string;
+}
+
+/**
+ * Campaign Sending Window
+ *
+ * Restricts sends to business hours, e.g. Mon–Fri 09:30–17:30 Asia/Kolkata.
+ * Outside the window the orchestrator parks the campaign until it opens.
+ */
+export interface SendingWindow {
+    /** Allowed weekdays (0 = Sunday ... 6 = Saturday) */
+    days: number[];
+
+    /** Window opening time, "HH:mm" (inclusive) */
+    startTime: string;
+
+    /** Window closing time, "HH:mm" (exclusive); at or before startTime = closes the next day */
+    endTime: string;
+
+    /** IANA timezone the window is expressed in (e.g., "Asia/Kolkata") */
+    timezone: string;
+
+    /** Evaluate the window in each lead's own timezone when it can be inferred */
+    useRecipientTimezone: boolean;
+}
+
+/**
+ * Sender Identity
+ *
+ * A verified mailbox in a campaign's sender pool. Initial emails rotate
+ * across the pool by weight; follow-ups always go from the identity that
+ * sent the lead's first email.
+ */
+export interface SenderIdentity {
+    /** Verified SES mailbox */
+    email: string;
+
+    /** Display name for From header */
+    name: string;
+
+    /** Relative share of initial sends (e.g., 2 sends twice as often as 1) */
+    weight: number;
+
+    /** Max emails this mailbox may send per UTC day, across campaigns (null = unlimited) */
+    dailyCap: number | null;
+
+    /** Appended to the body after a blank line (Spintax and variables allowed) */
+    signature: string | null;
+}
+
+/**
+ * Defaults for unset A/B test evaluation settings
+ */
+export const AB_TEST_DEFAULTS = {
+    evaluateAfterHours: 24,
+    minEvents: 5,
+    maxWaitHours: 72,
+} as const;
+
+/**
+ * Campaign Variant
+ *
+ * A named alternative (A/B/C) for the initial email. Leads are split across
+ * variants by `splitPercent`; follow-up steps are shared by all variants.
+ */
+export interface CampaignVariant {
+    /** Short stable ID, recorded on the lead and in SES tags (e.g., "A") */
+    id: string;
+
+    /** Display name (e.g., "Short subject") */
+    name: string;
+
+    /** Spintax-enabled subject line template */
+    subjectTemplate: string;
+
+    /** Spintax-enabled body template, in the campaign's body format */
+    bodyTemplate: string;
+
+    /** Share of leads that receive this variant (percent, 0 = paused) */
+    splitPercent: number;
+}
+
+/**
+ * Campaign Sequence Step
+ *
+ * A follow-up email in a multi-step sequence. The campaign's own
+ * subject/body templates are step 0; each entry here is sent `waitDays`
+ * after the previous step, only to leads that have not bounced,
+ * complained, unsubscribed or replied.
+ */
+export interface CampaignStep {
+    /** Spintax-enabled subject line template */
+    subjectTemplate: string;
+
+    /** Spintax-enabled body template, in the campaign's body format */
+    bodyTemplate: string;
+
+    /** Days to wait after the previous step was sent */
+    waitDays: number;
+
+    /** Files attached to this step's email */
+    attachments?: EmailAttachment[];
+}
+
+/**
+ * Email Attachment
+ *
+ * A file in the campaign-attachments Storage bucket, attached to every
+ * email of a campaign or sequence step.
+ */
+export interface EmailAttachment {
+    /** Storage file ID */
+    fileId: string;
+
+    /** File name shown to recipients */
+    name: string;
+
+    /** MIME type (e.g., "application/pdf") */
+    mimeType: string;
+
+    /** File size before encoding */
+    sizeBytes: number;
+}
+
+/**
+ * Buffered Verification
+ *
+ * Verifier result for the next queued lead, obtained while the previous
+ * send waited out its delay. Used only if the lead is unchanged when its
+ * turn comes.
+ */
+export interface BufferedVerification {
+    leadId: string;
+
+    /** Address that was verified */
+    email: string;
+
+    /** Lead's $updatedAt when verified; any later change discards the result */
+    leadUpdatedAt: string;
+
+    /** When the verifier answered */
+    verifiedAt: string;
+
+    status: VerificationResultType;
+    isValid: boolean;
+    isRisky: boolean;
+    isGreylisted: boolean;
+    diagnosis: string;
+    errorMessage?: string;
+    retryAfterHours?: number;
+}
+
+/**
+ * Circuit Breaker Baseline
+ *
+ * Campaign metrics when a trip was acknowledged. Thresholds are judged on
+ * what was sent after it, so a resumed campaign isn't paused again for the
+ * bounces that tripped it.
+ */
+export interface CircuitBreakerBaseline {
+    acknowledgedAt: string;
+    emailsSent: number;
+    hardBounces: number;
+    complaints: number;
+}
+
+/**
+ * Campaign Create Input
+ *
+ * Fields required when creating a new campaign.
+ */
+export interface CampaignCreateInput {
+    name: string;
+    subjectTemplate: string;
+    bodyTemplate: string;
+    bodyFormat?: BodyFormatType;
+    senderEmail: string;
+    senderName: string;
+    senderPool?: SenderIdentity[];
+    replyTo?: string | null;
+    customHeaders?: Record<string, string>;
+    sesConfigurationSet?: string | null;
+    emailTags?: Record<string, string>;
+    totalLeads: number;
+    minDelayMs: number;
+    maxDelayMs: number;
+    allowCatchAll?: boolean;
+    gaussianMean?: number;
+    gaussianStdDev?: number;
+    delayStrategy?: DelayStrategyType;
+    delayParams?: DelayParams | null;
+    sequenceSteps?: CampaignStep[];
+    attachments?: EmailAttachment[];
+    sendingWindow?: SendingWindow | null;
+    scheduledStartAt?: string | null;
+    recurrenceIntervalHours?: number | null;
+    dailySendCap?: number | null;
+    hourlySendCap?: number | null;
+    variants?: CampaignVariant[];
+    abTestSampleSize?: number | null;
+    abTestWinnerMetric?: AbTestMetricType;
+    abTestAutoWinner?: boolean;
+    abTestEvaluateAfterHours?: number | null;
+    abTestMinEvents?: number | null;
+    abTestMaxWaitHours?: number | null;
+}
+
+/**
+ * Campaign Update Input
+ *
+ * Fields that can be updated on an existing campaign.
+ */
+export interface CampaignUpdateInput {
+    name?: string;
+    status?: CampaignStatusType;
+    subjectTemplate?: string;
+    bodyTemplate?: string;
+    bodyFormat?: BodyFormatType;
+    senderEmail?: string;
+    senderName?: string;
+    senderPool?: SenderIdentity[];
+    replyTo?: string | null;
+    customHeaders?: Record<string, string>;
+    sesConfigurationSet?: string | null;
+    emailTags?: Record<string, string>;
+    totalLeads?: number;
+    processedCount?: number;
+    skippedCount?: number;
+    errorCount?: number;
+    pausedAt?: string | null;
+    resumePosition?: number | null;
+    minDelayMs?: number;
+    maxDelayMs?: number;
+    gaussianMean?: number | null;
+    gaussianStdDev?: number | null;
+    delayStrategy?: DelayStrategyType;
+    delayParams?: DelayParams | null;
+    allowCatchAll?: boolean;
+    lastActivityAt?: string | null;
+    completedAt?: string | null;
+    sequenceSteps?: CampaignStep[];
+    attachments?: EmailAttachment[];
+    sendingWindow?: SendingWindow | null;
+    nextRunAt?: string | null;
+    scheduledStartAt?: string | null;
+    recurrenceIntervalHours?: number | null;
+    dailySendCap?: number | null;
+    hourlySendCap?: number | null;
+    variants?: CampaignVariant[];
+    abTestSampleSize?: number | null;
+    abTestWinnerMetric?: AbTestMetricType;
+    abTestAutoWinner?: boolean;
+    abTestEvaluateAfterHours?: number | null;
+    abTestMinEvents?: number | null;
+    abTestMaxWaitHours?: number | null;
+    abTestSampleSentAt?: string | null;
+    abTestDecidedAt?: string | null;
+    winningVariantId?: string | null;
+    runProgress?: CampaignRunProgress | null;
+    bufferedVerification?: BufferedVerification | null;
+    circuitBreakerTrippedAt?: string | null;
+    circuitBreakerReason?: string | null;
+    circuitBreakerBaseline?: CircuitBreakerBaseline | null;
+    archivedAt?: string | null;
+}
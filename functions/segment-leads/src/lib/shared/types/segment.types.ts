@@ -0,0 +1,92 @@
+import type { SegmentMatchType } from "../constants/status.constants";
+
+/**
+ * Lead attributes a segment can filter on
+ */
+export type SegmentField =
+    | "leadType"
+    | "companyName"
+    | "emailDomain"
+    | "status"
+    | "importBatchId"
+    | "createdAt"
+    | "tags"
+    | "verificationResult";
+
+/**
+ * Comparison applied to a field (see SEGMENT_FIELD_OPERATORS)
+ */
+export type SegmentOperator = "equals" | "notEquals" | "contains" | "before" | "after";
+
+/**
+ * Operators each field supports
+ */
+export const SEGMENT_FIELD_OPERATORS: Record<SegmentField, SegmentOperator[]> = {
+    leadType: ["equals", "notEquals"],
+    companyName: ["equals", "contains"],
+    emailDomain: ["equals"],
+    status: ["equals", "notEquals"],
+    importBatchId: ["equals"],
+    createdAt: ["before", "after"],
+    tags: ["contains"],
+    verificationResult: ["equals", "notEquals"],
+};
+
+/**
+ * A single segment condition, e.g. emailDomain equals "tcs.com"
+ */
+export interface SegmentCondition {
+    field: SegmentField;
+    operator: SegmentOperator;
+
+    /** Compared value (ISO date for `createdAt`) */
+    value: string;
+}
+
+/**
+ * Segment Definition
+ *
+ * Conditions and how they combine. Only leads not assigned to any
+ * campaign and not unsubscribed are ever matched.
+ */
+export interface SegmentDefinition {
+    match: SegmentMatchType;
+    conditions: SegmentCondition[];
+}
+
+/**
+ * Segment Document Interface
+ *
+ * A saved segment. Re-applying it assigns the leads that match now,
+ * e.g. leads imported since it was last applied.
+ */
+export interface Segment extends SegmentDefinition {
+    /** Appwrite document ID */
+    $id: string;
+
+    /** Document creation timestamp */
+    $createdAt: string;
+
+    /** Document last update timestamp */
+    $updatedAt: string;
+
+    /** Display name */
+    name: string;
+
+    /** Campaign matching leads are assigned to */
+    campaignId: string;
+
+    /** When the segment was last applied (null = never) */
+    lastAppliedAt: string | null;
+
+    /** Leads assigned the last time it was applied */
+    lastAssignedCount: number | null;
+}
+
+/**
+ * Segment Create Input
+ */
+export interface SegmentCreateInput extends SegmentDefinition {
+    name: string;
+    campaignId: string;
+}
@@ -0,0 +1,315 @@
+/**
+ * Segment Leads Function
+ *
+ * Counts the leads a segment matches and assigns them to a campaign.
+ * Uses server-side API key for proper authorization.
+ *
+ * API:
+ *   POST / - Run a segment action
+ *   Body:
+ *     { action: "count", segment: { match, conditions } }
+ *     { action: "assign", campaignId: string, segment: { match, conditions } }
+ *     { action: "assign", segmentId: string } - re-apply a saved segment
+ *
+ * Only leads that are not in a campaign and not unsubscribed match, so
+ * re-applying a saved segment picks up just the leads that arrived since.
+ * Leads keep their status when a deleted campaign releases them, so only
+ * PENDING_IMPORT leads match unless the segment filters on status itself;
+ * leads that must never be sent again are excluded either way.
+ * Assigned leads are appended to the campaign's queue.
+ */
+
+import { Client, Databases, Query } from "node-appwrite";
+import { CollectionId, DATABASE_ID } from "./lib/shared/constants/collection.constants";
+import { EventType } from "./lib/shared/constants/event.constants";
+import {
+    CampaignStatus,
+    LeadStatus,
+    SegmentMatch,
+} from "./lib/shared/constants/status.constants";
+import {
+    SEGMENT_FIELD_OPERATORS,
+    type SegmentCondition,
+    type SegmentDefinition,
+} from "./lib/shared/types/segment.types";
+import {
+    getCampaignById,
+    updateCampaign,
+} from "./lib/shared/database/repositories/campaign.repository";
+import {
+    assignLeadsToCampaign,
+    getLastQueuePosition,
+} from "./lib/shared/database/repositories/lead.repository";
+import { logInfo } from "./lib/shared/database/repositories/log.repository";
+import {
+    getSegmentById,
+    markSegmentApplied,
+} from "./lib/shared/database/repositories/segment.repository";
+
+interface SegmentRequest {
+    action: "count" | "assign";
+    segment?: SegmentDefinition;
+    campaignId?: string;
+    segmentId?: string;
+}
+
+interface AppwriteContext {
+    req: {
+        body: string;
+        headers: Record<string, string>;
+        method: string;
+    };
+    res: {
+        json: (data: unknown, statusCode?: number) => unknown;
+    };
+    log: (message: string) => void;
+    error: (message: string) => void;
+}
+
+/** Appwrite caps the number of queries per request */
+const MAX_CONDITIONS = 20;
+
+/** Leads assigned per execution; apply again to assign the rest */
+const MAX_ASSIGN_PER_RUN = 5000;
+
+const PAGE_SIZE = 100;
+
+/**
+ * Campaigns whose queue may still grow
+ */
+const ASSIGNABLE_STATUSES: string[] = [
+    CampaignStatus.DRAFT,
+    CampaignStatus.QUEUED,
+    CampaignStatus.RUNNING,
+    CampaignStatus.WAITING,
+    CampaignStatus.PAUSED,
+];
+
+/**
+ * Lead attribute behind each segment field
+ */
+const FIELD_ATTRIBUTES: Record<Exclude<SegmentCondition["field"], "emailDomain">, string> = {
+    leadType: "leadType",
+    companyName: "companyName",
+    status: "status",
+    importBatchId: "importBatchId",
+    createdAt: "$createdAt",
+    tags: "tags",
+    verificationResult: "verificationResult",
+};
+
+/**
+ * Translate one condition into an Appwrite query.
+ *
+ * @returns null if the condition is malformed
+ */
+function conditionToQuery(condition: SegmentCondition): string | null {
+    const { field, operator } = condition;
+    const value = condition.value?.trim();
+    if (!value || !SEGMENT_FIELD_OPERATORS[field]?.includes(operator)) return null;
+
+    if (field === "emailDomain") {
+        return Query.endsWith("email", `@${value.toLowerCase().replace(/^@/, "")}`);
+    }
+
+    const attribute = FIELD_ATTRIBUTES[field];
+    switch (operator) {
+        case "equals":
+            return Query.equal(attribute, value);
+        case "notEquals":
+            return Query.notEqual(attribute, value);
+        case "contains":
+            return Query.contains(attribute, field === "tags" ? [value.toLowerCase()] : value);
+        case "before":
+        case "after": {
+            const date = new Date(value);
+            if (Number.isNaN(date.getTime())) return null;
+            return operator === "before"
+                ? Query.lessThan(attribute, date.toISOString())
+                : Query.greaterThanEqual(attribute, date.toISOString());
+        }
+        default:
+            return null;
+    }
+}
+
+/**
+ * Lead statuses a segment never matches, even when filtering on status.
+ * Leads already emailed by a deleted campaign can match; assigning them
+ * resets their sequence so they start over with the initial email.
+ */
+const EXCLUDED_LEAD_STATUSES: string[] = [
+    LeadStatus.INVALID,
+    LeadStatus.BOUNCED,
+    LeadStatus.COMPLAINED,
+    LeadStatus.UNSUBSCRIBED,
+    LeadStatus.SKIPPED,
+    LeadStatus.ERROR,
+];
+
+/**
+ * Build the lead queries for a segment.
+ *
+ * @returns Queries, or a validation error
+ */
+function buildSegmentQueries(segment: SegmentDefinition | undefined): string[] | string {
+    if (!segment || !Array.isArray(segment.conditions)) return "segment is required";
+    if (segment.match !== SegmentMatch.ALL && segment.match !== SegmentMatch.ANY) {
+        return "segment.match must be ALL or ANY";
+    }
+    if (segment.conditions.length > MAX_CONDITIONS) {
+        return `A segment can have at most ${MAX_CONDITIONS} conditions`;
+    }
+
+    const conditionQueries: string[] = [];
+    for (const condition of segment.conditions) {
+        const query = conditionToQuery(condition);
+        if (!query) {
+            const { field, operator, value } = condition;
+            return `Invalid condition: ${field} ${operator} "${value ?? ""}"`;
+        }
+        conditionQueries.push(query);
+    }
+
+    const queries = [Query.isNull("campaignId"), Query.equal("isUnsubscribed", false)];
+    if (segment.conditions.some((condition) => condition.field === "status")) {
+        queries.push(...EXCLUDED_LEAD_STATUSES.map((status) => Query.notEqual("status", status)));
+    } else {
+        queries.push(Query.equal("status", LeadStatus.PENDING_IMPORT));
+    }
+    if (segment.match === SegmentMatch.ANY && conditionQueries.length > 1) {
+        queries.push(Query.or(conditionQueries));
+    } else {
+        queries.push(...conditionQueries);
+    }
+
+    return queries;
+}
+
+export default async function main(context: AppwriteContext): Promise<unknown> {
+    const { req, res, log, error: logErr } = context;
+
+    // Get endpoint - fix localhost for Docker internal networking
+    let endpoint = process.env.APPWRITE_FUNCTION_API_ENDPOINT || "";
+    if (endpoint.includes("localhost") || endpoint.includes("127.0.0.1")) {
+        endpoint = endpoint.replace("localhost", "appwrite").replace("127.0.0.1", "appwrite");
+    }
+
+    // Initialize Appwrite client with API key
+    const client = new Client()
+        .setEndpoint(endpoint)
+        .setProject(process.env.APPWRITE_FUNCTION_PROJECT_ID || "")
+        .setKey(process.env.APPWRITE_API_KEY || "")
+        .setSelfSigned(true);
+
+    const databases = new Databases(client);
+
+    try {
+        // Parse request body
+        let request: SegmentRequest;
+        try {
+            request = JSON.parse(req.body || "{}");
+        } catch {
+            return res.json({ success: false, message: "Invalid JSON body" }, 400);
+        }
+
+        if (request.action !== "count" && request.action !== "assign") {
+            return res.json({ success: false, message: `Unknown action: ${request.action}` }, 400);
+        }
+
+        // A saved segment brings its own definition and campaign
+        let { segment, campaignId } = request;
+        if (request.segmentId) {
+            const saved = await getSegmentById(client, request.segmentId);
+            if (!saved) {
+                return res.json({ success: false, message: "Segment not found" }, 404);
+            }
+            segment = { match: saved.match, conditions: saved.conditions };
+            campaignId = saved.campaignId;
+        }
+
+        const queries = buildSegmentQueries(segment);
+        if (typeof queries === "string") {
+            return res.json({ success: false, message: queries }, 400);
+        }
+
+        if (request.action === "count") {
+            const result = await databases.listDocuments(DATABASE_ID, CollectionId.LEADS, [
+                ...queries,
+                Query.limit(1),
+            ]);
+            return res.json({ success: true, count: result.total });
+        }
+
+        if (!segment?.conditions.length) {
+            return res.json(
+                { success: false, message: "Add at least one condition before assigning" },
+                400
+            );
+        }
+
+        if (!campaignId) {
+            return res.json({ success: false, message: "campaignId is required" }, 400);
+        }
+
+        const campaign = await getCampaignById(client, campaignId);
+        if (!campaign) {
+            return res.json({ success: false, message: "Campaign not found" }, 404);
+        }
+        if (campaign.archivedAt || !ASSIGNABLE_STATUSES.includes(campaign.status)) {
+            const state = campaign.archivedAt ? "archived" : campaign.status;
+            return res.json(
+                { success: false, message: `Leads can't be added to a ${state} campaign` },
+                409
+            );
+        }
+
+        log(`Assigning segment to campaign ${campaign.$id}`);
+
+        let nextPosition = (await getLastQueuePosition(client, campaign.$id)) + 1;
+        let assigned = 0;
+        let hasMore = true;
+
+        // Assigned leads drop out of the query, so always read the first page
+        while (hasMore && assigned < MAX_ASSIGN_PER_RUN) {
+            const page = await databases.listDocuments(DATABASE_ID, CollectionId.LEADS, [
+                ...queries,
+                Query.orderAsc("$createdAt"),
+                Query.limit(Math.min(PAGE_SIZE, MAX_ASSIGN_PER_RUN - assigned)),
+            ]);
+
+            const leadIds = page.documents.map((doc) => doc.$id);
+            await assignLeadsToCampaign(client, leadIds, campaign.$id, nextPosition);
+            nextPosition += leadIds.length;
+            assigned += leadIds.length;
+            hasMore = page.total > leadIds.length;
+        }
+
+        if (assigned > 0) {
+            await updateCampaign(client, campaign.$id, {
+                totalLeads: (campaign.totalLeads || 0) + assigned,
+            });
+        }
+        if (request.segmentId) {
+            await markSegmentApplied(client, request.segmentId, assigned);
+        }
+
+        await logInfo(
+            client,
+            EventType.SEGMENT_ASSIGNED,
+            `Assigned ${assigned} leads to campaign "${campaign.name}"`,
+            {
+                campaignId: campaign.$id,
+                metadata: { segmentId: request.segmentId ?? null, assigned, hasMore },
+            }
+        );
+
+        log(`Assigned ${assigned} leads to campaign ${campaign.$id}`);
+
+        return res.json({ success: true, assigned, hasMore });
+    } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        logErr(`Segment leads error: ${message}`);
+        return res.json({ success: false, message }, 500);
+    }
+}
@@ -15,6 +15,8 @@ export const CollectionId = {
     LOGS: 'logs',
     METRICS: 'metrics',
     SETTINGS: 'settings',
+    VARIANT_STATS: 'variant_stats',
+    SEND_JOURNAL: 'send_journal',
 } as const;
 
 // Buckets
@@ -1,53 +1,89 @@
 /**
- * Event Constants
+ * Event Type Constants
  *
- * Defines event types for the immutable Event Log (Audit Trail).
- * These events act as a system-wide history of significant actions.
+ * Classification of all events logged to the audit trail.
+ * Each event represents an atomic action in the system.
  */
-
 export const EventType = {
-    // Campaign Events
-    CAMPAIGN_CREATED: 'campaign.created',
-    CAMPAIGN_STARTED: 'campaign.started',
-    CAMPAIGN_PAUSED: 'campaign.paused',
-    CAMPAIGN_RESUMED: 'campaign.resumed',
-    CAMPAIGN_ABORTING: 'campaign.aborting',
-    CAMPAIGN_ABORTED: 'campaign.aborted',
-    CAMPAIGN_COMPLETED: 'campaign.completed',
-    CAMPAIGN_ERROR: 'campaign.error',
-
-    // Lead Events
-    LEAD_IMPORTED: 'lead.imported',
-    LEAD_UPDATED: 'lead.updated',
-    LEAD_DELETED: 'lead.deleted',
-
-    // Email Pipeline Events
-    VERIFICATION_PASSED: 'email.verification.passed',
-    VERIFICATION_FAILED: 'email.verification.failed',
-    VERIFICATION_RISKY: 'email.verification.risky',
-    EMAIL_SENDING: 'email.sending',
-    EMAIL_SENT: 'email.sent',
-    EMAIL_FAILED: 'email.failed',
-
-    // SES Delivery/Tracking Events
-    EMAIL_DELIVERED: 'email.delivered',
-    EMAIL_REJECTED: 'email.rejected',
-    EMAIL_DELAYED: 'email.delayed',
-    EMAIL_OPENED: 'email.opened',
-    EMAIL_CLICKED: 'email.clicked',
-    RENDERING_FAILURE: 'email.rendering_failure',
-    SUBSCRIPTION_CHANGED: 'email.subscription_changed',
-
-    // Post-Send Events
-    BOUNCE_RECEIVED: 'email.bounce',
-    COMPLAINT_RECEIVED: 'email.complaint',
-    UNSUBSCRIBED: 'email.unsubscribed',
-
-    // System Events
-    SYSTEM_STARTUP: 'system.startup',
-    SYSTEM_SHUTDOWN: 'system.shutdown',
-    SYSTEM_ERROR: 'system.error',
-    SYSTEM_RECOVERY: 'system.recovery',
+    // Lead lifecycle events
+    LEAD_IMPORTED: "LEAD_IMPORTED",
+    LEAD_QUEUED: "LEAD_QUEUED",
+    SEGMENT_ASSIGNED: "SEGMENT_ASSIGNED",
+    LEAD_SKIPPED: "LEAD_SKIPPED",
+    LEAD_UNSUBSCRIBED: "LEAD_UNSUBSCRIBED",
+
+    // Verification events
+    VERIFICATION_STARTED: "VERIFICATION_STARTED",
+    VERIFICATION_PASSED: "VERIFICATION_PASSED",
+    VERIFICATION_FAILED: "VERIFICATION_FAILED",
+    VERIFICATION_RISKY: "VERIFICATION_RISKY",
+
+    // Email sending events
+    EMAIL_SENDING: "EMAIL_SENDING",
+    EMAIL_SENT: "EMAIL_SENT",
+    EMAIL_FAILED: "EMAIL_FAILED",
+    LEAD_RETRY_SCHEDULED: "LEAD_RETRY_SCHEDULED",
+
+    // SES delivery/tracking events (from SQS)
+    EMAIL_DELIVERED: "EMAIL_DELIVERED",
+    EMAIL_REJECTED: "EMAIL_REJECTED",
+    EMAIL_DELAYED: "EMAIL_DELAYED",
+    EMAIL_OPENED: "EMAIL_OPENED",
+    EMAIL_CLICKED: "EMAIL_CLICKED",
+    RENDERING_FAILURE: "RENDERING_FAILURE",
+    SUBSCRIPTION_CHANGED: "SUBSCRIPTION_CHANGED",
+
+    // Feedback events (from AWS SQS)
+    BOUNCE_RECEIVED: "BOUNCE_RECEIVED",
+    COMPLAINT_RECEIVED: "COMPLAINT_RECEIVED",
+
+    // Campaign lifecycle events
+    CAMPAIGN_CREATED: "CAMPAIGN_CREATED",
+    CAMPAIGN_STARTED: "CAMPAIGN_STARTED",
+    CAMPAIGN_PAUSED: "CAMPAIGN_PAUSED",
+    CAMPAIGN_RESUMED: "CAMPAIGN_RESUMED",
+    CAMPAIGN_ABORTING: "CAMPAIGN_ABORTING",
+    CAMPAIGN_ABORTED: "CAMPAIGN_ABORTED",
+    CAMPAIGN_WAITING: "CAMPAIGN_WAITING",
+    CAMPAIGN_CONTINUED: "CAMPAIGN_CONTINUED",
+    CAMPAIGN_COMPLETED: "CAMPAIGN_COMPLETED",
+    CAMPAIGN_ERROR: "CAMPAIGN_ERROR",
+    CAMPAIGN_DRY_RUN_COMPLETED: "CAMPAIGN_DRY_RUN_COMPLETED",
+    CAMPAIGN_ARCHIVED: "CAMPAIGN_ARCHIVED",
+    CAMPAIGN_RESTORED: "CAMPAIGN_RESTORED",
+    CAMPAIGN_DELETED: "CAMPAIGN_DELETED",
+    CIRCUIT_BREAKER_ACKNOWLEDGED: "CIRCUIT_BREAKER_ACKNOWLEDGED",
+
+    // Sender domain warm-up events
+    WARMUP_ADVANCED: "WARMUP_ADVANCED",
+    WARMUP_HELD: "WARMUP_HELD",
+
+    // A/B test events
+    AB_TEST_WINNER_SELECTED: "AB_TEST_WINNER_SELECTED",
+    AB_TEST_NO_CLEAR_WINNER: "AB_TEST_NO_CLEAR_WINNER",
+
+    // System events
+    SYSTEM_STARTUP: "SYSTEM_STARTUP",
+    SYSTEM_RECOVERY: "SYSTEM_RECOVERY",
+    SYSTEM_ERROR: "SYSTEM_ERROR",
+    LOCK_ACQUIRED: "LOCK_ACQUIRED",
+    LOCK_RELEASED: "LOCK_RELEASED",
+    LOCK_BLOCKED: "LOCK_BLOCKED",
+    SCHEDULER_RUN: "SCHEDULER_RUN",
 } as const;
 
 export type EventTypeValue = (typeof EventType)[keyof typeof EventType];
+
+/**
+ * Orchestrator Action Constants
+ *
+ * Actions that can be sent to the orchestrator function.
+ */
+export const OrchestratorAction = {
+    START: "START",
+    PAUSE: "PAUSE",
+    RESUME: "RESUME",
+    ABORT: "ABORT",
+} as const;
+
+export type OrchestratorActionType = (typeof OrchestratorAction)[keyof typeof OrchestratorAction];
@@ -73,6 +73,8 @@ export const LeadStatus = {
     ERROR: 'error',
     /** User unsubscribed */
     UNSUBSCRIBED: 'unsubscribed',
+    /** Transient failure, waiting to be requeued */
+    RETRYING: 'retrying',
 } as const;
 
 export type LeadStatusValue = (typeof LeadStatus)[keyof typeof LeadStatus];
@@ -112,3 +114,16 @@ export const MetricsScope = {
 } as const;
 
 export type MetricsScopeValue = (typeof MetricsScope)[keyof typeof MetricsScope];
+
+/**
+ * Send Journal Status
+ */
+export const SendJournalStatus = {
+    PENDING: 'PENDING',
+    SENT: 'SENT',
+    CONFIRMED: 'CONFIRMED',
+    FAILED: 'FAILED',
+    ROLLED_BACK: 'ROLLED_BACK',
+} as const;
+
+export type SendJournalStatusType = (typeof SendJournalStatus)[keyof typeof SendJournalStatus];
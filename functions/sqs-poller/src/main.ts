@@ -11,18 +11,22 @@
  * Each event is:
  * 1. Logged to the audit trail
  * 2. Used to update lead status (if applicable)
- * 3. Used to increment metrics
+ * 3. Used to increment metrics (and A/B variant results, via the variant_id tag)
+ *    and, for Send events, to confirm the send journal entry (idempotency_key tag)
  * 4. Deleted from SQS after processing
  */
 
 import { Client } from 'node-appwrite';
 import { EventType } from './lib/shared/constants/event.constants';
-import { LeadStatus } from './lib/shared/constants/status.constants';
-import { findLeadBySesMessageId, updateLead } from './lib/shared/database/repositories/lead.repository';
+import { LeadStatus, SendJournalStatus } from './lib/shared/constants/status.constants';
+import { findLeadBySesMessageId, getLeadById, updateLead } from './lib/shared/database/repositories/lead.repository';
 import { logError, logInfo, logWarn } from './lib/shared/database/repositories/log.repository';
 import { incrementCampaignMetrics, incrementGlobalMetrics } from './lib/shared/database/repositories/metrics.repository';
+import { completeJournalEntry, getJournalEntry } from './lib/shared/database/repositories/send-journal.repository';
 import { getSqsConfig } from './lib/shared/database/repositories/settings.repository';
+import { incrementVariantStats } from './lib/shared/database/repositories/variant-stats.repository';
 import { deleteMessage, pollMessages, type SesNotification } from './lib/shared/sqs-client/client';
+import type { VariantStatsIncrementInput } from './lib/shared/types/variant-stats.types';
 
 /**
  * Appwrite Function context
@@ -190,7 +194,7 @@ async function processNotification(
  * Handle Send event - email accepted by SES for delivery.
  */
 async function handleSend(client: Client, notification: SesNotification): Promise<void> {
-    const { messageId, recipient, leadId, campaignId, rawMessage } = notification;
+    const { messageId, recipient, leadId, campaignId, idempotencyKey, rawMessage } = notification;
 
     await logInfo(client, EventType.EMAIL_SENT,
         `Email accepted by SES: ${recipient}`, {
@@ -199,6 +203,52 @@ async function handleSend(client: Client, notification: SesNotification): Promis
         sesResponse: { messageId },
         sqsMessage: rawMessage,
     });
+
+    if (!idempotencyKey) return;
+
+    // Confirm the journal entry so send recovery knows SES has the email
+    const entry = await getJournalEntry(client, idempotencyKey);
+    if (!entry) return;
+
+    await completeJournalEntry(client, idempotencyKey, {
+        status: SendJournalStatus.CONFIRMED,
+        sesMessageId: messageId,
+    });
+
+    if (entry.status !== SendJournalStatus.ROLLED_BACK) return;
+
+    // Recovery gave up on this attempt and requeued the lead. A lead still
+    // waiting to send that step goes back to SENDING, stuck since the
+    // attempt started, so the next recovery pass marks it SENT from the
+    // now confirmed entry instead of it being emailed again.
+    const lead = await getLeadById(client, entry.leadId);
+    const nextStep = lead?.sequenceStep === null || lead?.sequenceStep === undefined
+        ? 0
+        : lead.sequenceStep + 1;
+    const isAwaitingStep = lead?.campaignId === entry.campaignId && nextStep === entry.sequenceStep;
+
+    if (lead && isAwaitingStep && lead.status === LeadStatus.QUEUED) {
+        await updateLead(client, lead.$id, {
+            status: LeadStatus.SENDING,
+            processingStartedAt: entry.$createdAt,
+        });
+        await logWarn(client, EventType.SYSTEM_RECOVERY,
+            `SES accepted a send that was rolled back; ${recipient} handed back to recovery to be marked sent`, {
+            leadId: lead.$id,
+            campaignId: entry.campaignId,
+            metadata: { idempotencyKey, messageId },
+        });
+        return;
+    }
+
+    // Already re-sent, or another attempt is in flight (if that one dies,
+    // recovery finishes the lead from this confirmed entry)
+    await logWarn(client, EventType.SYSTEM_RECOVERY,
+        `SES accepted a send that was rolled back; ${recipient} may be emailed twice`, {
+        leadId,
+        campaignId,
+        metadata: { idempotencyKey, messageId, leadStatus: lead?.status ?? null },
+    });
 }
 
 /**
@@ -228,6 +278,7 @@ async function handleDelivery(client: Client, notification: SesNotification): Pr
     if (lead?.campaignId || campaignId) {
         await incrementCampaignMetrics(client, lead?.campaignId || campaignId!, { totalDelivered: 1 });
     }
+    await recordVariantEvent(client, notification, { delivered: 1 });
 }
 
 /**
@@ -269,6 +320,7 @@ async function handleBounce(client: Client, notification: SesNotification): Prom
             totalSoftBounces: isHardBounce ? 0 : 1,
         });
     }
+    await recordVariantEvent(client, notification, { bounces: 1 });
 }
 
 /**
@@ -299,6 +351,7 @@ async function handleComplaint(client: Client, notification: SesNotification): P
     if (lead?.campaignId || campaignId) {
         await incrementCampaignMetrics(client, lead?.campaignId || campaignId!, { totalComplaints: 1 });
     }
+    await recordVariantEvent(client, notification, { complaints: 1 });
 }
 
 /**
@@ -370,6 +423,7 @@ async function handleOpen(client: Client, notification: SesNotification): Promis
     if (campaignId) {
         await incrementCampaignMetrics(client, campaignId, { totalOpens: 1 });
     }
+    await recordVariantEvent(client, notification, { opens: 1 });
 }
 
 /**
@@ -391,6 +445,7 @@ async function handleClick(client: Client, notification: SesNotification): Promi
     if (campaignId) {
         await incrementCampaignMetrics(client, campaignId, { totalClicks: 1 });
     }
+    await recordVariantEvent(client, notification, { clicks: 1 });
 }
 
 /**
@@ -436,3 +491,18 @@ async function handleRenderingFailure(client: Client, notification: SesNotificat
         await incrementCampaignMetrics(client, campaignId, { totalErrors: 1 });
     }
 }
+
+/**
+ * Count an event towards the A/B variant that produced the email.
+ * Only initial emails of campaigns with variants carry the variant_id tag.
+ */
+async function recordVariantEvent(
+    client: Client,
+    notification: SesNotification,
+    increments: VariantStatsIncrementInput
+): Promise<void> {
+    const { campaignId, variantId } = notification;
+    if (!campaignId || !variantId) return;
+
+    await incrementVariantStats(client, campaignId, variantId, increments);
+}
@@ -69,6 +69,8 @@ export const LeadStatus = {
     ERROR: 'error',
     /** User unsubscribed */
     UNSUBSCRIBED: 'unsubscribed',
+    /** Transient failure, waiting to be requeued */
+    RETRYING: 'retrying',
 } as const;
 
 export type LeadStatusValue = (typeof LeadStatus)[keyof typeof LeadStatus];
@@ -1,14 +1,17 @@
 /**
  * Unsubscribe Lead Function — Main Entry Point
  *
- * This Appwrite Function handles unsubscribe link clicks.
- * When a user clicks the unsubscribe link in an email, this function:
+ * This Appwrite Function handles unsubscribe requests, both link clicks
+ * and RFC 8058 one-click POSTs sent by mailbox providers (Gmail, Yahoo)
+ * from the List-Unsubscribe header. For either, this function:
  * 1. Validates the HMAC token
  * 2. Marks the lead as unsubscribed
- * 3. Returns a confirmation page
+ * 3. Returns a confirmation page (GET) or plain-text acknowledgement (POST)
  *
- * URL Format:
- *   GET /v1/functions/{functionId}/executions?leadId={id}&token={hmac}
+ * URL Format (the function's own domain, UNSUBSCRIBE_FUNCTION_URL in the
+ * orchestrator, so the query and body reach it as sent):
+ *   GET  https://{function-domain}/?leadId={id}&token={hmac}
+ *   POST (same URL), body: List-Unsubscribe=One-Click
  */
 
 import { Client } from 'node-appwrite';
@@ -29,6 +32,7 @@ interface AppwriteContext {
 		query: Record<string, string>;
 		headers: Record<string, string>;
 		method: string;
+		body: string;
 	};
 	res: {
 		send: (data: string, statusCode?: number, headers?: Record<string, string>) => unknown;
@@ -38,11 +42,42 @@ interface AppwriteContext {
 	error: (message: string) => void;
 }
 
+/**
+ * Result of an unsubscribe request
+ */
+type UnsubscribeOutcome =
+	| { success: true; alreadyUnsubscribed: boolean }
+	| { success: false; statusCode: number; message: string };
+
+/**
+ * Form body of an RFC 8058 one-click request
+ */
+const ONE_CLICK_BODY = 'List-Unsubscribe=One-Click';
+
 /**
  * Main entry point for the Unsubscribe Function.
  */
 export default async function main(context: AppwriteContext): Promise<unknown> {
 	const { req, res, log, error: logErr } = context;
+	const isOneClick = req.method === 'POST';
+
+	const respond = (outcome: UnsubscribeOutcome): unknown => {
+		// Mailbox providers only read the status of a one-click POST
+		if (isOneClick) {
+			const text = outcome.success ? 'Unsubscribed' : outcome.message;
+			return res.send(text, outcome.success ? 200 : outcome.statusCode, {
+				'Content-Type': 'text/plain',
+			});
+		}
+
+		return outcome.success
+			? res.send(generateSuccessPage(outcome.alreadyUnsubscribed), 200, {
+					'Content-Type': 'text/html',
+				})
+			: res.send(generateErrorPage(outcome.message), outcome.statusCode, {
+					'Content-Type': 'text/html',
+				});
+	};
 
 	// Get endpoint - fix localhost for Docker internal networking
 	let endpoint = process.env.APPWRITE_FUNCTION_API_ENDPOINT || '';
@@ -58,81 +93,95 @@ export default async function main(context: AppwriteContext): Promise<unknown> {
 		.setSelfSigned(true);
 
 	try {
-		// Extract query parameters
-		const leadId = req.query.leadId;
-		const token = req.query.token;
+		// The link's query parameters; a one-click POST may repeat them in its form body
+		const form = new URLSearchParams(isOneClick ? req.body || '' : '');
+		const leadId = req.query.leadId || form.get('leadId');
+		const token = req.query.token || form.get('token');
 
-		// Validate parameters
-		if (!leadId || !token) {
-			return res.send(generateErrorPage('Missing required parameters'), 400, {
-				'Content-Type': 'text/html',
-			});
-		}
-
-		// Get settings for token verification
-		const settings = await getSettings(client);
-		if (!settings) {
-			logErr('Settings not found');
-			return res.send(generateErrorPage('Service configuration error'), 500, {
-				'Content-Type': 'text/html',
+		if (isOneClick && form.get('List-Unsubscribe') !== 'One-Click') {
+			return respond({
+				success: false,
+				statusCode: 400,
+				message: `One-click requests must send ${ONE_CLICK_BODY}`,
 			});
 		}
 
-		// Verify token
-		const isValid = verifyUnsubscribeToken(leadId, token, settings.unsubscribeTokenSecret);
-		if (!isValid) {
-			await logWarn(
-				client,
-				EventType.SYSTEM_ERROR,
-				`Invalid unsubscribe token for lead ${leadId}`,
-				{ leadId }
-			);
-			return res.send(generateErrorPage('Invalid or expired unsubscribe link'), 403, {
-				'Content-Type': 'text/html',
-			});
-		}
-
-		// Get lead
-		const lead = await getLeadById(client, leadId);
-		if (!lead) {
-			return res.send(generateErrorPage('Lead not found'), 404, {
-				'Content-Type': 'text/html',
-			});
+		// Validate parameters
+		if (!leadId || !token) {
+			return respond({ success: false, statusCode: 400, message: 'Missing required parameters' });
 		}
 
-		// Check if already unsubscribed
-		if (lead.isUnsubscribed) {
-			log(`Lead ${leadId} is already unsubscribed`);
-			return res.send(generateSuccessPage(true), 200, {
-				'Content-Type': 'text/html',
-			});
-		}
+		return respond(await unsubscribeLead(client, leadId, token, isOneClick, log, logErr));
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		logErr(`Unsubscribe error: ${message}`);
 
-		// Mark as unsubscribed
-		await updateLead(client, leadId, {
-			isUnsubscribed: true,
-			unsubscribedAt: new Date().toISOString(),
-			status: LeadStatus.UNSUBSCRIBED,
+		return respond({
+			success: false,
+			statusCode: 500,
+			message: 'An error occurred. Please try again later.',
 		});
+	}
+}
 
-		await logInfo(client, EventType.LEAD_UNSUBSCRIBED, `Lead ${lead.email} unsubscribed`, {
-			leadId,
-			campaignId: lead.campaignId || undefined,
-		});
+/**
+ * Verify the token and mark the lead as unsubscribed.
+ */
+async function unsubscribeLead(
+	client: Client,
+	leadId: string,
+	token: string,
+	isOneClick: boolean,
+	log: (message: string) => void,
+	logErr: (message: string) => void
+): Promise<UnsubscribeOutcome> {
+	// Get settings for token verification
+	const settings = await getSettings(client);
+	if (!settings) {
+		logErr('Settings not found');
+		return { success: false, statusCode: 500, message: 'Service configuration error' };
+	}
 
-		log(`Lead ${leadId} successfully unsubscribed`);
+	// Verify token
+	const isValid = verifyUnsubscribeToken(leadId, token, settings.unsubscribeTokenSecret);
+	if (!isValid) {
+		await logWarn(
+			client,
+			EventType.SYSTEM_ERROR,
+			`Invalid unsubscribe token for lead ${leadId}`,
+			{ leadId }
+		);
+		return { success: false, statusCode: 403, message: 'Invalid or expired unsubscribe link' };
+	}
 
-		return res.send(generateSuccessPage(false), 200, {
-			'Content-Type': 'text/html',
-		});
-	} catch (err) {
-		const message = err instanceof Error ? err.message : String(err);
-		logErr(`Unsubscribe error: ${message}`);
+	// Get lead
+	const lead = await getLeadById(client, leadId);
+	if (!lead) {
+		return { success: false, statusCode: 404, message: 'Lead not found' };
+	}
 
-		return res.send(generateErrorPage('An error occurred. Please try again later.'), 500, {
-			'Content-Type': 'text/html',
-		});
+	// Check if already unsubscribed
+	if (lead.isUnsubscribed) {
+		log(`Lead ${leadId} is already unsubscribed`);
+		return { success: true, alreadyUnsubscribed: true };
 	}
+
+	// Mark as unsubscribed
+	await updateLead(client, leadId, {
+		isUnsubscribed: true,
+		unsubscribedAt: new Date().toISOString(),
+		status: LeadStatus.UNSUBSCRIBED,
+	});
+
+	await logInfo(client, EventType.LEAD_UNSUBSCRIBED, `Lead ${lead.email} unsubscribed`, {
+		leadId,
+		campaignId: lead.campaignId || undefined,
+		metadata: { method: isOneClick ? 'one-click' : 'link' },
+	});
+
+	log(`Lead ${leadId} successfully unsubscribed`);
+
+	return { success: true, alreadyUnsubscribed: false };
 }
 
 /**
@@ -43,6 +43,9 @@ export const LeadStatus = {
 
     /** Processing error occurred */
     ERROR: "ERROR",
+
+    /** Transient failure (greylisted, SES unavailable); requeued at nextAttemptAt */
+    RETRYING: "RETRYING",
 } as const;
 
 export type LeadStatusType = (typeof LeadStatus)[keyof typeof LeadStatus];
@@ -62,6 +65,9 @@ export const CampaignStatus = {
     /** Actively processing leads */
     RUNNING: "RUNNING",
 
+    /** Initial sends done, follow-up steps pending */
+    WAITING: "WAITING",
+
     /** User-initiated pause */
     PAUSED: "PAUSED",
 
@@ -105,6 +111,118 @@ export const MetricsScope = {
 
 export type MetricsScopeType = (typeof MetricsScope)[keyof typeof MetricsScope];
 
+/**
+ * Send Counter Scope Constants
+ *
+ * What a send counter bucket counts. GLOBAL and CAMPAIGN match MetricsScope.
+ */
+export const SendCounterScope = {
+    /** All sends on the account */
+    GLOBAL: "GLOBAL",
+
+    /** Sends from one campaign */
+    CAMPAIGN: "CAMPAIGN",
+
+    /** Sends from one sender mailbox, across campaigns */
+    SENDER: "SENDER",
+
+    /** Sends from every mailbox on one sender domain */
+    DOMAIN: "DOMAIN",
+
+    /** Sends to every recipient on one domain, across campaigns */
+    RECIPIENT_DOMAIN: "RECIPIENT_DOMAIN",
+} as const;
+
+export type SendCounterScopeType = (typeof SendCounterScope)[keyof typeof SendCounterScope];
+
+/**
+ * Send Counter Period Constants
+ *
+ * Bucket sizes for send cap accounting (UTC-aligned).
+ */
+export const SendCounterPeriod = {
+    /** Clock hour bucket */
+    HOUR: "HOUR",
+
+    /** Calendar day bucket */
+    DAY: "DAY",
+} as const;
+
+export type SendCounterPeriodType = (typeof SendCounterPeriod)[keyof typeof SendCounterPeriod];
+
+/**
+ * Warm-up Status Constants
+ *
+ * Progress of a sender domain through its warm-up ramp.
+ */
+export const WarmupStatus = {
+    /** Ramping: the daily limit grows after each clean day */
+    ACTIVE: "ACTIVE",
+
+    /** Previous day exceeded bounce/complaint thresholds; limit frozen */
+    HELD: "HELD",
+
+    /** Ceiling reached; the plan no longer limits sends */
+    COMPLETED: "COMPLETED",
+} as const;
+
+export type WarmupStatusType = (typeof WarmupStatus)[keyof typeof WarmupStatus];
+
+/**
+ * A/B Test Metric Constants
+ *
+ * Rate (per email sent) that decides a campaign's winning variant.
+ */
+export const AbTestMetric = {
+    /** Opens / sent */
+    OPEN_RATE: "OPEN_RATE",
+
+    /** Clicks / sent */
+    CLICK_RATE: "CLICK_RATE",
+
+    /** Replied leads / sent (requires replies to be recorded on the lead) */
+    REPLY_RATE: "REPLY_RATE",
+} as const;
+
+export type AbTestMetricType = (typeof AbTestMetric)[keyof typeof AbTestMetric];
+
+/**
+ * Delay Strategy Constants
+ *
+ * How the gap between two sends of a campaign is drawn.
+ */
+export const DelayStrategy = {
+    /** Normal distribution clamped to the delay bounds */
+    GAUSSIAN: "GAUSSIAN",
+
+    /** Mostly short gaps with a long tail, like real human inter-send times */
+    LOG_NORMAL: "LOG_NORMAL",
+
+    /** Bursts of quick sends separated by occasional long (coffee) breaks */
+    POISSON_BURST: "POISSON_BURST",
+
+    /** Gaussian gaps, stretched before and after the peak hours of the day */
+    TIME_OF_DAY: "TIME_OF_DAY",
+} as const;
+
+export type DelayStrategyType = (typeof DelayStrategy)[keyof typeof DelayStrategy];
+
+/**
+ * Body Format Constants
+ *
+ * How a campaign's body templates are written. Both are rendered to
+ * sanitized HTML and sent with a generated plain-text alternative.
+ */
+export const BodyFormat = {
+    /** Markdown subset: headings, emphasis, links, lists, quotes and rules */
+    MARKDOWN: "MARKDOWN",
+
+    /** Plain text, or HTML restricted to basic formatting tags */
+    RICH_TEXT: "RICH_TEXT",
+} as const;
+
+export type BodyFormatType = (typeof BodyFormat)[keyof typeof BodyFormat];
+
 /**
  * Verification Result Constants
  *
@@ -152,3 +270,92 @@ export const LeadType = {
 } as const;
 
 export type LeadTypeValue = (typeof LeadType)[keyof typeof LeadType];
+
+/**
+ * Segment Match Constants
+ *
+ * How a segment's conditions combine.
+ */
+export const SegmentMatch = {
+    /** Every condition must hold (AND) */
+    ALL: "ALL",
+
+    /** At least one condition must hold (OR) */
+    ANY: "ANY",
+} as const;
+
+export type SegmentMatchType = (typeof SegmentMatch)[keyof typeof SegmentMatch];
+
+/**
+ * Skip Reason Constants
+ *
+ * Why a lead was marked SKIPPED instead of being sent.
+ */
+export const SkipReason = {
+    /** Same address (or company domain) was emailed recently by any campaign */
+    CONTACT_FREQUENCY_CAP: "CONTACT_FREQUENCY_CAP",
+} as const;
+
+export type SkipReasonType = (typeof SkipReason)[keyof typeof SkipReason];
+
+/**
+ * Send Journal Status Constants
+ *
+ * Outcome of one SES send attempt, as recorded in the send journal.
+ */
+export const SendJournalStatus = {
+    /** Intent recorded, SES call not known to have finished */
+    PENDING: "PENDING",
+
+    /** SES accepted the message (messageId recorded) */
+    SENT: "SENT",
+
+    /** SES Send event received for the attempt's idempotency key */
+    CONFIRMED: "CONFIRMED",
+
+    /** SES returned an error; nothing was sent */
+    FAILED: "FAILED",
+
+    /** No evidence SES accepted it; the lead went back to the queue */
+    ROLLED_BACK: "ROLLED_BACK",
+} as const;
+
+export type SendJournalStatusType = (typeof SendJournalStatus)[keyof typeof SendJournalStatus];
+
+/**
+ * Webhook Delivery Status Constants
+ */
+export const WebhookDeliveryStatus = {
+    /** Queued, not attempted yet */
+    PENDING: "PENDING",
+
+    /** Endpoint answered 2xx */
+    DELIVERED: "DELIVERED",
+
+    /** Last attempt failed; retried at nextAttemptAt */
+    RETRYING: "RETRYING",
+
+    /** Every attempt failed */
+    FAILED: "FAILED",
+} as const;
+
+export type WebhookDeliveryStatusType =
+    (typeof WebhookDeliveryStatus)[keyof typeof WebhookDeliveryStatus];
+
+/**
+ * Mail Transport Constants
+ *
+ * How the orchestrator hands emails off, selected in Settings.
+ */
+export const MailTransport = {
+    /** AWS SES v2 */
+    SES: "SES",
+
+    /** Any SMTP relay (e.g., Google Workspace smtp-relay.gmail.com) */
+    SMTP: "SMTP",
+
+    /** .eml files in a directory, or a local catch-all SMTP server such as MailHog */
+    LOCAL_SINK: "LOCAL_SINK",
+} as const;
+
+export type MailTransportType = (typeof MailTransport)[keyof typeof MailTransport];
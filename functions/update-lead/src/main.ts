@@ -7,10 +7,14 @@
  * API:
  *   POST / - Update an existing lead
  *   Body: { leadId: string, data: { parsedFirstName?, phoneNumber?, leadType?, status?, ... } }
+ *
+ * Marking a lead as replied (repliedAt) counts the reply towards the
+ * A/B variant it received.
  */
 
 import { Client, Databases } from "node-appwrite";
 import { CollectionId, DATABASE_ID } from "./lib/shared/constants/collection.constants";
+import { incrementVariantStats } from "./lib/shared/database/repositories/variant-stats.repository";
 
 interface UpdateLeadRequest {
     leadId: string;
@@ -33,6 +37,9 @@ interface UpdateLeadRequest {
         isUnsubscribed?: boolean;
         unsubscribedAt?: string | null;
         metadata?: Record<string, unknown> | null;
+        repliedAt?: string | null;
+        timezone?: string | null;
+        tags?: string[];
     };
 }
 
@@ -87,8 +94,19 @@ export default async function main(context: AppwriteContext): Promise<unknown> {
             return res.json({ success: false, message: "data object is required" }, 400);
         }
 
+        // Segments match tags case-insensitively
+        if (data.tags) {
+            const normalized = data.tags.map((tag) => tag.trim().toLowerCase());
+            data.tags = [...new Set(normalized.filter(Boolean))];
+        }
+
         log(`Updating lead: ${leadId}`);
 
+        // Only the first reply counts towards the variant's results
+        const previous = data.repliedAt
+            ? await databases.getDocument(DATABASE_ID, CollectionId.LEADS, leadId)
+            : null;
+
         // Update lead in collection
         const document = await databases.updateDocument(
             DATABASE_ID,
@@ -99,6 +117,10 @@ export default async function main(context: AppwriteContext): Promise<unknown> {
 
         log(`Lead updated: ${document.$id}`);
 
+        if (previous && !previous.repliedAt && previous.variantId && previous.campaignId) {
+            await incrementVariantStats(client, previous.campaignId, previous.variantId, { replies: 1 });
+        }
+
         return res.json({
             success: true,
             lead: {
@@ -0,0 +1,111 @@
+/**
+ * Migration 014: Add Campaign Sequences
+ *
+ * Adds multi-step follow-up sequence support:
+ * - campaigns.sequenceSteps: JSON array of follow-up steps
+ * - leads.sequenceStep / nextStepDueAt / repliedAt: per-lead step tracking
+ * - WAITING campaign status and new log event types
+ */
+import { type Client, Databases, IndexType } from "node-appwrite";
+import { CollectionId, DATABASE_ID } from "../shared/constants/collection.constants";
+import { EventType } from "../shared/constants/event.constants";
+import { CampaignStatus } from "../shared/constants/status.constants";
+
+export async function addCampaignSequences(client: Client): Promise<void> {
+	const databases = new Databases(client);
+
+	console.log("Adding sequence support to campaigns and leads...");
+
+	await createAttribute("campaigns.sequenceSteps", () =>
+		databases.createStringAttribute(
+			DATABASE_ID,
+			CollectionId.CAMPAIGNS,
+			"sequenceSteps",
+			100000,
+			false
+		)
+	);
+
+	await createAttribute("leads.sequenceStep", () =>
+		databases.createIntegerAttribute(DATABASE_ID, CollectionId.LEADS, "sequenceStep", false)
+	);
+	await createAttribute("leads.nextStepDueAt", () =>
+		databases.createDatetimeAttribute(DATABASE_ID, CollectionId.LEADS, "nextStepDueAt", false)
+	);
+	await createAttribute("leads.repliedAt", () =>
+		databases.createDatetimeAttribute(DATABASE_ID, CollectionId.LEADS, "repliedAt", false)
+	);
+
+	// Extend enums with the new values
+	await databases.updateEnumAttribute(
+		DATABASE_ID,
+		CollectionId.CAMPAIGNS,
+		"status",
+		Object.values(CampaignStatus),
+		false,
+		CampaignStatus.DRAFT
+	);
+	console.log("  ✓ Updated campaigns.status enum");
+
+	await databases.updateEnumAttribute(
+		DATABASE_ID,
+		CollectionId.LOGS,
+		"eventType",
+		Object.values(EventType),
+		true,
+		null as unknown as string
+	);
+	console.log("  ✓ Updated logs.eventType enum");
+
+	// Wait for attributes to become available before indexing
+	await new Promise((resolve) => setTimeout(resolve, 3000));
+
+	try {
+		await databases.createIndex(
+			DATABASE_ID,
+			CollectionId.LEADS,
+			"campaign_followup_idx",
+			IndexType.Key,
+			["campaignId", "status", "nextStepDueAt"]
+		);
+		console.log("  ✓ Created index: leads.campaign_followup_idx");
+	} catch (e) {
+		console.log(
+			"  ⏭ Index leads.campaign_followup_idx already exists or failed:",
+			(e as Error).message
+		);
+	}
+
+	console.log("Migration 014 complete.");
+}
+
+async function createAttribute(label: string, create: () => Promise<unknown>): Promise<void> {
+	try {
+		await create();
+		console.log(`  ✓ Added attribute: ${label}`);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		if (message.includes("already exists")) {
+			console.log(`  ⏭ Attribute '${label}' already exists. Skipping.`);
+		} else {
+			throw error;
+		}
+	}
+}
+
+/**
+ * Appwrite Console Instructions (Manual)
+ *
+ * campaigns:
+ * - sequenceSteps: String (100000) — JSON array of { subjectTemplate, bodyTemplate, waitDays }
+ * - status: add WAITING to enum
+ *
+ * leads:
+ * - sequenceStep: Integer
+ * - nextStepDueAt: Datetime
+ * - repliedAt: Datetime
+ * - Index campaign_followup_idx: Key on [campaignId, status, nextStepDueAt]
+ *
+ * logs:
+ * - eventType: add CAMPAIGN_WAITING, SCHEDULER_RUN to enum
+ */
@@ -0,0 +1,84 @@
+/**
+ * Migration 015: Add Sending Windows
+ *
+ * Adds business-hours sending window support:
+ * - campaigns.sendingWindow: JSON window configuration
+ * - campaigns.nextRunAt: when the scheduler should resume a WAITING campaign
+ * - leads.timezone / deferredUntil: per-recipient window evaluation
+ */
+import { type Client, Databases, IndexType } from "node-appwrite";
+import { CollectionId, DATABASE_ID } from "../shared/constants/collection.constants";
+
+export async function addSendingWindows(client: Client): Promise<void> {
+	const databases = new Databases(client);
+
+	console.log("Adding sending window support to campaigns and leads...");
+
+	await createAttribute("campaigns.sendingWindow", () =>
+		databases.createStringAttribute(
+			DATABASE_ID,
+			CollectionId.CAMPAIGNS,
+			"sendingWindow",
+			1000,
+			false
+		)
+	);
+	await createAttribute("campaigns.nextRunAt", () =>
+		databases.createDatetimeAttribute(DATABASE_ID, CollectionId.CAMPAIGNS, "nextRunAt", false)
+	);
+
+	await createAttribute("leads.timezone", () =>
+		databases.createStringAttribute(DATABASE_ID, CollectionId.LEADS, "timezone", 64, false)
+	);
+	await createAttribute("leads.deferredUntil", () =>
+		databases.createDatetimeAttribute(DATABASE_ID, CollectionId.LEADS, "deferredUntil", false)
+	);
+
+	// Wait for attributes to become available before indexing
+	await new Promise((resolve) => setTimeout(resolve, 3000));
+
+	try {
+		await databases.createIndex(
+			DATABASE_ID,
+			CollectionId.LEADS,
+			"campaign_deferred_idx",
+			IndexType.Key,
+			["campaignId", "status", "deferredUntil"]
+		);
+		console.log("  ✓ Created index: leads.campaign_deferred_idx");
+	} catch (e) {
+		console.log(
+			"  ⏭ Index leads.campaign_deferred_idx already exists or failed:",
+			(e as Error).message
+		);
+	}
+
+	console.log("Migration 015 complete.");
+}
+
+async function createAttribute(label: string, create: () => Promise<unknown>): Promise<void> {
+	try {
+		await create();
+		console.log(`  ✓ Added attribute: ${label}`);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		if (message.includes("already exists")) {
+			console.log(`  ⏭ Attribute '${label}' already exists. Skipping.`);
+		} else {
+			throw error;
+		}
+	}
+}
+
+/**
+ * Appwrite Console Instructions (Manual)
+ *
+ * campaigns:
+ * - sendingWindow: String (1000) — JSON { days, startTime, endTime, timezone, useRecipientTimezone }
+ * - nextRunAt: Datetime
+ *
+ * leads:
+ * - timezone: String (64)
+ * - deferredUntil: Datetime
+ * - Index campaign_deferred_idx: Key on [campaignId, status, deferredUntil]
+ */
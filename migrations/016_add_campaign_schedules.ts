@@ -0,0 +1,64 @@
+/**
+ * Migration 016: Add Campaign Schedules
+ *
+ * Adds scheduled and recurring campaign runs:
+ * - campaigns.scheduledStartAt: automatic start time for QUEUED campaigns
+ * - campaigns.recurrenceIntervalHours: re-run interval for recurring campaigns
+ */
+import { type Client, Databases, IndexType } from "node-appwrite";
+import { CollectionId, DATABASE_ID } from "../shared/constants/collection.constants";
+
+export async function addCampaignSchedules(client: Client): Promise<void> {
+	const databases = new Databases(client);
+	const collectionId = CollectionId.CAMPAIGNS;
+
+	console.log(`Adding schedule attributes to '${collectionId}'...`);
+
+	await createAttribute("scheduledStartAt", () =>
+		databases.createDatetimeAttribute(DATABASE_ID, collectionId, "scheduledStartAt", false)
+	);
+	await createAttribute("recurrenceIntervalHours", () =>
+		databases.createIntegerAttribute(DATABASE_ID, collectionId, "recurrenceIntervalHours", false, 1)
+	);
+
+	// Wait for attributes to become available before indexing
+	await new Promise((resolve) => setTimeout(resolve, 3000));
+
+	try {
+		await databases.createIndex(DATABASE_ID, collectionId, "status_scheduled_idx", IndexType.Key, [
+			"status",
+			"scheduledStartAt",
+		]);
+		console.log("  ✓ Created index: campaigns.status_scheduled_idx");
+	} catch (e) {
+		console.log(
+			"  ⏭ Index campaigns.status_scheduled_idx already exists or failed:",
+			(e as Error).message
+		);
+	}
+
+	console.log("Migration 016 complete.");
+}
+
+async function createAttribute(label: string, create: () => Promise<unknown>): Promise<void> {
+	try {
+		await create();
+		console.log(`  ✓ Added attribute: ${label}`);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		if (message.includes("already exists")) {
+			console.log(`  ⏭ Attribute '${label}' already exists. Skipping.`);
+		} else {
+			throw error;
+		}
+	}
+}
+
+/**
+ * Appwrite Console Instructions (Manual)
+ *
+ * campaigns:
+ * - scheduledStartAt: Datetime
+ * - recurrenceIntervalHours: Integer [Min: 1]
+ * - Index status_scheduled_idx: Key on [status, scheduledStartAt]
+ */
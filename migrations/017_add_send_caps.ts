@@ -0,0 +1,188 @@
+/**
+ * Migration 017: Add Send Caps
+ *
+ * Adds send cap accounting and SES quota awareness:
+ * - send_counters collection: hourly/daily send counts (global + per campaign)
+ * - aws_metrics collection: SES account snapshot written by fetch-aws-metrics
+ * - settings.globalDailySendCap / globalHourlySendCap
+ * - campaigns.dailySendCap / hourlySendCap
+ */
+import { type Client, Databases, IndexType } from "node-appwrite";
+import { CollectionId, DATABASE_ID } from "../shared/constants/collection.constants";
+import { MetricsScope, SendCounterPeriod } from "../shared/constants/status.constants";
+
+export async function addSendCaps(client: Client): Promise<void> {
+	const databases = new Databases(client);
+
+	console.log("Adding send caps...");
+
+	await createSendCountersCollection(databases);
+	await createAwsMetricsCollection(databases);
+
+	await createAttribute("settings.globalDailySendCap", () =>
+		databases.createIntegerAttribute(
+			DATABASE_ID,
+			CollectionId.SETTINGS,
+			"globalDailySendCap",
+			false,
+			0,
+			undefined,
+			0
+		)
+	);
+	await createAttribute("settings.globalHourlySendCap", () =>
+		databases.createIntegerAttribute(
+			DATABASE_ID,
+			CollectionId.SETTINGS,
+			"globalHourlySendCap",
+			false,
+			0,
+			undefined,
+			0
+		)
+	);
+
+	await createAttribute("campaigns.dailySendCap", () =>
+		databases.createIntegerAttribute(DATABASE_ID, CollectionId.CAMPAIGNS, "dailySendCap", false, 1)
+	);
+	await createAttribute("campaigns.hourlySendCap", () =>
+		databases.createIntegerAttribute(DATABASE_ID, CollectionId.CAMPAIGNS, "hourlySendCap", false, 1)
+	);
+
+	console.log("Migration 017 complete.");
+}
+
+async function createSendCountersCollection(databases: Databases): Promise<void> {
+	const collectionId = CollectionId.SEND_COUNTERS;
+
+	try {
+		await databases.getCollection(DATABASE_ID, collectionId);
+		console.log(`  ⏭ Collection '${collectionId}' already exists. Skipping.`);
+		return;
+	} catch {
+		// Collection doesn't exist, create it
+	}
+
+	await databases.createCollection(
+		DATABASE_ID,
+		collectionId,
+		"Send Counters",
+		undefined,
+		true,
+		true
+	);
+
+	await databases.createEnumAttribute(
+		DATABASE_ID,
+		collectionId,
+		"scope",
+		Object.values(MetricsScope),
+		true
+	);
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "scopeId", 36, false);
+	await databases.createEnumAttribute(
+		DATABASE_ID,
+		collectionId,
+		"period",
+		Object.values(SendCounterPeriod),
+		true
+	);
+	await databases.createDatetimeAttribute(DATABASE_ID, collectionId, "bucketStart", true);
+	await databases.createIntegerAttribute(
+		DATABASE_ID,
+		collectionId,
+		"count",
+		false,
+		0,
+		undefined,
+		0
+	);
+
+	// Wait for attributes to become available before indexing
+	await new Promise((resolve) => setTimeout(resolve, 3000));
+
+	await databases.createIndex(DATABASE_ID, collectionId, "scope_period_bucket_idx", IndexType.Key, [
+		"scope",
+		"period",
+		"bucketStart",
+	]);
+
+	console.log(`  ✓ Created collection: ${collectionId}`);
+}
+
+async function createAwsMetricsCollection(databases: Databases): Promise<void> {
+	const collectionId = CollectionId.AWS_METRICS;
+
+	try {
+		await databases.getCollection(DATABASE_ID, collectionId);
+		console.log(`  ⏭ Collection '${collectionId}' already exists. Skipping.`);
+		return;
+	} catch {
+		// Collection doesn't exist, create it
+	}
+
+	await databases.createCollection(DATABASE_ID, collectionId, "AWS Metrics", undefined, true, true);
+
+	// Account quotas
+	for (const key of ["sendQuotaMax24Hour", "sendQuotaSentLast24Hours", "sendQuotaMaxPerSecond"]) {
+		await databases.createFloatAttribute(DATABASE_ID, collectionId, key, false);
+	}
+
+	// Account status
+	await databases.createBooleanAttribute(DATABASE_ID, collectionId, "productionAccess", false);
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "enforcementStatus", 50, false);
+	await databases.createFloatAttribute(DATABASE_ID, collectionId, "reputationScore", false);
+
+	// Send statistics
+	for (const key of [
+		"suppressionListCount",
+		"deliveryAttempts",
+		"bounces",
+		"complaints",
+		"rejects",
+	]) {
+		await databases.createIntegerAttribute(DATABASE_ID, collectionId, key, false);
+	}
+	await databases.createFloatAttribute(DATABASE_ID, collectionId, "bounceRate", false);
+	await databases.createFloatAttribute(DATABASE_ID, collectionId, "complaintRate", false);
+
+	await databases.createDatetimeAttribute(DATABASE_ID, collectionId, "fetchedAt", false);
+
+	console.log(`  ✓ Created collection: ${collectionId}`);
+}
+
+async function createAttribute(label: string, create: () => Promise<unknown>): Promise<void> {
+	try {
+		await create();
+		console.log(`  ✓ Added attribute: ${label}`);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		if (message.includes("already exists")) {
+			console.log(`  ⏭ Attribute '${label}' already exists. Skipping.`);
+		} else {
+			throw error;
+		}
+	}
+}
+
+/**
+ * Appwrite Console Instructions (Manual)
+ *
+ * Collection ID: send_counters (Document ID: {scope}_{h|d}_{bucket})
+ * - scope: Enum [GLOBAL, CAMPAIGN] [Required]
+ * - scopeId: String (36)
+ * - period: Enum [HOUR, DAY] [Required]
+ * - bucketStart: Datetime [Required]
+ * - count: Integer [Default: 0]
+ * - Index scope_period_bucket_idx: Key on [scope, period, bucketStart]
+ *
+ * Collection ID: aws_metrics — fields written by fetch-aws-metrics
+ *
+ * settings:
+ * - globalDailySendCap: Integer [Default: 0 = unlimited]
+ * - globalHourlySendCap: Integer [Default: 0 = unlimited]
+ *
+ * campaigns:
+ * - dailySendCap: Integer [Min: 1]
+ * - hourlySendCap: Integer [Min: 1]
+ */
@@ -0,0 +1,64 @@
+/**
+ * Migration 018: Add Sender Pools
+ *
+ * Adds sender identity rotation:
+ * - campaigns.senderPool: JSON array of sender identities
+ * - leads.senderEmail: identity that sent the lead's first email
+ * - send_counters.scope: SENDER scope for per-mailbox daily caps
+ */
+import { type Client, Databases } from "node-appwrite";
+import { CollectionId, DATABASE_ID } from "../shared/constants/collection.constants";
+import { SendCounterScope } from "../shared/constants/status.constants";
+
+export async function addSenderPools(client: Client): Promise<void> {
+	const databases = new Databases(client);
+
+	console.log("Adding sender pools...");
+
+	await createAttribute("campaigns.senderPool", () =>
+		databases.createStringAttribute(DATABASE_ID, CollectionId.CAMPAIGNS, "senderPool", 20000, false)
+	);
+
+	await createAttribute("leads.senderEmail", () =>
+		databases.createStringAttribute(DATABASE_ID, CollectionId.LEADS, "senderEmail", 320, false)
+	);
+
+	await databases.updateEnumAttribute(
+		DATABASE_ID,
+		CollectionId.SEND_COUNTERS,
+		"scope",
+		Object.values(SendCounterScope),
+		true,
+		null as unknown as string
+	);
+	console.log("  ✓ Updated send_counters.scope enum");
+
+	console.log("Migration 018 complete.");
+}
+
+async function createAttribute(label: string, create: () => Promise<unknown>): Promise<void> {
+	try {
+		await create();
+		console.log(`  ✓ Added attribute: ${label}`);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		if (message.includes("already exists")) {
+			console.log(`  ⏭ Attribute '${label}' already exists. Skipping.`);
+		} else {
+			throw error;
+		}
+	}
+}
+
+/**
+ * Appwrite Console Instructions (Manual)
+ *
+ * campaigns:
+ * - senderPool: String (20000) — JSON array of { email, name, weight, dailyCap, signature }
+ *
+ * leads:
+ * - senderEmail: String (320)
+ *
+ * send_counters:
+ * - scope: add SENDER to enum
+ */
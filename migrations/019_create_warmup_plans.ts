@@ -0,0 +1,145 @@
+/**
+ * Migration 019: Create Warm-up Plans
+ *
+ * Adds sender domain warm-up ramps:
+ * - warmup_plans collection: one daily ramp per sender domain
+ * - send_counters.scope: DOMAIN scope for per-domain daily counts
+ * - leads index on senderEmail for per-domain bounce/complaint rates
+ * - WARMUP_ADVANCED / WARMUP_HELD log event types
+ */
+import { type Client, Databases, IndexType } from "node-appwrite";
+import { CollectionId, DATABASE_ID } from "../shared/constants/collection.constants";
+import { EventType } from "../shared/constants/event.constants";
+import { SendCounterScope, WarmupStatus } from "../shared/constants/status.constants";
+
+export async function createWarmupPlans(client: Client): Promise<void> {
+	const databases = new Databases(client);
+
+	console.log("Adding sender domain warm-up...");
+
+	await createWarmupPlansCollection(databases);
+
+	await databases.updateEnumAttribute(
+		DATABASE_ID,
+		CollectionId.SEND_COUNTERS,
+		"scope",
+		Object.values(SendCounterScope),
+		true,
+		null as unknown as string
+	);
+	console.log("  ✓ Updated send_counters.scope enum");
+
+	await databases.updateEnumAttribute(
+		DATABASE_ID,
+		CollectionId.LOGS,
+		"eventType",
+		Object.values(EventType),
+		true,
+		null as unknown as string
+	);
+	console.log("  ✓ Updated logs.eventType enum");
+
+	try {
+		await databases.createIndex(
+			DATABASE_ID,
+			CollectionId.LEADS,
+			"sender_feedback_idx",
+			IndexType.Key,
+			["senderEmail", "status", "processedAt"]
+		);
+		console.log("  ✓ Created index: leads.sender_feedback_idx");
+	} catch (e) {
+		console.log(
+			"  ⏭ Index leads.sender_feedback_idx already exists or failed:",
+			(e as Error).message
+		);
+	}
+
+	console.log("Migration 019 complete.");
+}
+
+async function createWarmupPlansCollection(databases: Databases): Promise<void> {
+	const collectionId = CollectionId.WARMUP_PLANS;
+
+	try {
+		await databases.getCollection(DATABASE_ID, collectionId);
+		console.log(`  ⏭ Collection '${collectionId}' already exists. Skipping.`);
+		return;
+	} catch {
+		// Collection doesn't exist, create it
+	}
+
+	await databases.createCollection(
+		DATABASE_ID,
+		collectionId,
+		"Warm-up Plans",
+		undefined,
+		true,
+		true
+	);
+
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "domain", 255, true);
+	await databases.createIntegerAttribute(DATABASE_ID, collectionId, "startVolume", true, 1);
+	await databases.createFloatAttribute(DATABASE_ID, collectionId, "dailyIncreasePercent", true, 0);
+	await databases.createIntegerAttribute(DATABASE_ID, collectionId, "maxVolume", true, 1);
+	await databases.createFloatAttribute(DATABASE_ID, collectionId, "maxBounceRate", true, 0, 100);
+	await databases.createFloatAttribute(DATABASE_ID, collectionId, "maxComplaintRate", true, 0, 100);
+	await databases.createIntegerAttribute(
+		DATABASE_ID,
+		collectionId,
+		"currentStage",
+		false,
+		0,
+		undefined,
+		0
+	);
+	await databases.createIntegerAttribute(DATABASE_ID, collectionId, "currentDailyLimit", true, 1);
+	await databases.createEnumAttribute(
+		DATABASE_ID,
+		collectionId,
+		"status",
+		Object.values(WarmupStatus),
+		false,
+		WarmupStatus.ACTIVE
+	);
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "evaluatedOn", 10, false);
+	await databases.createFloatAttribute(DATABASE_ID, collectionId, "lastBounceRate", false);
+	await databases.createFloatAttribute(DATABASE_ID, collectionId, "lastComplaintRate", false);
+
+	// Wait for attributes to become available before indexing
+	await new Promise((resolve) => setTimeout(resolve, 3000));
+
+	await databases.createIndex(DATABASE_ID, collectionId, "domain_idx", IndexType.Unique, [
+		"domain",
+	]);
+	await databases.createIndex(DATABASE_ID, collectionId, "status_idx", IndexType.Key, ["status"]);
+
+	console.log(`  ✓ Created collection: ${collectionId}`);
+}
+
+/**
+ * Appwrite Console Instructions (Manual)
+ *
+ * Collection ID: warmup_plans
+ * - domain: String (255) [Required] — Unique index domain_idx
+ * - startVolume: Integer [Required, Min: 1]
+ * - dailyIncreasePercent: Float [Required, Min: 0]
+ * - maxVolume: Integer [Required, Min: 1]
+ * - maxBounceRate: Float [Required, 0–100]
+ * - maxComplaintRate: Float [Required, 0–100]
+ * - currentStage: Integer [Default: 0]
+ * - currentDailyLimit: Integer [Required, Min: 1]
+ * - status: Enum [ACTIVE, HELD, COMPLETED] [Default: ACTIVE] — Key index status_idx
+ * - evaluatedOn: String (10)
+ * - lastBounceRate: Float
+ * - lastComplaintRate: Float
+ *
+ * send_counters:
+ * - scope: add DOMAIN to enum
+ *
+ * leads:
+ * - Index sender_feedback_idx: Key on [senderEmail, status, processedAt]
+ *
+ * logs:
+ * - eventType: add WARMUP_ADVANCED, WARMUP_HELD to enum
+ */
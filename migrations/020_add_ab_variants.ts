@@ -0,0 +1,193 @@
+/**
+ * Migration 020: Add A/B Variants
+ *
+ * Adds A/B testing of the initial email:
+ * - campaigns.variants: JSON array of named variants with split percentages
+ * - campaigns.abTestSampleSize / abTestWinnerMetric / abTestAutoWinner / winningVariantId
+ * - campaigns.abTestEvaluateAfterHours / abTestMinEvents / abTestSampleSentAt / abTestDecidedAt
+ * - leads.variantId: variant the lead received
+ * - variant_stats collection: per-variant sends and SES/reply results
+ * - AB_TEST_WINNER_SELECTED and AB_TEST_NO_CLEAR_WINNER log event types
+ */
+import { type Client, Databases, IndexType } from "node-appwrite";
+import { CollectionId, DATABASE_ID } from "../shared/constants/collection.constants";
+import { EventType } from "../shared/constants/event.constants";
+import { AbTestMetric } from "../shared/constants/status.constants";
+import { AB_TEST_DEFAULTS } from "../shared/types/campaign.types";
+
+export async function addAbVariants(client: Client): Promise<void> {
+	const databases = new Databases(client);
+
+	console.log("Adding A/B variants...");
+
+	await createAttribute("campaigns.variants", () =>
+		databases.createStringAttribute(DATABASE_ID, CollectionId.CAMPAIGNS, "variants", 100000, false)
+	);
+	await createAttribute("campaigns.abTestSampleSize", () =>
+		databases.createIntegerAttribute(
+			DATABASE_ID,
+			CollectionId.CAMPAIGNS,
+			"abTestSampleSize",
+			false,
+			1
+		)
+	);
+	await createAttribute("campaigns.abTestWinnerMetric", () =>
+		databases.createEnumAttribute(
+			DATABASE_ID,
+			CollectionId.CAMPAIGNS,
+			"abTestWinnerMetric",
+			Object.values(AbTestMetric),
+			false,
+			AbTestMetric.OPEN_RATE
+		)
+	);
+	await createAttribute("campaigns.abTestAutoWinner", () =>
+		databases.createBooleanAttribute(
+			DATABASE_ID,
+			CollectionId.CAMPAIGNS,
+			"abTestAutoWinner",
+			false,
+			false
+		)
+	);
+	await createAttribute("campaigns.winningVariantId", () =>
+		databases.createStringAttribute(
+			DATABASE_ID,
+			CollectionId.CAMPAIGNS,
+			"winningVariantId",
+			32,
+			false
+		)
+	);
+
+	await createAttribute("campaigns.abTestEvaluateAfterHours", () =>
+		databases.createIntegerAttribute(
+			DATABASE_ID,
+			CollectionId.CAMPAIGNS,
+			"abTestEvaluateAfterHours",
+			false,
+			0,
+			undefined,
+			AB_TEST_DEFAULTS.evaluateAfterHours
+		)
+	);
+	await createAttribute("campaigns.abTestMinEvents", () =>
+		databases.createIntegerAttribute(
+			DATABASE_ID,
+			CollectionId.CAMPAIGNS,
+			"abTestMinEvents",
+			false,
+			0,
+			undefined,
+			AB_TEST_DEFAULTS.minEvents
+		)
+	);
+	await createAttribute("campaigns.abTestSampleSentAt", () =>
+		databases.createDatetimeAttribute(
+			DATABASE_ID,
+			CollectionId.CAMPAIGNS,
+			"abTestSampleSentAt",
+			false
+		)
+	);
+	await createAttribute("campaigns.abTestDecidedAt", () =>
+		databases.createDatetimeAttribute(DATABASE_ID, CollectionId.CAMPAIGNS, "abTestDecidedAt", false)
+	);
+
+	await createAttribute("leads.variantId", () =>
+		databases.createStringAttribute(DATABASE_ID, CollectionId.LEADS, "variantId", 32, false)
+	);
+
+	await createVariantStatsCollection(databases);
+
+	await databases.updateEnumAttribute(
+		DATABASE_ID,
+		CollectionId.LOGS,
+		"eventType",
+		Object.values(EventType),
+		true,
+		null as unknown as string
+	);
+	console.log("  ✓ Updated logs.eventType enum");
+
+	console.log("Migration 020 complete.");
+}
+
+async function createVariantStatsCollection(databases: Databases): Promise<void> {
+	const collectionId = CollectionId.VARIANT_STATS;
+
+	try {
+		await databases.getCollection(DATABASE_ID, collectionId);
+		console.log(`  ⏭ Collection '${collectionId}' already exists. Skipping.`);
+		return;
+	} catch {
+		// Collection doesn't exist, create it
+	}
+
+	await databases.createCollection(
+		DATABASE_ID,
+		collectionId,
+		"Variant Stats",
+		undefined,
+		true,
+		true
+	);
+
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "campaignId", 36, true);
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "variantId", 32, true);
+	for (const key of ["sent", "delivered", "opens", "clicks", "bounces", "complaints", "replies"]) {
+		await databases.createIntegerAttribute(DATABASE_ID, collectionId, key, false, 0, undefined, 0);
+	}
+	await databases.createDatetimeAttribute(DATABASE_ID, collectionId, "lastUpdatedAt", false);
+
+	// Wait for attributes to become available before indexing
+	await new Promise((resolve) => setTimeout(resolve, 3000));
+
+	await databases.createIndex(DATABASE_ID, collectionId, "campaign_idx", IndexType.Key, [
+		"campaignId",
+	]);
+
+	console.log(`  ✓ Created collection: ${collectionId}`);
+}
+
+async function createAttribute(label: string, create: () => Promise<unknown>): Promise<void> {
+	try {
+		await create();
+		console.log(`  ✓ Added attribute: ${label}`);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		if (message.includes("already exists")) {
+			console.log(`  ⏭ Attribute '${label}' already exists. Skipping.`);
+		} else {
+			throw error;
+		}
+	}
+}
+
+/**
+ * Appwrite Console Instructions (Manual)
+ *
+ * campaigns:
+ * - variants: String (100000) — JSON array of { id, name, subjectTemplate, bodyTemplate, splitPercent }
+ * - abTestSampleSize: Integer [Min: 1]
+ * - abTestWinnerMetric: Enum [OPEN_RATE, CLICK_RATE, REPLY_RATE] [Default: OPEN_RATE]
+ * - abTestAutoWinner: Boolean [Default: false]
+ * - winningVariantId: String (32)
+ * - abTestEvaluateAfterHours: Integer [Min: 0] [Default: 24]
+ * - abTestMinEvents: Integer [Min: 0] [Default: 5]
+ * - abTestSampleSentAt: Datetime
+ * - abTestDecidedAt: Datetime
+ *
+ * leads:
+ * - variantId: String (32)
+ *
+ * Collection ID: variant_stats
+ * - campaignId: String (36) [Required] — Key index campaign_idx
+ * - variantId: String (32) [Required]
+ * - sent, delivered, opens, clicks, bounces, complaints, replies: Integer [Default: 0]
+ * - lastUpdatedAt: Datetime
+ *
+ * logs:
+ * - eventType: add AB_TEST_WINNER_SELECTED and AB_TEST_NO_CLEAR_WINNER to enum
+ */
@@ -0,0 +1,105 @@
+/**
+ * Migration 021: Create Outbox
+ *
+ * Adds campaign dry runs:
+ * - outbox collection: emails rendered by a dry run instead of sent via SES
+ * - CAMPAIGN_DRY_RUN_COMPLETED log event type
+ */
+import { type Client, Databases, IndexType } from "node-appwrite";
+import { CollectionId, DATABASE_ID } from "../shared/constants/collection.constants";
+import { EventType } from "../shared/constants/event.constants";
+
+export async function createOutbox(client: Client): Promise<void> {
+	const databases = new Databases(client);
+
+	console.log("Adding campaign dry runs...");
+
+	await createOutboxCollection(databases);
+
+	await databases.updateEnumAttribute(
+		DATABASE_ID,
+		CollectionId.LOGS,
+		"eventType",
+		Object.values(EventType),
+		true,
+		null as unknown as string
+	);
+	console.log("  ✓ Updated logs.eventType enum");
+
+	console.log("Migration 021 complete.");
+}
+
+async function createOutboxCollection(databases: Databases): Promise<void> {
+	const collectionId = CollectionId.OUTBOX;
+
+	try {
+		await databases.getCollection(DATABASE_ID, collectionId);
+		console.log(`  ⏭ Collection '${collectionId}' already exists. Skipping.`);
+		return;
+	} catch {
+		// Collection doesn't exist, create it
+	}
+
+	await databases.createCollection(DATABASE_ID, collectionId, "Outbox", undefined, true, true);
+
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "dryRunId", 36, true);
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "campaignId", 36, true);
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "leadId", 36, true);
+	await databases.createEmailAttribute(DATABASE_ID, collectionId, "toEmail", true);
+	await databases.createEmailAttribute(DATABASE_ID, collectionId, "fromEmail", true);
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "fromName", 255, true);
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "subject", 1000, true);
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "bodyHtml", 100000, true);
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "bodyText", 100000, true);
+	await databases.createIntegerAttribute(
+		DATABASE_ID,
+		collectionId,
+		"sequenceStep",
+		false,
+		0,
+		undefined,
+		0
+	);
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "variantId", 32, false);
+	await databases.createIntegerAttribute(
+		DATABASE_ID,
+		collectionId,
+		"simulatedDelayMs",
+		false,
+		0,
+		undefined,
+		0
+	);
+
+	// Wait for attributes to become available before indexing
+	await new Promise((resolve) => setTimeout(resolve, 3000));
+
+	await databases.createIndex(DATABASE_ID, collectionId, "campaign_run_idx", IndexType.Key, [
+		"campaignId",
+		"dryRunId",
+	]);
+
+	console.log(`  ✓ Created collection: ${collectionId}`);
+}
+
+/**
+ * Appwrite Console Instructions (Manual)
+ *
+ * Collection ID: outbox
+ * - dryRunId: String (36) [Required]
+ * - campaignId: String (36) [Required]
+ * - leadId: String (36) [Required]
+ * - toEmail: Email [Required]
+ * - fromEmail: Email [Required]
+ * - fromName: String (255) [Required]
+ * - subject: String (1000) [Required]
+ * - bodyHtml: String (100000) [Required]
+ * - bodyText: String (100000) [Required]
+ * - sequenceStep: Integer [Default: 0]
+ * - variantId: String (32)
+ * - simulatedDelayMs: Integer [Default: 0]
+ * - Index campaign_run_idx: Key on [campaignId, dryRunId]
+ *
+ * logs:
+ * - eventType: add CAMPAIGN_DRY_RUN_COMPLETED to enum
+ */
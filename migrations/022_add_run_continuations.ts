@@ -0,0 +1,57 @@
+/**
+ * Migration 022: Add Run Continuations
+ *
+ * Campaign runs now execute in bounded slices that trigger their own
+ * continuation:
+ * - campaigns.runProgress: JSON totals of the current run across slices
+ * - CAMPAIGN_CONTINUED log event type
+ */
+import { type Client, Databases } from "node-appwrite";
+import { CollectionId, DATABASE_ID } from "../shared/constants/collection.constants";
+import { EventType } from "../shared/constants/event.constants";
+
+export async function addRunContinuations(client: Client): Promise<void> {
+	const databases = new Databases(client);
+
+	console.log("Adding run continuations...");
+
+	await createAttribute("campaigns.runProgress", () =>
+		databases.createStringAttribute(DATABASE_ID, CollectionId.CAMPAIGNS, "runProgress", 1000, false)
+	);
+
+	await databases.updateEnumAttribute(
+		DATABASE_ID,
+		CollectionId.LOGS,
+		"eventType",
+		Object.values(EventType),
+		true,
+		null as unknown as string
+	);
+	console.log("  ✓ Updated logs.eventType enum");
+
+	console.log("Migration 022 complete.");
+}
+
+async function createAttribute(label: string, create: () => Promise<unknown>): Promise<void> {
+	try {
+		await create();
+		console.log(`  ✓ Added attribute: ${label}`);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		if (message.includes("already exists")) {
+			console.log(`  ⏭ Attribute '${label}' already exists. Skipping.`);
+		} else {
+			throw error;
+		}
+	}
+}
+
+/**
+ * Appwrite Console Instructions (Manual)
+ *
+ * campaigns:
+ * - runProgress: String (1000) — JSON { startedAt, slice, leadsProcessed, leadsSkipped, leadsErrored }
+ *
+ * logs:
+ * - eventType: add CAMPAIGN_CONTINUED to enum
+ */
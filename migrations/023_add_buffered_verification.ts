@@ -0,0 +1,43 @@
+/**
+ * Migration 023: Add Buffered Verification
+ *
+ * The orchestrator verifies the next lead while the current send waits out
+ * its delay. The result is kept on the campaign across pauses, parked runs
+ * and execution slices:
+ * - campaigns.bufferedVerification: JSON verifier result for the next lead
+ */
+import { type Client, Databases } from "node-appwrite";
+import { CollectionId, DATABASE_ID } from "../shared/constants/collection.constants";
+
+export async function addBufferedVerification(client: Client): Promise<void> {
+	const databases = new Databases(client);
+
+	console.log("Adding buffered verification...");
+
+	try {
+		await databases.createStringAttribute(
+			DATABASE_ID,
+			CollectionId.CAMPAIGNS,
+			"bufferedVerification",
+			5000,
+			false
+		);
+		console.log("  ✓ Added attribute: campaigns.bufferedVerification");
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		if (message.includes("already exists")) {
+			console.log("  ⏭ Attribute 'campaigns.bufferedVerification' already exists. Skipping.");
+		} else {
+			throw error;
+		}
+	}
+
+	console.log("Migration 023 complete.");
+}
+
+/**
+ * Appwrite Console Instructions (Manual)
+ *
+ * campaigns:
+ * - bufferedVerification: String (5000) — JSON { leadId, email, leadUpdatedAt, verifiedAt, status, isValid, isRisky, isGreylisted, diagnosis, errorMessage, retryAfterHours }
+ */
@@ -0,0 +1,135 @@
+/**
+ * Migration 024: Add Circuit Breaker
+ *
+ * Pauses campaigns automatically on bounce/complaint spikes:
+ * - settings.breakerMaxHardBounceRate / breakerMaxComplaintRate / breakerMinSends / breakerEarlyComplaintSends
+ * - campaigns.circuitBreakerTrippedAt / circuitBreakerReason: current unacknowledged trip
+ * - campaigns.circuitBreakerBaseline: JSON metrics at the last acknowledgement
+ * - CIRCUIT_BREAKER_ACKNOWLEDGED log event type
+ */
+import { type Client, Databases } from "node-appwrite";
+import { CollectionId, DATABASE_ID } from "../shared/constants/collection.constants";
+import { EventType } from "../shared/constants/event.constants";
+import { DEFAULT_SETTINGS } from "../shared/types/settings.types";
+
+export async function addCircuitBreaker(client: Client): Promise<void> {
+	const databases = new Databases(client);
+
+	console.log("Adding circuit breaker...");
+
+	await createAttribute("settings.breakerMaxHardBounceRate", () =>
+		databases.createFloatAttribute(
+			DATABASE_ID,
+			CollectionId.SETTINGS,
+			"breakerMaxHardBounceRate",
+			false,
+			0,
+			100,
+			DEFAULT_SETTINGS.breakerMaxHardBounceRate
+		)
+	);
+	await createAttribute("settings.breakerMaxComplaintRate", () =>
+		databases.createFloatAttribute(
+			DATABASE_ID,
+			CollectionId.SETTINGS,
+			"breakerMaxComplaintRate",
+			false,
+			0,
+			100,
+			DEFAULT_SETTINGS.breakerMaxComplaintRate
+		)
+	);
+	await createAttribute("settings.breakerMinSends", () =>
+		databases.createIntegerAttribute(
+			DATABASE_ID,
+			CollectionId.SETTINGS,
+			"breakerMinSends",
+			false,
+			0,
+			undefined,
+			DEFAULT_SETTINGS.breakerMinSends
+		)
+	);
+	await createAttribute("settings.breakerEarlyComplaintSends", () =>
+		databases.createIntegerAttribute(
+			DATABASE_ID,
+			CollectionId.SETTINGS,
+			"breakerEarlyComplaintSends",
+			false,
+			0,
+			undefined,
+			DEFAULT_SETTINGS.breakerEarlyComplaintSends
+		)
+	);
+
+	await createAttribute("campaigns.circuitBreakerTrippedAt", () =>
+		databases.createDatetimeAttribute(
+			DATABASE_ID,
+			CollectionId.CAMPAIGNS,
+			"circuitBreakerTrippedAt",
+			false
+		)
+	);
+	await createAttribute("campaigns.circuitBreakerReason", () =>
+		databases.createStringAttribute(
+			DATABASE_ID,
+			CollectionId.CAMPAIGNS,
+			"circuitBreakerReason",
+			500,
+			false
+		)
+	);
+	await createAttribute("campaigns.circuitBreakerBaseline", () =>
+		databases.createStringAttribute(
+			DATABASE_ID,
+			CollectionId.CAMPAIGNS,
+			"circuitBreakerBaseline",
+			500,
+			false
+		)
+	);
+
+	await databases.updateEnumAttribute(
+		DATABASE_ID,
+		CollectionId.LOGS,
+		"eventType",
+		Object.values(EventType),
+		true,
+		null as unknown as string
+	);
+	console.log("  ✓ Updated logs.eventType enum");
+
+	console.log("Migration 024 complete.");
+}
+
+async function createAttribute(label: string, create: () => Promise<unknown>): Promise<void> {
+	try {
+		await create();
+		console.log(`  ✓ Added attribute: ${label}`);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		if (message.includes("already exists")) {
+			console.log(`  ⏭ Attribute '${label}' already exists. Skipping.`);
+		} else {
+			throw error;
+		}
+	}
+}
+
+/**
+ * Appwrite Console Instructions (Manual)
+ *
+ * settings:
+ * - breakerMaxHardBounceRate: Float [Min: 0, Max: 100] [Default: 3]
+ * - breakerMaxComplaintRate: Float [Min: 0, Max: 100] [Default: 0.1]
+ * - breakerMinSends: Integer [Min: 0] [Default: 50]
+ * - breakerEarlyComplaintSends: Integer [Min: 0] [Default: 50]
+ *
+ * campaigns:
+ * - circuitBreakerTrippedAt: Datetime
+ * - circuitBreakerReason: String (500)
+ * - circuitBreakerBaseline: String (500) — JSON { acknowledgedAt, emailsSent, hardBounces, complaints }
+ *
+ * logs:
+ * - eventType: add CIRCUIT_BREAKER_ACKNOWLEDGED to enum
+ */
@@ -0,0 +1,92 @@
+/**
+ * Migration 025: Create Domain Throttle Rules
+ *
+ * Adds per-recipient-domain throttling:
+ * - domain_throttle_rules collection: hourly/daily caps per recipient domain
+ * - send_counters.scope: RECIPIENT_DOMAIN scope for per-domain hour/day counts
+ */
+import { type Client, Databases, IndexType } from "node-appwrite";
+import { CollectionId, DATABASE_ID } from "../shared/constants/collection.constants";
+import { SendCounterScope } from "../shared/constants/status.constants";
+
+export async function createDomainThrottleRules(client: Client): Promise<void> {
+	const databases = new Databases(client);
+
+	console.log("Adding recipient domain throttling...");
+
+	await createDomainThrottleRulesCollection(databases);
+
+	await databases.updateEnumAttribute(
+		DATABASE_ID,
+		CollectionId.SEND_COUNTERS,
+		"scope",
+		Object.values(SendCounterScope),
+		true,
+		null as unknown as string
+	);
+	console.log("  ✓ Updated send_counters.scope enum");
+
+	console.log("Migration 025 complete.");
+}
+
+async function createDomainThrottleRulesCollection(databases: Databases): Promise<void> {
+	const collectionId = CollectionId.DOMAIN_THROTTLE_RULES;
+
+	try {
+		await databases.getCollection(DATABASE_ID, collectionId);
+		console.log(`  ⏭ Collection '${collectionId}' already exists. Skipping.`);
+		return;
+	} catch {
+		// Collection doesn't exist, create it
+	}
+
+	await databases.createCollection(
+		DATABASE_ID,
+		collectionId,
+		"Domain Throttle Rules",
+		undefined,
+		true,
+		true
+	);
+
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "domain", 255, true);
+	await databases.createIntegerAttribute(
+		DATABASE_ID,
+		collectionId,
+		"hourlyLimit",
+		false,
+		0,
+		undefined,
+		0
+	);
+	await databases.createIntegerAttribute(
+		DATABASE_ID,
+		collectionId,
+		"dailyLimit",
+		false,
+		0,
+		undefined,
+		0
+	);
+
+	// Wait for attributes to become available before indexing
+	await new Promise((resolve) => setTimeout(resolve, 3000));
+
+	await databases.createIndex(DATABASE_ID, collectionId, "domain_idx", IndexType.Unique, [
+		"domain",
+	]);
+
+	console.log(`  ✓ Created collection: ${collectionId}`);
+}
+
+/**
+ * Appwrite Console Instructions (Manual)
+ *
+ * Collection ID: domain_throttle_rules
+ * - domain: String (255) [Required] — Unique index domain_idx; "*" for the default rule
+ * - hourlyLimit: Integer [Min: 0, Default: 0]
+ * - dailyLimit: Integer [Min: 0, Default: 0]
+ *
+ * send_counters:
+ * - scope: add RECIPIENT_DOMAIN to enum
+ */
@@ -0,0 +1,122 @@
+/**
+ * Migration 026: Add Lead Retries
+ *
+ * Retries greylisted leads and transient send failures with backoff:
+ * - leads.status: RETRYING
+ * - leads.attemptCount / nextAttemptAt: retry bookkeeping
+ * - settings.maxLeadAttempts / leadRetryBackoffMinutes
+ * - LEAD_RETRY_SCHEDULED log event type
+ */
+import { type Client, Databases, IndexType } from "node-appwrite";
+import { CollectionId, DATABASE_ID } from "../shared/constants/collection.constants";
+import { EventType } from "../shared/constants/event.constants";
+import { LeadStatus } from "../shared/constants/status.constants";
+import { DEFAULT_SETTINGS } from "../shared/types/settings.types";
+
+export async function addLeadRetries(client: Client): Promise<void> {
+	const databases = new Databases(client);
+
+	console.log("Adding lead retry queue...");
+
+	await databases.updateEnumAttribute(
+		DATABASE_ID,
+		CollectionId.LEADS,
+		"status",
+		Object.values(LeadStatus),
+		true,
+		null as unknown as string
+	);
+	console.log("  ✓ Updated leads.status enum");
+
+	await createAttribute("leads.attemptCount", () =>
+		databases.createIntegerAttribute(DATABASE_ID, CollectionId.LEADS, "attemptCount", false, 0)
+	);
+	await createAttribute("leads.nextAttemptAt", () =>
+		databases.createDatetimeAttribute(DATABASE_ID, CollectionId.LEADS, "nextAttemptAt", false)
+	);
+
+	await createAttribute("settings.maxLeadAttempts", () =>
+		databases.createIntegerAttribute(
+			DATABASE_ID,
+			CollectionId.SETTINGS,
+			"maxLeadAttempts",
+			false,
+			1,
+			undefined,
+			DEFAULT_SETTINGS.maxLeadAttempts
+		)
+	);
+	await createAttribute("settings.leadRetryBackoffMinutes", () =>
+		databases.createIntegerAttribute(
+			DATABASE_ID,
+			CollectionId.SETTINGS,
+			"leadRetryBackoffMinutes",
+			false,
+			1,
+			undefined,
+			DEFAULT_SETTINGS.leadRetryBackoffMinutes
+		)
+	);
+
+	await databases.updateEnumAttribute(
+		DATABASE_ID,
+		CollectionId.LOGS,
+		"eventType",
+		Object.values(EventType),
+		true,
+		null as unknown as string
+	);
+	console.log("  ✓ Updated logs.eventType enum");
+
+	// Wait for attributes to become available before indexing
+	await new Promise((resolve) => setTimeout(resolve, 3000));
+
+	try {
+		await databases.createIndex(
+			DATABASE_ID,
+			CollectionId.LEADS,
+			"campaign_retry_idx",
+			IndexType.Key,
+			["campaignId", "status", "nextAttemptAt"]
+		);
+		console.log("  ✓ Created index: leads.campaign_retry_idx");
+	} catch (e) {
+		console.log(
+			"  ⏭ Index leads.campaign_retry_idx already exists or failed:",
+			(e as Error).message
+		);
+	}
+
+	console.log("Migration 026 complete.");
+}
+
+async function createAttribute(label: string, create: () => Promise<unknown>): Promise<void> {
+	try {
+		await create();
+		console.log(`  ✓ Added attribute: ${label}`);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		if (message.includes("already exists")) {
+			console.log(`  ⏭ Attribute '${label}' already exists. Skipping.`);
+		} else {
+			throw error;
+		}
+	}
+}
+
+/**
+ * Appwrite Console Instructions (Manual)
+ *
+ * leads:
+ * - status: add RETRYING to enum
+ * - attemptCount: Integer [Min: 0]
+ * - nextAttemptAt: Datetime
+ * - Index campaign_retry_idx: Key on [campaignId, status, nextAttemptAt]
+ *
+ * settings:
+ * - maxLeadAttempts: Integer [Min: 1] [Default: 4]
+ * - leadRetryBackoffMinutes: Integer [Min: 1] [Default: 30]
+ *
+ * logs:
+ * - eventType: add LEAD_RETRY_SCHEDULED to enum
+ */
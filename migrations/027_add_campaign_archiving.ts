@@ -0,0 +1,56 @@
+/**
+ * Migration 027: Add Campaign Archiving
+ *
+ * Campaigns are now managed from the UI through the manage-campaign function:
+ * - campaigns.archivedAt: hides a finished campaign from the dashboard
+ * - CAMPAIGN_ARCHIVED / CAMPAIGN_RESTORED / CAMPAIGN_DELETED log event types
+ */
+import { type Client, Databases } from "node-appwrite";
+import { CollectionId, DATABASE_ID } from "../shared/constants/collection.constants";
+import { EventType } from "../shared/constants/event.constants";
+
+export async function addCampaignArchiving(client: Client): Promise<void> {
+	const databases = new Databases(client);
+
+	console.log("Adding campaign archiving...");
+
+	await createAttribute("campaigns.archivedAt", () =>
+		databases.createDatetimeAttribute(DATABASE_ID, CollectionId.CAMPAIGNS, "archivedAt", false)
+	);
+
+	await databases.updateEnumAttribute(
+		DATABASE_ID,
+		CollectionId.LOGS,
+		"eventType",
+		Object.values(EventType),
+		true,
+		null as unknown as string
+	);
+	console.log("  ✓ Updated logs.eventType enum");
+
+	console.log("Migration 027 complete.");
+}
+
+async function createAttribute(label: string, create: () => Promise<unknown>): Promise<void> {
+	try {
+		await create();
+		console.log(`  ✓ Added attribute: ${label}`);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		if (message.includes("already exists")) {
+			console.log(`  ⏭ Attribute '${label}' already exists. Skipping.`);
+		} else {
+			throw error;
+		}
+	}
+}
+
+/**
+ * Appwrite Console Instructions (Manual)
+ *
+ * campaigns:
+ * - archivedAt: Datetime
+ *
+ * logs:
+ * - eventType: add CAMPAIGN_ARCHIVED, CAMPAIGN_RESTORED, CAMPAIGN_DELETED to enum
+ */
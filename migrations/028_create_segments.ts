@@ -0,0 +1,126 @@
+/**
+ * Migration 028: Create Segments
+ *
+ * Adds the segment builder for assigning leads to campaigns:
+ * - leads.tags / importBatchId: attributes segments filter on
+ * - segments collection: saved, re-applicable segments
+ * - SEGMENT_ASSIGNED log event type
+ */
+import { type Client, Databases, IndexType } from "node-appwrite";
+import { CollectionId, DATABASE_ID } from "../shared/constants/collection.constants";
+import { EventType } from "../shared/constants/event.constants";
+import { SegmentMatch } from "../shared/constants/status.constants";
+
+export async function createSegments(client: Client): Promise<void> {
+	const databases = new Databases(client);
+
+	console.log("Adding lead segments...");
+
+	await createAttribute("leads.tags", () =>
+		databases.createStringAttribute(
+			DATABASE_ID,
+			CollectionId.LEADS,
+			"tags",
+			64,
+			false,
+			undefined,
+			true
+		)
+	);
+	await createAttribute("leads.importBatchId", () =>
+		databases.createStringAttribute(DATABASE_ID, CollectionId.LEADS, "importBatchId", 64, false)
+	);
+
+	await createSegmentsCollection(databases);
+
+	await databases.updateEnumAttribute(
+		DATABASE_ID,
+		CollectionId.LOGS,
+		"eventType",
+		Object.values(EventType),
+		true,
+		null as unknown as string
+	);
+	console.log("  ✓ Updated logs.eventType enum");
+
+	// Wait for attributes to become available before indexing
+	await new Promise((resolve) => setTimeout(resolve, 3000));
+
+	try {
+		await databases.createIndex(
+			DATABASE_ID,
+			CollectionId.LEADS,
+			"import_batch_idx",
+			IndexType.Key,
+			["importBatchId"]
+		);
+		console.log("  ✓ Created index: leads.import_batch_idx");
+	} catch (e) {
+		console.log("  ⏭ Index leads.import_batch_idx already exists or failed:", (e as Error).message);
+	}
+
+	console.log("Migration 028 complete.");
+}
+
+async function createSegmentsCollection(databases: Databases): Promise<void> {
+	const collectionId = CollectionId.SEGMENTS;
+
+	try {
+		await databases.getCollection(DATABASE_ID, collectionId);
+		console.log(`  ⏭ Collection '${collectionId}' already exists. Skipping.`);
+		return;
+	} catch {
+		// Collection doesn't exist, create it
+	}
+
+	await databases.createCollection(DATABASE_ID, collectionId, "Segments", undefined, true, true);
+
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "name", 255, true);
+	await databases.createEnumAttribute(
+		DATABASE_ID,
+		collectionId,
+		"match",
+		Object.values(SegmentMatch),
+		true
+	);
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "conditions", 20000, true);
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "campaignId", 36, true);
+	await databases.createDatetimeAttribute(DATABASE_ID, collectionId, "lastAppliedAt", false);
+	await databases.createIntegerAttribute(DATABASE_ID, collectionId, "lastAssignedCount", false, 0);
+
+	console.log(`  ✓ Created collection: ${collectionId}`);
+}
+
+async function createAttribute(label: string, create: () => Promise<unknown>): Promise<void> {
+	try {
+		await create();
+		console.log(`  ✓ Added attribute: ${label}`);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		if (message.includes("already exists")) {
+			console.log(`  ⏭ Attribute '${label}' already exists. Skipping.`);
+		} else {
+			throw error;
+		}
+	}
+}
+
+/**
+ * Appwrite Console Instructions (Manual)
+ *
+ * leads:
+ * - tags: String (64) [Array]
+ * - importBatchId: String (64)
+ * - Index import_batch_idx: Key on [importBatchId]
+ *
+ * Collection ID: segments
+ * - name: String (255) [Required]
+ * - match: Enum [ALL, ANY] [Required]
+ * - conditions: String (20000) [Required] — JSON array of conditions
+ * - campaignId: String (36) [Required]
+ * - lastAppliedAt: Datetime
+ * - lastAssignedCount: Integer [Min: 0]
+ *
+ * logs:
+ * - eventType: add SEGMENT_ASSIGNED to enum
+ */
@@ -0,0 +1,100 @@
+/**
+ * Migration 029: Add Contact Frequency Cap
+ *
+ * Stops any campaign from emailing someone who was emailed recently:
+ * - settings.contactCapDays / contactCapByDomain
+ * - leads.lastContactedAt: last send to the lead by any campaign (indexed)
+ * - leads.skipReason: why a lead was SKIPPED
+ */
+import { type Client, Databases, IndexType } from "node-appwrite";
+import { CollectionId, DATABASE_ID } from "../shared/constants/collection.constants";
+import { SkipReason } from "../shared/constants/status.constants";
+import { DEFAULT_SETTINGS } from "../shared/types/settings.types";
+
+export async function addContactFrequencyCap(client: Client): Promise<void> {
+	const databases = new Databases(client);
+
+	console.log("Adding contact frequency cap...");
+
+	await createAttribute("settings.contactCapDays", () =>
+		databases.createIntegerAttribute(
+			DATABASE_ID,
+			CollectionId.SETTINGS,
+			"contactCapDays",
+			false,
+			0,
+			365,
+			DEFAULT_SETTINGS.contactCapDays
+		)
+	);
+	await createAttribute("settings.contactCapByDomain", () =>
+		databases.createBooleanAttribute(
+			DATABASE_ID,
+			CollectionId.SETTINGS,
+			"contactCapByDomain",
+			false,
+			DEFAULT_SETTINGS.contactCapByDomain
+		)
+	);
+
+	await createAttribute("leads.lastContactedAt", () =>
+		databases.createDatetimeAttribute(DATABASE_ID, CollectionId.LEADS, "lastContactedAt", false)
+	);
+	await createAttribute("leads.skipReason", () =>
+		databases.createEnumAttribute(
+			DATABASE_ID,
+			CollectionId.LEADS,
+			"skipReason",
+			Object.values(SkipReason),
+			false
+		)
+	);
+
+	// Wait for attributes to become available before indexing
+	await new Promise((resolve) => setTimeout(resolve, 3000));
+
+	try {
+		await databases.createIndex(
+			DATABASE_ID,
+			CollectionId.LEADS,
+			"last_contacted_idx",
+			IndexType.Key,
+			["lastContactedAt"]
+		);
+		console.log("  ✓ Created index: leads.last_contacted_idx");
+	} catch (e) {
+		console.log(
+			"  ⏭ Index leads.last_contacted_idx already exists or failed:",
+			(e as Error).message
+		);
+	}
+
+	console.log("Migration 029 complete.");
+}
+
+async function createAttribute(label: string, create: () => Promise<unknown>): Promise<void> {
+	try {
+		await create();
+		console.log(`  ✓ Added attribute: ${label}`);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		if (message.includes("already exists")) {
+			console.log(`  ⏭ Attribute '${label}' already exists. Skipping.`);
+		} else {
+			throw error;
+		}
+	}
+}
+
+/**
+ * Appwrite Console Instructions (Manual)
+ *
+ * settings:
+ * - contactCapDays: Integer [Min: 0, Max: 365] [Default: 0]
+ * - contactCapByDomain: Boolean [Default: true]
+ *
+ * leads:
+ * - lastContactedAt: Datetime
+ * - skipReason: Enum [CONTACT_FREQUENCY_CAP]
+ * - Index last_contacted_idx: Key on [lastContactedAt]
+ */
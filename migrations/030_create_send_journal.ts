@@ -0,0 +1,83 @@
+/**
+ * Migration 030: Create Send Journal
+ *
+ * One entry per SES send attempt, keyed by the attempt's idempotency key.
+ * The orchestrator records the intent before calling SES and the result
+ * after; the sqs-poller confirms entries from SES Send events. Recovery
+ * reconciles SENDING leads against it instead of guessing.
+ */
+import { type Client, Databases, IndexType } from "node-appwrite";
+import { CollectionId, DATABASE_ID } from "../shared/constants/collection.constants";
+import { SendJournalStatus } from "../shared/constants/status.constants";
+
+export async function createSendJournal(client: Client): Promise<void> {
+	const databases = new Databases(client);
+	const collectionId = CollectionId.SEND_JOURNAL;
+
+	console.log("Creating send journal...");
+
+	try {
+		await databases.getCollection(DATABASE_ID, collectionId);
+		console.log(`  ⏭ Collection '${collectionId}' already exists. Skipping.`);
+		return;
+	} catch {
+		// Collection doesn't exist, create it
+	}
+
+	await databases.createCollection(
+		DATABASE_ID,
+		collectionId,
+		"Send Journal",
+		undefined,
+		true,
+		true
+	);
+
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "leadId", 36, true);
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "campaignId", 36, true);
+	await databases.createIntegerAttribute(DATABASE_ID, collectionId, "sequenceStep", true, 0);
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "recipientEmail", 320, true);
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "senderEmail", 320, true);
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "variantId", 36, false);
+	await databases.createEnumAttribute(
+		DATABASE_ID,
+		collectionId,
+		"status",
+		Object.values(SendJournalStatus),
+		true
+	);
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "sesMessageId", 128, false);
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "errorMessage", 1000, false);
+	await databases.createDatetimeAttribute(DATABASE_ID, collectionId, "completedAt", false);
+
+	console.log(`  ✓ Created collection: ${collectionId}`);
+
+	// Wait for attributes to become available before indexing
+	await new Promise((resolve) => setTimeout(resolve, 3000));
+
+	try {
+		await databases.createIndex(DATABASE_ID, collectionId, "lead_idx", IndexType.Key, ["leadId"]);
+		console.log("  ✓ Created index: send_journal.lead_idx");
+	} catch (e) {
+		console.log("  ⏭ Index send_journal.lead_idx already exists or failed:", (e as Error).message);
+	}
+
+	console.log("Migration 030 complete.");
+}
+
+/**
+ * Appwrite Console Instructions (Manual)
+ *
+ * Collection ID: send_journal (document ID = idempotency key)
+ * - leadId: String (36) [Required]
+ * - campaignId: String (36) [Required]
+ * - sequenceStep: Integer [Min: 0] [Required]
+ * - recipientEmail: String (320) [Required]
+ * - senderEmail: String (320) [Required]
+ * - variantId: String (36)
+ * - status: Enum [PENDING, SENT, CONFIRMED, FAILED, ROLLED_BACK] [Required]
+ * - sesMessageId: String (128)
+ * - errorMessage: String (1000)
+ * - completedAt: Datetime
+ * - Index lead_idx: Key on [leadId]
+ */
@@ -0,0 +1,55 @@
+/**
+ * Migration 031: Add Delay Strategies
+ *
+ * Lets each campaign pick how the gap between sends is drawn:
+ * - campaigns.delayStrategy: GAUSSIAN (previous behaviour), LOG_NORMAL,
+ *   POISSON_BURST or TIME_OF_DAY
+ * - campaigns.delayParams: JSON strategy parameters, including the replay seed
+ */
+import { type Client, Databases } from "node-appwrite";
+import { CollectionId, DATABASE_ID } from "../shared/constants/collection.constants";
+import { DelayStrategy } from "../shared/constants/status.constants";
+
+export async function addDelayStrategies(client: Client): Promise<void> {
+	const databases = new Databases(client);
+
+	console.log("Adding delay strategies...");
+
+	await createAttribute("campaigns.delayStrategy", () =>
+		databases.createEnumAttribute(
+			DATABASE_ID,
+			CollectionId.CAMPAIGNS,
+			"delayStrategy",
+			Object.values(DelayStrategy),
+			false,
+			DelayStrategy.GAUSSIAN
+		)
+	);
+	await createAttribute("campaigns.delayParams", () =>
+		databases.createStringAttribute(DATABASE_ID, CollectionId.CAMPAIGNS, "delayParams", 2000, false)
+	);
+
+	console.log("Migration 031 complete.");
+}
+
+async function createAttribute(label: string, create: () => Promise<unknown>): Promise<void> {
+	try {
+		await create();
+		console.log(`  ✓ Added attribute: ${label}`);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		if (message.includes("already exists")) {
+			console.log(`  ⏭ Attribute '${label}' already exists. Skipping.`);
+		} else {
+			throw error;
+		}
+	}
+}
+
+/**
+ * Appwrite Console Instructions (Manual)
+ *
+ * campaigns:
+ * - delayStrategy: Enum [GAUSSIAN, LOG_NORMAL, POISSON_BURST, TIME_OF_DAY] [Default: GAUSSIAN]
+ * - delayParams: String (2000) — JSON strategy parameters
+ */
@@ -0,0 +1,146 @@
+/**
+ * Migration 032: Create Webhooks
+ *
+ * Outbound webhooks for campaign and lead events:
+ * - webhooks: endpoints, their secrets and the event types they receive
+ * - webhook_deliveries: one queued event per webhook, with the outcome of
+ *   its latest attempt (written by the dispatch-webhooks function)
+ */
+import { type Client, Databases, IndexType } from "node-appwrite";
+import { CollectionId, DATABASE_ID } from "../shared/constants/collection.constants";
+import { WebhookDeliveryStatus } from "../shared/constants/status.constants";
+
+export async function createWebhooks(client: Client): Promise<void> {
+	const databases = new Databases(client);
+
+	console.log("Creating webhooks...");
+
+	await createWebhooksCollection(databases);
+	await createDeliveriesCollection(databases);
+
+	console.log("Migration 032 complete.");
+}
+
+async function createWebhooksCollection(databases: Databases): Promise<void> {
+	const collectionId = CollectionId.WEBHOOKS;
+
+	try {
+		await databases.getCollection(DATABASE_ID, collectionId);
+		console.log(`  ⏭ Collection '${collectionId}' already exists. Skipping.`);
+		return;
+	} catch {
+		// Collection doesn't exist, create it
+	}
+
+	await databases.createCollection(DATABASE_ID, collectionId, "Webhooks", undefined, true, true);
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "name", 255, true);
+	await databases.createUrlAttribute(DATABASE_ID, collectionId, "url", true);
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "secret", 255, true);
+	await databases.createStringAttribute(
+		DATABASE_ID,
+		collectionId,
+		"eventTypes",
+		64,
+		false,
+		undefined,
+		true
+	);
+	await databases.createBooleanAttribute(DATABASE_ID, collectionId, "enabled", false, true);
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "cursorLogId", 36, false);
+
+	console.log(`  ✓ Created collection: ${collectionId}`);
+}
+
+async function createDeliveriesCollection(databases: Databases): Promise<void> {
+	const collectionId = CollectionId.WEBHOOK_DELIVERIES;
+
+	try {
+		await databases.getCollection(DATABASE_ID, collectionId);
+		console.log(`  ⏭ Collection '${collectionId}' already exists. Skipping.`);
+		return;
+	} catch {
+		// Collection doesn't exist, create it
+	}
+
+	await databases.createCollection(
+		DATABASE_ID,
+		collectionId,
+		"Webhook Deliveries",
+		undefined,
+		true,
+		true
+	);
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "webhookId", 36, true);
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "logId", 36, true);
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "eventType", 64, true);
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "payload", 20000, true);
+	await databases.createEnumAttribute(
+		DATABASE_ID,
+		collectionId,
+		"status",
+		Object.values(WebhookDeliveryStatus),
+		true
+	);
+	await databases.createIntegerAttribute(
+		DATABASE_ID,
+		collectionId,
+		"attemptCount",
+		false,
+		0,
+		undefined,
+		0
+	);
+	await databases.createDatetimeAttribute(DATABASE_ID, collectionId, "nextAttemptAt", false);
+	await databases.createDatetimeAttribute(DATABASE_ID, collectionId, "lastAttemptAt", false);
+	await databases.createIntegerAttribute(DATABASE_ID, collectionId, "responseStatus", false);
+	await databases.createStringAttribute(DATABASE_ID, collectionId, "errorMessage", 1000, false);
+	await databases.createDatetimeAttribute(DATABASE_ID, collectionId, "deliveredAt", false);
+
+	console.log(`  ✓ Created collection: ${collectionId}`);
+
+	// Wait for attributes to become available before indexing
+	await new Promise((resolve) => setTimeout(resolve, 3000));
+
+	const indexes: Array<[string, string[]]> = [
+		["status_due_idx", ["status", "nextAttemptAt"]],
+		["webhook_idx", ["webhookId"]],
+	];
+	for (const [key, attributes] of indexes) {
+		try {
+			await databases.createIndex(DATABASE_ID, collectionId, key, IndexType.Key, attributes);
+			console.log(`  ✓ Created index: webhook_deliveries.${key}`);
+		} catch (e) {
+			console.log(
+				`  ⏭ Index webhook_deliveries.${key} already exists or failed:`,
+				(e as Error).message
+			);
+		}
+	}
+}
+
+/**
+ * Appwrite Console Instructions (Manual)
+ *
+ * Collection ID: webhooks
+ * - name: String (255) [Required]
+ * - url: URL [Required]
+ * - secret: String (255) [Required]
+ * - eventTypes: String (64) [Array] — EventType values
+ * - enabled: Boolean [Default: true]
+ * - cursorLogId: String (36)
+ *
+ * Collection ID: webhook_deliveries
+ * - webhookId: String (36) [Required]
+ * - logId: String (36) [Required]
+ * - eventType: String (64) [Required]
+ * - payload: String (20000) [Required] — JSON WebhookPayload
+ * - status: Enum [PENDING, DELIVERED, RETRYING, FAILED] [Required]
+ * - attemptCount: Integer [Min: 0] [Default: 0]
+ * - nextAttemptAt: Datetime
+ * - lastAttemptAt: Datetime
+ * - responseStatus: Integer
+ * - errorMessage: String (1000)
+ * - deliveredAt: Datetime
+ * - Index status_due_idx: Key on [status, nextAttemptAt]
+ * - Index webhook_idx: Key on [webhookId]
+ */
@@ -0,0 +1,50 @@
+/**
+ * Migration 033: Add Body Format
+ *
+ * Lets each campaign write its body templates in Markdown or rich text,
+ * both sent as sanitized HTML with a plain-text alternative:
+ * - campaigns.bodyFormat: RICH_TEXT (previous behaviour) or MARKDOWN
+ */
+import { type Client, Databases } from "node-appwrite";
+import { CollectionId, DATABASE_ID } from "../shared/constants/collection.constants";
+import { BodyFormat } from "../shared/constants/status.constants";
+
+export async function addBodyFormat(client: Client): Promise<void> {
+	const databases = new Databases(client);
+
+	console.log("Adding body format...");
+
+	await createAttribute("campaigns.bodyFormat", () =>
+		databases.createEnumAttribute(
+			DATABASE_ID,
+			CollectionId.CAMPAIGNS,
+			"bodyFormat",
+			Object.values(BodyFormat),
+			false,
+			BodyFormat.RICH_TEXT
+		)
+	);
+
+	console.log("Migration 033 complete.");
+}
+
+async function createAttribute(label: string, create: () => Promise<unknown>): Promise<void> {
+	try {
+		await create();
+		console.log(`  ✓ Added attribute: ${label}`);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		if (message.includes("already exists")) {
+			console.log(`  ⏭ Attribute '${label}' already exists. Skipping.`);
+		} else {
+			throw error;
+		}
+	}
+}
+
+/**
+ * Appwrite Console Instructions (Manual)
+ *
+ * campaigns:
+ * - bodyFormat: Enum [MARKDOWN, RICH_TEXT] [Default: RICH_TEXT]
+ */
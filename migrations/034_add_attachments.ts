@@ -0,0 +1,74 @@
+/**
+ * Migration 034: Add Attachments
+ *
+ * Lets a campaign or sequence step attach files from Storage:
+ * - campaign-attachments bucket: uploaded from the dashboard, downloaded
+ *   by the orchestrator when sending
+ * - campaigns.attachments: files on the initial email (JSON string);
+ *   follow-up steps keep theirs inside sequenceSteps
+ */
+import { type Client, Databases, Permission, Role, Storage } from "node-appwrite";
+import { MAX_ATTACHMENT_BYTES } from "../shared/attachments/limits";
+import { BucketId, CollectionId, DATABASE_ID } from "../shared/constants/collection.constants";
+
+export async function addAttachments(client: Client): Promise<void> {
+	const databases = new Databases(client);
+	const storage = new Storage(client);
+
+	console.log("Adding attachments...");
+
+	try {
+		await storage.createBucket(
+			BucketId.CAMPAIGN_ATTACHMENTS,
+			"Campaign Attachments",
+			[
+				Permission.read(Role.users()),
+				Permission.create(Role.users()),
+				Permission.delete(Role.users()),
+			],
+			false,
+			true,
+			MAX_ATTACHMENT_BYTES
+		);
+		console.log(`  ✓ Created bucket: ${BucketId.CAMPAIGN_ATTACHMENTS}`);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		if (message.includes("already exists")) {
+			console.log(`  ⏭ Bucket '${BucketId.CAMPAIGN_ATTACHMENTS}' already exists. Skipping.`);
+		} else {
+			throw error;
+		}
+	}
+
+	await createAttribute("campaigns.attachments", () =>
+		databases.createStringAttribute(DATABASE_ID, CollectionId.CAMPAIGNS, "attachments", 5000, false)
+	);
+
+	console.log("Migration 034 complete.");
+}
+
+async function createAttribute(label: string, create: () => Promise<unknown>): Promise<void> {
+	try {
+		await create();
+		console.log(`  ✓ Added attribute: ${label}`);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		if (message.includes("already exists")) {
+			console.log(`  ⏭ Attribute '${label}' already exists. Skipping.`);
+		} else {
+			throw error;
+		}
+	}
+}
+
+/**
+ * Appwrite Console Instructions (Manual)
+ *
+ * Storage bucket campaign-attachments ("Campaign Attachments"):
+ * - Permissions: Users can read, create and delete
+ * - File security: off
+ * - Maximum file size: 5MB
+ *
+ * campaigns:
+ * - attachments: String (5000) [Optional]
+ */
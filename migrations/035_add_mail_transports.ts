@@ -0,0 +1,110 @@
+/**
+ * Migration 035: Add Mail Transports
+ *
+ * Lets settings choose how emails are sent:
+ * - settings.mailTransport: SES (previous behaviour), SMTP or LOCAL_SINK
+ * - settings.smtpHost / smtpPort / smtpSecure / smtpUsername / smtpPassword
+ * - settings.smtpTimeoutMs: SMTP and local sink connection timeout
+ * - settings.localSinkTarget: .eml directory or smtp://host:port (e.g., MailHog)
+ */
+import { type Client, Databases } from "node-appwrite";
+import { CollectionId, DATABASE_ID } from "../shared/constants/collection.constants";
+import { MailTransport } from "../shared/constants/status.constants";
+import { DEFAULT_SETTINGS } from "../shared/types/settings.types";
+
+export async function addMailTransports(client: Client): Promise<void> {
+	const databases = new Databases(client);
+
+	console.log("Adding mail transports...");
+
+	await createAttribute("settings.mailTransport", () =>
+		databases.createEnumAttribute(
+			DATABASE_ID,
+			CollectionId.SETTINGS,
+			"mailTransport",
+			Object.values(MailTransport),
+			false,
+			DEFAULT_SETTINGS.mailTransport
+		)
+	);
+	await createAttribute("settings.smtpHost", () =>
+		databases.createStringAttribute(DATABASE_ID, CollectionId.SETTINGS, "smtpHost", 255, false)
+	);
+	await createAttribute("settings.smtpPort", () =>
+		databases.createIntegerAttribute(
+			DATABASE_ID,
+			CollectionId.SETTINGS,
+			"smtpPort",
+			false,
+			1,
+			65535,
+			DEFAULT_SETTINGS.smtpPort
+		)
+	);
+	await createAttribute("settings.smtpSecure", () =>
+		databases.createBooleanAttribute(
+			DATABASE_ID,
+			CollectionId.SETTINGS,
+			"smtpSecure",
+			false,
+			DEFAULT_SETTINGS.smtpSecure
+		)
+	);
+	await createAttribute("settings.smtpUsername", () =>
+		databases.createStringAttribute(DATABASE_ID, CollectionId.SETTINGS, "smtpUsername", 255, false)
+	);
+	await createAttribute("settings.smtpPassword", () =>
+		databases.createStringAttribute(DATABASE_ID, CollectionId.SETTINGS, "smtpPassword", 255, false)
+	);
+	await createAttribute("settings.smtpTimeoutMs", () =>
+		databases.createIntegerAttribute(
+			DATABASE_ID,
+			CollectionId.SETTINGS,
+			"smtpTimeoutMs",
+			false,
+			1000,
+			300000,
+			DEFAULT_SETTINGS.smtpTimeoutMs
+		)
+	);
+	await createAttribute("settings.localSinkTarget", () =>
+		databases.createStringAttribute(
+			DATABASE_ID,
+			CollectionId.SETTINGS,
+			"localSinkTarget",
+			500,
+			false,
+			DEFAULT_SETTINGS.localSinkTarget
+		)
+	);
+
+	console.log("Migration 035 complete.");
+}
+
+async function createAttribute(label: string, create: () => Promise<unknown>): Promise<void> {
+	try {
+		await create();
+		console.log(`  ✓ Added attribute: ${label}`);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		if (message.includes("already exists")) {
+			console.log(`  ⏭ Attribute '${label}' already exists. Skipping.`);
+		} else {
+			throw error;
+		}
+	}
+}
+
+/**
+ * Appwrite Console Instructions (Manual)
+ *
+ * settings:
+ * - mailTransport: Enum [SES, SMTP, LOCAL_SINK] [Default: SES]
+ * - smtpHost: String (255) [Optional]
+ * - smtpPort: Integer [Min: 1, Max: 65535] [Default: 587]
+ * - smtpSecure: Boolean [Default: false]
+ * - smtpUsername: String (255) [Optional]
+ * - smtpPassword: String (255) [Optional]
+ * - smtpTimeoutMs: Integer [Min: 1000, Max: 300000] [Default: 30000] - also used by the local sink
+ * - localSinkTarget: String (500) [Default: smtp://localhost:1025]
+ */
@@ -0,0 +1,68 @@
+/**
+ * Migration 036: Add Send Options
+ *
+ * Per-campaign settings for how each email is sent:
+ * - campaigns.replyTo: address replies go to (e.g., a shared sales inbox)
+ * - campaigns.customHeaders: extra headers (JSON)
+ * - campaigns.sesConfigurationSet: SES configuration set routing events
+ * - campaigns.emailTags: SES tags added to the built-in ones (JSON)
+ */
+import { type Client, Databases } from "node-appwrite";
+import { CollectionId, DATABASE_ID } from "../shared/constants/collection.constants";
+
+export async function addSendOptions(client: Client): Promise<void> {
+	const databases = new Databases(client);
+
+	console.log("Adding campaign send options...");
+
+	await createAttribute("campaigns.replyTo", () =>
+		databases.createStringAttribute(DATABASE_ID, CollectionId.CAMPAIGNS, "replyTo", 320, false)
+	);
+	await createAttribute("campaigns.customHeaders", () =>
+		databases.createStringAttribute(
+			DATABASE_ID,
+			CollectionId.CAMPAIGNS,
+			"customHeaders",
+			5000,
+			false
+		)
+	);
+	await createAttribute("campaigns.sesConfigurationSet", () =>
+		databases.createStringAttribute(
+			DATABASE_ID,
+			CollectionId.CAMPAIGNS,
+			"sesConfigurationSet",
+			64,
+			false
+		)
+	);
+	await createAttribute("campaigns.emailTags", () =>
+		databases.createStringAttribute(DATABASE_ID, CollectionId.CAMPAIGNS, "emailTags", 5000, false)
+	);
+
+	console.log("Migration 036 complete.");
+}
+
+async function createAttribute(label: string, create: () => Promise<unknown>): Promise<void> {
+	try {
+		await create();
+		console.log(`  ✓ Added attribute: ${label}`);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		if (message.includes("already exists")) {
+			console.log(`  ⏭ Attribute '${label}' already exists. Skipping.`);
+		} else {
+			throw error;
+		}
+	}
+}
+
+/**
+ * Appwrite Console Instructions (Manual)
+ *
+ * campaigns:
+ * - replyTo: String (320) [Optional]
+ * - customHeaders: String (5000) [Optional] - JSON object of header name to value
+ * - sesConfigurationSet: String (64) [Optional]
+ * - emailTags: String (5000) [Optional] - JSON object of tag name to value
+ */
@@ -0,0 +1,51 @@
+/**
+ * Migration 037: Add A/B Test Max Wait
+ *
+ * Bounds how long an A/B test waits for its minimum events:
+ * - campaigns.abTestMaxWaitHours: hours after the sample is sent after which
+ *   the test is decided on the results so far
+ */
+import { type Client, Databases } from "node-appwrite";
+import { CollectionId, DATABASE_ID } from "../shared/constants/collection.constants";
+import { AB_TEST_DEFAULTS } from "../shared/types/campaign.types";
+
+export async function addAbTestMaxWait(client: Client): Promise<void> {
+	const databases = new Databases(client);
+
+	console.log("Adding A/B test max wait...");
+
+	await createAttribute("campaigns.abTestMaxWaitHours", () =>
+		databases.createIntegerAttribute(
+			DATABASE_ID,
+			CollectionId.CAMPAIGNS,
+			"abTestMaxWaitHours",
+			false,
+			0,
+			undefined,
+			AB_TEST_DEFAULTS.maxWaitHours
+		)
+	);
+
+	console.log("Migration 037 complete.");
+}
+
+async function createAttribute(label: string, create: () => Promise<unknown>): Promise<void> {
+	try {
+		await create();
+		console.log(`  ✓ Added attribute: ${label}`);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		if (message.includes("already exists")) {
+			console.log(`  ⏭ Attribute '${label}' already exists. Skipping.`);
+		} else {
+			throw error;
+		}
+	}
+}
+
+/**
+ * Appwrite Console Instructions (Manual)
+ *
+ * campaigns:
+ * - abTestMaxWaitHours: Integer [Min: 0] [Default: 72]
+ */
@@ -30,3 +30,27 @@ export * from "./010_create_staged_leads";
 export * from "./011_add_phone_number_to_leads";
 export * from "./012_add_lead_type_to_leads";
 export * from "./013_add_email_events_metrics";
+export * from "./014_add_campaign_sequences";
+export * from "./015_add_sending_windows";
+export * from "./016_add_campaign_schedules";
+export * from "./017_add_send_caps";
+export * from "./018_add_sender_pools";
+export * from "./019_create_warmup_plans";
+export * from "./020_add_ab_variants";
+export * from "./021_create_outbox";
+export * from "./022_add_run_continuations";
+export * from "./023_add_buffered_verification";
+export * from "./024_add_circuit_breaker";
+export * from "./025_create_domain_throttle_rules";
+export * from "./026_add_lead_retries";
+export * from "./027_add_campaign_archiving";
+export * from "./028_create_segments";
+export * from "./029_add_contact_frequency_cap";
+export * from "./030_create_send_journal";
+export * from "./031_add_delay_strategies";
+export * from "./032_create_webhooks";
+export * from "./033_add_body_format";
+export * from "./034_add_attachments";
+export * from "./035_add_mail_transports";
+export * from "./036_add_send_options";
+export * from "./037_add_ab_test_max_wait";
@@ -25,6 +25,30 @@ import { createLocksCollection } from "./009_create_locks";
 import { createStagedLeadsCollection } from "./010_create_staged_leads";
 import { addPhoneNumberToLeads } from "./011_add_phone_number_to_leads";
 import { addLeadTypeToLeads } from "./012_add_lead_type_to_leads";
+import { addCampaignSequences } from "./014_add_campaign_sequences";
+import { addSendingWindows } from "./015_add_sending_windows";
+import { addCampaignSchedules } from "./016_add_campaign_schedules";
+import { addSendCaps } from "./017_add_send_caps";
+import { addSenderPools } from "./018_add_sender_pools";
+import { createWarmupPlans } from "./019_create_warmup_plans";
+import { addAbVariants } from "./020_add_ab_variants";
+import { createOutbox } from "./021_create_outbox";
+import { addRunContinuations } from "./022_add_run_continuations";
+import { addBufferedVerification } from "./023_add_buffered_verification";
+import { addCircuitBreaker } from "./024_add_circuit_breaker";
+import { createDomainThrottleRules } from "./025_create_domain_throttle_rules";
+import { addLeadRetries } from "./026_add_lead_retries";
+import { addCampaignArchiving } from "./027_add_campaign_archiving";
+import { createSegments } from "./028_create_segments";
+import { addContactFrequencyCap } from "./029_add_contact_frequency_cap";
+import { createSendJournal } from "./030_create_send_journal";
+import { addDelayStrategies } from "./031_add_delay_strategies";
+import { createWebhooks } from "./032_create_webhooks";
+import { addBodyFormat } from "./033_add_body_format";
+import { addAttachments } from "./034_add_attachments";
+import { addMailTransports } from "./035_add_mail_transports";
+import { addSendOptions } from "./036_add_send_options";
+import { addAbTestMaxWait } from "./037_add_ab_test_max_wait";
 
 async function runMigrations(): Promise<void> {
 	console.log("╔═══════════════════════════════════════════════════════════════╗");
@@ -99,6 +123,102 @@ async function runMigrations(): Promise<void> {
 		console.log("Step 11/12: Adding leadType to leads collection...");
 		await addLeadTypeToLeads(client);
 
+		console.log("─────────────────────────────────────────────────────────────────");
+		console.log("Step 12/13: Adding campaign sequences...");
+		await addCampaignSequences(client);
+
+		console.log("─────────────────────────────────────────────────────────────────");
+		console.log("Step 13/14: Adding sending windows...");
+		await addSendingWindows(client);
+
+		console.log("─────────────────────────────────────────────────────────────────");
+		console.log("Step 14/15: Adding campaign schedules...");
+		await addCampaignSchedules(client);
+
+		console.log("─────────────────────────────────────────────────────────────────");
+		console.log("Step 15/16: Adding send caps...");
+		await addSendCaps(client);
+
+		console.log("─────────────────────────────────────────────────────────────────");
+		console.log("Step 16/17: Adding sender pools...");
+		await addSenderPools(client);
+
+		console.log("─────────────────────────────────────────────────────────────────");
+		console.log("Step 17/18: Creating warm-up plans...");
+		await createWarmupPlans(client);
+
+		console.log("─────────────────────────────────────────────────────────────────");
+		console.log("Step 18/19: Adding A/B variants...");
+		await addAbVariants(client);
+
+		console.log("─────────────────────────────────────────────────────────────────");
+		console.log("Step 19/20: Creating dry-run outbox...");
+		await createOutbox(client);
+
+		console.log("─────────────────────────────────────────────────────────────────");
+		console.log("Step 20/21: Adding run continuations...");
+		await addRunContinuations(client);
+
+		console.log("─────────────────────────────────────────────────────────────────");
+		console.log("Step 21/22: Adding buffered verification...");
+		await addBufferedVerification(client);
+
+		console.log("─────────────────────────────────────────────────────────────────");
+		console.log("Step 22/23: Adding circuit breaker...");
+		await addCircuitBreaker(client);
+
+		console.log("─────────────────────────────────────────────────────────────────");
+		console.log("Step 23/24: Creating recipient domain throttle rules...");
+		await createDomainThrottleRules(client);
+
+		console.log("─────────────────────────────────────────────────────────────────");
+		console.log("Step 24/25: Adding lead retry queue...");
+		await addLeadRetries(client);
+
+		console.log("─────────────────────────────────────────────────────────────────");
+		console.log("Step 25/26: Adding campaign archiving...");
+		await addCampaignArchiving(client);
+
+		console.log("─────────────────────────────────────────────────────────────────");
+		console.log("Step 26/27: Creating lead segments...");
+		await createSegments(client);
+
+		console.log("─────────────────────────────────────────────────────────────────");
+		console.log("Step 27/28: Adding contact frequency cap...");
+		await addContactFrequencyCap(client);
+
+		console.log("─────────────────────────────────────────────────────────────────");
+		console.log("Step 28/29: Creating send journal...");
+		await createSendJournal(client);
+
+		console.log("─────────────────────────────────────────────────────────────────");
+		console.log("Step 29/30: Adding delay strategies...");
+		await addDelayStrategies(client);
+
+		console.log("─────────────────────────────────────────────────────────────────");
+		console.log("Step 30/31: Creating webhooks...");
+		await createWebhooks(client);
+
+		console.log("─────────────────────────────────────────────────────────────────");
+		console.log("Step 31/32: Adding body format...");
+		await addBodyFormat(client);
+
+		console.log("─────────────────────────────────────────────────────────────────");
+		console.log("Step 32/33: Adding attachments...");
+		await addAttachments(client);
+
+		console.log("─────────────────────────────────────────────────────────────────");
+		console.log("Step 33/34: Adding mail transports...");
+		await addMailTransports(client);
+
+		console.log("─────────────────────────────────────────────────────────────────");
+		console.log("Step 34/35: Adding campaign send options...");
+		await addSendOptions(client);
+
+		console.log("─────────────────────────────────────────────────────────────────");
+		console.log("Step 35/36: Adding A/B test max wait...");
+		await addAbTestMaxWait(client);
+
 		console.log("─────────────────────────────────────────────────────────────────");
 		console.log("─────────────────────────────────────────────────────────────────");
 		console.log("Step 10/10: Seeding initial data...");
@@ -16,6 +16,16 @@ export const CollectionId = {
 	LOGS: "logs",
 	METRICS: "metrics",
 	SETTINGS: "settings",
+	AWS_METRICS: "aws_metrics",
+	SEND_COUNTERS: "send_counters",
+	WARMUP_PLANS: "warmup_plans",
+	VARIANT_STATS: "variant_stats",
+	OUTBOX: "outbox",
+	DOMAIN_THROTTLE_RULES: "domain_throttle_rules",
+	SEGMENTS: "segments",
+	SEND_JOURNAL: "send_journal",
+	WEBHOOKS: "webhooks",
+	WEBHOOK_DELIVERIES: "webhook_deliveries",
 } as const;
 
 export type CollectionIdType = (typeof CollectionId)[keyof typeof CollectionId];
@@ -23,6 +33,7 @@ export type CollectionIdType = (typeof CollectionId)[keyof typeof CollectionId];
 /** Storage Bucket IDs */
 export const BucketId = {
 	LEAD_IMPORTS: "lead-imports",
+	CAMPAIGN_ATTACHMENTS: "campaign-attachments",
 } as const;
 
 /**
@@ -8,6 +8,7 @@ export const EventType = {
 	// Lead lifecycle events
 	LEAD_IMPORTED: "LEAD_IMPORTED",
 	LEAD_QUEUED: "LEAD_QUEUED",
+	SEGMENT_ASSIGNED: "SEGMENT_ASSIGNED",
 	LEAD_SKIPPED: "LEAD_SKIPPED",
 	LEAD_UNSUBSCRIBED: "LEAD_UNSUBSCRIBED",
 
@@ -21,6 +22,7 @@ export const EventType = {
 	EMAIL_SENDING: "EMAIL_SENDING",
 	EMAIL_SENT: "EMAIL_SENT",
 	EMAIL_FAILED: "EMAIL_FAILED",
+	LEAD_RETRY_SCHEDULED: "LEAD_RETRY_SCHEDULED",
 
 	// SES delivery/tracking events (from SQS)
 	EMAIL_DELIVERED: "EMAIL_DELIVERED",
@@ -42,8 +44,23 @@ export const EventType = {
 	CAMPAIGN_RESUMED: "CAMPAIGN_RESUMED",
 	CAMPAIGN_ABORTING: "CAMPAIGN_ABORTING",
 	CAMPAIGN_ABORTED: "CAMPAIGN_ABORTED",
+	CAMPAIGN_WAITING: "CAMPAIGN_WAITING",
+	CAMPAIGN_CONTINUED: "CAMPAIGN_CONTINUED",
 	CAMPAIGN_COMPLETED: "CAMPAIGN_COMPLETED",
 	CAMPAIGN_ERROR: "CAMPAIGN_ERROR",
+	CAMPAIGN_DRY_RUN_COMPLETED: "CAMPAIGN_DRY_RUN_COMPLETED",
+	CAMPAIGN_ARCHIVED: "CAMPAIGN_ARCHIVED",
+	CAMPAIGN_RESTORED: "CAMPAIGN_RESTORED",
+	CAMPAIGN_DELETED: "CAMPAIGN_DELETED",
+	CIRCUIT_BREAKER_ACKNOWLEDGED: "CIRCUIT_BREAKER_ACKNOWLEDGED",
+
+	// Sender domain warm-up events
+	WARMUP_ADVANCED: "WARMUP_ADVANCED",
+	WARMUP_HELD: "WARMUP_HELD",
+
+	// A/B test events
+	AB_TEST_WINNER_SELECTED: "AB_TEST_WINNER_SELECTED",
+	AB_TEST_NO_CLEAR_WINNER: "AB_TEST_NO_CLEAR_WINNER",
 
 	// System events
 	SYSTEM_STARTUP: "SYSTEM_STARTUP",
@@ -52,6 +69,7 @@ export const EventType = {
 	LOCK_ACQUIRED: "LOCK_ACQUIRED",
 	LOCK_RELEASED: "LOCK_RELEASED",
 	LOCK_BLOCKED: "LOCK_BLOCKED",
+	SCHEDULER_RUN: "SCHEDULER_RUN",
 } as const;
 
 export type EventTypeValue = (typeof EventType)[keyof typeof EventType];
@@ -0,0 +1,266 @@
+/**
+ * Delay Strategies
+ *
+ * Draws the gap between two sends of a campaign. Used by the orchestrator,
+ * which waits out the gap, and by the dashboard, which previews the
+ * distribution as a histogram.
+ *
+ * - GAUSSIAN: Box-Muller normal, clamped to [minDelayMs, maxDelayMs]
+ * - LOG_NORMAL: right-skewed around a median, clamped to the bounds
+ * - POISSON_BURST: exponential gaps inside a burst (a Poisson process);
+ *   after each send the burst ends with probability 1 / meanBurstSize and
+ *   a break between breakMinMs and breakMaxMs is taken instead
+ * - TIME_OF_DAY: Gaussian gaps multiplied by up to offPeakFactor away
+ *   from the peak hours, ramping linearly over rampHours
+ *
+ * With `params.seed` set, the n-th gap comes from a random source derived
+ * from (seed, n), so a run (or a test) can be replayed exactly.
+ */
+
+import { DelayStrategy } from "../constants/status.constants";
+import type { Campaign } from "../types/campaign.types";
+
+/**
+ * Source of uniform random numbers in (0, 1]
+ */
+export type RandomSource = () => number;
+
+/**
+ * Everything that shapes a campaign's delay distribution
+ */
+export type DelayConfig = Pick<
+	Campaign,
+	"minDelayMs" | "maxDelayMs" | "gaussianMean" | "gaussianStdDev" | "delayStrategy" | "delayParams"
+> & {
+	/** Timezone for TIME_OF_DAY when the params don't set one */
+	fallbackTimezone?: string | null;
+};
+
+/**
+ * Defaults for unset strategy parameters
+ */
+export const DELAY_DEFAULTS = {
+	sigma: 0.5,
+	meanBurstSize: 5,
+	breakMinMs: 10 * 60 * 1000,
+	breakMaxMs: 30 * 60 * 1000,
+	peakStartHour: 10,
+	peakEndHour: 16,
+	rampHours: 2,
+	offPeakFactor: 3,
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Delay histogram bucket
+ */
+export interface DelayBucket {
+	fromMs: number;
+	toMs: number;
+	count: number;
+}
+
+/**
+ * Sampled preview of a delay distribution
+ */
+export interface DelayHistogram {
+	buckets: DelayBucket[];
+	sampleSize: number;
+	meanMs: number;
+	medianMs: number;
+	p95Ms: number;
+}
+
+/**
+ * Delay configuration of a campaign
+ */
+export function getDelayConfig(
+	campaign: DelayConfig & Pick<Campaign, "sendingWindow">
+): DelayConfig {
+	return {
+		minDelayMs: campaign.minDelayMs,
+		maxDelayMs: campaign.maxDelayMs,
+		gaussianMean: campaign.gaussianMean,
+		gaussianStdDev: campaign.gaussianStdDev,
+		delayStrategy: campaign.delayStrategy ?? DelayStrategy.GAUSSIAN,
+		delayParams: campaign.delayParams,
+		fallbackTimezone: campaign.sendingWindow?.timezone ?? null,
+	};
+}
+
+/**
+ * Draw one gap between sends.
+ *
+ * @param random - Uniform source (see createSeededRandom for replays)
+ * @param at - When the gap starts (only TIME_OF_DAY looks at it)
+ * @returns Delay in whole milliseconds
+ */
+export function sampleDelay(config: DelayConfig, random: RandomSource, at = new Date()): number {
+	switch (config.delayStrategy) {
+		case DelayStrategy.LOG_NORMAL:
+			return Math.round(sampleLogNormal(config, random));
+		case DelayStrategy.POISSON_BURST:
+			return Math.round(samplePoissonBurst(config, random));
+		case DelayStrategy.TIME_OF_DAY:
+			return Math.round(sampleGaussian(config, random) * getSpeedFactor(config, at));
+		default:
+			return Math.round(sampleGaussian(config, random));
+	}
+}
+
+/**
+ * Random source for the `index`-th gap of a seeded campaign.
+ *
+ * The same (seed, index) always yields the same sequence (mulberry32
+ * seeded with an FNV-1a hash), independent of how many gaps came before.
+ */
+export function createSeededRandom(seed: string, index = 0): RandomSource {
+	let state = hashString(`${seed}:${index}`);
+	return () => {
+		state = (state + 0x6d2b79f5) | 0;
+		let t = Math.imul(state ^ (state >>> 15), 1 | state);
+		t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+		// Shifted off 0 so Math.log() stays finite
+		return (((t ^ (t >>> 14)) >>> 0) + 1) / 0x100000000;
+	};
+}
+
+/**
+ * Sample a distribution into equal-width buckets for preview.
+ *
+ * Gaps are drawn at start times spread over a day, so TIME_OF_DAY shows
+ * its mix of peak and off-peak gaps. Seeded configs draw the same gaps
+ * the campaign would (one per index).
+ */
+export function buildDelayHistogram(
+	config: DelayConfig,
+	sampleSize = 2000,
+	bucketCount = 24
+): DelayHistogram {
+	const seed = config.delayParams?.seed;
+	const dayStart = Date.now();
+	const samples: number[] = [];
+
+	for (let i = 0; i < sampleSize; i++) {
+		const random = seed ? createSeededRandom(seed, i) : () => 1 - Math.random();
+		samples.push(sampleDelay(config, random, new Date(dayStart + (i / sampleSize) * DAY_MS)));
+	}
+	samples.sort((a, b) => a - b);
+
+	const lowest = samples[0] ?? 0;
+	const highest = samples[samples.length - 1] ?? 0;
+	const width = Math.max(1, (highest - lowest) / bucketCount);
+
+	const buckets: DelayBucket[] = Array.from({ length: bucketCount }, (_, i) => ({
+		fromMs: Math.round(lowest + i * width),
+		toMs: Math.round(lowest + (i + 1) * width),
+		count: 0,
+	}));
+	for (const sample of samples) {
+		buckets[Math.min(bucketCount - 1, Math.floor((sample - lowest) / width))].count++;
+	}
+
+	const percentile = (p: number) =>
+		samples[Math.min(samples.length - 1, Math.floor(p * samples.length))] ?? 0;
+
+	return {
+		buckets,
+		sampleSize,
+		meanMs: samples.length ? samples.reduce((a, b) => a + b, 0) / samples.length : 0,
+		medianMs: percentile(0.5),
+		p95Ms: percentile(0.95),
+	};
+}
+
+function sampleGaussian(config: DelayConfig, random: RandomSource): number {
+	const { minDelayMs, maxDelayMs } = config;
+	const mean = config.gaussianMean ?? (minDelayMs + maxDelayMs) / 2;
+	const stdDev = config.gaussianStdDev ?? (maxDelayMs - minDelayMs) / 6;
+
+	return clamp(mean + stdDev * standardNormal(random), minDelayMs, maxDelayMs);
+}
+
+function sampleLogNormal(config: DelayConfig, random: RandomSource): number {
+	const { minDelayMs, maxDelayMs } = config;
+	const median = config.delayParams?.median ?? Math.sqrt(Math.max(minDelayMs, 1) * maxDelayMs);
+	const sigma = config.delayParams?.sigma ?? DELAY_DEFAULTS.sigma;
+
+	return clamp(median * Math.exp(sigma * standardNormal(random)), minDelayMs, maxDelayMs);
+}
+
+function samplePoissonBurst(config: DelayConfig, random: RandomSource): number {
+	const { minDelayMs, maxDelayMs } = config;
+	const params = config.delayParams ?? {};
+	const meanBurstSize = Math.max(1, params.meanBurstSize ?? DELAY_DEFAULTS.meanBurstSize);
+
+	if (random() <= 1 / meanBurstSize) {
+		const breakMinMs = params.breakMinMs ?? DELAY_DEFAULTS.breakMinMs;
+		const breakMaxMs = Math.max(breakMinMs, params.breakMaxMs ?? DELAY_DEFAULTS.breakMaxMs);
+		return breakMinMs + random() * (breakMaxMs - breakMinMs);
+	}
+
+	// Exponential gaps; the mean keeps most of them well inside the bounds
+	const meanGapMs = (maxDelayMs - minDelayMs) / 4;
+	return clamp(minDelayMs - meanGapMs * Math.log(random()), minDelayMs, maxDelayMs);
+}
+
+/**
+ * Gap multiplier at a time of day: 1 during the peak, offPeakFactor from
+ * rampHours before or after it, linear in between.
+ */
+function getSpeedFactor(config: DelayConfig, at: Date): number {
+	const params = config.delayParams ?? {};
+	const peakStartHour = params.peakStartHour ?? DELAY_DEFAULTS.peakStartHour;
+	const peakEndHour = params.peakEndHour ?? DELAY_DEFAULTS.peakEndHour;
+	const rampHours = params.rampHours ?? DELAY_DEFAULTS.rampHours;
+	const offPeakFactor = Math.max(1, params.offPeakFactor ?? DELAY_DEFAULTS.offPeakFactor);
+
+	const hour = getLocalHour(at, params.timezone ?? config.fallbackTimezone ?? "UTC");
+	if (hour >= peakStartHour && hour < peakEndHour) return 1;
+
+	const hoursFromPeak = hour < peakStartHour ? peakStartHour - hour : hour - peakEndHour;
+	if (hoursFromPeak >= rampHours) return offPeakFactor;
+	return 1 + (offPeakFactor - 1) * (hoursFromPeak / rampHours);
+}
+
+/**
+ * Fractional hour of day in a timezone (UTC if the zone is unknown)
+ */
+function getLocalHour(at: Date, timezone: string): number {
+	try {
+		const parts = new Intl.DateTimeFormat("en-US", {
+			timeZone: timezone,
+			hour: "numeric",
+			minute: "numeric",
+			hourCycle: "h23",
+		}).formatToParts(at);
+		const part = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+		return part("hour") + part("minute") / 60;
+	} catch {
+		return at.getUTCHours() + at.getUTCMinutes() / 60;
+	}
+}
+
+/**
+ * Standard normal value from the Box-Muller transform
+ */
+function standardNormal(random: RandomSource): number {
+	return Math.sqrt(-2 * Math.log(random())) * Math.cos(2 * Math.PI * random());
+}
+
+function clamp(value: number, min: number, max: number): number {
+	return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function hashString(value: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < value.length; i++) {
+		hash ^= value.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
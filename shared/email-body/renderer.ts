@@ -0,0 +1,335 @@
+/**
+ * Email Body Renderer
+ *
+ * Turns a resolved body template (spintax and variables already applied)
+ * into the two parts of a multipart/alternative email: sanitized HTML and
+ * a plain-text rendering of it. Used by the orchestrator when sending and
+ * by the template editor's live preview.
+ *
+ * - MARKDOWN: a subset of Markdown. Raw HTML in the source is escaped, so
+ *   the output only ever contains the tags the renderer writes itself.
+ * - RICH_TEXT: plain text or HTML. Text with none of ALLOWED_TAGS is
+ *   plain text and escaped whole, so "Reply to <a@b.com>" keeps the
+ *   address. In HTML, tags outside ALLOWED_TAGS are dropped (keeping their
+ *   text), attributes other than a safe link href are removed, and text
+ *   without block tags gets paragraphs and line breaks.
+ */
+
+import { BodyFormat, type BodyFormatType } from "../constants/status.constants";
+
+/**
+ * HTML and plain-text parts of an email body
+ */
+export interface RenderedBody {
+	html: string;
+	text: string;
+}
+
+/**
+ * Tags kept by the rich-text sanitizer
+ */
+const ALLOWED_TAGS = new Set([
+	"a",
+	"b",
+	"blockquote",
+	"br",
+	"code",
+	"div",
+	"em",
+	"h1",
+	"h2",
+	"h3",
+	"hr",
+	"i",
+	"li",
+	"ol",
+	"p",
+	"s",
+	"span",
+	"strong",
+	"u",
+	"ul",
+]);
+
+const VOID_TAGS = new Set(["br", "hr"]);
+
+/**
+ * Tags whose content is dropped along with them
+ */
+const DROPPED_CONTENT = /<(script|style|head|title|iframe|object)\b[^>]*>[\s\S]*?<\/\1\s*>/gi;
+
+const BLOCK_TAG = /<\/?(p|div|ul|ol|li|h[1-3]|blockquote|hr|br)(?=[\s/>])/i;
+
+/**
+ * Any of ALLOWED_TAGS; a name must end the way a tag's does, so text in
+ * angle brackets such as "<a@b.com>" is not taken for one
+ */
+const HTML_TAG = new RegExp(`<\\/?(${[...ALLOWED_TAGS].join("|")})(?=[\\s/>])`, "i");
+
+const SAFE_URL = /^(https?:|mailto:)/i;
+
+/**
+ * Markdown block being collected line by line
+ */
+interface OpenBlock {
+	tag: "p" | "blockquote" | "ul" | "ol";
+	lines: string[];
+}
+
+type MarkdownLine =
+	| { kind: "blank" | "rule" }
+	| { kind: "heading"; level: number; text: string }
+	| { kind: "quote" | "paragraph" | "continuation"; text: string }
+	| { kind: "item"; tag: "ul" | "ol"; text: string };
+
+const INLINE_MARKDOWN =
+	/`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)|\*\*([^*]+)\*\*|__([^_]+)__|\*([^*\s][^*]*)\*|(?<!\w)_([^_\s][^_]*)_(?!\w)|(https?:\/\/[^\s<]*[^\s<.,;:!?)\]'"])/g;
+
+/**
+ * Render a resolved body to sanitized HTML and its plain-text alternative.
+ */
+export function renderEmailBody(
+	body: string,
+	format: BodyFormatType = BodyFormat.RICH_TEXT
+): RenderedBody {
+	const html = format === BodyFormat.MARKDOWN ? markdownToHtml(body) : richTextToHtml(body);
+	return { html, text: htmlToText(html) };
+}
+
+/**
+ * Render the supported Markdown subset to HTML.
+ *
+ * Blocks: paragraphs (single newlines become <br>), # to ### headings,
+ * - / * / 1. lists, > quotes and --- rules. Inline: **bold**, *italic*,
+ * `code`, [links](https://...) and bare http(s) URLs.
+ */
+export function markdownToHtml(markdown: string): string {
+	const blocks: string[] = [];
+	// Reassigned inside the helpers, so not narrowed by the initializer
+	let open = null as OpenBlock | null;
+
+	const flush = () => {
+		if (open) blocks.push(renderBlock(open));
+		open = null;
+	};
+	const append = (tag: OpenBlock["tag"], text: string) => {
+		if (open?.tag !== tag) {
+			flush();
+			open = { tag, lines: [] };
+		}
+		open?.lines.push(text);
+	};
+
+	for (const rawLine of markdown.replace(/\r\n?/g, "\n").split("\n")) {
+		const line = classifyLine(rawLine.trimEnd());
+		switch (line.kind) {
+			case "blank":
+				flush();
+				break;
+			case "rule":
+				flush();
+				blocks.push("<hr>");
+				break;
+			case "heading":
+				flush();
+				blocks.push(`<h${line.level}>${renderInline(line.text)}</h${line.level}>`);
+				break;
+			case "quote":
+				append("blockquote", line.text);
+				break;
+			case "item":
+				append(line.tag, line.text);
+				break;
+			case "continuation":
+				// Indented line: more of the previous list item
+				if (open?.tag === "ul" || open?.tag === "ol") {
+					open.lines[open.lines.length - 1] += ` ${line.text}`;
+				} else {
+					append("p", line.text);
+				}
+				break;
+			default:
+				append("p", line.text);
+		}
+	}
+	flush();
+
+	return blocks.join("\n");
+}
+
+/**
+ * Sanitize rich text (plain text or basic HTML) into safe HTML.
+ */
+export function richTextToHtml(richText: string): string {
+	const source = richText.replace(/\r\n?/g, "\n");
+	const isHtml = HTML_TAG.test(source);
+	if (isHtml && BLOCK_TAG.test(source)) return sanitizeHtml(source);
+
+	// Plain text (or inline-only markup): blank lines separate paragraphs
+	const inline = isHtml ? sanitizeHtml : escapeText;
+	return source
+		.split(/\n\s*\n/)
+		.map((block) => block.trim())
+		.filter(Boolean)
+		.map((block) => `<p>${inline(block).replace(/\n/g, "<br>")}</p>`)
+		.join("\n");
+}
+
+/**
+ * Keep only ALLOWED_TAGS, without attributes except a safe `href` on links.
+ */
+export function sanitizeHtml(html: string): string {
+	const source = html.replace(/<!--[\s\S]*?-->/g, "").replace(DROPPED_CONTENT, "");
+	const tagPattern = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)(?=[\s/>])((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+	let output = "";
+	let lastIndex = 0;
+
+	for (const match of source.matchAll(tagPattern)) {
+		output += escapeText(source.slice(lastIndex, match.index));
+		lastIndex = (match.index ?? 0) + match[0].length;
+
+		const [, closing, rawName, attributes] = match;
+		const name = rawName.toLowerCase();
+		if (!ALLOWED_TAGS.has(name)) continue;
+
+		if (VOID_TAGS.has(name)) {
+			output += `<${name}>`;
+		} else if (closing) {
+			output += `</${name}>`;
+		} else if (name === "a") {
+			const href = attributes.match(/\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i);
+			const url = decodeEntities(href?.[1] ?? href?.[2] ?? href?.[3] ?? "").trim();
+			output += SAFE_URL.test(url) ? `<a href="${escapeHtml(url)}">` : "<a>";
+		} else {
+			output += `<${name}>`;
+		}
+	}
+
+	return output + escapeText(source.slice(lastIndex));
+}
+
+/**
+ * Plain-text rendering of HTML for the text/plain part.
+ *
+ * Blocks are separated by blank lines, list items get "- " or "1. ",
+ * and links are written as "text (url)".
+ */
+export function htmlToText(html: string): string {
+	const text = html
+		.replace(/\s+/g, " ")
+		.replace(/<ol>([\s\S]*?)<\/ol>/gi, (_, items: string) => {
+			let index = 0;
+			return `\n\n${items.replace(/<li>/gi, () => `\n${++index}. `)}\n\n`;
+		})
+		.replace(/<li>/gi, "\n- ")
+		.replace(/<a href="([^"]*)">([\s\S]*?)<\/a>/gi, (_, href: string, label: string) => {
+			const url = decodeEntities(href);
+			const labelText = decodeEntities(label.replace(/<[^>]*>/g, "")).trim();
+			return !labelText || labelText === url ? url : `${labelText} (${url})`;
+		})
+		.replace(/<br\s*\/?>/gi, "\n")
+		.replace(/<hr\s*\/?>/gi, "\n\n---\n\n")
+		.replace(/<\/?(p|div|ul|ol|h[1-3]|blockquote)\b[^>]*>/gi, "\n\n")
+		.replace(/<[^>]*>/g, "");
+
+	return decodeEntities(text)
+		.split("\n")
+		.map((line) => line.trim())
+		.join("\n")
+		.replace(/\n{3,}/g, "\n\n")
+		.trim();
+}
+
+function classifyLine(line: string): MarkdownLine {
+	if (!line.trim()) return { kind: "blank" };
+	if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) return { kind: "rule" };
+
+	const heading = line.match(/^(#{1,6})\s+(.*)$/);
+	if (heading) return { kind: "heading", level: Math.min(heading[1].length, 3), text: heading[2] };
+
+	const quoted = line.match(/^>\s?(.*)$/);
+	if (quoted) return { kind: "quote", text: quoted[1] };
+
+	const bullet = line.match(/^\s*[-*+]\s+(.*)$/);
+	if (bullet) return { kind: "item", tag: "ul", text: bullet[1] };
+
+	const numbered = line.match(/^\s*\d+[.)]\s+(.*)$/);
+	if (numbered) return { kind: "item", tag: "ol", text: numbered[1] };
+
+	return { kind: /^\s/.test(line) ? "continuation" : "paragraph", text: line.trim() };
+}
+
+function renderBlock({ tag, lines }: OpenBlock): string {
+	if (tag === "ul" || tag === "ol") {
+		return `<${tag}>${lines.map((line) => `<li>${renderInline(line)}</li>`).join("")}</${tag}>`;
+	}
+
+	const content = lines.map(renderInline).join("<br>");
+	return tag === "blockquote" ? `<blockquote><p>${content}</p></blockquote>` : `<p>${content}</p>`;
+}
+
+function renderInline(text: string): string {
+	let output = "";
+	let lastIndex = 0;
+
+	for (const match of text.matchAll(INLINE_MARKDOWN)) {
+		output += escapeHtml(text.slice(lastIndex, match.index)) + renderInlineMatch(match);
+		lastIndex = (match.index ?? 0) + match[0].length;
+	}
+
+	return output + escapeHtml(text.slice(lastIndex));
+}
+
+function renderInlineMatch(match: RegExpMatchArray): string {
+	const [, code, label, href, strong, strongAlt, em, emAlt, url] = match;
+
+	if (code !== undefined) return `<code>${escapeHtml(code)}</code>`;
+	if (label !== undefined) {
+		return SAFE_URL.test(href)
+			? `<a href="${escapeHtml(href)}">${renderInline(label)}</a>`
+			: renderInline(label);
+	}
+	if (strong !== undefined || strongAlt !== undefined) {
+		return `<strong>${renderInline(strong ?? strongAlt)}</strong>`;
+	}
+	if (em !== undefined || emAlt !== undefined) return `<em>${renderInline(em ?? emAlt)}</em>`;
+	return `<a href="${escapeHtml(url)}">${escapeHtml(url)}</a>`;
+}
+
+function escapeHtml(value: string): string {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&#39;");
+}
+
+/**
+ * Escape text outside tags, leaving existing entities alone
+ */
+function escapeText(value: string): string {
+	return value
+		.replace(/&(?!#?[a-zA-Z0-9]+;)/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;");
+}
+
+function decodeEntities(value: string): string {
+	const named: Record<string, string> = {
+		amp: "&",
+		lt: "<",
+		gt: ">",
+		quot: '"',
+		apos: "'",
+		nbsp: " ",
+	};
+	return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+		if (code[0] !== "#") return named[code.toLowerCase()] ?? entity;
+		const point =
+			code[1] === "x" || code[1] === "X"
+				? Number.parseInt(code.slice(2), 16)
+				: Number(code.slice(1));
+		return Number.isFinite(point) && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+	});
+}
@@ -9,19 +9,36 @@
  * ╚═══════════════════════════════════════════════════════════════════════════╝
  */
 
+// Attachments
+export * from "./attachments/limits";
 export * from "./constants/collection.constants";
 export * from "./constants/event.constants";
 // Constants
 export * from "./constants/status.constants";
+// Delay Strategies
+export * from "./delay/strategies";
+// Email Bodies
+export * from "./email-body/renderer";
 // Spintax
 export * from "./spintax/resolver";
 export * from "./spintax/variable-injector";
+export * from "./types/aws-metrics.types";
 export * from "./types/campaign.types";
+export * from "./types/domain-throttle-rule.types";
 // Types
 export * from "./types/lead.types";
 export * from "./types/log.types";
 export * from "./types/metrics.types";
+export * from "./types/outbox.types";
+export * from "./types/segment.types";
+export * from "./types/send-counter.types";
+export * from "./types/send-journal.types";
 export * from "./types/settings.types";
 export * from "./types/staged-lead.types";
+export * from "./types/variant-stats.types";
+export * from "./types/warmup-plan.types";
+export * from "./types/webhook.types";
 // Validation
 export * from "./validation/lead-validator";
+export * from "./validation/send-options";
+export * from "./validation/sending-window";
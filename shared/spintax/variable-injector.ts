@@ -26,7 +26,14 @@ type VariableMap = Record<string, string>;
 
 export const REQUIRED_VARIABLES = ["UnsubscribeLink"];
 
-export const AVAILABLE_VARIABLES = ["FirstName", "FullName", "Company", "Email", "UnsubscribeLink"];
+export const AVAILABLE_VARIABLES = [
+	"FirstName",
+	"FullName",
+	"Company",
+	"Email",
+	"LeadType",
+	"UnsubscribeLink",
+];
 
 /**
  * Inject template variables into a resolved template.
@@ -54,6 +61,7 @@ export function buildTemplateVariables(lead: Lead, unsubscribeLink: string): Tem
 		fullName: lead.fullName,
 		company: lead.companyName,
 		email: lead.email,
+		leadType: lead.leadType ?? "",
 		unsubscribeLink,
 	};
 }
@@ -67,6 +75,7 @@ export function templateVariablesToMap(vars: TemplateVariables): VariableMap {
 		fullname: vars.fullName,
 		company: vars.company,
 		email: vars.email,
+		leadtype: vars.leadType,
 		unsubscribelink: vars.unsubscribeLink,
 	};
 }
@@ -116,15 +125,20 @@ export function extractVariables(template: string): string[] {
 
 /**
  * Generate an unsubscribe link with HMAC token.
+ *
+ * @param functionUrl - Public domain URL of the unsubscribe-lead function.
+ *                      Requests to the domain reach the function with their
+ *                      query and body, which a one-click POST from the
+ *                      List-Unsubscribe header needs; the REST executions
+ *                      endpoint does not pass them through.
  */
 export function generateUnsubscribeLink(
-	baseUrl: string,
-	functionId: string,
+	functionUrl: string,
 	leadId: string,
 	secret: string
 ): string {
 	const token = generateHmacToken(leadId, secret);
-	return `${baseUrl}/v1/functions/${functionId}/executions?leadId=${encodeURIComponent(leadId)}&token=${encodeURIComponent(token)}`;
+	return `${functionUrl.replace(/\/+$/, "")}/?leadId=${encodeURIComponent(leadId)}&token=${encodeURIComponent(token)}`;
 }
 
 /**
@@ -0,0 +1,52 @@
+/**
+ * AWS Metrics Document Interface
+ *
+ * Latest SES account snapshot written by the fetch-aws-metrics function.
+ * The orchestrator reads the quota fields to stay under SES limits.
+ */
+export interface AwsMetrics {
+	/** Appwrite document ID */
+	$id: string;
+
+	/** Document creation timestamp */
+	$createdAt: string;
+
+	/** Document last update timestamp */
+	$updatedAt: string;
+
+	/** SES Max24HourSend */
+	sendQuotaMax24Hour: number;
+
+	/** SES SentLast24Hours at fetch time */
+	sendQuotaSentLast24Hours: number;
+
+	/** SES MaxSendRate (emails per second) */
+	sendQuotaMaxPerSecond: number;
+
+	/** Account has left the SES sandbox */
+	productionAccess: boolean;
+
+	/** SES enforcement status (e.g., "HEALTHY", "PROBATION") */
+	enforcementStatus: string;
+
+	/** Reputation score if available */
+	reputationScore?: number;
+
+	/** Addresses on the account-level suppression list */
+	suppressionListCount: number;
+
+	/** Send statistics (last 24 hours) */
+	deliveryAttempts: number;
+	bounces: number;
+	complaints: number;
+	rejects: number;
+
+	/** Bounce rate percentage */
+	bounceRate: number;
+
+	/** Complaint rate percentage */
+	complaintRate: number;
+
+	/** When the snapshot was taken */
+	fetchedAt: string;
+}
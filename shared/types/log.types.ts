@@ -68,6 +68,7 @@ export interface TemplateVariables {
 	fullName: string;
 	company: string;
 	email: string;
+	leadType: string;
 	unsubscribeLink: string;
 	[key: string]: string;
 }
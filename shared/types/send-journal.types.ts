@@ -0,0 +1,73 @@
+import type { SendJournalStatusType } from "../constants/status.constants";
+
+/**
+ * Send Journal Entry Document Interface
+ *
+ * One SES send attempt. The intent is written before SES is called and
+ * the result after it returns, so a crash in between can be reconciled
+ * instead of resending. The document ID is the attempt's idempotency key,
+ * which also travels to SES as the idempotency_key tag and comes back on
+ * its Send event.
+ */
+export interface SendJournalEntry {
+	/** Idempotency key (client-generated UUID) */
+	$id: string;
+
+	/** Document creation timestamp (intent recorded) */
+	$createdAt: string;
+
+	/** Document last update timestamp */
+	$updatedAt: string;
+
+	/** Lead being emailed */
+	leadId: string;
+
+	/** Campaign sending it */
+	campaignId: string;
+
+	/** Sequence step being sent (0 = initial email) */
+	sequenceStep: number;
+
+	/** Recipient address */
+	recipientEmail: string;
+
+	/** Sender mailbox picked for the attempt */
+	senderEmail: string;
+
+	/** A/B variant of an initial email */
+	variantId: string | null;
+
+	/** Attempt outcome */
+	status: SendJournalStatusType;
+
+	/** SES message ID once known (from the API response or the Send event) */
+	sesMessageId: string | null;
+
+	/** SES error for FAILED attempts */
+	errorMessage: string | null;
+
+	/** When the outcome was recorded */
+	completedAt: string | null;
+}
+
+/**
+ * Send Journal Create Input
+ */
+export interface SendJournalCreateInput {
+	idempotencyKey: string;
+	leadId: string;
+	campaignId: string;
+	sequenceStep: number;
+	recipientEmail: string;
+	senderEmail: string;
+	variantId?: string | null;
+}
+
+/**
+ * Send Journal Result Input
+ */
+export interface SendJournalResultInput {
+	status: SendJournalStatusType;
+	sesMessageId?: string | null;
+	errorMessage?: string | null;
+}
@@ -0,0 +1,60 @@
+/**
+ * Variant Stats Document Interface
+ *
+ * Per-variant A/B test results for a campaign. Sends are counted by the
+ * orchestrator, SES events by the SQS poller (via the variant_id email tag)
+ * and replies when a lead is marked as replied.
+ */
+export interface VariantStats {
+	/** Deterministic ID derived from campaign and variant */
+	$id: string;
+
+	/** Document creation timestamp */
+	$createdAt: string;
+
+	/** Document last update timestamp */
+	$updatedAt: string;
+
+	/** Campaign the variant belongs to */
+	campaignId: string;
+
+	/** CampaignVariant.id */
+	variantId: string;
+
+	/** Initial emails sent with this variant */
+	sent: number;
+
+	/** Delivered to the recipient's mail server */
+	delivered: number;
+
+	/** Opens (tracking pixel) */
+	opens: number;
+
+	/** Link clicks */
+	clicks: number;
+
+	/** Bounces (hard + soft) */
+	bounces: number;
+
+	/** Spam complaints */
+	complaints: number;
+
+	/** Leads that replied */
+	replies: number;
+
+	/** Last increment timestamp */
+	lastUpdatedAt: string;
+}
+
+/**
+ * Variant Stats Increment Input
+ */
+export interface VariantStatsIncrementInput {
+	sent?: number;
+	delivered?: number;
+	opens?: number;
+	clicks?: number;
+	bounces?: number;
+	complaints?: number;
+	replies?: number;
+}
@@ -0,0 +1,143 @@
+/**
+ * Send Options Validation
+ *
+ * Rules for a campaign's Reply-To address, custom headers, SES
+ * configuration set and email tags. Used by the dashboard before saving
+ * and by the orchestrator before a campaign sends.
+ *
+ * Custom headers cannot replace the ones the sender writes itself, and
+ * custom tags cannot replace the ones the sqs-poller matches events by.
+ * SES only accepts ASCII letters, digits, "_" and "-" in tag names and
+ * values, so values filled in from template variables are cleaned up by
+ * resolveEmailTags().
+ */
+
+import { injectVariables } from "../spintax/variable-injector";
+import type { Campaign } from "../types/campaign.types";
+
+/** Most custom headers one campaign may add */
+export const MAX_CUSTOM_HEADERS = 20;
+
+/** Most custom tags one campaign may add (SES allows 50 including the built-in ones) */
+export const MAX_EMAIL_TAGS = 20;
+
+/** Headers written by the MIME builder and transports, in lower case */
+export const RESERVED_HEADERS = [
+	"bcc",
+	"cc",
+	"date",
+	"from",
+	"list-unsubscribe",
+	"list-unsubscribe-post",
+	"message-id",
+	"mime-version",
+	"reply-to",
+	"return-path",
+	"sender",
+	"subject",
+	"to",
+];
+
+/** Tags every SES send carries */
+export const RESERVED_TAGS = ["campaign_id", "lead_id", "variant_id", "idempotency_key"];
+
+/** SES limit for a tag name or value */
+const MAX_TAG_LENGTH = 256;
+
+/** Printable ASCII except ":" (RFC 5322 field name) */
+const HEADER_NAME = /^[!-9;-~]+$/;
+
+const TAG_CHARACTERS = /^[A-Za-z0-9_-]*$/;
+
+const CONFIGURATION_SET = /^[A-Za-z0-9_-]{1,64}$/;
+
+const EMAIL_ADDRESS = /^[^\s@<>",;]+@[^\s@<>",;]+\.[^\s@<>",;]+$/;
+
+const TEMPLATE_VARIABLE = /\{\{\w+\}\}/g;
+
+/**
+ * Campaign fields that shape how each email is sent
+ */
+export type SendOptions = Pick<
+	Campaign,
+	"replyTo" | "customHeaders" | "sesConfigurationSet" | "emailTags"
+>;
+
+/**
+ * Check a campaign's send options.
+ *
+ * @returns Reason the options are rejected, or null if they are valid
+ */
+export function validateSendOptions(options: SendOptions): string | null {
+	if (options.replyTo && !EMAIL_ADDRESS.test(options.replyTo)) {
+		return "Reply-To must be a single email address";
+	}
+	if (options.sesConfigurationSet && !CONFIGURATION_SET.test(options.sesConfigurationSet)) {
+		return "Configuration set names use letters, digits, _ and - (64 at most)";
+	}
+	return (
+		validateCustomHeaders(options.customHeaders ?? {}) ?? validateEmailTags(options.emailTags ?? {})
+	);
+}
+
+/**
+ * Whether a header is written by the sender (Content-* included)
+ */
+export function isReservedHeader(name: string): boolean {
+	const lower = name.toLowerCase();
+	return (
+		RESERVED_HEADERS.includes(lower) ||
+		lower.startsWith("content-") ||
+		lower.startsWith("x-pivotr-")
+	);
+}
+
+/**
+ * A campaign's tags for one lead: variables filled in, characters SES
+ * rejects replaced with "_", and tags left empty dropped.
+ */
+export function resolveEmailTags(
+	tags: Record<string, string>,
+	variables: Record<string, string>
+): Record<string, string> {
+	const resolved: Record<string, string> = {};
+	for (const [name, template] of Object.entries(tags)) {
+		const value = injectVariables(template, variables)
+			.replace(/[^A-Za-z0-9_-]/g, "_")
+			.slice(0, MAX_TAG_LENGTH);
+		if (value) resolved[name] = value;
+	}
+	return resolved;
+}
+
+function validateCustomHeaders(headers: Record<string, string>): string | null {
+	const entries = Object.entries(headers);
+	if (entries.length > MAX_CUSTOM_HEADERS) {
+		return `At most ${MAX_CUSTOM_HEADERS} custom headers are allowed`;
+	}
+	for (const [name, value] of entries) {
+		if (!HEADER_NAME.test(name)) return `"${name}" is not a valid header name`;
+		if (isReservedHeader(name)) return `${name} is set by the sender and cannot be overridden`;
+		if (/[\r\n]/.test(value)) return `${name} must fit on one line`;
+	}
+	return null;
+}
+
+/**
+ * Tag values are checked with their {{Variables}} left out; what the
+ * variables fill in is cleaned up when the tags are resolved
+ */
+function validateEmailTags(tags: Record<string, string>): string | null {
+	const entries = Object.entries(tags);
+	if (entries.length > MAX_EMAIL_TAGS) return `At most ${MAX_EMAIL_TAGS} tags are allowed`;
+	for (const [name, value] of entries) {
+		if (!name || name.length > MAX_TAG_LENGTH || !TAG_CHARACTERS.test(name)) {
+			return `Tag "${name}" may only use letters, digits, _ and -`;
+		}
+		if (RESERVED_TAGS.includes(name)) return `Tag ${name} is set by the sender`;
+		if (!TAG_CHARACTERS.test(value.replace(TEMPLATE_VARIABLE, ""))) {
+			return `Tag ${name} may only use letters, digits, _, - and {{Variables}}`;
+		}
+	}
+	return null;
+}
@@ -0,0 +1,44 @@
+/**
+ * Sending Window Validation
+ *
+ * Rules for a campaign's sending window. Used when a campaign is saved
+ * and by the orchestrator before a campaign starts, so a window the send
+ * loop cannot evaluate never reaches a running campaign.
+ */
+
+import type { SendingWindow } from "../types/campaign.types";
+
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Whether the runtime recognises an IANA timezone name.
+ */
+export function isValidTimezone(timezone: string): boolean {
+	try {
+		new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Check a campaign's sending window.
+ *
+ * @returns Reason the window is rejected, or null if it is valid
+ */
+export function validateSendingWindow(window: SendingWindow): string | null {
+	if (!Array.isArray(window.days) || window.days.length === 0) {
+		return "Sending window needs at least one day";
+	}
+	if (!window.days.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)) {
+		return "Sending window days must be 0 (Sunday) to 6 (Saturday)";
+	}
+	if (!TIME.test(window.startTime) || !TIME.test(window.endTime)) {
+		return "Sending window times must be HH:mm";
+	}
+	if (!window.timezone || !isValidTimezone(window.timezone)) {
+		return `"${window.timezone}" is not a recognised timezone`;
+	}
+	return null;
+}